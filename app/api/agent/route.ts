@@ -1,39 +1,113 @@
 import { NextResponse } from "next/server";
-import { runGoToMarketAgent, type GTMRequest } from "@/lib/agent";
-
-const requiredFields: Array<keyof GTMRequest> = [
-  "productName",
-  "productSummary",
-  "audience",
-  "problem",
-  "differentiation",
-  "pricing",
-  "brandVoice",
-  "primaryGoal",
-  "successMetric",
-  "launchHorizon",
-];
+import { runGoToMarketAgent, type AgentOptions, type AgentRun, type GTMRequest } from "@/lib/agent";
+import { saveBlueprint } from "@/lib/history";
+import { isLockedContent, type LockedContent } from "@/lib/locks";
+import { loadCustomArchetypes } from "@/lib/personaConfig";
+import { createProviderFromEnv } from "@/lib/providers";
+import { EVENT_STREAM_TYPE, encodeEvent } from "@/lib/stream";
+import { invalidJson, isJsonObject, parseBrief, readJsonBody } from "@/lib/validation";
 
 export async function POST(request: Request) {
-  const payload = (await request.json()) as Partial<GTMRequest>;
+  const json = await readJsonBody(request);
+  if (!json) {
+    return NextResponse.json(invalidJson, { status: 400 });
+  }
 
-  const missing = requiredFields.filter((field) => {
-    const value = payload[field];
-    return typeof value !== "string" || value.trim().length === 0;
-  });
+  // Locked content rides along with the brief but is not part of it.
+  const { locked, ...fields }: Record<string, unknown> = isJsonObject(json.body) ? json.body : {};
+  const parsed = parseBrief(isJsonObject(json.body) ? fields : json.body);
+  if (!parsed.ok) {
+    return NextResponse.json(parsed.error, { status: 400 });
+  }
+  const payload = parsed.brief;
 
-  if (missing.length) {
+  if (locked !== undefined && !isLockedContent(locked)) {
     return NextResponse.json(
       {
         error: "validation_error",
-        message: "Missing required fields.",
-        missing,
+        message:
+          "Locked content must be { sections?, items? } holding sections and { index, value } items as the agent returned them.",
+        invalid: ["locked"],
       },
       { status: 400 },
     );
   }
 
-  const response = runGoToMarketAgent(payload as GTMRequest);
+  const options: AgentOptions = {
+    provider: createProviderFromEnv(),
+    customArchetypes: await loadCustomArchetypes(),
+    locked: locked as LockedContent | undefined,
+  };
+
+  if (request.headers.get("accept")?.includes(EVENT_STREAM_TYPE)) {
+    return streamBlueprint(payload, options);
+  }
+
+  const run = await runGoToMarketAgent(payload, options);
+  const historyId = await recordRun(payload, run);
+
+  return NextResponse.json({
+    ...run.blueprint,
+    provenance: run.provenance,
+    trace: run.trace,
+    warnings: run.warnings,
+    historyId,
+  });
+}
 
-  return NextResponse.json(response);
+/**
+ * History is best-effort: a read-only filesystem should not cost the caller
+ * their blueprint.
+ */
+async function recordRun(payload: GTMRequest, run: AgentRun) {
+  try {
+    const record = await saveBlueprint(payload, run.blueprint, run.provenance);
+    return record.id;
+  } catch (err) {
+    console.error("Failed to save blueprint history", err);
+    return null;
+  }
+}
+
+/**
+ * Emits one `section` event per blueprint section as it resolves, then a
+ * `done` event carrying the provenance map, rule trace, plan warnings and
+ * history id.
+ */
+function streamBlueprint(payload: GTMRequest, options: AgentOptions) {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(encodeEvent(event, data)));
+
+      try {
+        const run = await runGoToMarketAgent(payload, {
+          ...options,
+          onSection: (section, value, source) => send("section", { section, value, source }),
+        });
+        send("done", {
+          provenance: run.provenance,
+          trace: run.trace,
+          warnings: run.warnings,
+          historyId: await recordRun(payload, run),
+        });
+      } catch (err) {
+        send("error", {
+          message: err instanceof Error ? err.message : "Failed to generate plan.",
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": EVENT_STREAM_TYPE,
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
 }
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { openShareLink, revokeShareLink } from "@/lib/shares";
+
+export const dynamic = "force-dynamic";
+
+const goneMessages = {
+  expired: "This share link has expired.",
+  revoked: "This share link has been revoked.",
+};
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const lookup = await openShareLink(params.id);
+
+  if (lookup.status === "not_found") {
+    return NextResponse.json(
+      { error: "not_found", message: "Blueprint not found." },
+      { status: 404 },
+    );
+  }
+
+  if (lookup.status !== "active") {
+    return NextResponse.json(
+      { error: lookup.status, message: goneMessages[lookup.status] },
+      { status: 410 },
+    );
+  }
+
+  return NextResponse.json(lookup.shared);
+}
+
+const REVOKE_TOKEN_HEADER = "x-revoke-token";
+
+/**
+ * `DELETE /api/blueprints/<share id>` with the `X-Revoke-Token` header set to
+ * the token returned when the link was created.
+ */
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const revokeToken = request.headers.get(REVOKE_TOKEN_HEADER)?.trim() ?? "";
+
+  if (!revokeToken) {
+    return NextResponse.json(
+      {
+        error: "validation_error",
+        message: "Send the revoke token returned when the link was created as X-Revoke-Token.",
+        missing: ["revokeToken"],
+      },
+      { status: 400 },
+    );
+  }
+
+  const result = await revokeShareLink(params.id, revokeToken);
+
+  if (result.status === "not_found") {
+    return NextResponse.json(
+      { error: "not_found", message: "Share link not found." },
+      { status: 404 },
+    );
+  }
+
+  if (result.status === "forbidden") {
+    return NextResponse.json(
+      { error: "forbidden", message: "The revoke token doesn't match this link." },
+      { status: 403 },
+    );
+  }
+
+  return NextResponse.json(result.share);
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { isBlueprintId } from "@/lib/history";
+import {
+  createShareLink,
+  isShareDays,
+  listShareLinks,
+  MAX_SHARE_DAYS,
+  shareStatus,
+} from "@/lib/shares";
+import { invalidJson, readJsonBody } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+/** Share links for one saved blueprint: `GET /api/blueprints?blueprint=<history id>`. */
+export async function GET(request: Request) {
+  const blueprintId = new URL(request.url).searchParams.get("blueprint") ?? "";
+
+  if (!isBlueprintId(blueprintId)) {
+    return NextResponse.json(
+      {
+        error: "validation_error",
+        message: "Pass the history ID of a saved blueprint as ?blueprint=.",
+        invalid: ["blueprint"],
+      },
+      { status: 400 },
+    );
+  }
+
+  const shares = await listShareLinks(blueprintId);
+
+  return NextResponse.json({
+    shares: shares.map((share) => ({ ...share, status: shareStatus(share) })),
+  });
+}
+
+export async function POST(request: Request) {
+  const json = await readJsonBody(request);
+  if (!json) {
+    return NextResponse.json(invalidJson, { status: 400 });
+  }
+
+  const { blueprintId, expiresInDays } = (json.body ?? {}) as {
+    blueprintId?: unknown;
+    expiresInDays?: unknown;
+  };
+
+  if (typeof blueprintId !== "string" || !isBlueprintId(blueprintId)) {
+    return NextResponse.json(
+      {
+        error: "validation_error",
+        message: "A blueprintId from the history is required.",
+        missing: ["blueprintId"],
+      },
+      { status: 400 },
+    );
+  }
+
+  if (expiresInDays !== undefined && expiresInDays !== null && !isShareDays(expiresInDays)) {
+    return NextResponse.json(
+      {
+        error: "validation_error",
+        message: `expiresInDays must be a whole number of days from 1 to ${MAX_SHARE_DAYS}, or omitted for a link that doesn't expire.`,
+        invalid: ["expiresInDays"],
+      },
+      { status: 400 },
+    );
+  }
+
+  const share = await createShareLink(blueprintId, expiresInDays ?? undefined);
+
+  if (!share) {
+    return NextResponse.json(
+      { error: "not_found", message: "Blueprint not found." },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json(share, { status: 201 });
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import type { GTMResponse } from "@/lib/agent";
+import { buildContentDrafts, regenerateContentDraft } from "@/lib/content";
+import { isValidSection } from "@/lib/shape";
+import { invalidJson, parseBrief, readJsonBody } from "@/lib/validation";
+
+type ContentPayload = {
+  request?: unknown;
+  blueprint?: Partial<GTMResponse>;
+  /** When set, only this draft is regenerated with `variant`. */
+  draftId?: unknown;
+  variant?: unknown;
+};
+
+const contentSections = ["messagingPillars", "personaInsights", "channelStrategy"] as const;
+
+export async function POST(request: Request) {
+  const json = await readJsonBody(request);
+  if (!json) {
+    return NextResponse.json(invalidJson, { status: 400 });
+  }
+
+  const { request: rawBrief, blueprint, draftId, variant } = (json.body ?? {}) as ContentPayload;
+
+  const invalidSections = contentSections.filter(
+    (section) => !isValidSection(section, blueprint?.[section]),
+  );
+
+  if (invalidSections.length) {
+    return NextResponse.json(
+      {
+        error: "validation_error",
+        message: "A blueprint with pillars, personas and channels is required.",
+        invalidSections,
+      },
+      { status: 400 },
+    );
+  }
+
+  // Drafts quote the brief field by field, so it must be complete and valid.
+  const parsed = parseBrief(rawBrief);
+  if (!parsed.ok) {
+    return NextResponse.json(parsed.error, { status: 400 });
+  }
+  const brief = parsed.brief;
+
+  if (draftId === undefined) {
+    return NextResponse.json({
+      drafts: buildContentDrafts(brief, blueprint as GTMResponse),
+    });
+  }
+
+  if (typeof draftId !== "string" || typeof variant !== "number" || !Number.isFinite(variant)) {
+    return NextResponse.json(
+      {
+        error: "validation_error",
+        message: "Regenerating a draft needs a draftId string and a numeric variant.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const draft = regenerateContentDraft(brief, blueprint as GTMResponse, draftId, variant);
+
+  if (!draft) {
+    return NextResponse.json(
+      { error: "not_found", message: "That draft is not part of this blueprint." },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({ draft });
+}
@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { gtmSections, type GTMRequest, type GTMResponse } from "@/lib/agent";
+import { renderIcs } from "@/lib/calendar";
+import { documentBuilders, isDocumentKind, type DocumentKind } from "@/lib/document";
+import {
+  exportFileName,
+  exportFormats,
+  isExportFormat,
+  type ExportFormat,
+  renderDocx,
+  renderHtml,
+  renderMarkdown,
+} from "@/lib/export";
+import { isValidSection } from "@/lib/shape";
+import { renderTasks } from "@/lib/tasks";
+import { invalidJson, parseBrief, readJsonBody } from "@/lib/validation";
+
+type ExportPayload = {
+  format?: unknown;
+  /** Which document to render; defaults to the full blueprint. */
+  document?: unknown;
+  request?: unknown;
+  blueprint?: Partial<GTMResponse>;
+};
+
+export async function POST(request: Request) {
+  const json = await readJsonBody(request);
+  if (!json) {
+    return NextResponse.json(invalidJson, { status: 400 });
+  }
+
+  const {
+    format,
+    document: kind = "blueprint",
+    request: rawBrief,
+    blueprint,
+  } = (json.body ?? {}) as ExportPayload;
+
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      {
+        error: "validation_error",
+        message: `Unsupported export format. Use one of: ${Object.keys(exportFormats).join(", ")}.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  if (
+    !isDocumentKind(kind) ||
+    (kind !== "blueprint" && exportFormats[format].source === "blueprint")
+  ) {
+    return NextResponse.json(
+      {
+        error: "validation_error",
+        message: `Unsupported document. Use one of: ${Object.keys(documentBuilders).join(", ")}; calendar and task exports only cover the blueprint.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const invalidSections = gtmSections.filter(
+    (section) => !isValidSection(section, blueprint?.[section]),
+  );
+
+  if (invalidSections.length) {
+    return NextResponse.json(
+      {
+        error: "validation_error",
+        message: "A complete blueprint is required to export.",
+        invalidSections,
+      },
+      { status: 400 },
+    );
+  }
+
+  const parsed = parseBrief(rawBrief);
+  if (!parsed.ok) {
+    return NextResponse.json(parsed.error, { status: 400 });
+  }
+
+  const rendered = await renderExport(format, kind, parsed.brief, blueprint as GTMResponse).catch(
+    (err: unknown) => {
+      console.error("Failed to render export", err);
+      return null;
+    },
+  );
+  if (!rendered) {
+    // The shape checks are structural; a blueprint can still hold values the renderers can't read.
+    return NextResponse.json(
+      {
+        error: "validation_error",
+        message: "The blueprint could not be rendered. Regenerate it and export again.",
+      },
+      { status: 400 },
+    );
+  }
+
+  return new Response(rendered.body, {
+    headers: {
+      "Content-Type": exportFormats[format].contentType,
+      "Content-Disposition": `attachment; filename="${exportFileName(rendered.title, format)}"`,
+    },
+  });
+}
+
+async function renderExport(
+  format: ExportFormat,
+  kind: DocumentKind,
+  brief: GTMRequest,
+  blueprint: GTMResponse,
+) {
+  const doc = documentBuilders[kind](brief, blueprint);
+  const body =
+    format === "docx"
+      ? await renderDocx(doc)
+      : format === "html"
+        ? renderHtml(doc)
+        : format === "ics"
+          ? renderIcs(brief, blueprint)
+          : format === "markdown"
+            ? renderMarkdown(doc)
+            : renderTasks(format, brief, blueprint);
+  return { title: doc.title, body };
+}
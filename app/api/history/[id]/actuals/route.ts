@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { getActuals, saveActuals, type ActualsRecord } from "@/lib/actuals";
+import { getBlueprint, type BlueprintRecord } from "@/lib/history";
+import { buildRetrospective, isActualValue, parseActualsCsv } from "@/lib/retrospective";
+import { parseIsoDate } from "@/lib/timeline";
+import { invalidJson, readJsonBody } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+type ActualsPayload = {
+  asOf?: unknown;
+  /** Either typed rows or a CSV export with `kind,name,kpi,value` columns. */
+  values?: unknown;
+  csv?: unknown;
+};
+
+const notFound = () =>
+  NextResponse.json({ error: "not_found", message: "Blueprint not found." }, { status: 404 });
+
+function respond(record: BlueprintRecord, actuals: ActualsRecord | null) {
+  return NextResponse.json({
+    actuals,
+    retrospective: actuals ? buildRetrospective(record.blueprint, actuals) : null,
+  });
+}
+
+/** The latest actuals for a saved blueprint and the retrospective computed from them. */
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const record = await getBlueprint(params.id);
+  if (!record) {
+    return notFound();
+  }
+
+  return respond(record, await getActuals(record.id));
+}
+
+/** Replaces the blueprint's actuals with `{ asOf, values }` or `{ asOf, csv }`. */
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  const record = await getBlueprint(params.id);
+  if (!record) {
+    return notFound();
+  }
+
+  const json = await readJsonBody(request);
+  if (!json) {
+    return NextResponse.json(invalidJson, { status: 400 });
+  }
+  const { asOf, values, csv } = (json.body ?? {}) as ActualsPayload;
+
+  if (typeof asOf !== "string" || !parseIsoDate(asOf)) {
+    return NextResponse.json(
+      {
+        error: "validation_error",
+        message: "asOf must be the date the actuals were measured, as YYYY-MM-DD.",
+        invalid: ["asOf"],
+      },
+      { status: 400 },
+    );
+  }
+
+  if (typeof csv === "string") {
+    const parsed = parseActualsCsv(csv);
+    if (parsed.errors.length) {
+      return NextResponse.json(
+        {
+          error: "validation_error",
+          message: parsed.errors.join(" "),
+          invalid: ["csv"],
+        },
+        { status: 400 },
+      );
+    }
+    return respond(record, await saveActuals(record.id, { asOf, values: parsed.values }));
+  }
+
+  if (!Array.isArray(values) || !values.every(isActualValue)) {
+    return NextResponse.json(
+      {
+        error: "validation_error",
+        message:
+          "Send csv text, or values as a list of { kind: metric | channel, name, kpi?, value } with non-negative numbers; channel rows need a kpi.",
+        invalid: ["values"],
+      },
+      { status: 400 },
+    );
+  }
+
+  return respond(record, await saveActuals(record.id, { asOf, values }));
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getBlueprint } from "@/lib/history";
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const record = await getBlueprint(params.id);
+
+  if (!record) {
+    return NextResponse.json(
+      { error: "not_found", message: "Blueprint not found." },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json(record);
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { listBlueprints } from "@/lib/history";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const blueprints = await listBlueprints();
+
+  return NextResponse.json({ blueprints });
+}
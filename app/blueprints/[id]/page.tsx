@@ -0,0 +1,39 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { SharedBlueprintView } from "@/components/SharedBlueprintView";
+import { openShareLink } from "@/lib/shares";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Shared Go-To-Market Blueprint",
+  robots: { index: false },
+};
+
+const goneMessages = {
+  expired: "This share link has expired. Ask the sender for a new one.",
+  revoked: "This share link has been revoked by its owner.",
+};
+
+export default async function SharedBlueprintPage({ params }: { params: { id: string } }) {
+  const lookup = await openShareLink(params.id);
+
+  if (lookup.status === "not_found") {
+    notFound();
+  }
+
+  if (lookup.status !== "active") {
+    return (
+      <div className="app-shell">
+        <section className="panel">
+          <h2>Blueprint unavailable</h2>
+          <span className="pill" data-tone="warning">
+            {goneMessages[lookup.status]}
+          </span>
+        </section>
+      </div>
+    );
+  }
+
+  return <SharedBlueprintView shared={lookup.shared} />;
+}
@@ -2,7 +2,55 @@
 
 import { useCallback, useMemo, useState } from "react";
 import { clsx } from "clsx";
-import type { GTMResponse } from "@/lib/agent";
+import {
+  gtmSections,
+  type GTMRequest,
+  type GTMResponse,
+  type GTMSection,
+  type RegionalVariant,
+} from "@/lib/agent";
+import type { ListSection, LockableSection } from "@/lib/locks";
+import type { ComparisonCell } from "@/lib/battlecards";
+import { formatCount, formatCurrency, formatDate, formatPercent } from "@/lib/format";
+import type { BlueprintRecord } from "@/lib/history";
+import type { AchievabilityStatus, SegmentSizing } from "@/lib/market";
+import { MIN_PERSONA_CONFIDENCE } from "@/lib/personas";
+import { lintPlan, type PlanWarning } from "@/lib/quality";
+import { targetMarkets } from "@/lib/regions";
+import { EVENT_STREAM_TYPE, readEventStream } from "@/lib/stream";
+import type { BlueprintTrace } from "@/lib/trace";
+import { fieldMessages, parseBrief, type FieldError } from "@/lib/validation";
+import { verticalPacks } from "@/lib/verticals";
+import { CUSTOM_VOICE, voicePresets } from "@/lib/voice";
+import {
+  EditableSummary,
+  EditingProvider,
+  emptyLocks,
+  ItemControls,
+  SectionLock,
+  toLockedContent,
+  type LockState,
+} from "./BlueprintEditing";
+import { BlueprintHistory } from "./BlueprintHistory";
+import {
+  CompetitorFields,
+  toCompetitorDrafts,
+  toCompetitors,
+  type CompetitorDraft,
+} from "./CompetitorFields";
+import { ContentDrafts } from "./ContentDrafts";
+import { ExperimentBacklog } from "./ExperimentBacklog";
+import { ExportActions } from "./ExportActions";
+import {
+  emptyMarket,
+  MarketFields,
+  toMarketDraft,
+  toMarketInputs,
+  type MarketDraft,
+} from "./MarketFields";
+import { WhyPopover } from "./RuleTrace";
+import { LaunchRetrospective } from "./LaunchRetrospective";
+import { ShareLinks } from "./ShareLinks";
 
 type FormState = {
   productName: string;
@@ -12,9 +60,20 @@ type FormState = {
   differentiation: string;
   pricing: string;
   brandVoice: string;
+  /** One sample sentence per line; only sent for the custom voice. */
+  voiceSamples: string;
   primaryGoal: string;
   successMetric: string;
   launchHorizon: string;
+  launchStartDate: string;
+  budget: string;
+  teamCapacity: string;
+  competitors: CompetitorDraft[];
+  market: MarketDraft;
+  /** A vertical pack id, or "" for the generic playbook. */
+  vertical: string;
+  /** Target market ids; each adds a regional variant of the plan. */
+  targetMarkets: string[];
 };
 
 const defaultState: FormState = {
@@ -25,18 +84,19 @@ const defaultState: FormState = {
   differentiation: "",
   pricing: "",
   brandVoice: "Confident, strategic",
+  voiceSamples: "",
   primaryGoal: "Generate qualified pipeline",
   successMetric: "50 SQLs in 90 days",
   launchHorizon: "90-day orchestrated launch",
+  launchStartDate: "",
+  budget: "",
+  teamCapacity: "",
+  competitors: [],
+  market: emptyMarket,
+  vertical: "",
+  targetMarkets: [],
 };
 
-const voicePresets = [
-  "Confident, strategic",
-  "Bold, visionary",
-  "Analytical, data-forward",
-  "Friendly, community-driven",
-];
-
 const horizonPresets = [
   "30-day lightning launch",
   "60-day layered rollout",
@@ -44,44 +104,158 @@ const horizonPresets = [
   "6-month enterprise motion",
 ];
 
+/** The presets, plus a custom horizon from an opened record so it isn't swapped out. */
+function horizonOptions(current: string) {
+  return horizonPresets.includes(current) ? horizonPresets : [...horizonPresets, current];
+}
+
+function parseOptionalNumber(value: string) {
+  const parsed = Number(value);
+  return value.trim() && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toRequest(form: FormState): GTMRequest {
+  return {
+    ...form,
+    budget: parseOptionalNumber(form.budget),
+    teamCapacity: parseOptionalNumber(form.teamCapacity),
+    competitors: toCompetitors(form.competitors),
+    market: toMarketInputs(form.market),
+    vertical: form.vertical || undefined,
+    targetMarkets: form.targetMarkets.length ? form.targetMarkets : undefined,
+    voiceSamples:
+      form.brandVoice === CUSTOM_VOICE
+        ? form.voiceSamples
+            .split("\n")
+            .map((line) => line.trim())
+            .filter(Boolean)
+        : undefined,
+  };
+}
+
+function toFormState(request: GTMRequest): FormState {
+  return {
+    ...defaultState,
+    ...request,
+    launchStartDate: request.launchStartDate ?? "",
+    budget: request.budget?.toString() ?? "",
+    teamCapacity: request.teamCapacity?.toString() ?? "",
+    competitors: toCompetitorDrafts(request.competitors),
+    market: toMarketDraft(request.market),
+    vertical: request.vertical ?? "",
+    targetMarkets: request.targetMarkets ?? [],
+    voiceSamples: request.voiceSamples?.join("\n") ?? "",
+  };
+}
+
+/** Editing a field clears its message until the next submit. */
+function withoutField(errors: Record<string, string>, field: string) {
+  if (!(field in errors)) {
+    return errors;
+  }
+  const next = { ...errors };
+  delete next[field];
+  return next;
+}
+
+function FieldMessage({ message }: { message?: string }) {
+  return message ? (
+    <span className="field-error" role="alert">
+      {message}
+    </span>
+  ) : null;
+}
+
 export function AgentWorkspace() {
   const [form, setForm] = useState<FormState>(defaultState);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [result, setResult] = useState<GTMResponse | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<Partial<GTMResponse> | null>(null);
+  const [brief, setBrief] = useState<GTMRequest | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [trace, setTrace] = useState<BlueprintTrace | null>(null);
+  const [locks, setLocks] = useState<LockState>(emptyLocks);
 
   const isSubmitDisabled = useMemo(() => {
     return !form.productName.trim() || !form.productSummary.trim() || loading;
   }, [form.productName, form.productSummary, loading]);
 
   const handleChange = useCallback(
-    (field: keyof FormState) => (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
-      const value = event.target.value;
-      setForm((current) => ({ ...current, [field]: value }));
-    },
+    (field: keyof FormState) =>
+      (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+        const value = event.target.value;
+        setForm((current) => ({ ...current, [field]: value }));
+        setFieldErrors((current) => withoutField(current, field));
+      },
     [],
   );
 
+  const handleCompetitorsChange = useCallback((competitors: CompetitorDraft[]) => {
+    setForm((current) => ({ ...current, competitors }));
+    setFieldErrors((current) => withoutField(current, "competitors"));
+  }, []);
+
+  const toggleTargetMarket = useCallback((id: string) => {
+    setForm((current) => ({
+      ...current,
+      targetMarkets: current.targetMarkets.includes(id)
+        ? current.targetMarkets.filter((entry) => entry !== id)
+        : [...current.targetMarkets, id],
+    }));
+    setFieldErrors((current) => withoutField(current, "targetMarkets"));
+  }, []);
+
+  const handleMarketChange = useCallback((market: MarketDraft) => {
+    setForm((current) => ({ ...current, market }));
+    setFieldErrors((current) => withoutField(current, "market"));
+  }, []);
+
   const handleSubmit = useCallback(
     async (event: React.FormEvent) => {
       event.preventDefault();
+      // The same schema as the API, so most mistakes never leave the browser.
+      const parsed = parseBrief(toRequest(form));
+      if (!parsed.ok) {
+        setFieldErrors(fieldMessages(parsed.error.fieldErrors));
+        setError(parsed.error.message);
+        return;
+      }
+
       setLoading(true);
       setError(null);
+      setFieldErrors({});
+      const locked = toLockedContent(locks, result);
+      setResult({ ...locked?.sections });
+      setTrace(null);
+      const payload = parsed.brief;
+      setBrief(payload);
 
       try {
         const response = await fetch("/api/agent", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(form),
+          headers: { "Content-Type": "application/json", Accept: EVENT_STREAM_TYPE },
+          body: JSON.stringify({ ...payload, locked }),
         });
 
-        if (!response.ok) {
+        if (!response.ok || !response.body) {
           const body = await response.json();
+          setFieldErrors(fieldMessages(body?.fieldErrors as FieldError[] | undefined));
           throw new Error(body?.message ?? "Failed to generate plan.");
         }
 
-        const data = (await response.json()) as GTMResponse;
-        setResult(data);
+        await readEventStream(response.body, ({ event, data }) => {
+          if (event === "section") {
+            const { section, value } = data as { section: GTMSection; value: unknown };
+            setResult((current) => ({ ...current, [section]: value }));
+          } else if (event === "done") {
+            const done = data as { historyId?: string | null; trace?: BlueprintTrace };
+            setHistoryId(done.historyId ?? null);
+            setTrace(done.trace ?? null);
+          } else if (event === "error") {
+            throw new Error((data as { message?: string })?.message ?? "Failed to generate plan.");
+          }
+        });
       } catch (err) {
         setError(err instanceof Error ? err.message : "Unexpected error.");
         setResult(null);
@@ -89,7 +263,66 @@ export function AgentWorkspace() {
         setLoading(false);
       }
     },
-    [form],
+    [form, locks, result],
+  );
+
+  const handleOpenRecord = useCallback((record: BlueprintRecord) => {
+    setForm(toFormState(record.request));
+    setResult(record.blueprint);
+    setBrief(record.request);
+    setHistoryId(record.id);
+    setTrace(null);
+    setLocks(emptyLocks);
+    setError(null);
+    setFieldErrors({});
+  }, []);
+
+  const toggleSection = useCallback((section: LockableSection) => {
+    setLocks((current) => ({
+      ...current,
+      sections: current.sections.includes(section)
+        ? current.sections.filter((entry) => entry !== section)
+        : [...current.sections, section],
+    }));
+  }, []);
+
+  const lockItem = useCallback((section: ListSection, index: number, locked: boolean) => {
+    setLocks((current) => {
+      const indexes = (current.items[section] ?? []).filter((entry) => entry !== index);
+      return {
+        ...current,
+        items: { ...current.items, [section]: locked ? [...indexes, index] : indexes },
+      };
+    });
+  }, []);
+
+  const editing = useMemo(
+    () =>
+      result && !loading
+        ? {
+            locks,
+            data: result,
+            toggleSection,
+            toggleItem: (section: ListSection, index: number) =>
+              lockItem(section, index, !locks.items[section]?.includes(index)),
+            updateItem: (section: ListSection, index: number, value: unknown) => {
+              setResult((current) => ({
+                ...current,
+                [section]: ((current?.[section] ?? []) as unknown[]).map((item, i) =>
+                  i === index ? value : item,
+                ),
+              }));
+              lockItem(section, index, true);
+            },
+            updateSummary: (value: string) => {
+              setResult((current) => ({ ...current, executiveSummary: value }));
+              if (!locks.sections.includes("executiveSummary")) {
+                toggleSection("executiveSummary");
+              }
+            },
+          }
+        : null,
+    [loading, lockItem, locks, result, toggleSection],
   );
 
   return (
@@ -122,8 +355,10 @@ export function AgentWorkspace() {
                 placeholder="OrbitOps Agent Studio"
                 value={form.productName}
                 onChange={handleChange("productName")}
+                aria-invalid={Boolean(fieldErrors.productName)}
                 required
               />
+              <FieldMessage message={fieldErrors.productName} />
             </div>
             <div className="field">
               <label htmlFor="brand-voice">Brand Voice</label>
@@ -131,23 +366,51 @@ export function AgentWorkspace() {
                 id="brand-voice"
                 value={form.brandVoice}
                 onChange={handleChange("brandVoice")}
+                aria-invalid={Boolean(fieldErrors.brandVoice)}
               >
-                {voicePresets.map((voice) => (
+                {[...voicePresets, CUSTOM_VOICE].map((voice) => (
                   <option key={voice}>{voice}</option>
                 ))}
               </select>
+              <FieldMessage message={fieldErrors.brandVoice} />
             </div>
+            {form.brandVoice === CUSTOM_VOICE ? (
+              <div className="field">
+                <label htmlFor="voice-samples">Voice Samples</label>
+                <textarea
+                  id="voice-samples"
+                  placeholder="Paste three to five sentences in your brand voice, one per line..."
+                  value={form.voiceSamples}
+                  onChange={handleChange("voiceSamples")}
+                  aria-invalid={Boolean(fieldErrors.voiceSamples)}
+                />
+                <FieldMessage message={fieldErrors.voiceSamples} />
+              </div>
+            ) : null}
             <div className="field">
               <label htmlFor="launch-horizon">Launch Horizon</label>
               <select
                 id="launch-horizon"
                 value={form.launchHorizon}
                 onChange={handleChange("launchHorizon")}
+                aria-invalid={Boolean(fieldErrors.launchHorizon)}
               >
-                {horizonPresets.map((horizon) => (
+                {horizonOptions(form.launchHorizon).map((horizon) => (
                   <option key={horizon}>{horizon}</option>
                 ))}
               </select>
+              <FieldMessage message={fieldErrors.launchHorizon} />
+            </div>
+            <div className="field">
+              <label htmlFor="launch-start-date">Launch Start Date</label>
+              <input
+                id="launch-start-date"
+                type="date"
+                value={form.launchStartDate}
+                onChange={handleChange("launchStartDate")}
+                aria-invalid={Boolean(fieldErrors.launchStartDate)}
+              />
+              <FieldMessage message={fieldErrors.launchStartDate} />
             </div>
             <div className="field">
               <label htmlFor="pricing">Pricing Motion</label>
@@ -156,7 +419,9 @@ export function AgentWorkspace() {
                 placeholder="Usage-based with premium orchestration tier"
                 value={form.pricing}
                 onChange={handleChange("pricing")}
+                aria-invalid={Boolean(fieldErrors.pricing)}
               />
+              <FieldMessage message={fieldErrors.pricing} />
             </div>
           </div>
           <div className="field">
@@ -166,8 +431,10 @@ export function AgentWorkspace() {
               placeholder="Summarize the core promise of the agentic workflow..."
               value={form.productSummary}
               onChange={handleChange("productSummary")}
+              aria-invalid={Boolean(fieldErrors.productSummary)}
               required
             />
+            <FieldMessage message={fieldErrors.productSummary} />
           </div>
         </section>
 
@@ -181,7 +448,9 @@ export function AgentWorkspace() {
                 placeholder="AI product leads at Series B+ SaaS companies..."
                 value={form.audience}
                 onChange={handleChange("audience")}
+                aria-invalid={Boolean(fieldErrors.audience)}
               />
+              <FieldMessage message={fieldErrors.audience} />
             </div>
             <div className="field">
               <label htmlFor="problem">Problem You&apos;re Solving</label>
@@ -190,7 +459,9 @@ export function AgentWorkspace() {
                 placeholder="Fragmented AI experimentation with no GTM alignment..."
                 value={form.problem}
                 onChange={handleChange("problem")}
+                aria-invalid={Boolean(fieldErrors.problem)}
               />
+              <FieldMessage message={fieldErrors.problem} />
             </div>
             <div className="field">
               <label htmlFor="differentiation">Why You Win</label>
@@ -199,11 +470,60 @@ export function AgentWorkspace() {
                 placeholder="Scenario engine fusing product telemetry with CRM + marketing data..."
                 value={form.differentiation}
                 onChange={handleChange("differentiation")}
+                aria-invalid={Boolean(fieldErrors.differentiation)}
               />
+              <FieldMessage message={fieldErrors.differentiation} />
+            </div>
+            <div className="field">
+              <label htmlFor="vertical">Industry Vertical</label>
+              <select
+                id="vertical"
+                value={form.vertical}
+                onChange={handleChange("vertical")}
+                aria-invalid={Boolean(fieldErrors.vertical)}
+              >
+                <option value="">General SaaS</option>
+                {verticalPacks.map((pack) => (
+                  <option key={pack.id} value={pack.id}>
+                    {pack.label}
+                  </option>
+                ))}
+              </select>
+              <FieldMessage message={fieldErrors.vertical} />
             </div>
+            <fieldset className="field">
+              <legend>Target Markets</legend>
+              {targetMarkets.map((market) => (
+                <label key={market.id} className="choice">
+                  <input
+                    type="checkbox"
+                    checked={form.targetMarkets.includes(market.id)}
+                    onChange={() => toggleTargetMarket(market.id)}
+                  />
+                  {market.label} ({market.locale})
+                </label>
+              ))}
+              <FieldMessage message={fieldErrors.targetMarkets} />
+            </fieldset>
           </div>
         </section>
 
+        <section className="panel">
+          <h2>Competitive Landscape</h2>
+          <CompetitorFields value={form.competitors} onChange={handleCompetitorsChange} />
+          <FieldMessage message={fieldErrors.competitors} />
+        </section>
+
+        <section className="panel">
+          <h2>Market Sizing</h2>
+          <MarketFields
+            value={form.market}
+            audience={form.audience}
+            onChange={handleMarketChange}
+          />
+          <FieldMessage message={fieldErrors.market} />
+        </section>
+
         <section className="panel">
           <h2>Launch Objectives</h2>
           <div className="input-grid">
@@ -214,7 +534,9 @@ export function AgentWorkspace() {
                 placeholder="Generate qualified pipeline"
                 value={form.primaryGoal}
                 onChange={handleChange("primaryGoal")}
+                aria-invalid={Boolean(fieldErrors.primaryGoal)}
               />
+              <FieldMessage message={fieldErrors.primaryGoal} />
             </div>
             <div className="field">
               <label htmlFor="success-metric">North Star Metric</label>
@@ -223,7 +545,37 @@ export function AgentWorkspace() {
                 placeholder="50 SQLs in 90 days"
                 value={form.successMetric}
                 onChange={handleChange("successMetric")}
+                aria-invalid={Boolean(fieldErrors.successMetric)}
               />
+              <FieldMessage message={fieldErrors.successMetric} />
+            </div>
+            <div className="field">
+              <label htmlFor="budget">Launch Budget (USD)</label>
+              <input
+                id="budget"
+                type="number"
+                min={0}
+                step={1000}
+                placeholder="75000"
+                value={form.budget}
+                onChange={handleChange("budget")}
+                aria-invalid={Boolean(fieldErrors.budget)}
+              />
+              <FieldMessage message={fieldErrors.budget} />
+            </div>
+            <div className="field">
+              <label htmlFor="team-capacity">Team Capacity (FTE)</label>
+              <input
+                id="team-capacity"
+                type="number"
+                min={0}
+                step={0.5}
+                placeholder="3"
+                value={form.teamCapacity}
+                onChange={handleChange("teamCapacity")}
+                aria-invalid={Boolean(fieldErrors.teamCapacity)}
+              />
+              <FieldMessage message={fieldErrors.teamCapacity} />
             </div>
           </div>
           <button
@@ -237,25 +589,610 @@ export function AgentWorkspace() {
         </section>
       </form>
 
-      {result ? <AgentResults data={result} /> : null}
+      {result ? (
+        <EditingProvider value={editing}>
+          <AgentResults
+            data={result}
+            brief={brief}
+            trace={trace}
+            pending={loading}
+            recordId={historyId}
+          />
+        </EditingProvider>
+      ) : null}
+
+      <BlueprintHistory refreshKey={historyId} onOpen={handleOpenRecord} />
     </div>
   );
 }
 
-function AgentResults({ data }: { data: GTMResponse }) {
+function ChannelAllocationTable({ channels }: { channels: GTMResponse["channelStrategy"] }) {
+  const hasSpend = channels.some((channel) => channel.allocation.spend !== null);
+  const hasHeadcount = channels.some((channel) => channel.allocation.headcount !== null);
+
   return (
-    <section className="panel" style={{ marginTop: "2.5rem" }}>
-      <h2>Agent Blueprint</h2>
-      <div className="results-grid">
+    <table className="insight-table">
+      <thead>
+        <tr>
+          <th>#</th>
+          <th>Channel</th>
+          <th>Fit</th>
+          <th>Mix</th>
+          {hasSpend ? <th>Spend</th> : null}
+          {hasHeadcount ? <th>FTE</th> : null}
+          <th>Est. reach</th>
+          <th>Est. CAC</th>
+          <th>North-star share</th>
+        </tr>
+      </thead>
+      <tbody>
+        {channels.map(({ channel, allocation }) => (
+          <tr key={channel}>
+            <td>{allocation.rank}</td>
+            <td>{channel}</td>
+            <td>{allocation.fitScore}</td>
+            <td>{formatPercent(allocation.budgetShare)}</td>
+            {hasSpend ? (
+              <td>{allocation.spend !== null ? formatCurrency(allocation.spend) : "—"}</td>
+            ) : null}
+            {hasHeadcount ? <td>{allocation.headcount ?? "—"}</td> : null}
+            <td>{formatCount(allocation.estimatedReach)}</td>
+            <td>
+              {allocation.estimatedCac !== null ? formatCurrency(allocation.estimatedCac) : "—"}
+            </td>
+            <td>
+              {formatPercent(allocation.northStarShare)} (~
+              {formatCount(allocation.projectedOutcomes)})
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function MeasurementPlanView({ plan }: { plan: GTMResponse["measurementPlan"] }) {
+  return (
+    <div className="matrix">
+      <span className="subheading">North-star plan</span>
+      <SectionLock section="measurementPlan" />
+      <span className="pill" data-tone={plan.parsed ? "success" : "warning"}>
+        {plan.message}
+      </span>
+      {plan.milestones.length ? (
+        <table className="insight-table">
+          <thead>
+            <tr>
+              <th>{plan.cadence === "weekly" ? "Week" : "Month"}</th>
+              <th>Date</th>
+              <th>Phase</th>
+              <th>Cumulative target</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.milestones.map((milestone) => (
+              <tr key={milestone.date}>
+                <td>{milestone.label}</td>
+                <td>{formatDate(milestone.date)}</td>
+                <td>{milestone.phase}</td>
+                <td>{formatCount(milestone.target)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+      {plan.funnel.length ? (
+        <table className="insight-table">
+          <thead>
+            <tr>
+              <th>Funnel stage</th>
+              <th>Volume needed</th>
+              <th>Converts to next</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.funnel.map((stage) => (
+              <tr key={stage.stage}>
+                <td>{stage.label}</td>
+                <td>{formatCount(stage.volume)}</td>
+                <td>
+                  {stage.conversionRate !== null
+                    ? `${Math.round(stage.conversionRate * 1000) / 10}%`
+                    : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+    </div>
+  );
+}
+
+const achievabilityLabels: Record<AchievabilityStatus, string> = {
+  achievable: "Achievable",
+  stretch: "Stretch",
+  out_of_reach: "Out of reach",
+  unknown: "Not checked",
+};
+
+const achievabilityTones: Record<AchievabilityStatus, "success" | "warning" | undefined> = {
+  achievable: "success",
+  stretch: "warning",
+  out_of_reach: "warning",
+  unknown: undefined,
+};
+
+function formatCoverage(coverage: number | null) {
+  return coverage !== null ? `${coverage.toFixed(1)}×` : "—";
+}
+
+function MarketTierCells({ row }: { row: Pick<SegmentSizing, "tam" | "sam" | "som"> }) {
+  return (
+    <>
+      {[row.tam, row.sam, row.som].map((tier, index) => (
+        <td key={index}>
+          {formatCurrency(tier.value)}
+          <div>{formatCount(tier.accounts)} accounts</div>
+        </td>
+      ))}
+    </>
+  );
+}
+
+function MarketSizingView({ sizing }: { sizing: GTMResponse["marketSizing"] }) {
+  const { achievability } = sizing;
+
+  return (
+    <div className="matrix">
+      <span className="subheading">Market sizing</span>
+      <SectionLock section="marketSizing" />
+      <p>{sizing.message}</p>
+      {sizing.sized ? (
+        <>
+          <table className="insight-table">
+            <thead>
+              <tr>
+                <th>Segment</th>
+                <th>TAM</th>
+                <th>SAM</th>
+                <th>SOM</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sizing.segments.map((row) => (
+                <tr key={row.segment}>
+                  <td>{row.segment}</td>
+                  <MarketTierCells row={row} />
+                </tr>
+              ))}
+              <tr>
+                <td>
+                  <strong>Total</strong>
+                </td>
+                <MarketTierCells row={sizing} />
+              </tr>
+            </tbody>
+          </table>
+          <span className="pill" data-tone={achievabilityTones[achievability.status]}>
+            {achievabilityLabels[achievability.status]}
+          </span>
+          <p>{achievability.message}</p>
+          <div className="matrix-row">
+            <h3>
+              Sensitivity · SOM {formatCurrency(sizing.somRange.low)} to{" "}
+              {formatCurrency(sizing.somRange.high)}
+            </h3>
+            <table className="insight-table">
+              <thead>
+                <tr>
+                  <th>Input</th>
+                  <th>Range tested</th>
+                  <th>SOM</th>
+                  <th>Target coverage</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sizing.sensitivity.map((range) => {
+                  const format =
+                    range.driver === "averageContractValue"
+                      ? formatCurrency
+                      : range.driver === "accounts"
+                        ? formatCount
+                        : formatPercent;
+                  return (
+                    <tr key={range.driver}>
+                      <td>
+                        {range.label}
+                        {sizing.assumed.some((driver) => driver === range.driver) ? (
+                          <div className="pill">Assumed</div>
+                        ) : null}
+                      </td>
+                      <td>
+                        {format(range.low)} to {format(range.high)}
+                      </td>
+                      <td>
+                        {formatCurrency(range.somLow)} to {formatCurrency(range.somHigh)}
+                      </td>
+                      <td>
+                        {formatCoverage(range.coverageLow)} to {formatCoverage(range.coverageHigh)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+const cellLabels: Record<ComparisonCell, string> = {
+  advantage: "Strength",
+  weakness: "Weakness",
+  unknown: "—",
+};
+
+function Battlecards({ landscape }: { landscape: GTMResponse["competitiveLandscape"] }) {
+  const { battlecards, comparison } = landscape;
+
+  return (
+    <div className="matrix">
+      <span className="subheading">Competitive battlecards</span>
+      <SectionLock section="competitiveLandscape" />
+      <table className="insight-table">
+        <thead>
+          <tr>
+            <th>Dimension</th>
+            {comparison.columns.map((column) => (
+              <th key={column}>{column}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {comparison.rows.map((row) => (
+            <tr key={row.dimension}>
+              <td>{row.dimension}</td>
+              {row.cells.map((cell, index) => (
+                <td key={comparison.columns[index]} className="comparison-cell" data-cell={cell}>
+                  {cellLabels[cell]}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {battlecards.map((card) => (
+        <div className="matrix-row" key={card.competitor}>
+          <div className="pill">
+            {card.competitor}
+            {card.pricePoint ? ` · ${card.pricePoint}` : ""}
+          </div>
+          <div>
+            <span className="subheading">Positioning</span>
+            <ul className="list">
+              {card.positioning.map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <span className="subheading">Landmines</span>
+            <ul className="list">
+              {card.landmines.map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          </div>
+          {card.objectionCounters.length ? (
+            <div>
+              <span className="subheading">Objection counters</span>
+              <ul className="list">
+                {card.objectionCounters.map((entry) => (
+                  <li key={`${entry.persona}-${entry.objection}`}>
+                    <strong>{entry.persona}:</strong> &ldquo;{entry.objection}&rdquo; —{" "}
+                    {entry.counter}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function EnablementKitView({ kit }: { kit: GTMResponse["enablementKit"] }) {
+  return (
+    <div className="matrix">
+      <span className="subheading">Sales enablement kit · qualify for {kit.goalMotion}</span>
+      <SectionLock section="enablementKit" />
+      {kit.personas.map((persona) => (
+        <div className="matrix-row" key={persona.persona}>
+          <h3>{persona.persona}</h3>
+          <table className="insight-table">
+            <thead>
+              <tr>
+                <th>Objection</th>
+                <th>Talk track</th>
+              </tr>
+            </thead>
+            <tbody>
+              {persona.talkTracks.map((track) => (
+                <tr key={track.objection}>
+                  <td>
+                    {track.objection}
+                    <div className="pill">{track.theme}</div>
+                  </td>
+                  <td>{track.response}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div>
+            <span className="subheading">Discovery questions</span>
+            <ul className="list">
+              {persona.discoveryQuestions.map((question) => (
+                <li key={question}>{question}</li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <span className="subheading">Qualification</span>
+            <ul className="list">
+              {persona.qualification.map((entry) => (
+                <li key={entry.criterion}>
+                  <strong>{entry.criterion}:</strong> {entry.evidence}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <span className="subheading">Call script</span>
+            <ol className="list">
+              {persona.callScript.map((step) => (
+                <li key={step.stage}>
+                  <strong>{step.stage}:</strong> {step.line}
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const severityTones: Record<PlanWarning["severity"], "warning" | undefined> = {
+  high: "warning",
+  medium: "warning",
+  low: undefined,
+};
+
+function PricingStrategyView({ strategy }: { strategy: GTMResponse["pricingStrategy"] }) {
+  return (
+    <div className="matrix">
+      <span className="subheading">
+        Pricing &amp; packaging · value metric: {strategy.valueMetric}
+      </span>
+      <SectionLock section="pricingStrategy" />
+      <p>{strategy.rationale}</p>
+      {strategy.conflicts.map((conflict) => (
+        <span className="pill" data-tone={severityTones[conflict.severity]} key={conflict.message}>
+          {conflict.message}
+        </span>
+      ))}
+      <table className="insight-table">
+        <thead>
+          <tr>
+            <th>Tier</th>
+            <th>Price</th>
+            <th>Includes</th>
+            <th>Fences</th>
+          </tr>
+        </thead>
+        <tbody>
+          {strategy.tiers.map((tier) => (
+            <tr key={tier.name}>
+              <td>
+                <strong>{tier.name}</strong>
+                <div>{tier.buyer}</div>
+              </td>
+              <td>
+                {tier.price}
+                <div className="pill">{tier.limit}</div>
+              </td>
+              <td>
+                <ul className="list">
+                  {tier.includes.map((entry) => (
+                    <li key={entry}>{entry}</li>
+                  ))}
+                </ul>
+              </td>
+              <td>
+                <ul className="list">
+                  {tier.fences.map((fence) => (
+                    <li key={fence}>{fence}</li>
+                  ))}
+                </ul>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="matrix-row">
+        <h3>Price tests</h3>
+        {strategy.priceTests.map((test) => (
+          <div key={test.title}>
+            <strong>{test.title}</strong>
+            <p>{test.hypothesis}</p>
+            <ul className="list">
+              <li>Method: {test.method}</li>
+              <li>Measure: {test.measure}</li>
+              <li>Guardrail: {test.guardrail}</li>
+            </ul>
+          </div>
+        ))}
+      </div>
+      {strategy.objections.length ? (
+        <div className="matrix-row">
+          <h3>Pricing objections</h3>
+          <ul className="list">
+            {strategy.objections.map((entry) => (
+              <li key={`${entry.persona}-${entry.objection}`}>
+                <strong>
+                  {entry.persona} · &ldquo;{entry.objection}&rdquo;
+                </strong>{" "}
+                {entry.answer}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function VoiceReportView({ report }: { report: GTMResponse["voiceReport"] }) {
+  return (
+    <div className="matrix">
+      <span className="subheading">Voice check</span>
+      <div className="tag-cloud">
+        <span>
+          {report.voice} ({report.source})
+        </span>
+        <span>Sentences ≤ {report.maxSentenceWords} words</span>
+        <span>{report.contractions ? "Contractions" : "No contractions"}</span>
+        {report.signatureWords.map((word) => (
+          <span key={word}>{word}</span>
+        ))}
+      </div>
+      {report.violations.length ? (
+        <table className="insight-table">
+          <thead>
+            <tr>
+              <th>Field</th>
+              <th>Rule</th>
+              <th>Line</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.violations.map((violation) => (
+              <tr key={`${violation.path}-${violation.rule}`}>
+                <td>{violation.path}</td>
+                <td>{violation.rule}</td>
+                <td>{violation.text}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <span className="pill" data-tone="success">
+          Every generated line follows the voice rules.
+        </span>
+      )}
+    </div>
+  );
+}
+
+function PlanChecksView({ warnings }: { warnings: PlanWarning[] }) {
+  return (
+    <div className="insight-block">
+      <span className="subheading">Plan checks</span>
+      {warnings.length ? (
+        <table className="insight-table">
+          <thead>
+            <tr>
+              <th>Severity</th>
+              <th>Where</th>
+              <th>Issue</th>
+            </tr>
+          </thead>
+          <tbody>
+            {warnings.map((warning) => (
+              <tr key={`${warning.code}-${warning.message}`}>
+                <td>
+                  <span className="pill" data-tone={severityTones[warning.severity]}>
+                    {warning.severity}
+                  </span>
+                </td>
+                <td>{warning.field ?? warning.section ?? "brief"}</td>
+                <td>{warning.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <span className="pill" data-tone="success">
+          No contradictions found between the brief and the plan.
+        </span>
+      )}
+    </div>
+  );
+}
+
+function SectionPending({ label }: { label: string }) {
+  return (
+    <div className="matrix">
+      <span className="subheading">{label}</span>
+      <div className="matrix-row is-pending">Synthesizing {label.toLowerCase()}...</div>
+    </div>
+  );
+}
+
+type ResultsTab = "blueprint" | "content" | "retrospective";
+
+const resultTabs: Array<{ id: ResultsTab; label: string }> = [
+  { id: "blueprint", label: "Blueprint" },
+  { id: "content", label: "Content drafts" },
+  { id: "retrospective", label: "Retrospective" },
+];
+
+function isCompleteBlueprint(data: Partial<GTMResponse>): data is GTMResponse {
+  return gtmSections.every((section) => data[section] !== undefined);
+}
+
+/** Every blueprint section in workspace order; shared by the base plan and regional variants. */
+function BlueprintSections({
+  data,
+  brief,
+  trace,
+  pending,
+  notice,
+}: {
+  data: Partial<GTMResponse>;
+  brief: GTMRequest | null;
+  trace: BlueprintTrace | null;
+  pending: boolean;
+  notice: React.ReactNode;
+}) {
+  return (
+    <div className="results-grid">
+      {notice}
+
+      {data.executiveSummary ? (
         <div className="insight-block">
           <span className="subheading">Executive summary</span>
-          <p>{data.executiveSummary}</p>
+          <EditableSummary summary={data.executiveSummary} />
         </div>
+      ) : pending ? (
+        <SectionPending label="Executive summary" />
+      ) : null}
 
+      {data.launchPhases ? (
         <div className="matrix">
           <span className="subheading">Launch phases</span>
-          {data.launchPhases.map((phase) => (
+          <div className="action-row">
+            <SectionLock section="launchPhases" />
+            <WhyPopover trace={trace?.launchPhases} />
+          </div>
+          {data.launchPhases.map((phase, index) => (
             <div className="matrix-row" key={phase.name}>
+              <ItemControls section="launchPhases" index={index} />
+              <WhyPopover trace={trace?.launchPhases} subject={phase.name} />
               <div className="pill">{phase.duration}</div>
               <h3>{phase.name}</h3>
               <p>{phase.focus}</p>
@@ -272,12 +1209,41 @@ function AgentResults({ data }: { data: GTMResponse }) {
             </div>
           ))}
         </div>
+      ) : pending ? (
+        <SectionPending label="Launch phases" />
+      ) : null}
 
+      {data.personaInsights ? (
         <div className="matrix">
           <span className="subheading">Persona intelligence</span>
-          {data.personaInsights.map((persona) => (
+          <div className="action-row">
+            <SectionLock section="personaInsights" />
+            <WhyPopover trace={trace?.personaInsights} />
+          </div>
+          {data.personaInsights.map((persona, index) => (
             <div className="matrix-row" key={persona.persona}>
+              <ItemControls section="personaInsights" index={index} />
+              <WhyPopover trace={trace?.personaInsights} subject={persona.persona} />
               <h3>{persona.persona}</h3>
+              <div className="tag-cloud">
+                <span
+                  className="pill"
+                  data-tone={
+                    persona.confidence >= 0.6
+                      ? "success"
+                      : persona.confidence < MIN_PERSONA_CONFIDENCE
+                        ? "warning"
+                        : undefined
+                  }
+                >
+                  {persona.confidence >= MIN_PERSONA_CONFIDENCE
+                    ? `${formatPercent(persona.confidence)} match`
+                    : "Default persona"}
+                </span>
+                {persona.matchedKeywords.map((keyword) => (
+                  <span key={keyword}>{keyword}</span>
+                ))}
+              </div>
               <div>
                 <span className="subheading">Core needs</span>
                 <ul className="list">
@@ -305,11 +1271,21 @@ function AgentResults({ data }: { data: GTMResponse }) {
             </div>
           ))}
         </div>
+      ) : pending ? (
+        <SectionPending label="Persona intelligence" />
+      ) : null}
 
+      {data.messagingPillars ? (
         <div className="matrix">
           <span className="subheading">Messaging pillars</span>
-          {data.messagingPillars.map((pillar) => (
+          <div className="action-row">
+            <SectionLock section="messagingPillars" />
+            <WhyPopover trace={trace?.messagingPillars} />
+          </div>
+          {data.messagingPillars.map((pillar, index) => (
             <div className="matrix-row" key={pillar.pillar}>
+              <ItemControls section="messagingPillars" index={index} />
+              <WhyPopover trace={trace?.messagingPillars} subject={pillar.pillar} />
               <h3>{pillar.pillar}</h3>
               <p>{pillar.narrative}</p>
               <div>
@@ -331,11 +1307,22 @@ function AgentResults({ data }: { data: GTMResponse }) {
             </div>
           ))}
         </div>
+      ) : pending ? (
+        <SectionPending label="Messaging pillars" />
+      ) : null}
 
+      {data.channelStrategy ? (
         <div className="matrix">
           <span className="subheading">Channel orchestration</span>
-          {data.channelStrategy.map((channel) => (
+          <div className="action-row">
+            <SectionLock section="channelStrategy" />
+            <WhyPopover trace={trace?.channelStrategy} />
+          </div>
+          <ChannelAllocationTable channels={data.channelStrategy} />
+          {data.channelStrategy.map((channel, index) => (
             <div className="matrix-row" key={channel.channel}>
+              <ItemControls section="channelStrategy" index={index} />
+              <WhyPopover trace={trace?.channelStrategy} subject={channel.channel} />
               <div className="pill">{channel.channel}</div>
               <p>{channel.role}</p>
               <div>
@@ -357,35 +1344,30 @@ function AgentResults({ data }: { data: GTMResponse }) {
             </div>
           ))}
         </div>
+      ) : pending ? (
+        <SectionPending label="Channel orchestration" />
+      ) : null}
 
-        <div className="matrix">
-          <span className="subheading">Growth experiments</span>
-          {data.growthExperiments.map((experiment) => (
-            <div className="matrix-row" key={experiment.title}>
-              <div className="pill">{experiment.title}</div>
-              <p>{experiment.hypothesis}</p>
-              <div>
-                <span className="subheading">Playbook</span>
-                <ul className="list">
-                  {experiment.playbook.map((step) => (
-                    <li key={step}>{step}</li>
-                  ))}
-                </ul>
-              </div>
-              <div>
-                <span className="subheading">Measure</span>
-                <p>{experiment.measure}</p>
-              </div>
-            </div>
-          ))}
-        </div>
+      {data.growthExperiments ? (
+        <ExperimentBacklog
+          experiments={data.growthExperiments}
+          productName={brief?.productName ?? ""}
+        />
+      ) : pending ? (
+        <SectionPending label="Growth experiments" />
+      ) : null}
 
+      {data.measurementFramework ? (
         <div className="matrix">
           <span className="subheading">Measurement architecture</span>
+          <SectionLock section="measurementFramework" />
           <div className="metric-grid">
-            {data.measurementFramework.map((metric) => (
-              <div className="metric-card" key={metric.metric}>
-                <span>{metric.metric}</span>
+            {data.measurementFramework.map((metric, index) => (
+              <div className="metric-card" key={metric.metric} data-kind={metric.kind}>
+                <ItemControls section="measurementFramework" index={index} />
+                <span>
+                  {metric.kind === "primary" ? "North star" : "Leading indicator"} · {metric.metric}
+                </span>
                 <strong>{metric.target}</strong>
                 <p>{metric.instrumentation}</p>
                 <span>Cadence · {metric.cadence}</span>
@@ -393,7 +1375,173 @@ function AgentResults({ data }: { data: GTMResponse }) {
             ))}
           </div>
         </div>
+      ) : pending ? (
+        <SectionPending label="Measurement architecture" />
+      ) : null}
+
+      {data.measurementPlan ? (
+        <MeasurementPlanView plan={data.measurementPlan} />
+      ) : pending ? (
+        <SectionPending label="North-star plan" />
+      ) : null}
+
+      {data.marketSizing ? (
+        <MarketSizingView sizing={data.marketSizing} />
+      ) : pending ? (
+        <SectionPending label="Market sizing" />
+      ) : null}
+
+      {data.competitiveLandscape ? (
+        data.competitiveLandscape.battlecards.length ? (
+          <Battlecards landscape={data.competitiveLandscape} />
+        ) : null
+      ) : pending ? (
+        <SectionPending label="Competitive battlecards" />
+      ) : null}
+
+      {data.enablementKit ? (
+        <EnablementKitView kit={data.enablementKit} />
+      ) : pending ? (
+        <SectionPending label="Sales enablement kit" />
+      ) : null}
+
+      {data.pricingStrategy ? (
+        <PricingStrategyView strategy={data.pricingStrategy} />
+      ) : pending ? (
+        <SectionPending label="Pricing & packaging" />
+      ) : null}
+
+      {data.voiceReport ? (
+        <VoiceReportView report={data.voiceReport} />
+      ) : pending ? (
+        <SectionPending label="Voice check" />
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * A target market's plan, written in its locale. Variants are recomputed on
+ * every run, so they render without edit, lock or trace controls.
+ */
+function RegionalVariantView({
+  variant,
+  brief,
+}: {
+  variant: RegionalVariant;
+  brief: GTMRequest | null;
+}) {
+  return (
+    <EditingProvider value={null}>
+      <div lang={variant.locale}>
+        <BlueprintSections
+          data={variant.blueprint}
+          brief={brief}
+          trace={null}
+          pending={false}
+          notice={
+            <div className="insight-block">
+              <span className="subheading">{variant.label}</span>
+              <p>
+                Written in {variant.locale}; the translation catalog covers{" "}
+                {formatPercent(variant.coverage)} of the built-in copy, and the rest stays in
+                English. Brief text is quoted as entered.
+              </p>
+            </div>
+          }
+        />
       </div>
+    </EditingProvider>
+  );
+}
+
+/**
+ * The blueprint view. Edit and lock controls only appear inside an
+ * `EditingProvider`, and share links and the retrospective only for a saved
+ * `recordId`, so the shared viewer renders it read-only.
+ */
+export function AgentResults({
+  data,
+  brief,
+  trace,
+  pending,
+  recordId = null,
+  readOnly = false,
+}: {
+  data: Partial<GTMResponse>;
+  brief: GTMRequest | null;
+  trace: BlueprintTrace | null;
+  pending: boolean;
+  recordId?: string | null;
+  /** Shared views show the plan only: no exports, share links, content drafts or retrospective. */
+  readOnly?: boolean;
+}) {
+  const [tab, setTab] = useState<ResultsTab>("blueprint");
+  const ready = brief && !pending && isCompleteBlueprint(data) ? { brief, data } : null;
+  const tools = readOnly ? null : ready;
+  const tabs = recordId ? resultTabs : resultTabs.filter(({ id }) => id !== "retrospective");
+  const [region, setRegion] = useState<string | null>(null);
+  const variants = ready?.data.regionalVariants ?? [];
+  const regional = variants.find((variant) => variant.region === region) ?? null;
+
+  return (
+    <section className="panel" style={{ marginTop: "2.5rem" }}>
+      <h2>Agent Blueprint</h2>
+      {tools ? <ExportActions brief={tools.brief} data={tools.data} /> : null}
+      {tools && recordId ? <ShareLinks blueprintId={recordId} /> : null}
+      {tools ? (
+        <div className="tab-row" role="tablist">
+          {tabs.map(({ id, label }) => (
+            <button
+              key={id}
+              className="tab-button"
+              type="button"
+              role="tab"
+              aria-selected={tab === id}
+              onClick={() => setTab(id)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      ) : null}
+      {tools && tab === "content" ? (
+        <ContentDrafts brief={tools.brief} data={tools.data} />
+      ) : tools && recordId && tab === "retrospective" ? (
+        <LaunchRetrospective blueprintId={recordId} data={tools.data} />
+      ) : (
+        <>
+          {ready && variants.length ? (
+            <div className="tab-row" role="tablist" aria-label="Target markets">
+              {[null, ...variants].map((variant) => (
+                <button
+                  key={variant?.region ?? "base"}
+                  className="tab-button"
+                  type="button"
+                  role="tab"
+                  aria-selected={(variant?.region ?? null) === (regional?.region ?? null)}
+                  onClick={() => setRegion(variant?.region ?? null)}
+                >
+                  {variant ? `${variant.label} · ${variant.locale}` : "Base plan"}
+                </button>
+              ))}
+            </div>
+          ) : null}
+          {regional ? (
+            <RegionalVariantView variant={regional} brief={brief} />
+          ) : (
+            <BlueprintSections
+              data={data}
+              brief={brief}
+              trace={trace}
+              pending={pending}
+              notice={
+                ready ? <PlanChecksView warnings={lintPlan(ready.brief, ready.data)} /> : null
+              }
+            />
+          )}
+        </>
+      )}
     </section>
   );
 }
@@ -0,0 +1,261 @@
+"use client";
+
+import { createContext, useCallback, useContext, useId, useState } from "react";
+import type { GTMResponse } from "@/lib/agent";
+import type { ListSection, LockableSection, LockedContent } from "@/lib/locks";
+
+/** Which sections and item positions the next regenerate should keep. */
+export type LockState = {
+  sections: LockableSection[];
+  items: Partial<Record<ListSection, number[]>>;
+};
+
+export const emptyLocks: LockState = { sections: [], items: {} };
+
+export function toLockedContent(
+  locks: LockState,
+  data: Partial<GTMResponse> | null,
+): LockedContent | undefined {
+  if (!data) {
+    return undefined;
+  }
+  const sections = Object.fromEntries(
+    locks.sections
+      .filter((section) => data[section] !== undefined)
+      .map((section) => [section, data[section]]),
+  );
+  const items = Object.fromEntries(
+    Object.entries(locks.items)
+      .filter(
+        ([section, indexes]) => !locks.sections.includes(section as ListSection) && indexes.length,
+      )
+      .map(([section, indexes]) => {
+        const list = (data[section as ListSection] ?? []) as unknown[];
+        return [
+          section,
+          indexes
+            .filter((index) => index < list.length)
+            .map((index) => ({ index, value: list[index] })),
+        ];
+      }),
+  );
+
+  return Object.keys(sections).length || Object.keys(items).length
+    ? ({ sections, items } as LockedContent)
+    : undefined;
+}
+
+type EditingState = {
+  locks: LockState;
+  data: Partial<GTMResponse>;
+  toggleSection: (section: LockableSection) => void;
+  toggleItem: (section: ListSection, index: number) => void;
+  /** Saving an edit also locks what was edited, so a regenerate keeps it. */
+  updateItem: (section: ListSection, index: number, value: unknown) => void;
+  updateSummary: (value: string) => void;
+};
+
+const EditingContext = createContext<EditingState | null>(null);
+
+export const EditingProvider = EditingContext.Provider;
+
+function isItemLocked(locks: LockState, section: ListSection, index: number) {
+  return locks.sections.includes(section) || Boolean(locks.items[section]?.includes(index));
+}
+
+export function SectionLock({ section }: { section: LockableSection }) {
+  const editing = useContext(EditingContext);
+  if (!editing) {
+    return null;
+  }
+  const locked = editing.locks.sections.includes(section);
+
+  return (
+    <button
+      className="ghost-button lock-button"
+      type="button"
+      aria-pressed={locked}
+      onClick={() => editing.toggleSection(section)}
+    >
+      {locked ? "Section locked" : "Lock section"}
+    </button>
+  );
+}
+
+type FieldValue = string | string[];
+
+/** Identifiers and dates the engine owns; editing them would break scheduling and links. */
+const readOnlyFields = new Set(["id", "kind", "startDate", "endDate", "matchedKeywords"]);
+
+/** Copy fields of an item; numbers and nested objects are derived and not editable. */
+function editableFields(item: Record<string, unknown>) {
+  return Object.entries(item).filter(
+    (entry): entry is [string, FieldValue] =>
+      !readOnlyFields.has(entry[0]) &&
+      (typeof entry[1] === "string" ||
+        (Array.isArray(entry[1]) && entry[1].every((value) => typeof value === "string"))),
+  );
+}
+
+function fieldLabel(field: string) {
+  const words = field.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function ItemEditor({
+  item,
+  onSave,
+  onCancel,
+}: {
+  item: Record<string, unknown>;
+  onSave: (next: Record<string, unknown>) => void;
+  onCancel: () => void;
+}) {
+  const idPrefix = useId();
+  const [draft, setDraft] = useState(() =>
+    Object.fromEntries(
+      editableFields(item).map(([field, value]) => [
+        field,
+        Array.isArray(value) ? value.join("\n") : value,
+      ]),
+    ),
+  );
+
+  const handleSave = useCallback(() => {
+    onSave({
+      ...item,
+      ...Object.fromEntries(
+        Object.entries(draft).map(([field, text]) => [
+          field,
+          Array.isArray(item[field])
+            ? text
+                .split("\n")
+                .map((line) => line.trim())
+                .filter(Boolean)
+            : text.trim(),
+        ]),
+      ),
+    });
+  }, [draft, item, onSave]);
+
+  // Sections are validated on the server; an emptied field would reject the whole lock.
+  const incomplete = Object.values(draft).some((text) => !text.trim());
+
+  return (
+    <div className="item-editor">
+      {Object.entries(draft).map(([field, text]) => (
+        <div className="field" key={field}>
+          <label htmlFor={`${idPrefix}-${field}`}>{fieldLabel(field)}</label>
+          <textarea
+            id={`${idPrefix}-${field}`}
+            rows={Array.isArray(item[field]) ? 4 : 2}
+            value={text}
+            onChange={(event) =>
+              setDraft((current) => ({ ...current, [field]: event.target.value }))
+            }
+          />
+        </div>
+      ))}
+      <div className="action-row">
+        <button className="ghost-button" type="button" disabled={incomplete} onClick={handleSave}>
+          Save and lock
+        </button>
+        <button className="ghost-button" type="button" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function ItemControls({ section, index }: { section: ListSection; index: number }) {
+  const editing = useContext(EditingContext);
+  const [open, setOpen] = useState(false);
+  if (!editing) {
+    return null;
+  }
+  const item = (editing.data[section] as unknown[] | undefined)?.[index] as
+    Record<string, unknown> | undefined;
+  if (!item) {
+    return null;
+  }
+  const locked = isItemLocked(editing.locks, section, index);
+  const sectionLocked = editing.locks.sections.includes(section);
+
+  return (
+    <>
+      <div className="action-row">
+        <button
+          className="ghost-button lock-button"
+          type="button"
+          aria-pressed={locked}
+          disabled={sectionLocked}
+          onClick={() => editing.toggleItem(section, index)}
+        >
+          {locked ? "Locked" : "Lock"}
+        </button>
+        <button className="ghost-button" type="button" onClick={() => setOpen(!open)}>
+          {open ? "Close editor" : "Edit"}
+        </button>
+      </div>
+      {open ? (
+        <ItemEditor
+          item={item}
+          onCancel={() => setOpen(false)}
+          onSave={(next) => {
+            editing.updateItem(section, index, next);
+            setOpen(false);
+          }}
+        />
+      ) : null}
+    </>
+  );
+}
+
+export function EditableSummary({ summary }: { summary: string }) {
+  const editing = useContext(EditingContext);
+  const [text, setText] = useState<string | null>(null);
+
+  if (!editing || text === null) {
+    return (
+      <>
+        <p>{summary}</p>
+        {editing ? (
+          <div className="action-row">
+            <SectionLock section="executiveSummary" />
+            <button className="ghost-button" type="button" onClick={() => setText(summary)}>
+              Edit
+            </button>
+          </div>
+        ) : null}
+      </>
+    );
+  }
+
+  return (
+    <div className="item-editor">
+      <textarea
+        aria-label="Executive summary"
+        rows={4}
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+      />
+      <div className="action-row">
+        <button
+          className="ghost-button"
+          type="button"
+          disabled={!text.trim()}
+          onClick={() => {
+            editing.updateSummary(text.trim());
+            setText(null);
+          }}
+        >
+          Save and lock
+        </button>
+        <button className="ghost-button" type="button" onClick={() => setText(null)}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
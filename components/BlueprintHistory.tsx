@@ -0,0 +1,241 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { clsx } from "clsx";
+import type { GTMRequest } from "@/lib/agent";
+import { compareBlueprints, hasItemChanges, type BlueprintDiff, type ItemDiff } from "@/lib/diff";
+import type { BlueprintRecord, BlueprintSummary } from "@/lib/history";
+
+export const briefFieldLabels: Record<keyof GTMRequest, string> = {
+  productName: "Product name",
+  productSummary: "Product summary",
+  audience: "Target audience",
+  problem: "Problem",
+  differentiation: "Why you win",
+  pricing: "Pricing motion",
+  brandVoice: "Brand voice",
+  voiceSamples: "Voice samples",
+  primaryGoal: "Primary goal",
+  successMetric: "North star metric",
+  launchHorizon: "Launch horizon",
+  launchStartDate: "Launch start date",
+  budget: "Launch budget (USD)",
+  teamCapacity: "Team capacity (FTE)",
+  competitors: "Competitors",
+  market: "Market sizing",
+  vertical: "Industry vertical",
+  targetMarkets: "Target markets",
+};
+
+async function fetchRecord(id: string) {
+  const response = await fetch(`/api/history/${id}`);
+  if (!response.ok) {
+    throw new Error("Failed to load blueprint.");
+  }
+  return (await response.json()) as BlueprintRecord;
+}
+
+export function BlueprintHistory({
+  refreshKey,
+  onOpen,
+}: {
+  refreshKey: string | null;
+  onOpen: (record: BlueprintRecord) => void;
+}) {
+  const [entries, setEntries] = useState<BlueprintSummary[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<{
+    before: BlueprintRecord;
+    after: BlueprintRecord;
+    diff: BlueprintDiff;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/history")
+      .then((response) => response.json())
+      .then((body: { blueprints?: BlueprintSummary[] }) => {
+        if (!cancelled) {
+          setEntries(body.blueprints ?? []);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError("Failed to load blueprint history.");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const toggle = useCallback((id: string) => {
+    setSelected((current) =>
+      current.includes(id) ? current.filter((entry) => entry !== id) : [...current, id].slice(-2),
+    );
+  }, []);
+
+  const handleOpen = useCallback(
+    async (id: string) => {
+      setError(null);
+      try {
+        onOpen(await fetchRecord(id));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unexpected error.");
+      }
+    },
+    [onOpen],
+  );
+
+  const handleCompare = useCallback(async () => {
+    setError(null);
+    try {
+      const records = await Promise.all(selected.map(fetchRecord));
+      const [before, after] = records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      setComparison({ before, after, diff: compareBlueprints(before, after) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unexpected error.");
+    }
+  }, [selected]);
+
+  if (!entries.length) {
+    return null;
+  }
+
+  return (
+    <section className="panel" style={{ marginTop: "2.5rem" }}>
+      <h2>Blueprint History</h2>
+      <table className="insight-table">
+        <thead>
+          <tr>
+            <th>Compare</th>
+            <th>Generated</th>
+            <th>Product</th>
+            <th>Goal</th>
+            <th>Horizon</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => (
+            <tr key={entry.id} className={clsx(selected.includes(entry.id) && "is-selected")}>
+              <td>
+                <input
+                  type="checkbox"
+                  aria-label={`Select ${entry.productName} for comparison`}
+                  checked={selected.includes(entry.id)}
+                  onChange={() => toggle(entry.id)}
+                />
+              </td>
+              <td>{new Date(entry.createdAt).toLocaleString()}</td>
+              <td>{entry.productName}</td>
+              <td>{entry.primaryGoal}</td>
+              <td>{entry.launchHorizon}</td>
+              <td>
+                <button className="ghost-button" type="button" onClick={() => handleOpen(entry.id)}>
+                  Open
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        className="primary-button"
+        type="button"
+        disabled={selected.length !== 2}
+        onClick={handleCompare}
+      >
+        Compare selected blueprints
+      </button>
+      {error ? <span className="pill" data-tone="warning">{error}</span> : null}
+      {comparison ? <BlueprintComparison {...comparison} /> : null}
+    </section>
+  );
+}
+
+function ItemDiffBlock({ label, diff }: { label: string; diff: ItemDiff }) {
+  return (
+    <div className="matrix-row">
+      <h3>{label}</h3>
+      {hasItemChanges(diff) ? (
+        <div className="tag-cloud">
+          {diff.added.map((key) => (
+            <span key={`added-${key}`} className="diff-tag" data-change="added">
+              + {key}
+            </span>
+          ))}
+          {diff.removed.map((key) => (
+            <span key={`removed-${key}`} className="diff-tag" data-change="removed">
+              − {key}
+            </span>
+          ))}
+          {diff.reworded.map((entry) => (
+            <span key={`reworded-${entry.key}`} className="diff-tag" data-change="reworded">
+              ~ {entry.key} ({entry.fields.join(", ")})
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p>No changes.</p>
+      )}
+    </div>
+  );
+}
+
+function BlueprintComparison({
+  before,
+  after,
+  diff,
+}: {
+  before: BlueprintRecord;
+  after: BlueprintRecord;
+  diff: BlueprintDiff;
+}) {
+  return (
+    <div className="results-grid">
+      <div className="matrix">
+        <span className="subheading">Input changes</span>
+        {diff.inputs.length ? (
+          <table className="insight-table">
+            <thead>
+              <tr>
+                <th>Field</th>
+                <th>{new Date(before.createdAt).toLocaleString()}</th>
+                <th>{new Date(after.createdAt).toLocaleString()}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.inputs.map((change) => (
+                <tr key={change.field}>
+                  <td>{briefFieldLabels[change.field] ?? change.field}</td>
+                  <td className="diff-before">{change.before || "—"}</td>
+                  <td className="diff-after">{change.after || "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p>Both runs used the same brief.</p>
+        )}
+      </div>
+
+      <div className="matrix">
+        <span className="subheading">Plan changes</span>
+        {diff.summaryChanged ? (
+          <div className="compare-columns">
+            <p className="diff-before">{before.blueprint.executiveSummary}</p>
+            <p className="diff-after">{after.blueprint.executiveSummary}</p>
+          </div>
+        ) : null}
+        <ItemDiffBlock label="Launch phases" diff={diff.phases} />
+        <ItemDiffBlock label="Messaging pillars" diff={diff.pillars} />
+        <ItemDiffBlock label="Channels" diff={diff.channels} />
+        <ItemDiffBlock label="Metrics" diff={diff.metrics} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useCallback } from "react";
+import type { Competitor } from "@/lib/battlecards";
+
+/** Form-side competitor: strengths and weaknesses are edited as free text. */
+export type CompetitorDraft = {
+  name: string;
+  strengths: string;
+  weaknesses: string;
+  pricePoint: string;
+};
+
+export const emptyCompetitor: CompetitorDraft = {
+  name: "",
+  strengths: "",
+  weaknesses: "",
+  pricePoint: "",
+};
+
+function splitList(value: string) {
+  return value
+    .split(/[\n;,]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/** Unnamed rows are dropped; an empty list means "no competitors". */
+export function toCompetitors(drafts: CompetitorDraft[]): Competitor[] | undefined {
+  const competitors = drafts
+    .filter((draft) => draft.name.trim())
+    .map((draft) => ({
+      name: draft.name.trim(),
+      strengths: splitList(draft.strengths),
+      weaknesses: splitList(draft.weaknesses),
+      ...(draft.pricePoint.trim() ? { pricePoint: draft.pricePoint.trim() } : {}),
+    }));
+  return competitors.length ? competitors : undefined;
+}
+
+export function toCompetitorDrafts(competitors: Competitor[] = []): CompetitorDraft[] {
+  return competitors.map((competitor) => ({
+    name: competitor.name,
+    strengths: competitor.strengths.join("\n"),
+    weaknesses: competitor.weaknesses.join("\n"),
+    pricePoint: competitor.pricePoint ?? "",
+  }));
+}
+
+export function CompetitorFields({
+  value,
+  onChange,
+}: {
+  value: CompetitorDraft[];
+  onChange: (next: CompetitorDraft[]) => void;
+}) {
+  const update = useCallback(
+    (index: number, field: keyof CompetitorDraft, text: string) => {
+      onChange(value.map((draft, i) => (i === index ? { ...draft, [field]: text } : draft)));
+    },
+    [onChange, value],
+  );
+
+  return (
+    <>
+      {value.map((draft, index) => (
+        <div className="competitor-row" key={index}>
+          <div className="input-grid">
+            <div className="field">
+              <label htmlFor={`competitor-name-${index}`}>Competitor</label>
+              <input
+                id={`competitor-name-${index}`}
+                placeholder="Incumbent Suite"
+                value={draft.name}
+                onChange={(event) => update(index, "name", event.target.value)}
+              />
+            </div>
+            <div className="field">
+              <label htmlFor={`competitor-price-${index}`}>Price Point</label>
+              <input
+                id={`competitor-price-${index}`}
+                placeholder="$60/seat/month"
+                value={draft.pricePoint}
+                onChange={(event) => update(index, "pricePoint", event.target.value)}
+              />
+            </div>
+            <div className="field">
+              <label htmlFor={`competitor-strengths-${index}`}>Strengths</label>
+              <textarea
+                id={`competitor-strengths-${index}`}
+                placeholder="One per line: brand awareness, large integration ecosystem..."
+                value={draft.strengths}
+                onChange={(event) => update(index, "strengths", event.target.value)}
+              />
+            </div>
+            <div className="field">
+              <label htmlFor={`competitor-weaknesses-${index}`}>Weaknesses</label>
+              <textarea
+                id={`competitor-weaknesses-${index}`}
+                placeholder="One per line: slow onboarding, expensive seats..."
+                value={draft.weaknesses}
+                onChange={(event) => update(index, "weaknesses", event.target.value)}
+              />
+            </div>
+          </div>
+          <button
+            className="ghost-button"
+            type="button"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+          >
+            Remove competitor
+          </button>
+        </div>
+      ))}
+      <button
+        className="ghost-button"
+        type="button"
+        onClick={() => onChange([...value, emptyCompetitor])}
+      >
+        Add competitor
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import type { GTMRequest, GTMResponse } from "@/lib/agent";
+import { contentKindLabels, type ContentDraft } from "@/lib/content";
+
+async function postContent(body: Record<string, unknown>) {
+  const response = await fetch("/api/content", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.message ?? "Failed to generate content.");
+  }
+  return payload;
+}
+
+export function ContentDrafts({ brief, data }: { brief: GTMRequest; data: GTMResponse }) {
+  const [drafts, setDrafts] = useState<ContentDraft[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (key: string, task: () => Promise<void>) => {
+    setBusy(key);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unexpected error.");
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  const handleGenerate = useCallback(
+    () =>
+      run("all", async () => {
+        const payload = await postContent({ request: brief, blueprint: data });
+        setDrafts(payload.drafts as ContentDraft[]);
+      }),
+    [brief, data, run],
+  );
+
+  const handleRegenerate = useCallback(
+    (draft: ContentDraft) =>
+      run(draft.id, async () => {
+        const payload = await postContent({
+          request: brief,
+          blueprint: data,
+          draftId: draft.id,
+          variant: draft.variant + 1,
+        });
+        const next = payload.draft as ContentDraft;
+        setDrafts((current) => current.map((entry) => (entry.id === next.id ? next : entry)));
+      }),
+    [brief, data, run],
+  );
+
+  const handleCopy = useCallback(async (draft: ContentDraft) => {
+    try {
+      await navigator.clipboard.writeText(`${draft.title}\n\n${draft.body}`);
+      setCopied(draft.id);
+    } catch {
+      setError("Clipboard access was blocked by the browser.");
+    }
+  }, []);
+
+  return (
+    <div className="results-grid">
+      <div className="action-row">
+        <button
+          className="ghost-button"
+          type="button"
+          disabled={busy !== null}
+          onClick={handleGenerate}
+        >
+          {busy === "all"
+            ? "Drafting..."
+            : drafts.length
+              ? "Regenerate all drafts"
+              : "Generate content drafts"}
+        </button>
+        {error ? <span className="pill" data-tone="warning">{error}</span> : null}
+      </div>
+      {drafts.length ? (
+        <div className="matrix">
+          <span className="subheading">Launch content drafts</span>
+          {drafts.map((draft) => (
+            <div className="matrix-row content-draft" key={draft.id}>
+              <div className="pill">{contentKindLabels[draft.kind]}</div>
+              <h3>{draft.title}</h3>
+              <p className="content-body">{draft.body}</p>
+              <div className="tag-cloud">
+                <span>{draft.pillar}</span>
+                <span>{draft.persona}</span>
+                <span>{draft.channel}</span>
+              </div>
+              <div className="action-row">
+                <button
+                  className="ghost-button"
+                  type="button"
+                  disabled={busy !== null}
+                  onClick={() => handleRegenerate(draft)}
+                >
+                  {busy === draft.id ? "Regenerating..." : "Regenerate"}
+                </button>
+                <button className="ghost-button" type="button" onClick={() => handleCopy(draft)}>
+                  {copied === draft.id ? "Copied" : "Copy"}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
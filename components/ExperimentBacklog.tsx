@@ -0,0 +1,138 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { GTMResponse } from "@/lib/agent";
+import type { ExperimentStatus } from "@/lib/experiments";
+import { ItemControls, SectionLock } from "./BlueprintEditing";
+
+type SortKey = "score" | "sequence";
+
+const STATUS_STORAGE_KEY = "gtm-experiment-status";
+const statuses: ExperimentStatus[] = ["planned", "running", "done"];
+
+function readStatuses(): Record<string, ExperimentStatus> {
+  try {
+    return JSON.parse(window.localStorage.getItem(STATUS_STORAGE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function ExperimentBacklog({
+  experiments,
+  productName,
+}: {
+  experiments: GTMResponse["growthExperiments"];
+  productName: string;
+}) {
+  const [sortKey, setSortKey] = useState<SortKey>("score");
+  const [status, setStatus] = useState<Record<string, ExperimentStatus>>({});
+
+  useEffect(() => {
+    setStatus(readStatuses());
+  }, []);
+
+  const statusKey = useCallback((id: string) => `${productName}:${id}`, [productName]);
+
+  const updateStatus = useCallback(
+    (id: string, next: ExperimentStatus) => {
+      setStatus((current) => {
+        const updated = { ...current, [statusKey(id)]: next };
+        window.localStorage.setItem(STATUS_STORAGE_KEY, JSON.stringify(updated));
+        return updated;
+      });
+    },
+    [statusKey],
+  );
+
+  const sorted = useMemo(
+    () =>
+      [...experiments].sort((a, b) =>
+        sortKey === "score" ? b.ice.score - a.ice.score : a.sequence - b.sequence,
+      ),
+    [experiments, sortKey],
+  );
+
+  return (
+    <div className="matrix">
+      <span className="subheading">Growth experiments</span>
+      <SectionLock section="growthExperiments" />
+      <div className="action-row">
+        <button
+          className="ghost-button"
+          type="button"
+          aria-pressed={sortKey === "score"}
+          disabled={sortKey === "score"}
+          onClick={() => setSortKey("score")}
+        >
+          Sort by ICE score
+        </button>
+        <button
+          className="ghost-button"
+          type="button"
+          aria-pressed={sortKey === "sequence"}
+          disabled={sortKey === "sequence"}
+          onClick={() => setSortKey("sequence")}
+        >
+          Sort by run order
+        </button>
+      </div>
+      {sorted.map((experiment) => {
+        const current = status[statusKey(experiment.id)] ?? "planned";
+
+        return (
+          <div className="matrix-row" key={experiment.id} data-status={current}>
+            <ItemControls section="growthExperiments" index={experiments.indexOf(experiment)} />
+            <div className="action-row">
+              <div className="pill">{experiment.title}</div>
+              <span className="pill" data-tone="success">
+                ICE {experiment.ice.score.toFixed(1)}
+              </span>
+              <span className="pill">
+                #{experiment.sequence} · {experiment.phase}
+              </span>
+              <select
+                className="status-select"
+                aria-label={`Status of ${experiment.title}`}
+                value={current}
+                onChange={(event) =>
+                  updateStatus(experiment.id, event.target.value as ExperimentStatus)
+                }
+              >
+                {statuses.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p>{experiment.hypothesis}</p>
+            <p>
+              Impact {experiment.ice.impact} · Confidence {experiment.ice.confidence} · Ease{" "}
+              {experiment.ice.ease}
+            </p>
+            {experiment.tags.length ? (
+              <div className="tag-cloud">
+                {experiment.tags.map((tag) => (
+                  <span key={tag}>{tag}</span>
+                ))}
+              </div>
+            ) : null}
+            <div>
+              <span className="subheading">Playbook</span>
+              <ul className="list">
+                {experiment.playbook.map((step) => (
+                  <li key={step}>{step}</li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <span className="subheading">Measure</span>
+              <p>{experiment.measure}</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
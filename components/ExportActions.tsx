@@ -0,0 +1,94 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import type { GTMRequest, GTMResponse } from "@/lib/agent";
+import type { DocumentKind } from "@/lib/document";
+import type { ExportFormat } from "@/lib/export";
+
+const exportOptions: Array<{ format: ExportFormat; label: string }> = [
+  { format: "markdown", label: "Markdown" },
+  { format: "docx", label: "Word (.docx)" },
+  { format: "html", label: "Printable HTML" },
+  { format: "ics", label: "Calendar (.ics)" },
+  { format: "csv", label: "Tasks (.csv)" },
+  { format: "github", label: "GitHub Issues" },
+  { format: "jira", label: "Jira" },
+  { format: "linear", label: "Linear" },
+];
+
+/** The sales kit is a separate document for AEs and SEs; it has no calendar. */
+const documentRows: Array<{ document: DocumentKind; label: string; formats: ExportFormat[] }> = [
+  { document: "blueprint", label: "Export", formats: ["markdown", "docx", "html", "ics"] },
+  { document: "blueprint", label: "Tasks", formats: ["csv", "github", "jira", "linear"] },
+  { document: "enablement", label: "Sales kit", formats: ["markdown", "docx", "html"] },
+];
+
+function fileNameFrom(response: Response, fallback: string) {
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  return disposition.match(/filename="([^"]+)"/)?.[1] ?? fallback;
+}
+
+export async function downloadResponse(response: Response, fallbackName: string) {
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileNameFrom(response, fallbackName);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ExportActions({ brief, data }: { brief: GTMRequest; data: GTMResponse }) {
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = useCallback(
+    async (kind: DocumentKind, format: ExportFormat) => {
+      setBusy(`${kind}:${format}`);
+      setError(null);
+
+      try {
+        const response = await fetch("/api/export", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ format, document: kind, request: brief, blueprint: data }),
+        });
+
+        if (!response.ok) {
+          const body = await response.json();
+          throw new Error(body?.message ?? "Failed to export blueprint.");
+        }
+
+        await downloadResponse(response, `gtm-${kind}.${format}`);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unexpected error.");
+      } finally {
+        setBusy(null);
+      }
+    },
+    [brief, data],
+  );
+
+  return (
+    <>
+      {documentRows.map((row) => (
+        <div className="action-row" key={row.label}>
+          <span className="subheading">{row.label}</span>
+          {exportOptions
+            .filter(({ format }) => row.formats.includes(format))
+            .map(({ format, label }) => (
+              <button
+                key={format}
+                className="ghost-button"
+                type="button"
+                disabled={busy !== null}
+                onClick={() => handleExport(row.document, format)}
+              >
+                {busy === `${row.document}:${format}` ? "Exporting..." : label}
+              </button>
+            ))}
+        </div>
+      ))}
+      {error ? <span className="pill" data-tone="warning">{error}</span> : null}
+    </>
+  );
+}
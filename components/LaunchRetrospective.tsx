@@ -0,0 +1,355 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { GTMResponse } from "@/lib/agent";
+import type { ActualsRecord } from "@/lib/actuals";
+import { formatCount, formatPercent } from "@/lib/format";
+import {
+  OUTCOMES_KPI,
+  SPEND_KPI,
+  type ActualValue,
+  type PerformanceStatus,
+  type Retrospective,
+} from "@/lib/retrospective";
+
+type ActualsResponse = {
+  actuals: ActualsRecord | null;
+  retrospective: Retrospective | null;
+  message?: string;
+};
+
+type EntryRow = Omit<ActualValue, "value"> & { key: string; label: string };
+
+const statusTones: Record<PerformanceStatus, "success" | "warning" | undefined> = {
+  ahead: "success",
+  on_track: "success",
+  behind: "warning",
+  untracked: undefined,
+};
+
+const statusLabels: Record<PerformanceStatus, string> = {
+  ahead: "Ahead",
+  on_track: "On track",
+  behind: "Behind",
+  untracked: "Not tracked",
+};
+
+const csvTemplate = "kind,name,kpi,value";
+
+function rowKey(entry: Pick<ActualValue, "kind" | "name" | "kpi">) {
+  return [entry.kind, entry.name, entry.kpi ?? ""].join("|").toLowerCase();
+}
+
+/** One input per framework metric and per channel KPI, outcomes and spend first. */
+function entryRows(data: GTMResponse): EntryRow[] {
+  const metrics = data.measurementFramework.map((metric) => ({
+    kind: "metric" as const,
+    name: metric.metric,
+    label: metric.metric,
+  }));
+  const channels = data.channelStrategy.flatMap((channel) =>
+    [OUTCOMES_KPI, ...(channel.allocation.spend !== null ? [SPEND_KPI] : []), ...channel.kpis].map(
+      (kpi) => ({ kind: "channel" as const, name: channel.channel, kpi, label: kpi }),
+    ),
+  );
+  return [...metrics, ...channels].map((row) => ({ ...row, key: rowKey(row) }));
+}
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function StatusPill({ status }: { status: PerformanceStatus }) {
+  return (
+    <span className="pill" data-tone={statusTones[status]}>
+      {statusLabels[status]}
+    </span>
+  );
+}
+
+/**
+ * Records launch actuals for a saved blueprint, by hand or as CSV, and shows
+ * the variance, phase and channel performance and re-plan computed from them.
+ */
+export function LaunchRetrospective({
+  blueprintId,
+  data,
+}: {
+  blueprintId: string;
+  data: GTMResponse;
+}) {
+  const rows = useMemo(() => entryRows(data), [data]);
+  const [asOf, setAsOf] = useState(today);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [csv, setCsv] = useState("");
+  const [retrospective, setRetrospective] = useState<Retrospective | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = useCallback((body: ActualsResponse) => {
+    setRetrospective(body.retrospective);
+    if (body.actuals) {
+      setAsOf(body.actuals.asOf);
+      setValues(
+        Object.fromEntries(
+          body.actuals.values.map((entry) => [rowKey(entry), String(entry.value)]),
+        ),
+      );
+    }
+  }, []);
+
+  const request = useCallback(
+    async (init?: RequestInit) => {
+      const response = await fetch(`/api/history/${encodeURIComponent(blueprintId)}/actuals`, init);
+      const body = (await response.json()) as ActualsResponse;
+      if (!response.ok) {
+        throw new Error(body?.message ?? "Failed to load actuals.");
+      }
+      apply(body);
+    },
+    [apply, blueprintId],
+  );
+
+  useEffect(() => {
+    setError(null);
+    request().catch((err) =>
+      setError(err instanceof Error ? err.message : "Failed to load actuals."),
+    );
+  }, [request]);
+
+  const save = useCallback(
+    async (payload: { values: ActualValue[] } | { csv: string }) => {
+      setBusy(true);
+      setError(null);
+      try {
+        await request({
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ asOf, ...payload }),
+        });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unexpected error.");
+      } finally {
+        setBusy(false);
+      }
+    },
+    [asOf, request],
+  );
+
+  const handleSaveValues = useCallback(() => {
+    const entered = rows.flatMap(({ kind, name, kpi, key }) => {
+      const raw = values[key]?.trim();
+      return raw ? [{ kind, name, ...(kpi ? { kpi } : {}), value: Number(raw) }] : [];
+    });
+    return save({ values: entered });
+  }, [rows, save, values]);
+
+  const handleFile = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setCsv(await file.text());
+    }
+  }, []);
+
+  return (
+    <div className="results-grid">
+      <div className="matrix">
+        <span className="subheading">Launch actuals</span>
+        <p>
+          Enter cumulative totals to date. Channels are judged on {OUTCOMES_KPI.toLowerCase()} and{" "}
+          {SPEND_KPI.toLowerCase()}; other KPIs are kept for reference.
+        </p>
+        <div className="field">
+          <label htmlFor="actuals-as-of">Measured on</label>
+          <input
+            id="actuals-as-of"
+            type="date"
+            value={asOf}
+            onChange={(event) => setAsOf(event.target.value)}
+          />
+        </div>
+        <table className="insight-table">
+          <thead>
+            <tr>
+              <th>Metric or channel</th>
+              <th>KPI</th>
+              <th>Actual</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key}>
+                <td>{row.name}</td>
+                <td>{row.kpi ?? "—"}</td>
+                <td>
+                  <input
+                    aria-label={`${row.name} ${row.kpi ?? ""} actual`}
+                    type="number"
+                    min={0}
+                    value={values[row.key] ?? ""}
+                    onChange={(event) =>
+                      setValues((current) => ({ ...current, [row.key]: event.target.value }))
+                    }
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="action-row">
+          <button className="ghost-button" type="button" disabled={busy} onClick={handleSaveValues}>
+            {busy ? "Saving..." : "Save actuals"}
+          </button>
+        </div>
+        <div className="field">
+          <label htmlFor="actuals-csv">Or paste a CSV</label>
+          <textarea
+            id="actuals-csv"
+            placeholder={`${csvTemplate}\nmetric,${rows[0]?.name ?? "North star"},,42\nchannel,${
+              data.channelStrategy[0]?.channel ?? "Paid Acquisition"
+            },${OUTCOMES_KPI},12`}
+            value={csv}
+            onChange={(event) => setCsv(event.target.value)}
+          />
+          <input type="file" accept=".csv,text/csv" onChange={handleFile} />
+        </div>
+        <div className="action-row">
+          <button
+            className="ghost-button"
+            type="button"
+            disabled={busy || !csv.trim()}
+            onClick={() => save({ csv })}
+          >
+            Import CSV
+          </button>
+        </div>
+        {error ? <span className="pill" data-tone="warning">{error}</span> : null}
+      </div>
+
+      {retrospective ? <RetrospectiveView retrospective={retrospective} /> : null}
+    </div>
+  );
+}
+
+function RetrospectiveView({ retrospective }: { retrospective: Retrospective }) {
+  const { replan } = retrospective;
+
+  return (
+    <>
+      <div className="insight-block">
+        <span className="subheading">Retrospective</span>
+        <p>{retrospective.summary}</p>
+        <table className="insight-table">
+          <thead>
+            <tr>
+              <th>Metric or channel</th>
+              <th>Actual</th>
+              <th>Expected by now</th>
+              <th>Variance</th>
+              <th>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {retrospective.variances.map((row) => (
+              <tr key={rowKey(row)}>
+                <td>{row.kpi ? `${row.name} · ${row.kpi}` : row.name}</td>
+                <td>{formatCount(row.value)}</td>
+                <td>{row.expected !== null ? formatCount(row.expected) : "—"}</td>
+                <td>
+                  {row.variance !== null
+                    ? `${row.variance >= 0 ? "+" : "−"}${formatPercent(Math.abs(row.variance))}`
+                    : "—"}
+                </td>
+                <td>
+                  <StatusPill status={row.status} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="matrix">
+        <span className="subheading">Phases and channels</span>
+        <table className="insight-table">
+          <tbody>
+            {retrospective.phases.map((phase) => (
+              <tr key={phase.phase}>
+                <td>
+                  {phase.phase}
+                  <div className="pill">{phase.timing}</div>
+                </td>
+                <td>{phase.detail}</td>
+                <td>
+                  <StatusPill status={phase.status} />
+                </td>
+              </tr>
+            ))}
+            {retrospective.channels.map((channel) => (
+              <tr key={channel.channel}>
+                <td>{channel.channel}</td>
+                <td>{channel.detail}</td>
+                <td>
+                  <StatusPill status={channel.status} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="matrix">
+        <span className="subheading">Re-plan · {replan.remainingDays} days left</span>
+        <p>{replan.message}</p>
+        <table className="insight-table">
+          <thead>
+            <tr>
+              <th>Channel</th>
+              <th>Mix</th>
+              <th>Why</th>
+            </tr>
+          </thead>
+          <tbody>
+            {replan.channels.map((shift) => (
+              <tr key={shift.channel}>
+                <td>
+                  {shift.channel}
+                  <div className="pill">{shift.action}</div>
+                </td>
+                <td>
+                  {formatPercent(shift.fromShare)} → {formatPercent(shift.toShare)}
+                </td>
+                <td>{shift.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {replan.plays.map((entry) => (
+          <div className="matrix-row" key={entry.phase}>
+            <h3>New plays for {entry.phase}</h3>
+            <ul className="list">
+              {entry.plays.map((play) => (
+                <li key={play}>{play}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+        {replan.experiments.length ? (
+          <div className="matrix-row">
+            <h3>Experiment queue</h3>
+            <ul className="list">
+              {replan.experiments.map((shift) => (
+                <li key={shift.id}>
+                  <strong>
+                    {shift.action === "prioritise" ? "Move up" : "Hold back"}: {shift.title}
+                  </strong>{" "}
+                  {shift.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useCallback } from "react";
+import type { MarketInputs } from "@/lib/market";
+
+/** Form-side market inputs: numbers are edited as text, shares as percentages. */
+export type MarketDraft = {
+  segments: Array<{ name: string; accounts: string }>;
+  averageContractValue: string;
+  reachableShare: string;
+  winRate: string;
+};
+
+export const emptyMarket: MarketDraft = {
+  segments: [],
+  averageContractValue: "",
+  reachableShare: "",
+  winRate: "",
+};
+
+const emptySegment = { name: "", accounts: "" };
+
+/** Blank text becomes NaN so the schema reports it instead of reading it as 0. */
+function toNumber(value: string) {
+  return value.trim() ? Number(value) : NaN;
+}
+
+function toShare(percent: string) {
+  return percent.trim() ? toNumber(percent) / 100 : undefined;
+}
+
+function toPercent(share?: number) {
+  return share === undefined ? "" : String(Math.round(share * 1000) / 10);
+}
+
+/** Blank segment rows are dropped; no segments means "no market inputs". */
+export function toMarketInputs(draft: MarketDraft): MarketInputs | undefined {
+  const segments = draft.segments
+    .filter((segment) => segment.name.trim() || segment.accounts.trim())
+    .map((segment) => ({ name: segment.name.trim(), accounts: toNumber(segment.accounts) }));
+  if (!segments.length) {
+    return undefined;
+  }
+  const reachableShare = toShare(draft.reachableShare);
+  const winRate = toShare(draft.winRate);
+  return {
+    segments,
+    ...(draft.averageContractValue.trim()
+      ? { averageContractValue: toNumber(draft.averageContractValue) }
+      : {}),
+    ...(reachableShare !== undefined ? { reachableShare } : {}),
+    ...(winRate !== undefined ? { winRate } : {}),
+  };
+}
+
+export function toMarketDraft(market?: MarketInputs): MarketDraft {
+  if (!market) {
+    return emptyMarket;
+  }
+  return {
+    segments: market.segments.map((segment) => ({
+      name: segment.name,
+      accounts: String(segment.accounts),
+    })),
+    averageContractValue: market.averageContractValue?.toString() ?? "",
+    reachableShare: toPercent(market.reachableShare),
+    winRate: toPercent(market.winRate),
+  };
+}
+
+export function MarketFields({
+  value,
+  audience,
+  onChange,
+}: {
+  value: MarketDraft;
+  /** Suggested as the first segment's name. */
+  audience: string;
+  onChange: (next: MarketDraft) => void;
+}) {
+  const updateSegment = useCallback(
+    (index: number, field: "name" | "accounts", text: string) => {
+      onChange({
+        ...value,
+        segments: value.segments.map((segment, i) =>
+          i === index ? { ...segment, [field]: text } : segment,
+        ),
+      });
+    },
+    [onChange, value],
+  );
+
+  const update = useCallback(
+    (field: Exclude<keyof MarketDraft, "segments">, text: string) => {
+      onChange({ ...value, [field]: text });
+    },
+    [onChange, value],
+  );
+
+  return (
+    <>
+      {value.segments.map((segment, index) => (
+        <div className="competitor-row" key={index}>
+          <div className="input-grid">
+            <div className="field">
+              <label htmlFor={`segment-name-${index}`}>Segment</label>
+              <input
+                id={`segment-name-${index}`}
+                placeholder={index === 0 && audience.trim() ? audience : "Mid-market SaaS"}
+                value={segment.name}
+                onChange={(event) => updateSegment(index, "name", event.target.value)}
+              />
+            </div>
+            <div className="field">
+              <label htmlFor={`segment-accounts-${index}`}>Accounts in Segment</label>
+              <input
+                id={`segment-accounts-${index}`}
+                type="number"
+                min={0}
+                step={100}
+                placeholder="4000"
+                value={segment.accounts}
+                onChange={(event) => updateSegment(index, "accounts", event.target.value)}
+              />
+            </div>
+          </div>
+          <button
+            className="ghost-button"
+            type="button"
+            onClick={() =>
+              onChange({ ...value, segments: value.segments.filter((_, i) => i !== index) })
+            }
+          >
+            Remove segment
+          </button>
+        </div>
+      ))}
+      <button
+        className="ghost-button"
+        type="button"
+        onClick={() => onChange({ ...value, segments: [...value.segments, emptySegment] })}
+      >
+        Add segment
+      </button>
+      {value.segments.length ? (
+        <div className="input-grid">
+          <div className="field">
+            <label htmlFor="market-acv">Average Contract Value (USD/year)</label>
+            <input
+              id="market-acv"
+              type="number"
+              min={0}
+              step={100}
+              placeholder="Defaults to the pricing model's"
+              value={value.averageContractValue}
+              onChange={(event) => update("averageContractValue", event.target.value)}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="market-reach">Reachable Share (%)</label>
+            <input
+              id="market-reach"
+              type="number"
+              min={0}
+              max={100}
+              placeholder="25"
+              value={value.reachableShare}
+              onChange={(event) => update("reachableShare", event.target.value)}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="market-win-rate">Win Rate (%)</label>
+            <input
+              id="market-win-rate"
+              type="number"
+              min={0}
+              max={100}
+              placeholder="20"
+              value={value.winRate}
+              onChange={(event) => update("winRate", event.target.value)}
+            />
+          </div>
+        </div>
+      ) : null}
+    </>
+  );
+}
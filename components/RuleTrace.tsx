@@ -0,0 +1,65 @@
+"use client";
+
+import type { GTMRequest } from "@/lib/agent";
+import { traceFor, type SectionTrace } from "@/lib/trace";
+
+const fieldLabels: Partial<Record<keyof GTMRequest, string>> = {
+  productName: "Product name",
+  audience: "Audience",
+  problem: "Problem",
+  differentiation: "Differentiation",
+  pricing: "Pricing",
+  primaryGoal: "Primary goal",
+  launchHorizon: "Launch horizon",
+  launchStartDate: "Start date",
+  vertical: "Vertical",
+};
+
+/** "Why?" popover listing the rules and defaults behind a block, or a whole section. */
+export function WhyPopover({ trace, subject }: { trace?: SectionTrace; subject?: string }) {
+  if (!trace) {
+    return null;
+  }
+  const { rules, defaults } = traceFor(trace, subject);
+  if (!rules.length && !defaults.length) {
+    return null;
+  }
+
+  return (
+    <details className="why-popover">
+      <summary>Why?</summary>
+      <div className="why-panel">
+        <ul className="list">
+          {rules.map((rule, index) => (
+            <li key={`${rule.rule}-${rule.subject ?? ""}-${index}`} data-fired={rule.fired}>
+              <strong>
+                {rule.fired ? "Applied" : "Not applied"} · {rule.rule}
+                {subject === undefined && rule.subject ? ` (${rule.subject})` : ""}
+              </strong>{" "}
+              {rule.detail}
+              {rule.triggers.length ? (
+                <div className="tag-cloud">
+                  {rule.triggers.map((trigger, position) => (
+                    <span key={`${trigger.field}-${position}`}>
+                      {fieldLabels[trigger.field] ?? trigger.field}: “{trigger.text}”
+                    </span>
+                  ))}
+                </div>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+        {defaults.length ? (
+          <>
+            <span className="subheading">Defaults used</span>
+            <ul className="list">
+              {defaults.map((note) => (
+                <li key={note}>{note}</li>
+              ))}
+            </ul>
+          </>
+        ) : null}
+      </div>
+    </details>
+  );
+}
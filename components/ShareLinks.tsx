@@ -0,0 +1,210 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDate } from "@/lib/format";
+import type { CreatedShareLink, ShareLink, ShareLinkSummary } from "@/lib/shares";
+
+const expiryOptions: Array<{ days: number | null; label: string }> = [
+  { days: null, label: "Never expires" },
+  { days: 1, label: "Expires in 1 day" },
+  { days: 7, label: "Expires in 7 days" },
+  { days: 30, label: "Expires in 30 days" },
+];
+
+const statusTones: Record<ShareLinkSummary["status"], "success" | "warning"> = {
+  active: "success",
+  expired: "warning",
+  revoked: "warning",
+};
+
+/** Revoke tokens by share ID; the API returns each one only when its link is created. */
+const TOKEN_STORAGE_KEY = "gtm-share-revoke-tokens";
+
+function readTokens(): Record<string, string> {
+  try {
+    return JSON.parse(window.localStorage.getItem(TOKEN_STORAGE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+function shareUrl(id: string) {
+  return `${window.location.origin}/blueprints/${id}`;
+}
+
+/** Creates, lists and revokes read-only links to one saved blueprint. */
+export function ShareLinks({ blueprintId }: { blueprintId: string }) {
+  const [shares, setShares] = useState<ShareLinkSummary[]>([]);
+  const [tokens, setTokens] = useState<Record<string, string>>({});
+  const [expiry, setExpiry] = useState(0);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const response = await fetch(`/api/blueprints?blueprint=${encodeURIComponent(blueprintId)}`);
+    const body = (await response.json()) as { shares?: ShareLinkSummary[]; message?: string };
+    if (!response.ok) {
+      throw new Error(body?.message ?? "Failed to load share links.");
+    }
+    setShares(body.shares ?? []);
+  }, [blueprintId]);
+
+  useEffect(() => {
+    setTokens(readTokens());
+  }, []);
+
+  useEffect(() => {
+    setError(null);
+    load().catch((err) =>
+      setError(err instanceof Error ? err.message : "Failed to load share links."),
+    );
+  }, [load]);
+
+  const run = useCallback(
+    async (key: string, action: () => Promise<Response>, onDone?: (body: unknown) => void) => {
+      setBusy(key);
+      setError(null);
+      try {
+        const response = await action();
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body?.message ?? "Failed to update share links.");
+        }
+        onDone?.(body);
+        await load();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unexpected error.");
+      } finally {
+        setBusy(null);
+      }
+    },
+    [load],
+  );
+
+  const handleCreate = useCallback(
+    () =>
+      run(
+        "create",
+        () =>
+          fetch("/api/blueprints", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ blueprintId, expiresInDays: expiryOptions[expiry].days }),
+          }),
+        (body) => {
+          const { id, revokeToken } = body as CreatedShareLink;
+          const updated = { ...readTokens(), [id]: revokeToken };
+          window.localStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(updated));
+          setTokens(updated);
+        },
+      ),
+    [blueprintId, expiry, run],
+  );
+
+  const handleRevoke = useCallback(
+    (share: ShareLink) =>
+      run(share.id, () =>
+        fetch(`/api/blueprints/${share.id}`, {
+          method: "DELETE",
+          headers: { "X-Revoke-Token": tokens[share.id] ?? "" },
+        }),
+      ),
+    [run, tokens],
+  );
+
+  const handleCopy = useCallback(async (share: ShareLink) => {
+    await navigator.clipboard.writeText(shareUrl(share.id));
+    setCopied(share.id);
+  }, []);
+
+  return (
+    <div className="matrix">
+      <div className="action-row">
+        <span className="subheading">Share</span>
+        <select
+          aria-label="Link expiry"
+          value={expiry}
+          onChange={(event) => setExpiry(Number(event.target.value))}
+        >
+          {expiryOptions.map((option, index) => (
+            <option key={option.label} value={index}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          className="ghost-button"
+          type="button"
+          disabled={busy !== null}
+          onClick={handleCreate}
+        >
+          {busy === "create" ? "Creating..." : "Create read-only link"}
+        </button>
+      </div>
+      <p>
+        Links show the plan as it was generated; edits made here afterwards are not shared. Only
+        this browser can revoke the links it creates.
+      </p>
+      {shares.length ? (
+        <table className="insight-table">
+          <thead>
+            <tr>
+              <th>Link</th>
+              <th>Created</th>
+              <th>Expires</th>
+              <th>Status</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {shares.map((share) => (
+              <tr key={share.id}>
+                <td>
+                  <a href={`/blueprints/${share.id}`} target="_blank" rel="noreferrer">
+                    /blueprints/{share.id}
+                  </a>
+                </td>
+                <td>{formatDate(share.createdAt.slice(0, 10))}</td>
+                <td>{share.expiresAt ? formatDate(share.expiresAt.slice(0, 10)) : "Never"}</td>
+                <td>
+                  <span className="pill" data-tone={statusTones[share.status]}>
+                    {share.status}
+                  </span>
+                </td>
+                <td>
+                  {share.status === "active" ? (
+                    <div className="action-row">
+                      <button
+                        className="ghost-button"
+                        type="button"
+                        onClick={() => handleCopy(share)}
+                      >
+                        {copied === share.id ? "Copied" : "Copy link"}
+                      </button>
+                      {tokens[share.id] ? (
+                        <button
+                          className="ghost-button"
+                          type="button"
+                          disabled={busy !== null}
+                          onClick={() => handleRevoke(share)}
+                        >
+                          {busy === share.id ? "Revoking..." : "Revoke"}
+                        </button>
+                      ) : (
+                        <span title="Only the browser that created this link can revoke it.">
+                          Created elsewhere
+                        </span>
+                      )}
+                    </div>
+                  ) : null}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+      {error ? <span className="pill" data-tone="warning">{error}</span> : null}
+    </div>
+  );
+}
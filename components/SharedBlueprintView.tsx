@@ -0,0 +1,79 @@
+"use client";
+
+import type { GTMRequest } from "@/lib/agent";
+import { formatCount, formatDate } from "@/lib/format";
+import type { SharedBlueprint } from "@/lib/shares";
+import { findTargetMarket } from "@/lib/regions";
+import { findVerticalPack } from "@/lib/verticals";
+import { AgentResults } from "./AgentWorkspace";
+import { briefFieldLabels } from "./BlueprintHistory";
+
+function briefValue(request: GTMRequest, field: keyof GTMRequest) {
+  const value = request[field];
+  if (field === "competitors") {
+    return (request.competitors ?? []).map((competitor) => competitor.name).join(", ");
+  }
+  if (field === "market") {
+    return (request.market?.segments ?? [])
+      .map((segment) => `${segment.name}: ${formatCount(segment.accounts)} accounts`)
+      .join(", ");
+  }
+  if (field === "vertical") {
+    return findVerticalPack(request.vertical)?.label ?? "";
+  }
+  if (field === "targetMarkets") {
+    return (request.targetMarkets ?? []).map((id) => findTargetMarket(id)?.label ?? id).join(", ");
+  }
+  if (Array.isArray(value)) {
+    return value.join(" / ");
+  }
+  return value === undefined || value === null ? "" : String(value);
+}
+
+/** Read-only page for a share link: the original brief, then the plan without edit controls. */
+export function SharedBlueprintView({ shared }: { shared: SharedBlueprint }) {
+  const fields = (Object.keys(briefFieldLabels) as Array<keyof GTMRequest>).filter(
+    (field) => briefValue(shared.request, field).trim().length > 0,
+  );
+
+  return (
+    <div className="app-shell">
+      <header className="app-header">
+        <div className="app-title">
+          <span className="pill" data-tone="success">
+            Shared blueprint
+          </span>
+          {shared.request.productName}
+        </div>
+        <p>
+          Generated {formatDate(shared.createdAt.slice(0, 10))}. This is a read-only copy
+          {shared.expiresAt
+            ? `; the link expires ${formatDate(shared.expiresAt.slice(0, 10))}.`
+            : "."}
+        </p>
+      </header>
+
+      <section className="panel">
+        <h2>Original Brief</h2>
+        <table className="insight-table">
+          <tbody>
+            {fields.map((field) => (
+              <tr key={field}>
+                <th scope="row">{briefFieldLabels[field]}</th>
+                <td>{briefValue(shared.request, field)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <AgentResults
+        data={shared.blueprint}
+        brief={shared.request}
+        trace={null}
+        pending={false}
+        readOnly
+      />
+    </div>
+  );
+}
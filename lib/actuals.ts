@@ -0,0 +1,55 @@
+/**
+ * Launch actuals stored per saved blueprint under `GTM_DATA_DIR`, next to the
+ * history. Saving replaces the previous set, so each blueprint keeps its
+ * latest snapshot and the retrospective is recomputed from it on read.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { dataDir, isBlueprintId } from "./history";
+import type { LaunchActuals } from "./retrospective";
+
+export type ActualsRecord = LaunchActuals & {
+  blueprintId: string;
+  updatedAt: string;
+};
+
+function actualsDir() {
+  return path.join(dataDir(), "actuals");
+}
+
+function actualsPath(blueprintId: string) {
+  return path.join(actualsDir(), `${blueprintId}.json`);
+}
+
+export async function saveActuals(
+  blueprintId: string,
+  actuals: LaunchActuals,
+): Promise<ActualsRecord> {
+  const record: ActualsRecord = {
+    blueprintId,
+    updatedAt: new Date().toISOString(),
+    asOf: actuals.asOf,
+    values: actuals.values,
+  };
+
+  await fs.mkdir(actualsDir(), { recursive: true });
+  await fs.writeFile(actualsPath(blueprintId), JSON.stringify(record, null, 2), "utf8");
+
+  return record;
+}
+
+export async function getActuals(blueprintId: string): Promise<ActualsRecord | null> {
+  if (!isBlueprintId(blueprintId)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(await fs.readFile(actualsPath(blueprintId), "utf8")) as ActualsRecord;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw err;
+  }
+}
@@ -2,8 +2,70 @@
  * Lightweight rule-based "agent" that simulates a go-to-market strategist.
  * The goal is to transform structured inputs into a multi-stage launch plan
  * without relying on external LLM APIs so the experience works out of the box.
+ * When a model provider is configured, it writes each section instead and the
+ * rules remain the fallback for anything it fails to deliver.
  */
 
+import { allocateChannels, explainChannelFit, type ChannelAllocation } from "./allocation";
+import {
+  buildBattlecards,
+  buildComparisonMatrix,
+  type CompetitiveLandscape,
+  type Competitor,
+} from "./battlecards";
+import { buildEnablementKit, type EnablementKit } from "./enablement";
+import { scoreUntaggedExperiments, selectExperiments, type ExperimentScore } from "./experiments";
+import { formatCount, formatCurrency, formatDate, formatPercent } from "./format";
+import { localizeBlueprint } from "./i18n";
+import {
+  applyRenames,
+  LOCKED_SOURCE,
+  mergeLockedItems,
+  referenceRenames,
+  type LockableSection,
+  type LockedContent,
+} from "./locks";
+import { buildMarketSizing, type MarketInputs, type MarketSizing } from "./market";
+import { buildMeasurementPlan, type MeasurementPlan } from "./metrics";
+import {
+  keywordHits,
+  matchPersonas,
+  MAX_PERSONAS,
+  mergeArchetypes,
+  MIN_PERSONA_CONFIDENCE,
+  scoreArchetype,
+  type PersonaArchetype,
+  type PersonaMatch,
+  type PersonaSignals,
+} from "./personas";
+import { buildPricingStrategy, classifyPricingModels, type PricingStrategy } from "./pricing";
+import { lintPlan, type PlanWarning } from "./quality";
+import { findTargetMarket, type TargetMarket } from "./regions";
+import { isValidSection } from "./shape";
+import {
+  parseIsoDate,
+  parseLaunchHorizon,
+  phaseCountFor,
+  scheduleLaunchPhases,
+  type LaunchHorizon,
+} from "./timeline";
+import {
+  traceDefault,
+  tracedSections,
+  traceRule,
+  type BlueprintTrace,
+  type TraceTrigger,
+} from "./trace";
+import { findVerticalPack, launchHorizonFor, type VerticalPack } from "./verticals";
+import {
+  applyVoice,
+  auditVoice,
+  quotedBriefText,
+  resolveVoice,
+  type VoiceProfile,
+  type VoiceReport,
+} from "./voice";
+
 export type GTMRequest = {
   productName: string;
   productSummary: string;
@@ -12,9 +74,25 @@ export type GTMRequest = {
   differentiation: string;
   pricing: string;
   brandVoice: string;
+  /** Sample sentences that define a custom voice when `brandVoice` is not a preset. */
+  voiceSamples?: string[];
   primaryGoal: string;
   successMetric: string;
   launchHorizon: string;
+  /** Optional ISO date (YYYY-MM-DD) the launch starts on; defaults to today. */
+  launchStartDate?: string;
+  /** Optional total launch budget in USD across the horizon. */
+  budget?: number;
+  /** Optional GTM team capacity in full-time equivalents. */
+  teamCapacity?: number;
+  /** Optional named rivals; each one gets a battlecard. */
+  competitors?: Competitor[];
+  /** Optional segment counts and deal economics for TAM, SAM and SOM. */
+  market?: MarketInputs;
+  /** Optional industry vertical pack id, e.g. "healthcare"; see `verticals/`. */
+  vertical?: string;
+  /** Optional market ids, e.g. ["us", "dach"]; each gets a regional variant. See `regions/`. */
+  targetMarkets?: string[];
 };
 
 export type GTMResponse = {
@@ -25,12 +103,17 @@ export type GTMResponse = {
     primaryPlays: string[];
     proofPoints: string[];
     duration: string;
+    startDate: string;
+    endDate: string;
   }>;
   personaInsights: Array<{
     persona: string;
     coreNeeds: string[];
     adoptionTriggers: string[];
     objections: string[];
+    /** 0-1 strength of the keyword match; low values mean a default persona. */
+    confidence: number;
+    matchedKeywords: string[];
   }>;
   messagingPillars: Array<{
     pillar: string;
@@ -43,81 +126,49 @@ export type GTMResponse = {
     role: string;
     cadences: string[];
     kpis: string[];
+    allocation: ChannelAllocation;
   }>;
   growthExperiments: Array<{
+    id: string;
     title: string;
     hypothesis: string;
     playbook: string[];
     measure: string;
+    tags: string[];
+    ice: ExperimentScore;
+    phase: string;
+    /** Position in the suggested run order across launch phases. */
+    sequence: number;
   }>;
   measurementFramework: Array<{
+    /** The parsed north star is "primary"; everything feeding it is "leading". */
+    kind: "primary" | "leading";
     metric: string;
     target: string;
     instrumentation: string;
     cadence: string;
   }>;
+  measurementPlan: MeasurementPlan;
+  marketSizing: MarketSizing;
+  competitiveLandscape: CompetitiveLandscape;
+  enablementKit: EnablementKit;
+  pricingStrategy: PricingStrategy;
+  regionalVariants: RegionalVariant[];
+  voiceReport: VoiceReport;
 };
 
-const personaArchetypes: Record<
-  string,
-  { persona: string; needs: string[]; triggers: string[]; objections: string[] }
-> = {
-  builder: {
-    persona: "Hands-on Builder",
-    needs: [
-      "Rapid experimentation sandbox",
-      "Composable APIs with excellent docs",
-      "Signals that surface product-market fit faster",
-    ],
-    triggers: [
-      "Dev-first onboarding with minimal friction",
-      "Proof of velocity — shipping hours, not weeks",
-      "Community where peers share playbooks",
-    ],
-    objections: [
-      "Vendor lock-in or forced workflow changes",
-      "Unclear pricing scale for high usage",
-      "Slow support response for technical blockers",
-    ],
-  },
-  operator: {
-    persona: "Growth Operator",
-    needs: [
-      "Clarity on ROI and payback period",
-      "Confidence in data quality and governance",
-      "Frictionless collaboration with GTM teams",
-    ],
-    triggers: [
-      "Success stories with hard revenue numbers",
-      "Live dashboards with attribution guardrails",
-      "Roadmap stability and SOC2/ISO compliance",
-    ],
-    objections: [
-      "Hidden costs in seats or limits",
-      "Unproven integrations into current stack",
-      "Concern about AI hallucinations in production",
-    ],
-  },
-  executive: {
-    persona: "Strategic Executive",
-    needs: [
-      "Differentiated POV on market category",
-      "Risk mitigation and governance controls",
-      "Evidence of defensible moats",
-    ],
-    triggers: [
-      "Executive briefings benchmarking competitors",
-      "Vision decks articulating future roadmap",
-      "References from marquee customers",
-    ],
-    objections: [
-      "Unclear compliance posture",
-      "Limited enterprise support coverage",
-      "High switching cost from incumbents",
-    ],
-  },
+/** The rule plan for one target market, written in its locale. */
+export type RegionalVariant = {
+  region: string;
+  label: string;
+  locale: string;
+  /** Share of the built-in copy the translation catalog covered, 0-1. */
+  coverage: number;
+  blueprint: RegionalBlueprint;
 };
 
+export type RegionalBlueprint = Omit<GTMResponse, "regionalVariants" | "voiceReport">;
+
 const channelPlays = [
   {
     channel: "Founders' Narrative",
@@ -159,64 +210,53 @@ const channelPlays = [
     ],
     kpis: ["Partner influenced ARR", "Partner-sourced opportunities", "Attach rate"],
   },
-];
-
-const growthBacklog = [
   {
-    title: "Persona-Calibrated Onboarding Concierge",
-    hypothesis:
-      "If we detect the user's core job-to-be-done during onboarding, we can surface relevant templates and increase activation.",
-    playbook: [
-      "Create role-specific welcome flows with scripted prompts",
-      "Instrument micro-surveys tied to first-session actions",
-      "Route to nurture tracks featuring proof tied to persona needs",
-    ],
-    measure: "Activation rate within first 7 days segmented by persona.",
-  },
-  {
-    title: "Narrative Velocity Series",
-    hypothesis:
-      "Launching a serialized content program that dramatizes customer wins will increase inbound demo requests.",
-    playbook: [
-      "Produce monthly hero stories with metrics-oriented infographics",
-      "Distribute across LinkedIn, newsletter, and industry communities",
-      "Add CTA to book a strategy workshop with solution consultants",
+    channel: "Paid Acquisition",
+    role: "Buy targeted reach to accelerate demand once messaging is proven.",
+    cadences: [
+      "Weekly creative refresh across search, social, and sponsorships",
+      "Persona-specific retargeting tied to product signals",
+      "Bi-weekly budget reallocation based on CAC by segment",
     ],
-    measure: "Demo volume, win rate, and sourced ARR from the campaign.",
+    kpis: ["Cost per acquisition", "Paid-sourced pipeline", "Click-to-signup rate"],
   },
   {
-    title: "AI Pilot Sprint Rooms",
-    hypothesis:
-      "Facilitated sprints with success blueprints will collapse evaluation cycles for mid-market teams.",
-    playbook: [
-      "Spin up a Miro/FigJam board capturing sprint agenda and KPIs",
-      "Bundle onboarding docs, governance checklist, and ROI calculator",
-      "Assign a solutions engineer to co-build the first workflow",
+    channel: "Field & Executive Events",
+    role: "Create high-touch moments that collapse enterprise buying cycles.",
+    cadences: [
+      "Monthly executive dinners with target accounts",
+      "Quarterly sponsored summits with live product theatre",
+      "Post-event follow-up sequences within 48 hours",
     ],
-    measure: "Pilot-to-paid conversion and speed-to-contract.",
+    kpis: ["Meetings booked", "Event-influenced pipeline", "Account engagement"],
   },
 ];
 
-const measurementMatrix = [
+/** Generic leading indicators, used when the north star has no readable count. */
+const measurementMatrix: GTMResponse["measurementFramework"] = [
   {
+    kind: "leading",
     metric: "Activation Velocity",
     target: "≥ 45% of signups reach aha moment within 72 hours",
     instrumentation: "Product analytics funnel with persona & channel tags",
     cadence: "Reviewed twice weekly with product + growth standup",
   },
   {
+    kind: "leading",
     metric: "Pipeline Momentum",
     target: "≥ 30% of SQL pipeline sourced from hero channels",
     instrumentation: "CRM multi-touch attribution dashboard",
     cadence: "Reported weekly to revenue leadership",
   },
   {
+    kind: "leading",
     metric: "Expansion Signal",
     target: "≥ 20% accounts adopt 2+ advanced workflows in 60 days",
     instrumentation: "Usage cohort reports & health scoring in CS CRM",
     cadence: "Monthly lifecycle business review",
   },
   {
+    kind: "leading",
     metric: "Advocacy Flywheel",
     target: "10 new public testimonials or case studies per quarter",
     instrumentation: "Community tracking sheet + marketing automation tags",
@@ -224,130 +264,416 @@ const measurementMatrix = [
   },
 ];
 
-function derivePersonas(audience: string, primaryGoal: string) {
-  const matches: typeof personaArchetypes[keyof typeof personaArchetypes][] = [];
+/**
+ * The north star leads the framework; the funnel stages feeding it become
+ * leading indicators with back-calculated targets.
+ */
+function shapeMeasurement(
+  payload: GTMRequest,
+  plan: MeasurementPlan,
+): GTMResponse["measurementFramework"] {
+  const cadence =
+    plan.cadence === "weekly"
+      ? "Reviewed weekly against milestone targets"
+      : "Reviewed monthly against milestone targets";
+
+  if (!plan.target) {
+    return [
+      {
+        kind: "primary",
+        metric: "North star",
+        target: `Not quantified — ${payload.successMetric}`,
+        instrumentation: "Define a count and window to unlock milestone tracking",
+        cadence,
+      },
+      ...measurementMatrix,
+    ];
+  }
+
+  const due = formatDate(plan.target.dueDate);
+  const targetStage = plan.funnel[plan.funnel.length - 1];
+  const leading = plan.funnel.slice(0, -1).reverse().slice(0, 3);
+  const total = `${formatCount(plan.target.total)} ${targetStage.label.toLowerCase()}`;
+
+  return [
+    {
+      kind: "primary",
+      metric: `North star · ${plan.target.unit}`,
+      target: `${payload.successMetric} (${total} by ${due})`,
+      instrumentation: targetStage.instrumentation,
+      cadence,
+    },
+    ...leading.map((stage) => ({
+      kind: "leading" as const,
+      metric: stage.label,
+      target: `${formatCount(stage.volume)} by ${due} (${Math.round((stage.conversionRate ?? 0) * 1000) / 10}% convert onward)`,
+      instrumentation: stage.instrumentation,
+      cadence,
+    })),
+  ];
+}
+
+function analyseCompetitors(
+  payload: GTMRequest,
+  personas: ReturnType<typeof derivePersonas>,
+): CompetitiveLandscape {
+  const competitors = payload.competitors ?? [];
+
+  return {
+    battlecards: buildBattlecards(payload, competitors, personas),
+    comparison: buildComparisonMatrix(payload.productName, payload.differentiation, competitors),
+  };
+}
+
+function personaSignals(payload: GTMRequest): PersonaSignals {
+  return {
+    audience: payload.audience,
+    problem: payload.problem,
+    primaryGoal: payload.primaryGoal,
+    pricing: payload.pricing,
+  };
+}
+
+function hitTriggers(archetype: PersonaArchetype, signals: PersonaSignals): TraceTrigger[] {
+  return keywordHits(archetype, signals).map(({ field, text }) => ({ field, text }));
+}
+
+/** The selected pack's personas join the archetypes unless a custom one shares their id. */
+function verticalArchetypes(payload: GTMRequest, archetypes: PersonaArchetype[]) {
+  const pack = findVerticalPack(payload.vertical);
+  if (!pack) {
+    return archetypes;
+  }
+  const ids = new Set(archetypes.map((archetype) => archetype.id));
+  return [...archetypes, ...pack.personas.filter((persona) => !ids.has(persona.id))];
+}
 
-  const lowerAudience = audience.toLowerCase();
-  const lowerGoal = primaryGoal.toLowerCase();
+/** A selected pack always contributes its best-matching persona, replacing the weakest. */
+function withVerticalPersona(
+  personas: PersonaMatch[],
+  pack: VerticalPack | null,
+  signals: PersonaSignals,
+) {
+  const packIds = pack?.personas.map((persona) => persona.id) ?? [];
+  if (!pack || personas.some((persona) => packIds.includes(persona.id))) {
+    return { personas, added: null };
+  }
+  const [added] = pack.personas
+    .map((persona) => scoreArchetype(persona, signals))
+    .sort((a, b) => b.confidence - a.confidence);
+  return { personas: [...personas.slice(0, MAX_PERSONAS - 1), added], added };
+}
 
-  if (lowerAudience.includes("founder") || lowerAudience.includes("developer")) {
-    matches.push(personaArchetypes.builder);
+/** Why an archetype was kept or dropped; `addedBy` is the pack that added it. */
+function personaMatchDetail(confidence: number, selected: boolean, addedBy: VerticalPack | null) {
+  const score = `${formatPercent(confidence)} match`;
+  const bar = formatPercent(MIN_PERSONA_CONFIDENCE);
+  if (selected && addedBy) {
+    return `${score}; kept as the ${addedBy.label} pack's strongest persona.`;
   }
+  if (selected) {
+    return confidence >= MIN_PERSONA_CONFIDENCE
+      ? `${score}, above the ${bar} bar.`
+      : `${score}; kept as the default persona.`;
+  }
+  return confidence >= MIN_PERSONA_CONFIDENCE
+    ? `${score}, but only the ${MAX_PERSONAS} strongest personas are kept.`
+    : `${score}, below the ${bar} bar.`;
+}
 
-  if (
-    lowerAudience.includes("marketing") ||
-    lowerAudience.includes("growth") ||
-    lowerGoal.includes("pipeline")
-  ) {
-    matches.push(personaArchetypes.operator);
+function derivePersonas(
+  payload: GTMRequest,
+  archetypes: PersonaArchetype[],
+  trace?: BlueprintTrace,
+) {
+  const signals = personaSignals(payload);
+  const pack = findVerticalPack(payload.vertical);
+  const candidates = verticalArchetypes(payload, archetypes);
+  const { personas, added } = withVerticalPersona(
+    matchPersonas(signals, candidates),
+    pack,
+    signals,
+  );
+  if (!trace) {
+    return personas;
   }
 
-  if (
-    lowerAudience.includes("executive") ||
-    lowerAudience.includes("c-suite") ||
-    lowerGoal.includes("enterprise")
-  ) {
-    matches.push(personaArchetypes.executive);
+  candidates.forEach((archetype) => {
+    const { confidence } = scoreArchetype(archetype, signals);
+    const selected = personas.some((persona) => persona.id === archetype.id);
+    traceRule(trace, "personaInsights", {
+      rule: "Persona keyword match",
+      subject: archetype.persona,
+      fired: selected,
+      triggers: hitTriggers(archetype, signals),
+      detail: personaMatchDetail(confidence, selected, archetype.id === added?.id ? pack : null),
+    });
+  });
+  if (pack) {
+    traceRule(trace, "personaInsights", {
+      rule: "Vertical pack personas",
+      subject: pack.label,
+      fired: true,
+      triggers: [{ field: "vertical", text: pack.label }],
+      detail: added
+        ? `None of the pack's personas made the cut, so ${added.persona} replaced the weakest match.`
+        : "The pack's personas competed with the built-ins, and at least one made the cut.",
+    });
   }
 
-  if (matches.length === 0) {
-    matches.push(personaArchetypes.operator);
+  if (personas.every((persona) => persona.confidence < MIN_PERSONA_CONFIDENCE)) {
+    traceDefault(
+      trace,
+      "personaInsights",
+      `No persona reached ${formatPercent(MIN_PERSONA_CONFIDENCE)}, so ${personas[0].persona} was used as the default.`,
+    );
   }
 
-  return matches;
+  return personas;
 }
 
-function craftSummary(payload: GTMRequest) {
+function craftSummary(payload: GTMRequest, market: MarketSizing, region: TargetMarket | null) {
   const tone = payload.brandVoice || "authoritative";
   const focus = payload.primaryGoal || "drive adoption";
+  const prize = market.sized
+    ? [
+        `The prize: a total market worth ${formatCurrency(market.tam.value)} a year, of which ${formatCurrency(market.som.value)} is realistically winnable.`,
+      ]
+    : [];
+  const pack = findVerticalPack(payload.vertical);
+  const vertical = pack
+    ? [
+        `Built for ${pack.label.toLowerCase()}: ${pack.pillar.pillar} leads the proof, and the launch runs at least ${pack.timeline.minimumDays} days to fit the buying cycle.`,
+      ]
+    : [];
 
   return [
     `Launch mission: ${payload.productName} will ${payload.primaryGoal.toLowerCase()}.`,
     `We anchor messaging around the core product promise — ${payload.productSummary}.`,
     `Tone must stay ${tone.toLowerCase()} while dramatizing the problem: ${payload.problem}.`,
     `We lead with proof on how we ${payload.differentiation.toLowerCase()} and reinforce the pricing model (${payload.pricing}).`,
+    ...prize,
+    ...vertical,
+    ...(region ? [region.summary] : []),
     `Initial focus: orchestrate a ${payload.launchHorizon.toLowerCase()} launch train that blends product-led motions with strategic storytelling.`,
   ].join(" ");
 }
 
-function shapeLaunchPhases(payload: GTMRequest) {
-  const horizon = payload.launchHorizon.toLowerCase();
-  const timeline =
-    horizon.includes("30") || horizon.includes("month")
-      ? ["Week 0-2", "Week 3-4", "Week 5-8"]
-      : horizon.includes("quarter")
-        ? ["Month 0-1", "Month 2", "Month 3", "Month 4+"]
-        : ["Phase 1", "Phase 2", "Phase 3"];
+const phaseLibrary = [
+  {
+    name: "Ignition",
+    focus:
+      "Pressure-test messaging, mobilize advocates, and orchestrate early storytelling assets.",
+    primaryPlays: [
+      "Calibrate positioning with lighthouse customers",
+      "Ship teaser content + founder narrative threads",
+      "Enable revenue teams with objection handling scripts",
+    ],
+    proofPoints: [
+      "Vision deck with future-state architecture",
+      "Design partner quotes and usage metrics",
+    ],
+  },
+  {
+    name: "Amplify",
+    focus:
+      "Scale demand generation with product-led growth loops and segment-specific campaigns.",
+    primaryPlays: [
+      "Automate nurture sequences triggered by product signals",
+      "Launch category POV report featuring benchmark data",
+      "Activate partners, communities, and paid acquisition pilots",
+    ],
+    proofPoints: [
+      "Interactive ROI calculator tied to persona outcomes",
+      "Video walkthroughs showing aha moments",
+    ],
+  },
+  {
+    name: "Convert",
+    focus:
+      "Collapse sales cycles, drive multi-threaded expansions, and reinforce social proof flywheel.",
+    primaryPlays: [
+      "Offer guided pilot sprints with solution engineers",
+      "Publish customer spotlight + quantifiable wins",
+      "Deploy executive workshops on AI governance and ROI",
+    ],
+    proofPoints: [
+      "Case studies segmented by industry",
+      "Stack diagrams with integration depth",
+    ],
+  },
+  {
+    name: "Scale",
+    focus:
+      "Standardize playbooks, automate renewals, and unlock new monetization levers.",
+    primaryPlays: [
+      "Launch referral program with usage-based incentives",
+      "Spin up user conference or digital summit",
+      "Roll out roadmap updates with customer advisory boards",
+    ],
+    proofPoints: [
+      "Land & expand dashboard with cohort analysis",
+      "Public roadmap + changelog momentum",
+    ],
+  },
+];
+
+/** Which library phases run for a given phase count; sprints skip straight to Convert. */
+const phasePlans: Record<number, string[]> = {
+  1: ["Ignition"],
+  2: ["Ignition", "Convert"],
+  3: ["Ignition", "Amplify", "Convert"],
+  4: ["Ignition", "Amplify", "Convert", "Scale"],
+};
 
-  const phases = [
-    {
-      name: "Ignition",
-      focus:
-        "Pressure-test messaging, mobilize advocates, and orchestrate early storytelling assets.",
-      primaryPlays: [
-        "Calibrate positioning with lighthouse customers",
-        "Ship teaser content + founder narrative threads",
-        "Enable revenue teams with objection handling scripts",
-      ],
-      proofPoints: [
-        "Vision deck with future-state architecture",
-        "Design partner quotes and usage metrics",
-      ],
-    },
-    {
-      name: "Amplify",
-      focus:
-        "Scale demand generation with product-led growth loops and segment-specific campaigns.",
-      primaryPlays: [
-        "Automate nurture sequences triggered by product signals",
-        "Launch category POV report featuring benchmark data",
-        "Activate partners, communities, and paid acquisition pilots",
-      ],
-      proofPoints: [
-        "Interactive ROI calculator tied to persona outcomes",
-        "Video walkthroughs showing aha moments",
-      ],
-    },
-    {
-      name: "Convert",
-      focus:
-        "Collapse sales cycles, drive multi-threaded expansions, and reinforce social proof flywheel.",
-      primaryPlays: [
-        "Offer guided pilot sprints with solution engineers",
-        "Publish customer spotlight + quantifiable wins",
-        "Deploy executive workshops on AI governance and ROI",
-      ],
-      proofPoints: [
-        "Case studies segmented by industry",
-        "Stack diagrams with integration depth",
-      ],
-    },
-  ];
+type PhaseAdditions = Pick<VerticalPack | TargetMarket, "plays" | "proofPoints">;
 
-  if (timeline.length > phases.length) {
-    phases.push({
-      name: "Scale",
-      focus:
-        "Standardize playbooks, automate renewals, and unlock new monetization levers.",
-      primaryPlays: [
-        "Launch referral program with usage-based incentives",
-        "Spin up user conference or digital summit",
-        "Roll out roadmap updates with customer advisory boards",
-      ],
-      proofPoints: [
-        "Land & expand dashboard with cohort analysis",
-        "Public roadmap + changelog momentum",
-      ],
+/** Adds vertical and regional plays and proof points to the library phases they name. */
+function withPhaseAdditions<T extends (typeof phaseLibrary)[number]>(
+  phase: T,
+  sources: PhaseAdditions[],
+): T {
+  return sources.reduce(
+    (current, { plays, proofPoints }) => ({
+      ...current,
+      primaryPlays: [...current.primaryPlays, ...(plays[phase.name] ?? [])],
+      proofPoints: [...current.proofPoints, ...(proofPoints[phase.name] ?? [])],
+    }),
+    phase,
+  );
+}
+
+function shapeLaunchPhases(
+  payload: GTMRequest,
+  trace?: BlueprintTrace,
+  region: TargetMarket | null = null,
+) {
+  const pack = findVerticalPack(payload.vertical);
+  const horizon = launchHorizonFor(payload);
+  const count = phaseCountFor(horizon);
+  const plan = phasePlans[count];
+  const additions = [pack, region].filter((source): source is VerticalPack | TargetMarket =>
+    Boolean(source),
+  );
+  const phases = phaseLibrary
+    .filter((phase) => plan.includes(phase.name))
+    .map((phase) => withPhaseAdditions(phase, additions));
+  if (trace) {
+    traceTimeline(trace, payload, horizon, plan, pack);
+  }
+
+  // A vertical's buying cycle outweighs a region's habits where both reweight a phase.
+  const weights = { ...region?.phaseWeights, ...pack?.timeline.phaseWeights };
+  return scheduleLaunchPhases(phases, horizon, weights);
+}
+
+function windowOf(horizon: LaunchHorizon) {
+  return `${formatDate(horizon.startDate)} – ${formatDate(horizon.endDate)}`;
+}
+
+function traceTimeline(
+  trace: BlueprintTrace,
+  payload: GTMRequest,
+  horizon: LaunchHorizon,
+  plan: string[],
+  pack: VerticalPack | null,
+) {
+  const read = parseLaunchHorizon(payload.launchHorizon, payload.launchStartDate);
+  traceRule(trace, "launchPhases", {
+    rule: "Launch horizon",
+    fired: read.parsed,
+    triggers: read.parsed ? [{ field: "launchHorizon", text: payload.launchHorizon }] : [],
+    detail: read.parsed
+      ? `Read as ${read.days} days (${windowOf(read)})${
+          read.range
+            ? `, the upper end of ${read.range.low}–${read.range.high} days`
+            : read.clamped
+              ? ", the longest launch the planner schedules"
+              : ""
+        }.`
+      : `No duration could be read from "${payload.launchHorizon}".`,
+  });
+  if (!read.parsed) {
+    traceDefault(
+      trace,
+      "launchPhases",
+      `Launch horizon set to ${read.days} days (${windowOf(read)}).`,
+    );
+  }
+  if (pack) {
+    const stretched = horizon.days > read.days;
+    traceRule(trace, "launchPhases", {
+      rule: "Vertical buying cycle",
+      subject: pack.label,
+      fired: stretched,
+      triggers: [{ field: "vertical", text: pack.label }],
+      detail: stretched
+        ? `Stretched to ${horizon.days} days (${windowOf(horizon)}). ${pack.timeline.reason}`
+        : `Already at least the ${pack.timeline.minimumDays} days the pack needs.`,
+    });
+    const proofed = plan.filter((name) => pack.plays[name] || pack.proofPoints[name]);
+    const weighted = plan.filter((name) => name in pack.timeline.phaseWeights);
+    const longer = weighted.length
+      ? ` ${weighted.join(", ")} gets a larger share of the calendar.`
+      : "";
+    traceRule(trace, "launchPhases", {
+      rule: "Vertical plays and proof",
+      subject: pack.label,
+      fired: proofed.length > 0,
+      triggers: [{ field: "vertical", text: pack.label }],
+      detail: proofed.length
+        ? `Adds plays and proof points to ${proofed.join(", ")}.${longer}`
+        : `None of this plan's phases has pack plays.${longer}`,
+    });
+  }
+
+  const embeddedDate = payload.launchHorizon.match(/\d{4}-\d{2}-\d{2}/)?.[0];
+  const startTrigger: TraceTrigger | null =
+    payload.launchStartDate && parseIsoDate(payload.launchStartDate)
+      ? { field: "launchStartDate", text: payload.launchStartDate }
+      : embeddedDate && parseIsoDate(embeddedDate)
+        ? { field: "launchHorizon", text: embeddedDate }
+        : null;
+  if (startTrigger) {
+    traceRule(trace, "launchPhases", {
+      rule: "Launch start date",
+      fired: true,
+      triggers: [startTrigger],
+      detail: `The launch starts on ${formatDate(horizon.startDate)}.`,
     });
+  } else {
+    traceDefault(
+      trace,
+      "launchPhases",
+      `No start date in the brief, so the launch starts today (${formatDate(horizon.startDate)}).`,
+    );
   }
 
-  return phases.map((phase, index) => ({
-    ...phase,
-    duration: timeline[index] ?? timeline.at(-1)!,
-  }));
+  traceRule(trace, "launchPhases", {
+    rule: "Phase count",
+    fired: true,
+    triggers: [],
+    detail: `${horizon.days} days hold ${plan.length} phase${plan.length === 1 ? "" : "s"}: horizons of 21 days or less merge phases, and horizons over 120 days add Scale.`,
+  });
+  phaseLibrary.forEach((phase) => {
+    const included = plan.includes(phase.name);
+    traceRule(trace, "launchPhases", {
+      rule: "Phase plan",
+      subject: phase.name,
+      fired: included,
+      triggers: [],
+      detail: included
+        ? `Part of the ${plan.length}-phase plan: ${plan.join(", ")}.`
+        : `Not in the ${plan.length}-phase plan: ${plan.join(", ")}.`,
+    });
+  });
 }
 
-function tailorMessaging(payload: GTMRequest, personas: ReturnType<typeof derivePersonas>) {
+function tailorMessaging(
+  payload: GTMRequest,
+  personas: ReturnType<typeof derivePersonas>,
+  trace?: BlueprintTrace,
+) {
   const positioning = payload.differentiation.toLowerCase();
   const problem = payload.problem.toLowerCase();
 
@@ -396,7 +722,41 @@ function tailorMessaging(payload: GTMRequest, personas: ReturnType<typeof derive
     },
   ];
 
-  if (personas.some((p) => p.persona === "Hands-on Builder")) {
+  const builder = personas.find((p) => p.id === "builder");
+  const pack = findVerticalPack(payload.vertical);
+  if (trace) {
+    // Each core narrative quotes one brief field, in pillar order.
+    const quoted: Array<keyof GTMRequest> = ["problem", "productName", "differentiation"];
+    basePillars.forEach(({ pillar }, index) =>
+      traceRule(trace, "messagingPillars", {
+        rule: "Core pillar",
+        subject: pillar,
+        fired: true,
+        triggers: [{ field: quoted[index], text: payload[quoted[index]] as string }],
+        detail: "Every plan carries this pillar; its narrative quotes the brief.",
+      }),
+    );
+    traceRule(trace, "messagingPillars", {
+      rule: "Builder persona adds a pillar",
+      subject: "Builder Velocity",
+      fired: Boolean(builder),
+      triggers: builder ? hitTriggers(builder, personaSignals(payload)) : [],
+      detail: builder
+        ? `${builder.persona} matched the brief, so builders get their own pillar.`
+        : "Only added when the builder persona matches the brief.",
+    });
+    if (pack) {
+      traceRule(trace, "messagingPillars", {
+        rule: "Vertical pack adds a pillar",
+        subject: pack.pillar.pillar,
+        fired: true,
+        triggers: [{ field: "vertical", text: pack.label }],
+        detail: `The ${pack.label} pack leads with its own proof: ${pack.pillar.proofAssets.join("; ")}.`,
+      });
+    }
+  }
+
+  if (builder) {
     basePillars.push({
       pillar: "Builder Velocity",
       narrative: "Empower builders to ship AI workflows safely, fast.",
@@ -413,50 +773,482 @@ function tailorMessaging(payload: GTMRequest, personas: ReturnType<typeof derive
     });
   }
 
+  if (pack) {
+    const { narrative, ...pillar } = pack.pillar;
+    basePillars.push({ ...pillar, narrative: narrative(payload.productName) });
+  }
+
   return basePillars;
 }
 
-function adaptChannelStrategy(primaryGoal: string) {
-  const goal = primaryGoal.toLowerCase();
-
-  return channelPlays
-    .map((channel) => {
-      if (goal.includes("pipeline") || goal.includes("revenue")) {
-        if (channel.channel === "Strategic Alliances") {
-          return {
-            ...channel,
-            role: `${channel.role} Prioritize co-selling motions for revenue acceleration.`,
-          };
-        }
+/** Drops channels the region can't use, swaps in local cadences and adds its own channels. */
+function regionalChannels<T extends { channel: string; cadences: string[] }>(
+  channels: T[],
+  region: TargetMarket | null,
+) {
+  if (!region) {
+    return channels;
+  }
+  return [
+    ...channels
+      .filter(({ channel }) => !region.excludedChannels.includes(channel))
+      .map((channel) => ({ ...channel, cadences: region.cadences[channel.channel] ?? channel.cadences })),
+    ...region.channels.map(({ channel, role, cadences, kpis }) => ({ channel, role, cadences, kpis })),
+  ];
+}
+
+function adaptChannelStrategy(
+  payload: GTMRequest,
+  personas: ReturnType<typeof derivePersonas>,
+  trace?: BlueprintTrace,
+  region: TargetMarket | null = null,
+) {
+  const goal = payload.primaryGoal.toLowerCase();
+  const revenueTerm = ["pipeline", "revenue"].find((term) => goal.includes(term));
+  const adoptionTerm = ["adoption", "activation"].find((term) => goal.includes(term));
+  const pack = findVerticalPack(payload.vertical);
+  const plays = regionalChannels(
+    [
+      ...channelPlays,
+      ...(pack?.channels ?? []).map(({ channel, role, cadences, kpis }) => ({
+        channel,
+        role,
+        cadences,
+        kpis,
+      })),
+    ],
+    region,
+  );
+
+  const channels = plays.map((channel) => {
+    if (revenueTerm) {
+      if (channel.channel === "Strategic Alliances") {
+        return {
+          ...channel,
+          role: `${channel.role} Prioritize co-selling motions for revenue acceleration.`,
+        };
       }
-      if (goal.includes("adoption") || goal.includes("activation")) {
-        if (channel.channel === "Product-Led Motion") {
-          return {
-            ...channel,
-            role: `${channel.role} Double down on aha moments and guided onboarding.`,
-          };
-        }
+    }
+    if (adoptionTerm) {
+      if (channel.channel === "Product-Led Motion") {
+        return {
+          ...channel,
+          role: `${channel.role} Double down on aha moments and guided onboarding.`,
+        };
       }
-      return channel;
-    })
-    .slice(0, 4);
+    }
+    return channel;
+  });
+
+  const context = allocationContext(payload, personas);
+  const allocated = allocateChannels(channels, context);
+  if (!trace) {
+    return allocated;
+  }
+
+  const goalRules = [
+    {
+      rule: "Revenue goal adds co-selling",
+      subject: "Strategic Alliances",
+      term: revenueTerm,
+      when: "pipeline or revenue",
+    },
+    {
+      rule: "Adoption goal adds onboarding",
+      subject: "Product-Led Motion",
+      term: adoptionTerm,
+      when: "adoption or activation",
+    },
+  ];
+  goalRules.forEach(({ rule, subject, term, when }) =>
+    traceRule(trace, "channelStrategy", {
+      rule,
+      subject,
+      fired: Boolean(term),
+      triggers: term ? [{ field: "primaryGoal", text: term }] : [],
+      detail: term
+        ? `The primary goal mentions "${term}", so the role gets an extra note.`
+        : `Only when the primary goal mentions ${when}.`,
+    }),
+  );
+
+  const packChannels = pack?.channels.map(({ channel }) => channel) ?? [];
+  plays.forEach(({ channel }) => {
+    const fit = explainChannelFit(channel, context);
+    const placed = allocated.find((entry) => entry.channel === channel);
+    const affinity = personas
+      .filter((persona) => fit.personaIds.includes(persona.id))
+      .map((persona) => persona.persona);
+    traceRule(trace, "channelStrategy", {
+      rule: "Channel fit and funding",
+      subject: channel,
+      fired: Boolean(placed),
+      triggers: [
+        ...(pack && packChannels.includes(channel)
+          ? [{ field: "vertical" as const, text: pack.label }]
+          : []),
+        ...fit.goalTerms.map((text) => ({ field: "primaryGoal" as const, text })),
+      ],
+      detail: placed
+        ? `Ranked ${placed.allocation.rank} with a fit score of ${placed.allocation.fitScore}${affinity.length ? `; suits ${affinity.join(" and ")}` : ""}.`
+        : context.budget === undefined && fit.requiresBudget
+          ? "Paid-only channel, skipped because the brief has no budget."
+          : context.budget !== undefined && fit.minBudget > context.budget
+            ? `Needs at least ${formatCurrency(fit.minBudget)}, more than the ${formatCurrency(context.budget)} budget.`
+            : "Ranked below the channels that were funded.",
+    });
+  });
+
+  if (context.budget === undefined) {
+    traceDefault(
+      trace,
+      "channelStrategy",
+      "No budget given, so paid-only channels are skipped and no spend is split.",
+    );
+  }
+  if (context.teamCapacity === undefined) {
+    traceDefault(
+      trace,
+      "channelStrategy",
+      "No team capacity given, so reach assumes half an FTE per channel.",
+    );
+  }
+  if (context.budget === undefined && context.teamCapacity === undefined) {
+    traceDefault(
+      trace,
+      "channelStrategy",
+      "Without a budget or team size, the top four channels are kept.",
+    );
+  }
+
+  return allocated;
+}
+
+function allocationContext(payload: GTMRequest, personas: ReturnType<typeof derivePersonas>) {
+  return {
+    goal: payload.primaryGoal,
+    personaIds: personas.map((persona) => persona.id),
+    budget: payload.budget,
+    teamCapacity: payload.teamCapacity,
+    horizonDays: launchHorizonFor(payload).days,
+  };
+}
+
+export type GTMSection = keyof GTMResponse;
+
+export const gtmSections: GTMSection[] = [
+  "executiveSummary",
+  "launchPhases",
+  "personaInsights",
+  "messagingPillars",
+  "channelStrategy",
+  "growthExperiments",
+  "measurementFramework",
+  "measurementPlan",
+  "marketSizing",
+  "competitiveLandscape",
+  "enablementKit",
+  "pricingStrategy",
+  "regionalVariants",
+  "voiceReport",
+];
+
+/** Sections computed from the brief alone; providers are never asked to write them. */
+export type DerivedSection =
+  | "measurementPlan"
+  | "marketSizing"
+  | "competitiveLandscape"
+  | "enablementKit"
+  | "pricingStrategy"
+  | "regionalVariants"
+  | "voiceReport";
+export type ModelSection = Exclude<GTMSection, DerivedSection>;
+
+export const derivedSections: DerivedSection[] = [
+  "measurementPlan",
+  "marketSizing",
+  "competitiveLandscape",
+  "enablementKit",
+  "pricingStrategy",
+  "regionalVariants",
+  "voiceReport",
+];
+
+function isDerivedSection(section: GTMSection): section is DerivedSection {
+  return (derivedSections as GTMSection[]).includes(section);
+}
+
+/**
+ * A provider writes one blueprint section at a time. The rule draft is passed
+ * along so model-backed providers can mirror its shape and level of detail.
+ */
+export interface AgentProvider {
+  name: string;
+  generateSection<K extends GTMSection>(
+    section: K,
+    payload: GTMRequest,
+    draft: GTMResponse[K],
+  ): Promise<unknown>;
 }
 
-export function runGoToMarketAgent(payload: GTMRequest): GTMResponse {
-  const personas = derivePersonas(payload.audience, payload.primaryGoal);
+export const RULE_PROVIDER = "rules";
+
+export type SectionProvenance = Record<GTMSection, string>;
+
+export type AgentRun = {
+  blueprint: GTMResponse;
+  provenance: SectionProvenance;
+  /** Rules behind the rule-written sections; see `trace.ts`. */
+  trace: BlueprintTrace;
+  /** Consistency warnings for the final blueprint; see `quality.ts`. */
+  warnings: PlanWarning[];
+};
+
+export type AgentOptions = {
+  provider?: AgentProvider | null;
+  /** Team-defined archetypes, merged over the built-ins by id. */
+  customArchetypes?: PersonaArchetype[];
+  /** Sections and items to keep verbatim; only the rest is regenerated. */
+  locked?: LockedContent;
+  /** Called as soon as each section is final, in completion order. */
+  onSection?: <K extends GTMSection>(section: K, value: GTMResponse[K], source: string) => void;
+};
+
+/** Pass `trace` to have the rules record what they evaluated into it. */
+function draftSections(
+  payload: GTMRequest,
+  archetypes: PersonaArchetype[],
+  trace?: BlueprintTrace,
+  region: TargetMarket | null = null,
+): RegionalBlueprint {
+  const personas = derivePersonas(payload, archetypes, trace);
+  const launchPhases = shapeLaunchPhases(payload, trace, region);
+  const channelStrategy = adaptChannelStrategy(payload, personas, trace, region);
+  const pricingModels = classifyPricingModels(payload.pricing);
+  const measurementPlan = buildMeasurementPlan(payload.successMetric, {
+    launchHorizon: payload.launchHorizon,
+    launchStartDate: payload.launchStartDate,
+    pricingModels,
+    phases: launchPhases,
+    contractValue: payload.market?.averageContractValue,
+    minimumDays: findVerticalPack(payload.vertical)?.timeline.minimumDays,
+  });
+  const marketSizing = buildMarketSizing(payload, measurementPlan);
 
   return {
-    executiveSummary: craftSummary(payload),
-    launchPhases: shapeLaunchPhases(payload),
+    executiveSummary: craftSummary(payload, marketSizing, region),
+    launchPhases,
     personaInsights: personas.map((p) => ({
       persona: p.persona,
       coreNeeds: p.needs,
       adoptionTriggers: p.triggers,
       objections: p.objections,
+      confidence: p.confidence,
+      matchedKeywords: p.matchedKeywords,
     })),
-    messagingPillars: tailorMessaging(payload, personas),
-    channelStrategy: adaptChannelStrategy(payload.primaryGoal),
-    growthExperiments: growthBacklog,
-    measurementFramework: measurementMatrix,
+    messagingPillars: tailorMessaging(payload, personas, trace),
+    channelStrategy,
+    growthExperiments: selectExperiments({
+      productName: payload.productName,
+      audience: payload.audience,
+      problem: payload.problem,
+      goal: payload.primaryGoal,
+      successMetric: payload.successMetric,
+      personaIds: personas.map((p) => p.id),
+      pricingModels,
+      channels: channelStrategy.map((c) => c.channel),
+      phases: launchPhases.map((phase) => phase.name),
+    }),
+    measurementFramework: shapeMeasurement(payload, measurementPlan),
+    measurementPlan,
+    marketSizing,
+    competitiveLandscape: analyseCompetitors(payload, personas),
+    enablementKit: buildEnablementKit(payload, personas),
+    pricingStrategy: buildPricingStrategy(payload, personas),
+  };
+}
+
+function voiceSections(sections: RegionalBlueprint, profile: VoiceProfile, payload: GTMRequest) {
+  const quoted = quotedBriefText(payload);
+  return Object.fromEntries(
+    Object.entries(sections).map(([section, value]) => [
+      section,
+      applyVoice(section, value, profile, quoted),
+    ]),
+  ) as RegionalBlueprint;
+}
+
+/**
+ * Drafts the plan again for each target market. Variants are rule-written
+ * and untraced; English markets take the brand voice, the rest are rendered
+ * through the translation catalog, whose phrasing the voice rules don't know.
+ */
+function buildRegionalVariants(
+  payload: GTMRequest,
+  archetypes: PersonaArchetype[],
+  profile: VoiceProfile,
+): RegionalVariant[] {
+  return (payload.targetMarkets ?? []).flatMap((id) => {
+    const region = findTargetMarket(id);
+    if (!region) {
+      return [];
+    }
+    const draft = draftSections(payload, archetypes, undefined, region);
+    const { blueprint, coverage } = region.locale.startsWith("en")
+      ? { blueprint: voiceSections(draft, profile, payload), coverage: 1 }
+      : localizeBlueprint(draft, region.locale, payload);
+    return [{ region: region.id, label: region.label, locale: region.locale, coverage, blueprint }];
+  });
+}
+
+export function buildRuleBlueprint(
+  payload: GTMRequest,
+  archetypes: PersonaArchetype[] = mergeArchetypes(),
+  trace?: BlueprintTrace,
+): GTMResponse {
+  const voice = resolveVoice(payload.brandVoice, payload.voiceSamples);
+  const voiced = voiceSections(draftSections(payload, archetypes, trace), voice.profile, payload);
+  const regionalVariants = buildRegionalVariants(payload, archetypes, voice.profile);
+
+  return {
+    ...voiced,
+    regionalVariants,
+    voiceReport: auditVoice(voiced, voice.profile, voice.source, payload.voiceSamples),
   };
 }
+
+type SectionContext = {
+  payload: GTMRequest;
+  archetypes: PersonaArchetype[];
+  voice: VoiceProfile;
+};
+
+/**
+ * Model-written phases carry free-text durations; re-time them on the parsed
+ * horizon so dates stay consistent with the rule engine and calendar export.
+ * Model personas inherit match scores only when they reuse a matched name,
+ * and model channels are re-ranked and funded against the same budget.
+ * Model experiments get neutral ICE scores and are spread over the phases,
+ * and model metrics become leading indicators under the parsed north star.
+ */
+function alignSection<K extends GTMSection>(
+  section: K,
+  value: GTMResponse[K],
+  draft: GTMResponse[K],
+  { payload, archetypes }: SectionContext,
+): GTMResponse[K] {
+  if (section === "launchPhases") {
+    return scheduleLaunchPhases(
+      value as GTMResponse["launchPhases"],
+      launchHorizonFor(payload),
+      findVerticalPack(payload.vertical)?.timeline.phaseWeights,
+    ) as GTMResponse[K];
+  }
+  if (section === "personaInsights") {
+    const matched = draft as GTMResponse["personaInsights"];
+    return (value as GTMResponse["personaInsights"]).map((persona) => {
+      const rule = matched.find((candidate) => candidate.persona === persona.persona);
+      return {
+        ...persona,
+        confidence: rule?.confidence ?? 0,
+        matchedKeywords: rule?.matchedKeywords ?? [],
+      };
+    }) as GTMResponse[K];
+  }
+  if (section === "channelStrategy") {
+    const context = allocationContext(payload, derivePersonas(payload, archetypes));
+    return allocateChannels(value as GTMResponse["channelStrategy"], context) as GTMResponse[K];
+  }
+  if (section === "growthExperiments") {
+    const phases = phasePlans[phaseCountFor(launchHorizonFor(payload))];
+    return scoreUntaggedExperiments(
+      value as GTMResponse["growthExperiments"],
+      phases,
+    ) as GTMResponse[K];
+  }
+  if (section === "measurementFramework") {
+    const rule = draft as GTMResponse["measurementFramework"];
+    return [
+      ...rule.filter((metric) => metric.kind === "primary"),
+      ...(value as GTMResponse["measurementFramework"]).map((metric) => ({
+        ...metric,
+        kind: "leading" as const,
+      })),
+    ] as GTMResponse[K];
+  }
+  return value;
+}
+
+async function resolveSection<K extends GTMSection>(
+  section: K,
+  draft: GTMResponse[K],
+  provider: AgentProvider,
+  context: SectionContext,
+): Promise<{ value: GTMResponse[K]; source: string }> {
+  try {
+    const candidate = await provider.generateSection(section, context.payload, draft);
+    if (isValidSection(section, candidate)) {
+      const aligned = alignSection(section, candidate, draft, context);
+      const voiced = applyVoice(section, aligned, context.voice, quotedBriefText(context.payload));
+      return { value: voiced, source: provider.name };
+    }
+  } catch {
+    // Provider errors and timeouts degrade to the rule output for this section.
+  }
+  return { value: draft, source: RULE_PROVIDER };
+}
+
+export async function runGoToMarketAgent(
+  payload: GTMRequest,
+  options: AgentOptions = {},
+): Promise<AgentRun> {
+  const archetypes = mergeArchetypes(options.customArchetypes);
+  const trace: BlueprintTrace = {};
+  const draft = buildRuleBlueprint(payload, archetypes, trace);
+  const provenance = Object.fromEntries(
+    gtmSections.map((section) => [section, RULE_PROVIDER]),
+  ) as SectionProvenance;
+
+  const { provider, onSection, locked } = options;
+  if (!provider && !locked) {
+    gtmSections.forEach((section) => onSection?.(section, draft[section], RULE_PROVIDER));
+    return { blueprint: draft, provenance, trace, warnings: lintPlan(payload, draft) };
+  }
+
+  const voice = resolveVoice(payload.brandVoice, payload.voiceSamples);
+  const context = { payload, archetypes, voice: voice.profile };
+  const renames = referenceRenames(draft, locked);
+  const blueprint = { ...draft };
+  await Promise.all(
+    gtmSections
+      .filter((section) => section !== "voiceReport")
+      .map(async (section) => {
+        const pinned = locked?.sections?.[section as LockableSection];
+        const { value, source } =
+          pinned !== undefined
+            ? { value: pinned, source: LOCKED_SOURCE }
+            : isDerivedSection(section) || !provider
+              ? { value: draft[section], source: RULE_PROVIDER }
+              : await resolveSection(section, draft[section], provider, context);
+        // Regenerated copy follows renamed locked items; locked copy is never touched.
+        const final =
+          pinned !== undefined
+            ? value
+            : mergeLockedItems(section, applyRenames(value, renames), locked);
+        (blueprint as Record<GTMSection, unknown>)[section] = final;
+        provenance[section] = source;
+        onSection?.(section, final as GTMResponse[typeof section], source);
+      }),
+  );
+
+  // The voice audit reads the final copy, so it runs once every section is in.
+  blueprint.voiceReport = auditVoice(blueprint, voice.profile, voice.source, payload.voiceSamples);
+  onSection?.("voiceReport", blueprint.voiceReport, RULE_PROVIDER);
+
+  // Rules only explain what they wrote; model-written and locked sections carry no trace.
+  tracedSections
+    .filter((section) => provenance[section] !== RULE_PROVIDER)
+    .forEach((section) => delete trace[section]);
+
+  return { blueprint, provenance, trace, warnings: lintPlan(payload, blueprint) };
+}
@@ -0,0 +1,271 @@
+/**
+ * Budget- and capacity-aware channel allocation. Channels are ranked by fit
+ * with the goal and matched personas, then funded in rank order until the
+ * budget or team runs out, so the same brief with a different budget yields a
+ * visibly different mix. Economics are planning heuristics, not forecasts.
+ */
+
+import { targetMarkets } from "./regions";
+import { verticalPacks } from "./verticals";
+
+export type ChannelAllocation = {
+  rank: number;
+  fitScore: number;
+  /** Share of the funded mix, 0-1. */
+  budgetShare: number;
+  spend: number | null;
+  headcount: number | null;
+  estimatedReach: number;
+  estimatedCac: number | null;
+  /** Share of projected north-star outcomes, 0-1. */
+  northStarShare: number;
+  projectedOutcomes: number;
+};
+
+export type AllocationContext = {
+  goal: string;
+  personaIds: string[];
+  budget?: number;
+  teamCapacity?: number;
+  horizonDays: number;
+};
+
+export type ChannelEconomics = {
+  /** Paid-heavy channels are only funded when a budget is supplied. */
+  requiresBudget: boolean;
+  minBudget: number;
+  minHeadcount: number;
+  spendWeight: number;
+  laborWeight: number;
+  /** Cost per thousand people reached through paid spend. */
+  cpm: number;
+  organicReachPerFteMonth: number;
+  /** Share of reached people who become a north-star outcome. */
+  conversionRate: number;
+  goalAffinity: string[];
+  personaAffinity: string[];
+};
+
+const FULLY_LOADED_FTE_MONTHLY = 15_000;
+const MAX_CHANNELS = 5;
+const DEFAULT_CHANNEL_COUNT = 4;
+
+const defaultEconomics: ChannelEconomics = {
+  requiresBudget: false,
+  minBudget: 0,
+  minHeadcount: 0.5,
+  spendWeight: 0.5,
+  laborWeight: 1,
+  cpm: 50,
+  organicReachPerFteMonth: 8000,
+  conversionRate: 0.0008,
+  goalAffinity: [],
+  personaAffinity: [],
+};
+
+export const channelEconomics: Record<string, ChannelEconomics> = {
+  "Founders' Narrative": {
+    ...defaultEconomics,
+    minHeadcount: 0.25,
+    spendWeight: 0.3,
+    cpm: 40,
+    organicReachPerFteMonth: 20_000,
+    conversionRate: 0.0004,
+    goalAffinity: ["awareness", "brand", "category", "thought leadership"],
+    personaAffinity: ["builder", "executive"],
+  },
+  "Product-Led Motion": {
+    ...defaultEconomics,
+    minBudget: 2000,
+    spendWeight: 0.6,
+    laborWeight: 1.2,
+    cpm: 60,
+    conversionRate: 0.001,
+    goalAffinity: ["adoption", "activation", "signup", "trial", "usage", "self-serve"],
+    personaAffinity: ["builder", "operator"],
+  },
+  "Category Community": {
+    ...defaultEconomics,
+    minBudget: 1000,
+    spendWeight: 0.4,
+    cpm: 30,
+    organicReachPerFteMonth: 10_000,
+    conversionRate: 0.0008,
+    goalAffinity: ["community", "advocacy", "retention", "awareness"],
+    personaAffinity: ["builder"],
+  },
+  "Strategic Alliances": {
+    ...defaultEconomics,
+    minBudget: 5000,
+    laborWeight: 0.8,
+    cpm: 200,
+    organicReachPerFteMonth: 5000,
+    conversionRate: 0.002,
+    goalAffinity: ["pipeline", "revenue", "enterprise", "partner"],
+    personaAffinity: ["executive", "operator"],
+  },
+  "Paid Acquisition": {
+    ...defaultEconomics,
+    requiresBudget: true,
+    minBudget: 15_000,
+    minHeadcount: 0.25,
+    spendWeight: 1.5,
+    laborWeight: 0.4,
+    cpm: 30,
+    organicReachPerFteMonth: 0,
+    conversionRate: 0.0002,
+    goalAffinity: ["pipeline", "signup", "awareness", "demand", "leads"],
+    personaAffinity: ["operator"],
+  },
+  "Field & Executive Events": {
+    ...defaultEconomics,
+    requiresBudget: true,
+    minBudget: 40_000,
+    spendWeight: 1.2,
+    laborWeight: 0.8,
+    cpm: 150_000,
+    organicReachPerFteMonth: 200,
+    conversionRate: 0.05,
+    goalAffinity: ["pipeline", "revenue", "enterprise", "expansion"],
+    personaAffinity: ["executive"],
+  },
+};
+
+/** Channels contributed by vertical packs and target markets, over the same defaults. */
+const addedEconomics: Record<string, ChannelEconomics> = Object.fromEntries(
+  [...verticalPacks, ...targetMarkets].flatMap((source) =>
+    source.channels.map(({ channel, economics }) => [
+      channel,
+      { ...defaultEconomics, ...economics },
+    ]),
+  ),
+);
+
+function economicsFor(channel: string) {
+  return channelEconomics[channel] ?? addedEconomics[channel] ?? defaultEconomics;
+}
+
+/** The goal terms and persona ids a channel's fit score rests on, plus its funding floor. */
+export function explainChannelFit(channel: string, context: AllocationContext) {
+  const economics = economicsFor(channel);
+  const goal = context.goal.toLowerCase();
+
+  return {
+    goalTerms: economics.goalAffinity.filter((term) => goal.includes(term)),
+    personaIds: economics.personaAffinity.filter((id) => context.personaIds.includes(id)),
+    requiresBudget: economics.requiresBudget,
+    minBudget: economics.minBudget,
+  };
+}
+
+function fitScore(channel: string, context: AllocationContext) {
+  const economics = economicsFor(channel);
+  const fit = explainChannelFit(channel, context);
+  const goalHits = fit.goalTerms.length;
+  const personaHits = fit.personaIds.length;
+
+  // Budget headroom nudges spend-hungry channels up when money is plentiful.
+  const headroom =
+    context.budget && economics.minBudget
+      ? Math.min(context.budget / (economics.minBudget * 4), 1) * 0.5
+      : 0;
+
+  return Math.round((1 + goalHits * 1.5 + personaHits + headroom) * 100) / 100;
+}
+
+function roundTo(value: number, step: number) {
+  return Math.round(value / step) * step;
+}
+
+/**
+ * Ranks, selects and funds channels. Without a budget the paid-only channels
+ * are skipped and the top four organic motions are kept, mirroring the
+ * original fixed mix; with a budget or team, channels are admitted in rank
+ * order only while their minimum spend and headcount still fit.
+ */
+export function allocateChannels<T extends { channel: string }>(
+  channels: T[],
+  context: AllocationContext,
+): Array<T & { allocation: ChannelAllocation }> {
+  const ranked = channels
+    .map((channel) => ({ channel, score: fitScore(channel.channel, context) }))
+    .filter(({ channel }) => {
+      const economics = economicsFor(channel.channel);
+      return context.budget !== undefined
+        ? economics.minBudget <= context.budget
+        : !economics.requiresBudget;
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const constrained = context.budget !== undefined || context.teamCapacity !== undefined;
+  let budgetLeft = context.budget ?? Infinity;
+  let teamLeft = context.teamCapacity ?? Infinity;
+
+  const selected = constrained
+    ? ranked.filter(({ channel }, index) => {
+        const economics = economicsFor(channel.channel);
+        const fits = economics.minBudget <= budgetLeft && economics.minHeadcount <= teamLeft;
+        if (index === 0 || (fits && index < MAX_CHANNELS)) {
+          budgetLeft -= economics.minBudget;
+          teamLeft -= economics.minHeadcount;
+          return true;
+        }
+        return false;
+      })
+    : ranked.slice(0, DEFAULT_CHANNEL_COUNT);
+
+  const months = Math.max(context.horizonDays / 30, 0.25);
+  const spendWeights = selected.map(
+    ({ channel, score }) => score * economicsFor(channel.channel).spendWeight,
+  );
+  const laborWeights = selected.map(
+    ({ channel, score }) => score * economicsFor(channel.channel).laborWeight,
+  );
+  const totalSpendWeight = spendWeights.reduce((sum, weight) => sum + weight, 0) || 1;
+  const totalLaborWeight = laborWeights.reduce((sum, weight) => sum + weight, 0) || 1;
+
+  const projections = selected.map(({ channel, score }, index) => {
+    const economics = economicsFor(channel.channel);
+    const budgetShare = spendWeights[index] / totalSpendWeight;
+    const spend = context.budget !== undefined ? roundTo(context.budget * budgetShare, 100) : null;
+    const headcount =
+      context.teamCapacity !== undefined
+        ? roundTo((context.teamCapacity * laborWeights[index]) / totalLaborWeight, 0.1)
+        : null;
+
+    const paidReach = spend ? (spend / economics.cpm) * 1000 : 0;
+    const organicReach = economics.organicReachPerFteMonth * (headcount ?? 0.5) * months;
+    const estimatedReach = Math.round(paidReach + organicReach);
+    const projectedOutcomes = estimatedReach * economics.conversionRate;
+    const cost = (spend ?? 0) + (headcount ?? 0) * FULLY_LOADED_FTE_MONTHLY * months;
+
+    return {
+      channel,
+      score,
+      budgetShare,
+      spend,
+      headcount: headcount === null ? null : Math.round(headcount * 10) / 10,
+      estimatedReach,
+      projectedOutcomes,
+      estimatedCac:
+        cost > 0 && projectedOutcomes >= 1 ? Math.round(cost / projectedOutcomes) : null,
+    };
+  });
+
+  const totalOutcomes = projections.reduce((sum, entry) => sum + entry.projectedOutcomes, 0) || 1;
+
+  return projections.map((entry, index) => ({
+    ...entry.channel,
+    allocation: {
+      rank: index + 1,
+      fitScore: entry.score,
+      budgetShare: Math.round(entry.budgetShare * 100) / 100,
+      spend: entry.spend,
+      headcount: entry.headcount,
+      estimatedReach: entry.estimatedReach,
+      estimatedCac: entry.estimatedCac,
+      northStarShare: Math.round((entry.projectedOutcomes / totalOutcomes) * 100) / 100,
+      projectedOutcomes: Math.round(entry.projectedOutcomes * 10) / 10,
+    },
+  }));
+}
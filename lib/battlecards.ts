@@ -0,0 +1,348 @@
+/**
+ * Competitive battlecards. Competitor strengths and weaknesses, and our own
+ * differentiation, are sorted into shared dimensions so each card can say
+ * where to lead, which landmines to lay and how to counter the matched
+ * personas' objections against that specific rival.
+ */
+
+import { escapeRegExp } from "./format";
+
+export type Competitor = {
+  name: string;
+  strengths: string[];
+  weaknesses: string[];
+  /** Free text as the buyer sees it, e.g. "$49/seat/month". */
+  pricePoint?: string;
+};
+
+export type ComparisonCell = "advantage" | "weakness" | "unknown";
+
+export type Battlecard = {
+  competitor: string;
+  pricePoint: string;
+  positioning: string[];
+  landmines: string[];
+  objectionCounters: Array<{ persona: string; objection: string; counter: string }>;
+};
+
+export type CompetitiveLandscape = {
+  battlecards: Battlecard[];
+  comparison: ComparisonMatrix;
+};
+
+export type ComparisonMatrix = {
+  /** Our product first, then each competitor in brief order. */
+  columns: string[];
+  rows: Array<{ dimension: string; cells: ComparisonCell[] }>;
+};
+
+type Dimension = {
+  label: string;
+  keywords: string[];
+  /** Question that exposes a rival's weakness in this dimension. */
+  landmine: string;
+  /** How we answer an objection that falls in this dimension. */
+  counter: string;
+};
+
+type PersonaObjections = {
+  persona: string;
+  objections: string[];
+};
+
+const MAX_COUNTERS_PER_PERSONA = 2;
+
+const dimensions: Dimension[] = [
+  {
+    label: "Time to value",
+    keywords: [
+      "setup",
+      "onboarding",
+      "easy",
+      "ease",
+      "simple",
+      "fast",
+      "quick",
+      "intuitive",
+      "ux",
+      "usability",
+      "learning curve",
+      "complex",
+    ],
+    landmine: "Ask how many days it took their last customer to reach a first live workflow.",
+    counter: "Show a same-day pilot: {product} reaches a first live workflow in hours.",
+  },
+  {
+    label: "Integrations",
+    keywords: [
+      "integration",
+      "api",
+      "connector",
+      "ecosystem",
+      "plugin",
+      "sdk",
+      "stack",
+      "lock-in",
+      "lock in",
+      "export",
+      "open",
+    ],
+    landmine: "Ask which systems they connect to natively versus through services work.",
+    counter: "Walk through {product}'s native connectors and open export so nothing is locked in.",
+  },
+  {
+    label: "Security & compliance",
+    keywords: [
+      "security",
+      "soc2",
+      "soc 2",
+      "iso",
+      "compliance",
+      "gdpr",
+      "hipaa",
+      "governance",
+      "sso",
+      "audit",
+      "privacy",
+    ],
+    landmine: "Ask for their current SOC 2 report and where customer data is processed.",
+    counter: "Share {product}'s security pack and governance controls up front.",
+  },
+  {
+    label: "AI & automation",
+    keywords: [
+      "ai",
+      "automation",
+      "automate",
+      "agent",
+      "workflow",
+      "hallucination",
+      "accuracy",
+      "intelligence",
+    ],
+    landmine: "Ask how they measure and guard against wrong AI output in production.",
+    counter: "Demo {product}'s guardrails and human review steps on the buyer's own data.",
+  },
+  {
+    label: "Analytics & reporting",
+    keywords: [
+      "analytics",
+      "reporting",
+      "dashboard",
+      "insight",
+      "attribution",
+      "telemetry",
+      "visibility",
+      "roi",
+    ],
+    landmine: "Ask them to show ROI reporting a finance team would sign off on.",
+    counter: "Share a sample ROI dashboard built from {product} telemetry.",
+  },
+  {
+    label: "Pricing & cost",
+    keywords: [
+      "price",
+      "pricing",
+      "cost",
+      "cheap",
+      "expensive",
+      "affordable",
+      "free",
+      "seat",
+      "limits",
+      "hidden",
+      "budget",
+      "licensing",
+    ],
+    landmine: "Ask what the bill looks like at twice today's usage, including add-ons.",
+    counter:
+      "Model the buyer's cost at current and doubled usage with {product}'s published pricing.",
+  },
+  {
+    label: "Support & services",
+    keywords: [
+      "support",
+      "service",
+      "customer success",
+      "training",
+      "response",
+      "responsive",
+      "help",
+    ],
+    landmine: "Ask for their support response-time commitment in writing.",
+    counter: "Commit to {product}'s support SLA and named success contact in the proposal.",
+  },
+  {
+    label: "Scale & reliability",
+    keywords: [
+      "scale",
+      "scalable",
+      "performance",
+      "reliability",
+      "reliable",
+      "uptime",
+      "enterprise",
+      "latency",
+      "speed",
+    ],
+    landmine: "Ask for uptime history and a reference at your expected volume.",
+    counter: "Offer a reference customer running {product} at comparable scale.",
+  },
+  {
+    label: "Brand & ecosystem",
+    keywords: [
+      "brand",
+      "market leader",
+      "incumbent",
+      "installed base",
+      "awareness",
+      "community",
+      "partners",
+      "switching",
+    ],
+    landmine: "Ask how much of their roadmap is driven by customers your size.",
+    counter:
+      "Pair a peer reference with a phased switch plan that keeps the incumbent running during cut-over.",
+  },
+];
+
+function mentions(text: string, keyword: string) {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword)}(s|es|d|ed|ing)?(?![a-z0-9])`, "i").test(
+    text,
+  );
+}
+
+function dimensionsOf(text: string) {
+  return dimensions.filter((dimension) =>
+    dimension.keywords.some((keyword) => mentions(text, keyword)),
+  );
+}
+
+function possessive(name: string) {
+  return name.endsWith("s") ? `${name}'` : `${name}'s`;
+}
+
+function joinLabels(items: Dimension[]) {
+  const labels = items.map((dimension) => dimension.label.toLowerCase());
+  return labels.length > 1
+    ? `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}`
+    : labels[0];
+}
+
+function fill(template: string, productName: string) {
+  return template.replace(/\{product\}/g, productName);
+}
+
+function cellFor(dimension: Dimension, competitor: Competitor): ComparisonCell {
+  if (competitor.weaknesses.some((text) => dimensionsOf(text).includes(dimension))) {
+    return "weakness";
+  }
+  if (competitor.strengths.some((text) => dimensionsOf(text).includes(dimension))) {
+    return "advantage";
+  }
+  return "unknown";
+}
+
+/**
+ * Rows cover every dimension that our differentiation or any competitor note
+ * touches. Our column only ever claims advantages; it is not self-critical.
+ */
+export function buildComparisonMatrix(
+  productName: string,
+  differentiation: string,
+  competitors: Competitor[],
+): ComparisonMatrix {
+  const ours = dimensionsOf(differentiation);
+  const rows = dimensions
+    .map((dimension) => ({
+      dimension: dimension.label,
+      cells: [
+        ours.includes(dimension) ? ("advantage" as const) : ("unknown" as const),
+        ...competitors.map((competitor) => cellFor(dimension, competitor)),
+      ],
+    }))
+    .filter((row) => row.cells.some((cell) => cell !== "unknown"));
+
+  return { columns: [productName, ...competitors.map((competitor) => competitor.name)], rows };
+}
+
+export function buildBattlecards(
+  brief: { productName: string; differentiation: string; pricing: string },
+  competitors: Competitor[],
+  personas: PersonaObjections[],
+): Battlecard[] {
+  const ours = dimensionsOf(brief.differentiation);
+
+  return competitors.map((competitor) => {
+    const theirStrengths = dimensions.filter(
+      (dimension) => cellFor(dimension, competitor) === "advantage",
+    );
+    const theirWeaknesses = dimensions.filter(
+      (dimension) => cellFor(dimension, competitor) === "weakness",
+    );
+    const leadWith = ours.filter((dimension) => !theirStrengths.includes(dimension));
+    const contested = ours.filter((dimension) => theirStrengths.includes(dimension));
+
+    const positioning = [
+      leadWith.length
+        ? `Against ${competitor.name}, lead with ${joinLabels(leadWith.slice(0, 2))}: ${brief.differentiation}`
+        : `Against ${competitor.name}, lead with outcomes: ${brief.differentiation}`,
+      ...theirStrengths
+        .filter((dimension) => !ours.includes(dimension))
+        .slice(0, 2)
+        .map(
+          (dimension) =>
+            `Acknowledge ${possessive(competitor.name)} ${dimension.label.toLowerCase()}, then reframe the decision around ${(leadWith[0] ?? ours[0])?.label.toLowerCase() ?? "time to measurable outcomes"}.`,
+        ),
+      ...contested.map(
+        (dimension) =>
+          `${dimension.label} is contested with ${competitor.name}; win it with customer proof, not claims.`,
+      ),
+      competitor.pricePoint
+        ? `${competitor.name} prices at ${competitor.pricePoint}; anchor ${brief.productName} on ${brief.pricing.toLowerCase()} and the cost of staying on the status quo.`
+        : `Keep price out of the first call with ${competitor.name} prospects; anchor on the cost of the problem.`,
+    ];
+
+    const landmines = [
+      ...theirWeaknesses.map((dimension) => dimension.landmine),
+      ...competitor.weaknesses
+        .filter((text) => dimensionsOf(text).length === 0)
+        .map(
+          (text) => `Ask the buyer to test "${text}" with ${competitor.name} during evaluation.`,
+        ),
+    ];
+
+    const objectionCounters = personas.flatMap(({ persona, objections }) =>
+      objections
+        .map((objection) => ({ objection, dimension: dimensionsOf(objection)[0] }))
+        .filter((entry): entry is { objection: string; dimension: Dimension } =>
+          Boolean(entry.dimension),
+        )
+        .slice(0, MAX_COUNTERS_PER_PERSONA)
+        .map(({ objection, dimension }) => {
+          const cell = cellFor(dimension, competitor);
+          const contrast =
+            cell === "weakness"
+              ? ` This is a known gap for ${competitor.name}, so press the contrast.`
+              : cell === "advantage"
+                ? ` ${competitor.name} will claim parity here, so bring proof.`
+                : "";
+          return {
+            persona,
+            objection,
+            counter: `${fill(dimension.counter, brief.productName)}${contrast}`,
+          };
+        }),
+    );
+
+    return {
+      competitor: competitor.name,
+      pricePoint: competitor.pricePoint ?? "",
+      positioning,
+      landmines: landmines.length
+        ? landmines
+        : [`Ask what ${competitor.name} customers wish they had known before buying.`],
+      objectionCounters,
+    };
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * iCalendar (RFC 5545) export of the dated launch plan: one all-day event per
+ * phase, plus each primary play staggered across its phase window.
+ */
+
+import type { GTMRequest, GTMResponse } from "./agent";
+import { slugify } from "./format";
+import { addDays, parseIsoDate, toIsoDate } from "./timeline";
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Lines longer than 75 octets must be folded onto continuation lines. */
+function foldLine(line: string) {
+  const chunks: string[] = [];
+  let current = "";
+
+  Array.from(line).forEach((char) => {
+    if (Buffer.byteLength(current + char, "utf8") > 75) {
+      chunks.push(current);
+      current = " ";
+    }
+    current += char;
+  });
+  chunks.push(current);
+
+  return chunks.join("\r\n");
+}
+
+function icsDate(isoDate: string) {
+  return isoDate.replace(/-/g, "");
+}
+
+function allDayEvent({
+  uid,
+  stamp,
+  start,
+  end,
+  summary,
+  description,
+}: {
+  uid: string;
+  stamp: string;
+  start: string;
+  end: string;
+  summary: string;
+  description: string;
+}) {
+  const endDate = parseIsoDate(end);
+  // DTEND is exclusive for all-day events.
+  const exclusiveEnd = endDate ? toIsoDate(addDays(endDate, 1)) : end;
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${icsDate(start)}`,
+    `DTEND;VALUE=DATE:${icsDate(exclusiveEnd)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ];
+}
+
+export function renderIcs(request: GTMRequest, blueprint: GTMResponse) {
+  const stamp = `${new Date().toISOString().replace(/[-:]/g, "").slice(0, 15)}Z`;
+  const product = slugify(request.productName) || "gtm";
+
+  const events = blueprint.launchPhases.flatMap((phase) => {
+    const phaseStart = parseIsoDate(phase.startDate);
+    const phaseEnd = parseIsoDate(phase.endDate);
+    if (!phaseStart || !phaseEnd) {
+      return [];
+    }
+
+    const spanDays = Math.round((phaseEnd.getTime() - phaseStart.getTime()) / 86_400_000) + 1;
+    const phaseSlug = slugify(phase.name);
+
+    const plays = phase.primaryPlays.map((play, index) => {
+      const offset = Math.floor((spanDays * index) / phase.primaryPlays.length);
+      const day = toIsoDate(addDays(phaseStart, offset));
+      return allDayEvent({
+        uid: `${product}-${phaseSlug}-play-${index + 1}@agentic-gtm`,
+        stamp,
+        start: day,
+        end: day,
+        summary: `${request.productName} · ${play}`,
+        description: `${phase.name} phase play. ${phase.focus}`,
+      });
+    });
+
+    return [
+      ...allDayEvent({
+        uid: `${product}-${phaseSlug}@agentic-gtm`,
+        stamp,
+        start: phase.startDate,
+        end: phase.endDate,
+        summary: `${request.productName} launch · ${phase.name}`,
+        description: [
+          phase.focus,
+          "",
+          "Primary plays:",
+          ...phase.primaryPlays.map((play) => `- ${play}`),
+          "",
+          "Proof points:",
+          ...phase.proofPoints.map((proof) => `- ${proof}`),
+        ].join("\n"),
+      }),
+      ...plays.flat(),
+    ];
+  });
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Agentic GTM//Launch Plan//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeText(`${request.productName} launch plan`)}`,
+    ...events,
+    "END:VCALENDAR",
+  ]
+    .map(foldLine)
+    .join("\r\n")
+    .concat("\r\n");
+}
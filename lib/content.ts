@@ -0,0 +1,299 @@
+/**
+ * Launch content drafts. Turns messaging pillars, matched personas and the
+ * channel mix into ready-to-edit copy: landing heroes, a three-email nurture
+ * per persona, LinkedIn and X posts for the narrative channel, and webinar
+ * abstracts. Every template has variants so a single draft can be
+ * regenerated without touching the rest, and all copy goes through the
+ * brief's brand voice.
+ */
+
+import type { GTMRequest, GTMResponse } from "./agent";
+import { lower, slugify, trimPeriod } from "./format";
+import { applyVoiceToText, quotedBriefText, resolveVoice } from "./voice";
+
+export type ContentKind =
+  "landing-hero" | "nurture-email" | "linkedin-post" | "x-post" | "webinar-abstract";
+
+export type ContentDraft = {
+  id: string;
+  kind: ContentKind;
+  title: string;
+  pillar: string;
+  persona: string;
+  channel: string;
+  body: string;
+  /** Which template variant produced the body; bump it to regenerate. */
+  variant: number;
+};
+
+export const contentKindLabels: Record<ContentKind, string> = {
+  "landing-hero": "Landing page hero",
+  "nurture-email": "Nurture email",
+  "linkedin-post": "LinkedIn post",
+  "x-post": "X post",
+  "webinar-abstract": "Webinar abstract",
+};
+
+const NARRATIVE_CHANNEL = "Founders' Narrative";
+const X_POST_LIMIT = 280;
+
+type Pillar = GTMResponse["messagingPillars"][number];
+type Persona = GTMResponse["personaInsights"][number];
+
+type Slots = {
+  product: string;
+  summary: string;
+  problem: string;
+  differentiation: string;
+  pricing: string;
+  pillar: Pillar;
+  persona: Persona;
+};
+
+type Template = (slots: Slots) => { title: string; body: string };
+
+/** Lowercases a leading capital unless it starts an acronym ("SOC 2", "ROI"). */
+function first<T>(items: T[], fallback: T) {
+  return items[0] ?? fallback;
+}
+
+/*
+ * Brief fields arrive as anything from a noun phrase to a full sentence, so
+ * templates quote the problem verbatim rather than splicing it into a clause.
+ */
+const heroTemplates: Template[] = [
+  (s) => ({
+    title: `${s.product}: ${s.pillar.pillar}`,
+    body: [
+      `# ${trimPeriod(s.pillar.narrative)}.`,
+      `${s.product} gives ${s.persona.persona}s ${lower(first(s.persona.coreNeeds, "a faster path to results"))}.`,
+      `Why teams switch: ${trimPeriod(s.differentiation)}.`,
+      `[Start with ${s.product}] · ${s.pricing}`,
+    ].join("\n\n"),
+  }),
+  (s) => ({
+    title: `${s.product}: ${s.pillar.pillar} (problem-led)`,
+    body: [
+      `# "${trimPeriod(s.problem)}." Not anymore.`,
+      `${trimPeriod(s.summary)}. Built for ${s.persona.persona}s who need ${lower(first(s.persona.coreNeeds, "results they can prove"))}.`,
+      `${trimPeriod(s.pillar.narrative)}.`,
+      `[See ${s.product} in action] · ${s.pricing}`,
+    ].join("\n\n"),
+  }),
+  (s) => ({
+    title: `${s.product}: ${s.pillar.pillar} (proof-led)`,
+    body: [
+      `# ${s.pillar.pillar} for ${s.persona.persona}s.`,
+      `${trimPeriod(s.differentiation)}. ${trimPeriod(first(s.persona.adoptionTriggers, s.pillar.narrative))}.`,
+      `Proof inside: ${first(s.pillar.proofAssets, "customer results")}.`,
+      `[Book a walkthrough] · ${s.pricing}`,
+    ].join("\n\n"),
+  }),
+];
+
+/** One template list per step of the nurture: problem, proof, offer. */
+const emailSteps: Array<{ label: string; templates: Template[] }> = [
+  {
+    label: "Email 1 · The problem",
+    templates: [
+      (s) => ({
+        title: `Subject: Is this slowing your team down?`,
+        body: `Hi {{first_name}},\n\nMost ${s.persona.persona}s we talk to say the same thing: "${trimPeriod(s.problem)}." It usually shows up as ${lower(first(s.persona.objections, "slow, manual work"))} and stalled priorities.\n\n${trimPeriod(s.pillar.narrative)}.\n\nWorth a look? Reply and I'll share how teams like yours are handling it.\n\n— The ${s.product} team`,
+      }),
+      (s) => ({
+        title: `Subject: A quick question for ${s.persona.persona}s`,
+        body: `Hi {{first_name}},\n\nHow much of your week goes to working around this: "${trimPeriod(s.problem)}"? For most ${s.persona.persona}s the honest answer is "too much".\n\nWe built ${s.product} so ${lower(first(s.persona.coreNeeds, "better results"))} stops being a wish-list item.\n\n— The ${s.product} team`,
+      }),
+    ],
+  },
+  {
+    label: "Email 2 · The proof",
+    templates: [
+      (s) => ({
+        title: `Subject: How ${s.product} delivers ${s.pillar.pillar}`,
+        body: `Hi {{first_name}},\n\n${trimPeriod(s.differentiation)}. That's the difference behind ${s.pillar.pillar}.\n\nSee it for yourself: ${first(s.pillar.proofAssets, "our latest customer story")}.\n\n— The ${s.product} team`,
+      }),
+      (s) => ({
+        title: `Subject: What changed for teams using ${s.product}`,
+        body: `Hi {{first_name}},\n\nTeams like yours told us what tipped the decision: ${lower(trimPeriod(first(s.persona.adoptionTriggers, s.differentiation)))}.\n\n${trimPeriod(s.pillar.narrative)}. Here's the walkthrough: ${first(s.pillar.proofAssets, "customer results")}.\n\n— The ${s.product} team`,
+      }),
+    ],
+  },
+  {
+    label: "Email 3 · The offer",
+    templates: [
+      (s) => ({
+        title: `Subject: See ${s.product} on your own workflow`,
+        body: `Hi {{first_name}},\n\nIf ${lower(first(s.persona.objections, "risk"))} is on your list of concerns, let's tackle it head on in a 30-minute working session.\n\n${s.product} is ${lower(trimPeriod(s.pricing))}, so you can start small and prove value fast.\n\n[Book a session]\n\n— The ${s.product} team`,
+      }),
+      (s) => ({
+        title: `Subject: Your ${s.product} pilot plan`,
+        body: `Hi {{first_name}},\n\nWe've mapped a short pilot for ${s.persona.persona}s: one workflow, one success metric, live in days.\n\nPricing stays simple: ${lower(trimPeriod(s.pricing))}.\n\n[Start the pilot]\n\n— The ${s.product} team`,
+      }),
+    ],
+  },
+];
+
+const linkedInTemplates: Template[] = [
+  (s) => ({
+    title: `${s.pillar.pillar} — founder post`,
+    body: `We started ${s.product} after hearing the same complaint from every team we knew: "${trimPeriod(s.problem)}."\n\n${trimPeriod(s.pillar.narrative)}.\n\nWhat we learned building it:\n→ ${s.pillar.contentAngles.slice(0, 3).join("\n→ ")}\n\n${trimPeriod(s.differentiation)}.\n\nIf that sounds like your team, my DMs are open.`,
+  }),
+  (s) => ({
+    title: `${s.pillar.pillar} — contrarian take`,
+    body: `Unpopular opinion: the fix for "${trimPeriod(s.problem)}" isn't another tool. It's ${s.pillar.pillar}.\n\n${trimPeriod(s.pillar.narrative)}.\n\nThat's the bet behind ${s.product}: ${lower(trimPeriod(s.differentiation))}.\n\nAgree or disagree? Tell me below.`,
+  }),
+];
+
+const xTemplates: Template[] = [
+  (s) => ({
+    title: `${s.pillar.pillar} — X post`,
+    body: `"${trimPeriod(s.problem)}." We hear it every week. ${trimPeriod(s.pillar.narrative)}. That's ${s.product}.`,
+  }),
+  (s) => ({
+    title: `${s.pillar.pillar} — X thread opener`,
+    body: `How we think about ${s.pillar.pillar} at ${s.product} (a thread) 🧵\n\n1/ ${trimPeriod(s.pillar.narrative)}.`,
+  }),
+];
+
+const webinarTemplates: Template[] = [
+  (s) => ({
+    title: `Webinar: ${s.pillar.pillar} in practice`,
+    body: `Every team we meet says some version of "${trimPeriod(s.problem)}." In this session, the ${s.product} team walks through one idea: ${lower(trimPeriod(s.pillar.narrative))}.\n\nYou'll learn:\n• ${s.pillar.contentAngles.slice(0, 3).join("\n• ")}\n\nWe'll close with a live look at ${lower(first(s.pillar.proofAssets, s.product))} and Q&A.`,
+  }),
+  (s) => ({
+    title: `Webinar: ${s.pillar.pillar} for ${s.persona.persona}s`,
+    body: `A practical session for ${s.persona.persona}s. We'll unpack why "${trimPeriod(s.problem)}" persists, what ${s.pillar.pillar} looks like when it works, and how ${s.product} gets you there: ${lower(trimPeriod(s.differentiation))}.\n\nBring your questions; we'll answer them live.`,
+  }),
+];
+
+function clampPost(text: string) {
+  return text.length <= X_POST_LIMIT ? text : `${text.slice(0, X_POST_LIMIT - 1).trimEnd()}…`;
+}
+
+type DraftSpec = {
+  id: string;
+  kind: ContentKind;
+  templates: Template[];
+  pillar: Pillar;
+  persona: Persona;
+  channel: string;
+  /** Prefix for the title, e.g. the nurture step. */
+  label?: string;
+};
+
+function draftSpecs(blueprint: GTMResponse): DraftSpec[] {
+  const pillars = blueprint.messagingPillars;
+  const personas = blueprint.personaInsights;
+  const channels = blueprint.channelStrategy.map((channel) => channel.channel);
+  const narrativeChannel = channels.includes(NARRATIVE_CHANNEL)
+    ? NARRATIVE_CHANNEL
+    : (channels[0] ?? NARRATIVE_CHANNEL);
+  const ownedChannel = channels.find((channel) => channel !== narrativeChannel) ?? narrativeChannel;
+
+  if (!pillars.length || !personas.length) {
+    return [];
+  }
+
+  const specs: DraftSpec[] = [];
+
+  personas.forEach((persona, index) => {
+    const pillar = pillars[index % pillars.length];
+    specs.push({
+      id: `landing-hero-${slugify(persona.persona)}`,
+      kind: "landing-hero",
+      templates: heroTemplates,
+      pillar,
+      persona,
+      channel: ownedChannel,
+    });
+    emailSteps.forEach((step, stepIndex) => {
+      specs.push({
+        id: `nurture-${slugify(persona.persona)}-${stepIndex + 1}`,
+        kind: "nurture-email",
+        templates: step.templates,
+        pillar: pillars[(index + stepIndex) % pillars.length],
+        persona,
+        channel: "Email nurture",
+        label: step.label,
+      });
+    });
+  });
+
+  pillars.forEach((pillar, index) => {
+    const persona = personas[index % personas.length];
+    specs.push(
+      {
+        id: `linkedin-${slugify(pillar.pillar)}`,
+        kind: "linkedin-post",
+        templates: linkedInTemplates,
+        pillar,
+        persona,
+        channel: narrativeChannel,
+      },
+      {
+        id: `x-${slugify(pillar.pillar)}`,
+        kind: "x-post",
+        templates: xTemplates,
+        pillar,
+        persona,
+        channel: narrativeChannel,
+      },
+      {
+        id: `webinar-${slugify(pillar.pillar)}`,
+        kind: "webinar-abstract",
+        templates: webinarTemplates,
+        pillar,
+        persona,
+        channel: "Webinar",
+      },
+    );
+  });
+
+  return specs;
+}
+
+function renderDraft(spec: DraftSpec, request: GTMRequest, variant: number): ContentDraft {
+  const voice = resolveVoice(request.brandVoice, request.voiceSamples).profile;
+  const template = spec.templates[variant % spec.templates.length];
+  const { title, body } = template({
+    product: request.productName,
+    summary: request.productSummary,
+    problem: request.problem,
+    differentiation: request.differentiation,
+    pricing: request.pricing,
+    pillar: spec.pillar,
+    persona: spec.persona,
+  });
+  const voiced = applyVoiceToText(body, voice, quotedBriefText(request));
+
+  return {
+    id: spec.id,
+    kind: spec.kind,
+    title: spec.label ? `${spec.label} — ${title}` : title,
+    pillar: spec.pillar.pillar,
+    persona: spec.persona.persona,
+    channel: spec.channel,
+    body: spec.kind === "x-post" ? clampPost(voiced) : voiced,
+    variant,
+  };
+}
+
+/** Every draft for the blueprint, at the first template variant. */
+export function buildContentDrafts(request: GTMRequest, blueprint: GTMResponse): ContentDraft[] {
+  return draftSpecs(blueprint).map((spec) => renderDraft(spec, request, 0));
+}
+
+/**
+ * Re-renders one draft with the given template variant. Returns null when
+ * the id no longer exists in the blueprint (e.g. a persona was dropped).
+ */
+export function regenerateContentDraft(
+  request: GTMRequest,
+  blueprint: GTMResponse,
+  id: string,
+  variant: number,
+): ContentDraft | null {
+  const spec = draftSpecs(blueprint).find((entry) => entry.id === id);
+  return spec ? renderDraft(spec, request, Math.max(0, Math.floor(variant))) : null;
+}
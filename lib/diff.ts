@@ -0,0 +1,104 @@
+/**
+ * Compares two saved blueprints: which brief fields changed, and which keyed
+ * items in the plan were added, removed or reworded between runs.
+ */
+
+import type { GTMRequest, GTMResponse } from "./agent";
+
+export type InputChange = {
+  field: keyof GTMRequest;
+  before: string;
+  after: string;
+};
+
+export type ItemDiff = {
+  added: string[];
+  removed: string[];
+  reworded: Array<{ key: string; fields: string[] }>;
+};
+
+export type BlueprintDiff = {
+  inputs: InputChange[];
+  summaryChanged: boolean;
+  phases: ItemDiff;
+  pillars: ItemDiff;
+  channels: ItemDiff;
+  metrics: ItemDiff;
+};
+
+function diffItems<T extends object>(
+  before: T[],
+  after: T[],
+  keyOf: (item: T) => string,
+): ItemDiff {
+  const beforeByKey = new Map(before.map((item) => [keyOf(item), item] as const));
+  const afterByKey = new Map(after.map((item) => [keyOf(item), item] as const));
+
+  const added = after.map(keyOf).filter((key) => !beforeByKey.has(key));
+  const removed = before.map(keyOf).filter((key) => !afterByKey.has(key));
+  const reworded = after
+    .map((item) => {
+      const key = keyOf(item);
+      const previous = beforeByKey.get(key);
+      if (!previous) {
+        return null;
+      }
+      const fields = Object.keys(item).filter(
+        (field) =>
+          JSON.stringify((item as Record<string, unknown>)[field]) !==
+          JSON.stringify((previous as Record<string, unknown>)[field]),
+      );
+      return fields.length ? { key, fields } : null;
+    })
+    .filter((entry): entry is { key: string; fields: string[] } => entry !== null);
+
+  return { added, removed, reworded };
+}
+
+function formatInput(value: unknown) {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export function hasItemChanges(diff: ItemDiff) {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.reworded.length > 0;
+}
+
+export function compareBlueprints(
+  before: { request: GTMRequest; blueprint: GTMResponse },
+  after: { request: GTMRequest; blueprint: GTMResponse },
+): BlueprintDiff {
+  const fields = Array.from(
+    new Set([...Object.keys(before.request), ...Object.keys(after.request)]),
+  ) as Array<keyof GTMRequest>;
+  const inputs = fields
+    .map((field) => ({
+      field,
+      before: formatInput(before.request[field]),
+      after: formatInput(after.request[field]),
+    }))
+    .filter((change) => change.before !== change.after);
+
+  return {
+    inputs,
+    summaryChanged: before.blueprint.executiveSummary !== after.blueprint.executiveSummary,
+    phases: diffItems(before.blueprint.launchPhases, after.blueprint.launchPhases, (p) => p.name),
+    pillars: diffItems(
+      before.blueprint.messagingPillars,
+      after.blueprint.messagingPillars,
+      (p) => p.pillar,
+    ),
+    channels: diffItems(
+      before.blueprint.channelStrategy,
+      after.blueprint.channelStrategy,
+      (c) => c.channel,
+    ),
+    metrics: diffItems(
+      before.blueprint.measurementFramework,
+      after.blueprint.measurementFramework,
+      (m) => m.metric,
+    ),
+  };
+}
@@ -0,0 +1,408 @@
+/**
+ * Format-neutral document model for blueprint exports. Sections are described
+ * once as headings, paragraphs, lists and tables, and each export format
+ * renders the same blocks so nothing shown in the workspace is dropped.
+ */
+
+import type { GTMRequest, GTMResponse } from "./agent";
+import type { ComparisonCell } from "./battlecards";
+import type { GoalMotion } from "./enablement";
+import { formatCount, formatCurrency, formatDate, formatPercent } from "./format";
+import { MIN_PERSONA_CONFIDENCE } from "./personas";
+import { findTargetMarket } from "./regions";
+import { findVerticalPack } from "./verticals";
+
+export type DocumentBlock =
+  | { kind: "heading"; level: 1 | 2 | 3; text: string }
+  | { kind: "paragraph"; text: string }
+  | { kind: "list"; items: string[] }
+  | { kind: "table"; headers: string[]; rows: string[][] };
+
+export type ExportDocument = {
+  title: string;
+  blocks: DocumentBlock[];
+};
+
+const briefLabels: Array<[keyof GTMRequest, string]> = [
+  ["productName", "Product name"],
+  ["productSummary", "Product summary"],
+  ["audience", "Target audience"],
+  ["problem", "Problem"],
+  ["differentiation", "Why we win"],
+  ["pricing", "Pricing motion"],
+  ["brandVoice", "Brand voice"],
+  ["primaryGoal", "Primary goal"],
+  ["successMetric", "North star metric"],
+  ["launchHorizon", "Launch horizon"],
+  ["launchStartDate", "Launch start date"],
+  ["budget", "Launch budget (USD)"],
+  ["teamCapacity", "Team capacity (FTE)"],
+  ["vertical", "Industry vertical"],
+  ["targetMarkets", "Target markets"],
+];
+
+function briefValue(request: GTMRequest, field: keyof GTMRequest) {
+  if (field === "vertical") {
+    return findVerticalPack(request.vertical)?.label ?? String(request.vertical);
+  }
+  if (field === "targetMarkets") {
+    return (request.targetMarkets ?? []).map((id) => findTargetMarket(id)?.label ?? id).join(", ");
+  }
+  return String(request[field]);
+}
+
+const heading = (level: 1 | 2 | 3, text: string): DocumentBlock => ({
+  kind: "heading",
+  level,
+  text,
+});
+const paragraph = (text: string): DocumentBlock => ({ kind: "paragraph", text });
+const list = (items: string[]): DocumentBlock => ({ kind: "list", items });
+
+function describeCell(cell: ComparisonCell) {
+  return cell === "advantage" ? "Strength" : cell === "weakness" ? "Weakness" : "—";
+}
+
+const goalMotionLabels: Record<GoalMotion, string> = {
+  pipeline: "pipeline creation",
+  revenue: "closed revenue",
+  adoption: "product adoption",
+  expansion: "account expansion",
+};
+
+function labelled(label: string, items: string[]): DocumentBlock[] {
+  return items.length ? [paragraph(`${label}:`), list(items)] : [];
+}
+
+export function buildBlueprintDocument(
+  request: GTMRequest,
+  blueprint: GTMResponse,
+): ExportDocument {
+  const title = `${request.productName} — Go-To-Market Blueprint`;
+
+  const plan = blueprint.measurementPlan;
+  const blocks: DocumentBlock[] = [
+    heading(1, title),
+    heading(2, "Input brief"),
+    {
+      kind: "table",
+      headers: ["Field", "Value"],
+      rows: briefLabels
+        .filter(([field]) => request[field] !== undefined && briefValue(request, field) !== "")
+        .map(([field, label]) => [label, briefValue(request, field)]),
+    },
+    heading(2, "Executive summary"),
+    paragraph(blueprint.executiveSummary),
+    heading(2, "Launch phases"),
+    ...blueprint.launchPhases.flatMap((phase) => [
+      heading(3, `${phase.name} (${phase.duration})`),
+      paragraph(phase.focus),
+      ...labelled("Primary plays", phase.primaryPlays),
+      ...labelled("Proof points", phase.proofPoints),
+    ]),
+    heading(2, "Persona intelligence"),
+    ...blueprint.personaInsights.flatMap((persona) => [
+      heading(3, persona.persona),
+      paragraph(
+        persona.confidence >= MIN_PERSONA_CONFIDENCE
+          ? `Match confidence: ${formatPercent(persona.confidence)} (${persona.matchedKeywords.join(", ")})`
+          : "Default persona (no strong audience match)",
+      ),
+      ...labelled("Core needs", persona.coreNeeds),
+      ...labelled("Adoption triggers", persona.adoptionTriggers),
+      ...labelled("Objection armor", persona.objections),
+    ]),
+    heading(2, "Messaging pillars"),
+    ...blueprint.messagingPillars.flatMap((pillar) => [
+      heading(3, pillar.pillar),
+      paragraph(pillar.narrative),
+      ...labelled("Content angles", pillar.contentAngles),
+      ...labelled("Proof assets", pillar.proofAssets),
+    ]),
+    heading(2, "Channel orchestration"),
+    {
+      kind: "table",
+      headers: [
+        "#",
+        "Channel",
+        "Fit",
+        "Mix",
+        "Spend",
+        "FTE",
+        "Est. reach",
+        "Est. CAC",
+        "North-star share",
+      ],
+      rows: blueprint.channelStrategy.map(({ channel, allocation }) => [
+        String(allocation.rank),
+        channel,
+        String(allocation.fitScore),
+        formatPercent(allocation.budgetShare),
+        allocation.spend !== null ? formatCurrency(allocation.spend) : "—",
+        allocation.headcount !== null ? String(allocation.headcount) : "—",
+        formatCount(allocation.estimatedReach),
+        allocation.estimatedCac !== null ? formatCurrency(allocation.estimatedCac) : "—",
+        `${formatPercent(allocation.northStarShare)} (~${formatCount(allocation.projectedOutcomes)})`,
+      ]),
+    },
+    ...blueprint.channelStrategy.flatMap((channel) => [
+      heading(3, channel.channel),
+      paragraph(channel.role),
+      ...labelled("Cadence", channel.cadences),
+      ...labelled("KPIs", channel.kpis),
+    ]),
+    heading(2, "Growth experiments"),
+    {
+      kind: "table",
+      headers: ["#", "Experiment", "Phase", "Impact", "Confidence", "Ease", "ICE"],
+      rows: [...blueprint.growthExperiments]
+        .sort((a, b) => a.sequence - b.sequence)
+        .map((experiment) => [
+          String(experiment.sequence),
+          experiment.title,
+          experiment.phase,
+          String(experiment.ice.impact),
+          String(experiment.ice.confidence),
+          String(experiment.ice.ease),
+          experiment.ice.score.toFixed(1),
+        ]),
+    },
+    ...blueprint.growthExperiments.flatMap((experiment) => [
+      heading(3, experiment.title),
+      paragraph(experiment.hypothesis),
+      ...labelled("Playbook", experiment.playbook),
+      paragraph(`Measure: ${experiment.measure}`),
+    ]),
+    heading(2, "Measurement architecture"),
+    {
+      kind: "table",
+      headers: ["Role", "Metric", "Target", "Instrumentation", "Cadence"],
+      rows: blueprint.measurementFramework.map((metric) => [
+        metric.kind === "primary" ? "North star" : "Leading",
+        metric.metric,
+        metric.target,
+        metric.instrumentation,
+        metric.cadence,
+      ]),
+    },
+    heading(2, "North-star plan"),
+    paragraph(plan.message),
+  ];
+
+  if (plan.milestones.length) {
+    blocks.push({
+      kind: "table",
+      headers: [plan.cadence === "weekly" ? "Week" : "Month", "Date", "Phase", "Cumulative target"],
+      rows: plan.milestones.map((milestone) => [
+        milestone.label,
+        formatDate(milestone.date),
+        milestone.phase,
+        formatCount(milestone.target),
+      ]),
+    });
+  }
+  if (plan.funnel.length) {
+    blocks.push({
+      kind: "table",
+      headers: ["Funnel stage", "Volume needed", "Converts to next"],
+      rows: plan.funnel.map((stage) => [
+        stage.label,
+        formatCount(stage.volume),
+        stage.conversionRate !== null ? `${Math.round(stage.conversionRate * 1000) / 10}%` : "—",
+      ]),
+    });
+  }
+
+  const sizing = blueprint.marketSizing;
+  blocks.push(heading(2, "Market sizing"), paragraph(sizing.message));
+  if (sizing.sized) {
+    const tierCells = (row: Pick<typeof sizing, "tam" | "sam" | "som">) =>
+      [row.tam, row.sam, row.som].map(
+        (tier) => `${formatCurrency(tier.value)} (${formatCount(tier.accounts)} accounts)`,
+      );
+    blocks.push(
+      {
+        kind: "table",
+        headers: ["Segment", "TAM", "SAM", "SOM"],
+        rows: [
+          ...sizing.segments.map((row) => [row.segment, ...tierCells(row)]),
+          ["Total", ...tierCells(sizing)],
+        ],
+      },
+      paragraph(sizing.achievability.message),
+      {
+        kind: "table",
+        headers: ["Input", "Range tested", "SOM", "Target coverage"],
+        rows: sizing.sensitivity.map((range) => {
+          const format =
+            range.driver === "averageContractValue"
+              ? formatCurrency
+              : range.driver === "accounts"
+                ? formatCount
+                : formatPercent;
+          const coverage = (value: number | null) =>
+            value !== null ? `${value.toFixed(1)}×` : "—";
+          return [
+            range.label,
+            `${format(range.low)} to ${format(range.high)}`,
+            `${formatCurrency(range.somLow)} to ${formatCurrency(range.somHigh)}`,
+            `${coverage(range.coverageLow)} to ${coverage(range.coverageHigh)}`,
+          ];
+        }),
+      },
+    );
+  }
+
+  const { battlecards, comparison } = blueprint.competitiveLandscape;
+  if (battlecards.length) {
+    blocks.push(heading(2, "Competitive battlecards"), {
+      kind: "table",
+      headers: ["Dimension", ...comparison.columns],
+      rows: comparison.rows.map((row) => [row.dimension, ...row.cells.map(describeCell)]),
+    });
+    battlecards.forEach((card) => {
+      blocks.push(
+        heading(3, card.pricePoint ? `${card.competitor} (${card.pricePoint})` : card.competitor),
+        ...labelled("Positioning", card.positioning),
+        ...labelled("Landmines", card.landmines),
+        ...labelled(
+          "Objection counters",
+          card.objectionCounters.map(
+            (entry) => `${entry.persona} — "${entry.objection}": ${entry.counter}`,
+          ),
+        ),
+      );
+    });
+  }
+
+  const pricing = blueprint.pricingStrategy;
+  blocks.push(
+    heading(2, "Pricing & packaging"),
+    paragraph(pricing.rationale),
+    paragraph(`Value metric: ${pricing.valueMetric}`),
+    {
+      kind: "table",
+      headers: ["Tier", "Buyer", "Price", "Metered by", "Includes", "Fences"],
+      rows: pricing.tiers.map((tier) => [
+        tier.name,
+        tier.buyer,
+        tier.price,
+        tier.limit,
+        tier.includes.join("; "),
+        tier.fences.join("; "),
+      ]),
+    },
+    ...labelled(
+      "Price tests",
+      pricing.priceTests.map(
+        (test) =>
+          `${test.title}: ${test.method} Measure ${test.measure.toLowerCase()}; guardrail: ${test.guardrail}`,
+      ),
+    ),
+    ...labelled(
+      "Pricing objections",
+      pricing.objections.map((entry) => `${entry.persona} — "${entry.objection}": ${entry.answer}`),
+    ),
+    ...labelled(
+      "Conflicts",
+      pricing.conflicts.map((conflict) => `${conflict.severity}: ${conflict.message}`),
+    ),
+  );
+
+  const variants = blueprint.regionalVariants ?? [];
+  if (variants.length) {
+    blocks.push(
+      heading(2, "Target markets"),
+      ...variants.flatMap((variant) => [
+        heading(3, `${variant.label} (${variant.locale})`),
+        paragraph(variant.blueprint.executiveSummary),
+        ...labelled(
+          "Channels",
+          variant.blueprint.channelStrategy.map((channel) => channel.channel),
+        ),
+        ...labelled(
+          "Proof points",
+          variant.blueprint.launchPhases.flatMap((phase) => phase.proofPoints),
+        ),
+        paragraph(`Translated: ${formatPercent(variant.coverage)} of the built-in copy.`),
+      ]),
+    );
+  }
+
+  const voice = blueprint.voiceReport;
+  blocks.push(
+    heading(2, "Voice check"),
+    paragraph(
+      `${voice.voice} (${voice.source}): sentences under ${voice.maxSentenceWords} words, ${
+        voice.contractions ? "contractions" : "no contractions"
+      }, ${voice.violations.length} flagged line(s).`,
+    ),
+    ...labelled(
+      "Flagged lines",
+      voice.violations.map((violation) => `${violation.path}: ${violation.rule}`),
+    ),
+  );
+
+  return { title, blocks };
+}
+
+/**
+ * Stand-alone kit for AEs and SEs: the brief's positioning up top, then one
+ * section per persona with talk tracks, discovery, qualification and script.
+ */
+export function buildEnablementDocument(
+  request: GTMRequest,
+  blueprint: GTMResponse,
+): ExportDocument {
+  const title = `${request.productName} — Sales Enablement Kit`;
+  const kit = blueprint.enablementKit;
+
+  const blocks: DocumentBlock[] = [
+    heading(1, title),
+    {
+      kind: "table",
+      headers: ["Field", "Value"],
+      rows: [
+        ["Product", request.productSummary],
+        ["Why we win", request.differentiation],
+        ["Pricing", request.pricing],
+        ["Primary goal", `${request.primaryGoal} (${goalMotionLabels[kit.goalMotion]})`],
+      ],
+    },
+    ...kit.personas.flatMap((persona) => [
+      heading(2, persona.persona),
+      heading(3, "Objection handling"),
+      {
+        kind: "table" as const,
+        headers: ["Objection", "Theme", "Talk track"],
+        rows: persona.talkTracks.map((track) => [track.objection, track.theme, track.response]),
+      },
+      heading(3, "Discovery questions"),
+      list(persona.discoveryQuestions),
+      heading(3, "Qualification"),
+      {
+        kind: "table" as const,
+        headers: ["Criterion", "Evidence"],
+        rows: persona.qualification.map((entry) => [entry.criterion, entry.evidence]),
+      },
+      heading(3, "Call script"),
+      list(persona.callScript.map((step) => `${step.stage}: ${step.line}`)),
+    ]),
+  ];
+
+  return { title, blocks };
+}
+
+export type DocumentKind = "blueprint" | "enablement";
+
+export const documentBuilders: Record<
+  DocumentKind,
+  (request: GTMRequest, blueprint: GTMResponse) => ExportDocument
+> = {
+  blueprint: buildBlueprintDocument,
+  enablement: buildEnablementDocument,
+};
+
+export function isDocumentKind(value: unknown): value is DocumentKind {
+  return typeof value === "string" && Object.hasOwn(documentBuilders, value);
+}
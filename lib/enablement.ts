@@ -0,0 +1,278 @@
+/**
+ * Sales enablement kit. Each matched persona gets objection-handling talk
+ * tracks, discovery questions, qualification criteria tied to the primary
+ * goal and a short call script, so AEs and SEs have something to say back to
+ * the objections listed in `personaInsights`. Responses quote the brief's
+ * pricing and differentiation wherever the objection is about them.
+ */
+
+import { escapeRegExp, lower, trimPeriod } from "./format";
+
+/** What the primary goal asks sales to produce, which decides how deals qualify. */
+export type GoalMotion = "pipeline" | "revenue" | "adoption" | "expansion";
+
+export type TalkTrack = {
+  objection: string;
+  theme: string;
+  response: string;
+};
+
+export type QualificationCriterion = {
+  criterion: string;
+  evidence: string;
+};
+
+export type PersonaEnablement = {
+  persona: string;
+  talkTracks: TalkTrack[];
+  discoveryQuestions: string[];
+  qualification: QualificationCriterion[];
+  callScript: Array<{ stage: string; line: string }>;
+};
+
+export type EnablementKit = {
+  goalMotion: GoalMotion;
+  personas: PersonaEnablement[];
+};
+
+type Brief = {
+  productName: string;
+  productSummary: string;
+  problem: string;
+  differentiation: string;
+  pricing: string;
+  primaryGoal: string;
+};
+
+type PersonaProfile = {
+  persona: string;
+  needs: string[];
+  triggers: string[];
+  objections: string[];
+};
+
+type ObjectionTheme = {
+  label: string;
+  keywords: string[];
+  /** Reframe and proof that follow the acknowledgement. */
+  reframe: (brief: Brief) => string;
+};
+
+const MAX_DISCOVERY_QUESTIONS = 5;
+
+/** First match wins, so pricing comes last: "switching cost" is a switching objection. */
+const objectionThemes: ObjectionTheme[] = [
+  {
+    label: "Integration & switching",
+    keywords: ["integration", "stack", "lock-in", "switching", "incumbent", "workflow", "api"],
+    reframe: (brief) =>
+      `${brief.productName} is built to fit the tools they already run: ${lower(trimPeriod(brief.differentiation))}. Offer a scoped pilot on one workflow so nothing is ripped out.`,
+  },
+  {
+    label: "Security & compliance",
+    keywords: ["compliance", "security", "governance", "soc2", "soc 2", "iso", "privacy", "risk"],
+    reframe: (brief) =>
+      `Send the security pack before they ask and bring an SE to the next call to cover governance controls in ${brief.productName}.`,
+  },
+  {
+    label: "AI trust",
+    keywords: ["ai", "hallucination", "accuracy", "model"],
+    reframe: (brief) =>
+      `Run ${brief.productName} on their own data during the demo and show where human review steps in. Anchor on what makes it different: ${lower(trimPeriod(brief.differentiation))}.`,
+  },
+  {
+    label: "Support",
+    keywords: ["support", "response", "coverage", "success", "training"],
+    reframe: (brief) =>
+      `Name the support contact and response-time commitment in the proposal, and offer a reference customer who has used ${brief.productName} support.`,
+  },
+  {
+    label: "Pricing",
+    keywords: ["price", "pricing", "cost", "seat", "usage", "budget", "expensive"],
+    reframe: (brief) =>
+      `Walk through the pricing line by line: ${trimPeriod(brief.pricing)}. Then model their bill at today's usage and at double it, so there are no surprises.`,
+  },
+];
+
+const fallbackTheme: ObjectionTheme = {
+  label: "Proof",
+  keywords: [],
+  reframe: (brief) =>
+    `Lead with the outcome, not features: ${lower(trimPeriod(brief.differentiation))}. Offer a customer story from a team with the same problem.`,
+};
+
+const goalMotions: Array<{ motion: GoalMotion; keywords: string[] }> = [
+  {
+    motion: "expansion",
+    keywords: ["expand", "expansion", "upsell", "retention", "retain", "churn", "renew"],
+  },
+  {
+    motion: "adoption",
+    keywords: [
+      "signup",
+      "sign-up",
+      "activation",
+      "activate",
+      "trial",
+      "adoption",
+      "install",
+      "user",
+    ],
+  },
+  {
+    motion: "revenue",
+    keywords: ["revenue", "arr", "mrr", "bookings", "closed", "deals", "customers", "contracts"],
+  },
+  {
+    motion: "pipeline",
+    keywords: ["demo", "meeting", "sql", "pipeline", "opportunity", "opportunities", "lead"],
+  },
+];
+
+const motionPlaybooks: Record<
+  GoalMotion,
+  { criteria: QualificationCriterion[]; question: string; close: string }
+> = {
+  pipeline: {
+    criteria: [
+      { criterion: "Pain", evidence: "They describe the problem in their own words and its cost." },
+      {
+        criterion: "Authority",
+        evidence: "The buyer or a direct report of the buyer is on the call.",
+      },
+      { criterion: "Timing", evidence: "There is a reason to act this quarter." },
+    ],
+    question: "Who else would need to see this before it becomes a project?",
+    close: "Book the follow-up demo with the decision maker before hanging up.",
+  },
+  revenue: {
+    criteria: [
+      { criterion: "Budget", evidence: "Budget is allocated or a funding path is named." },
+      { criterion: "Decision process", evidence: "Steps, approvers and paper process are mapped." },
+      { criterion: "Close date", evidence: "A mutual close plan with a target date is agreed." },
+    ],
+    question: "What does your buying process look like from yes to signed contract?",
+    close: "Agree a mutual close plan with dates and owners.",
+  },
+  adoption: {
+    criteria: [
+      { criterion: "Use case", evidence: "One concrete workflow to run first is named." },
+      { criterion: "Champion", evidence: "A hands-on user will set it up this week." },
+      { criterion: "Activation path", evidence: "They can reach first value without procurement." },
+    ],
+    question: "Which workflow would you try first, and who would set it up?",
+    close: "Get them into a live workspace and schedule a check-in after first use.",
+  },
+  expansion: {
+    criteria: [
+      { criterion: "Current value", evidence: "Usage or outcomes on today's plan are documented." },
+      { criterion: "New team or use case", evidence: "A second team or workflow is identified." },
+      { criterion: "Sponsor", evidence: "An executive sponsor backs the wider rollout." },
+    ],
+    question: "Which other teams run into the same problem today?",
+    close: "Set up a success review with the sponsor and the next team.",
+  },
+};
+
+function mentions(text: string, keyword: string) {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword)}(s|es|d|ed|ing)?(?![a-z0-9])`, "i").test(
+    text,
+  );
+}
+
+function themeFor(objection: string) {
+  return (
+    objectionThemes.find((theme) =>
+      theme.keywords.some((keyword) => mentions(objection, keyword)),
+    ) ?? fallbackTheme
+  );
+}
+
+/** Classifies the primary goal; pipeline is the default for unclear goals. */
+export function classifyGoalMotion(primaryGoal: string): GoalMotion {
+  return (
+    goalMotions.find(({ keywords }) => keywords.some((keyword) => mentions(primaryGoal, keyword)))
+      ?.motion ?? "pipeline"
+  );
+}
+
+function talkTracks(brief: Brief, persona: PersonaProfile): TalkTrack[] {
+  return persona.objections.map((objection) => {
+    const theme = themeFor(objection);
+    return {
+      objection,
+      theme: theme.label,
+      response: `"${trimPeriod(objection)}" is a fair concern for a ${persona.persona}. ${theme.reframe(brief)}`,
+    };
+  });
+}
+
+function discoveryQuestions(brief: Brief, persona: PersonaProfile, motion: GoalMotion) {
+  return [
+    `Where does "${trimPeriod(brief.problem)}" hurt most today: time, cost or risk?`,
+    ...persona.needs
+      .slice(0, 2)
+      .map((need) => `How well does your current setup deliver ${lower(need)}?`),
+    ...persona.triggers
+      .slice(0, 1)
+      .map(
+        (trigger) =>
+          `What would you need to see to trust a new tool? Teams like yours often ask for ${lower(trigger)}.`,
+      ),
+    motionPlaybooks[motion].question,
+  ].slice(0, MAX_DISCOVERY_QUESTIONS);
+}
+
+function qualification(brief: Brief, motion: GoalMotion): QualificationCriterion[] {
+  return [
+    {
+      criterion: "Goal fit",
+      evidence: `Winning this account moves us toward "${trimPeriod(brief.primaryGoal)}".`,
+    },
+    ...motionPlaybooks[motion].criteria,
+  ];
+}
+
+function callScript(
+  brief: Brief,
+  persona: PersonaProfile,
+  questions: string[],
+  tracks: TalkTrack[],
+  motion: GoalMotion,
+) {
+  return [
+    {
+      stage: "Opener",
+      line: `Thanks for the time. I work with ${persona.persona}s who tell us "${trimPeriod(brief.problem)}." Does that match what you see?`,
+    },
+    { stage: "Discovery", line: questions.slice(0, 2).join(" ") },
+    {
+      stage: "Position",
+      line: `${trimPeriod(brief.productSummary)}. What makes ${brief.productName} different: ${lower(trimPeriod(brief.differentiation))}.`,
+    },
+    ...tracks.slice(0, 1).map((track) => ({ stage: "Handle objection", line: track.response })),
+    {
+      stage: "Close",
+      line: `${motionPlaybooks[motion].close} Pricing to share if asked: ${trimPeriod(brief.pricing)}.`,
+    },
+  ];
+}
+
+export function buildEnablementKit(brief: Brief, personas: PersonaProfile[]): EnablementKit {
+  const motion = classifyGoalMotion(brief.primaryGoal);
+
+  return {
+    goalMotion: motion,
+    personas: personas.map((persona) => {
+      const tracks = talkTracks(brief, persona);
+      const questions = discoveryQuestions(brief, persona, motion);
+      return {
+        persona: persona.persona,
+        talkTracks: tracks,
+        discoveryQuestions: questions,
+        qualification: qualification(brief, motion),
+        callScript: callScript(brief, persona, questions, tracks, motion),
+      };
+    }),
+  };
+}
@@ -0,0 +1,407 @@
+/**
+ * Growth experiment library. Every entry is tagged by goal, persona, pricing
+ * model and channel; the agent picks the entries that fit the brief, fills in
+ * the product specifics, scores them with ICE (impact, confidence, ease) and
+ * sequences them across the launch phases.
+ */
+
+import { slugify } from "./format";
+import type { PricingModel } from "./pricing";
+
+export type ExperimentScore = {
+  impact: number;
+  confidence: number;
+  ease: number;
+  /** Mean of impact, confidence and ease, 1-10. */
+  score: number;
+};
+
+export type ExperimentStatus = "planned" | "running" | "done";
+
+export type ExperimentContext = {
+  productName: string;
+  audience: string;
+  problem: string;
+  goal: string;
+  successMetric: string;
+  personaIds: string[];
+  pricingModels: PricingModel[];
+  channels: string[];
+  phases: string[];
+};
+
+type ExperimentTemplate = {
+  id: string;
+  title: string;
+  hypothesis: string;
+  playbook: string[];
+  measure: string;
+  goals: string[];
+  personas: string[];
+  pricing: PricingModel[];
+  channels: string[];
+  stage: string;
+  base: Omit<ExperimentScore, "score">;
+};
+
+const MAX_EXPERIMENTS = 6;
+const MIN_EXPERIMENTS = 3;
+const stageOrder = ["Ignition", "Amplify", "Convert", "Scale"];
+
+export const experimentLibrary: ExperimentTemplate[] = [
+  {
+    id: "onboarding-concierge",
+    title: "Persona-Calibrated Onboarding Concierge",
+    hypothesis:
+      "If {product} detects the user's core job-to-be-done during onboarding, we can surface relevant templates and increase activation.",
+    playbook: [
+      "Create role-specific welcome flows with scripted prompts",
+      "Instrument micro-surveys tied to first-session actions",
+      "Route to nurture tracks featuring proof tied to persona needs",
+    ],
+    measure: "Activation rate within first 7 days segmented by persona.",
+    goals: ["adoption", "activation", "onboarding", "retention"],
+    personas: ["builder", "operator"],
+    pricing: ["freemium", "usage"],
+    channels: ["Product-Led Motion"],
+    stage: "Amplify",
+    base: { impact: 7, confidence: 6, ease: 6 },
+  },
+  {
+    id: "narrative-velocity",
+    title: "Narrative Velocity Series",
+    hypothesis:
+      "A serialized content program that dramatizes how {product} solves {problem} will increase inbound demo requests.",
+    playbook: [
+      "Produce monthly hero stories with metrics-oriented infographics",
+      "Distribute across LinkedIn, newsletter, and industry communities",
+      "Add CTA to book a strategy workshop with solution consultants",
+    ],
+    measure: "Demo volume, win rate, and sourced ARR from the campaign.",
+    goals: ["awareness", "pipeline", "demo", "brand"],
+    personas: ["executive", "operator"],
+    pricing: [],
+    channels: ["Founders' Narrative"],
+    stage: "Amplify",
+    base: { impact: 6, confidence: 6, ease: 7 },
+  },
+  {
+    id: "pilot-sprint-rooms",
+    title: "AI Pilot Sprint Rooms",
+    hypothesis:
+      "Facilitated sprints with success blueprints will collapse evaluation cycles for {audience}.",
+    playbook: [
+      "Spin up a Miro/FigJam board capturing sprint agenda and KPIs",
+      "Bundle onboarding docs, governance checklist, and ROI calculator",
+      "Assign a solutions engineer to co-build the first workflow",
+    ],
+    measure: "Pilot-to-paid conversion and speed-to-contract.",
+    goals: ["pipeline", "revenue", "enterprise", "conversion"],
+    personas: ["executive", "operator"],
+    pricing: ["enterprise", "seat"],
+    channels: ["Strategic Alliances", "Field & Executive Events"],
+    stage: "Convert",
+    base: { impact: 8, confidence: 6, ease: 4 },
+  },
+  {
+    id: "reverse-trial",
+    title: "Reverse Trial of the Premium Tier",
+    hypothesis:
+      "Giving new {product} signups full premium access for 14 days before downgrading will lift paid conversion.",
+    playbook: [
+      "Unlock premium workflows for every new workspace by default",
+      "Send day-10 recap of premium value delivered",
+      "Downgrade with one-click upgrade path and usage snapshot",
+    ],
+    measure: "Trial-to-paid conversion versus the standard free plan cohort.",
+    goals: ["conversion", "revenue", "activation", "adoption"],
+    personas: ["builder", "operator"],
+    pricing: ["freemium", "usage", "flat"],
+    channels: ["Product-Led Motion"],
+    stage: "Convert",
+    base: { impact: 7, confidence: 6, ease: 6 },
+  },
+  {
+    id: "usage-estimator",
+    title: "Transparent Usage Estimator",
+    hypothesis:
+      "Letting buyers model their {product} bill up front will neutralize pricing-scale objections and shorten evaluations.",
+    playbook: [
+      "Ship a pricing page calculator driven by expected workload",
+      "Embed the estimate in sales follow-ups and proposals",
+      "Alert accounts before they cross plan thresholds",
+    ],
+    measure: "Pricing-page-to-signup rate and pricing objections logged in CRM.",
+    goals: ["conversion", "pipeline", "signup", "revenue"],
+    personas: ["builder", "operator"],
+    pricing: ["usage"],
+    channels: ["Product-Led Motion"],
+    stage: "Ignition",
+    base: { impact: 6, confidence: 7, ease: 8 },
+  },
+  {
+    id: "template-gallery",
+    title: "Use-Case Template Gallery",
+    hypothesis:
+      "A public gallery of ready-made {product} workflows will turn search and community traffic into activated signups.",
+    playbook: [
+      "Publish ten templates mapped to the top jobs-to-be-done",
+      "Make each template one-click importable from the gallery",
+      "Invite design partners to contribute and co-brand templates",
+    ],
+    measure: "Template-sourced signups and their 7-day activation rate.",
+    goals: ["adoption", "activation", "signup", "awareness"],
+    personas: ["builder"],
+    pricing: ["freemium", "usage"],
+    channels: ["Product-Led Motion", "Category Community"],
+    stage: "Ignition",
+    base: { impact: 6, confidence: 7, ease: 7 },
+  },
+  {
+    id: "champion-referral",
+    title: "Champion Referral Loop",
+    hypothesis:
+      "Rewarding power users who bring peers into {product} will create a compounding acquisition channel.",
+    playbook: [
+      "Identify champions from usage depth and community activity",
+      "Offer credits or swag for referred teams that activate",
+      "Spotlight champions in community roundtables",
+    ],
+    measure: "Referral-sourced signups and pipeline per active champion.",
+    goals: ["adoption", "advocacy", "expansion", "community"],
+    personas: ["builder"],
+    pricing: ["usage", "freemium", "seat"],
+    channels: ["Category Community"],
+    stage: "Scale",
+    base: { impact: 6, confidence: 5, ease: 6 },
+  },
+  {
+    id: "partner-co-sell",
+    title: "Partner Co-Sell Launch Bundle",
+    hypothesis:
+      "Packaging {product} with a partner's platform will unlock qualified demand from their installed base.",
+    playbook: [
+      "Select two partners whose customers share the problem",
+      "Build a joint offer with bundled onboarding",
+      "Run enablement sessions for partner AEs and SEs",
+    ],
+    measure: "Partner-sourced opportunities and influenced ARR.",
+    goals: ["pipeline", "revenue", "enterprise", "partner"],
+    personas: ["executive", "operator"],
+    pricing: ["enterprise", "seat"],
+    channels: ["Strategic Alliances"],
+    stage: "Amplify",
+    base: { impact: 7, confidence: 5, ease: 5 },
+  },
+  {
+    id: "executive-roundtable",
+    title: "Executive Roundtable Series",
+    hypothesis:
+      "Closed-door roundtables on {problem} will open multi-threaded conversations with target accounts.",
+    playbook: [
+      "Host monthly roundtables for eight to twelve senior leaders",
+      "Share an anonymized benchmark as the discussion anchor",
+      "Follow up within 48 hours with a tailored assessment offer",
+    ],
+    measure: "Meetings booked and pipeline created per roundtable.",
+    goals: ["pipeline", "enterprise", "revenue", "expansion"],
+    personas: ["executive"],
+    pricing: ["enterprise"],
+    channels: ["Field & Executive Events", "Founders' Narrative"],
+    stage: "Convert",
+    base: { impact: 8, confidence: 5, ease: 4 },
+  },
+  {
+    id: "problem-retargeting",
+    title: "Problem-Aware Retargeting",
+    hypothesis:
+      "Retargeting visitors who engaged with {problem} content will convert more efficiently than cold paid audiences.",
+    playbook: [
+      "Tag problem-focused content and build engaged-visitor audiences",
+      "Serve persona-specific proof ads with a low-friction CTA",
+      "Cap frequency and rotate creative weekly",
+    ],
+    measure: "Cost per {metric} from retargeted versus cold audiences.",
+    goals: ["pipeline", "signup", "leads", "demand"],
+    personas: ["operator"],
+    pricing: [],
+    channels: ["Paid Acquisition"],
+    stage: "Amplify",
+    base: { impact: 6, confidence: 5, ease: 7 },
+  },
+  {
+    id: "team-invite-nudges",
+    title: "Team Invite Expansion Nudges",
+    hypothesis:
+      "Prompting active users to invite teammates at collaboration moments will grow seats per account.",
+    playbook: [
+      "Detect share, comment and handoff moments in product",
+      "Trigger contextual invite prompts with teammate suggestions",
+      "Offer admins a seat-bundle upgrade once three invites land",
+    ],
+    measure: "Seats per account and invite acceptance rate.",
+    goals: ["expansion", "revenue", "adoption", "retention"],
+    personas: ["operator"],
+    pricing: ["seat"],
+    channels: ["Product-Led Motion"],
+    stage: "Scale",
+    base: { impact: 7, confidence: 6, ease: 6 },
+  },
+  {
+    id: "benchmark-report",
+    title: "Category Benchmark Report",
+    hypothesis:
+      "An original benchmark on {problem} will make {product} the reference point for {audience} and generate qualified leads.",
+    playbook: [
+      "Survey the audience and combine with anonymized product data",
+      "Publish a gated report with a shareable executive summary",
+      "Turn findings into a webinar and sales conversation starters",
+    ],
+    measure: "Report downloads, influenced pipeline and media mentions.",
+    goals: ["awareness", "pipeline", "category", "brand", "leads"],
+    personas: ["executive", "operator"],
+    pricing: [],
+    channels: ["Founders' Narrative", "Category Community"],
+    stage: "Ignition",
+    base: { impact: 6, confidence: 6, ease: 5 },
+  },
+];
+
+function fill(template: string, context: ExperimentContext) {
+  return template
+    .replace(/\{product\}/g, context.productName)
+    .replace(/\{audience\}/g, context.audience.toLowerCase())
+    .replace(/\{problem\}/g, context.problem.toLowerCase())
+    .replace(/\{metric\}/g, context.successMetric.replace(/\s+in\s+.*$/i, "").toLowerCase());
+}
+
+function clampScore(value: number) {
+  return Math.max(1, Math.min(10, value));
+}
+
+function iceScore(parts: Omit<ExperimentScore, "score">): ExperimentScore {
+  const impact = clampScore(parts.impact);
+  const confidence = clampScore(parts.confidence);
+  const ease = clampScore(parts.ease);
+  return {
+    impact,
+    confidence,
+    ease,
+    score: Math.round(((impact + confidence + ease) / 3) * 10) / 10,
+  };
+}
+
+/** Nearest phase present in the plan, preferring earlier phases when tied. */
+function phaseFor(stage: string, phases: string[]) {
+  if (phases.includes(stage) || !phases.length) {
+    return stage;
+  }
+  const target = stageOrder.indexOf(stage);
+  return phases
+    .map((phase) => ({ phase, distance: Math.abs(stageOrder.indexOf(phase) - target) }))
+    .sort((a, b) => a.distance - b.distance)[0].phase;
+}
+
+/**
+ * Orders experiments for execution: by launch phase first, then by score
+ * inside each phase. Returns the experiments ranked by score with their
+ * position in that sequence.
+ */
+export function sequenceExperiments<T extends { ice: ExperimentScore; phase: string }>(
+  experiments: T[],
+  phases: string[],
+): Array<T & { sequence: number }> {
+  const order = (phase: string) => {
+    const index = phases.indexOf(phase);
+    return index === -1 ? phases.length : index;
+  };
+  const sequenced = [...experiments].sort(
+    (a, b) => order(a.phase) - order(b.phase) || b.ice.score - a.ice.score,
+  );
+
+  return experiments
+    .map((experiment) => ({ ...experiment, sequence: sequenced.indexOf(experiment) + 1 }))
+    .sort((a, b) => b.ice.score - a.ice.score);
+}
+
+export function selectExperiments(context: ExperimentContext) {
+  const goal = context.goal.toLowerCase();
+
+  const candidates = experimentLibrary.map((template) => {
+    const goalHits = template.goals.filter((term) => goal.includes(term)).length;
+    const personaHits = template.personas.filter((id) => context.personaIds.includes(id)).length;
+    const pricingHit = template.pricing.some((model) => context.pricingModels.includes(model));
+    const channelHit = template.channels.some((channel) => context.channels.includes(channel));
+    const relevance = goalHits * 2 + personaHits + (pricingHit ? 1.5 : 0) + (channelHit ? 1 : 0);
+
+    const ice = iceScore({
+      impact: template.base.impact + Math.min(goalHits, 2),
+      confidence: template.base.confidence + (personaHits ? 1 : 0) + (pricingHit ? 1 : 0),
+      // Experiments that need a channel outside the mix take more setup.
+      ease: template.base.ease - (channelHit ? 0 : 2),
+    });
+
+    const tags = [
+      ...template.goals.filter((term) => goal.includes(term)).map((term) => `goal:${term}`),
+      ...template.personas
+        .filter((id) => context.personaIds.includes(id))
+        .map((id) => `persona:${id}`),
+      ...template.pricing
+        .filter((model) => context.pricingModels.includes(model))
+        .map((model) => `pricing:${model}`),
+      ...template.channels
+        .filter((channel) => context.channels.includes(channel))
+        .map((channel) => `channel:${channel}`),
+    ];
+
+    return { template, relevance, ice, tags };
+  });
+
+  const relevant = candidates
+    .filter((candidate) => candidate.relevance > 0)
+    .sort((a, b) => b.relevance - a.relevance || b.ice.score - a.ice.score);
+  const fillers = candidates
+    .filter((candidate) => candidate.relevance === 0)
+    .sort((a, b) => b.ice.score - a.ice.score);
+  const picked = [...relevant, ...fillers].slice(
+    0,
+    Math.max(MIN_EXPERIMENTS, Math.min(MAX_EXPERIMENTS, relevant.length)),
+  );
+
+  return sequenceExperiments(
+    picked.map(({ template, ice, tags }) => ({
+      id: template.id,
+      title: template.title,
+      hypothesis: fill(template.hypothesis, context),
+      playbook: template.playbook.map((step) => fill(step, context)),
+      measure: fill(template.measure, context),
+      tags,
+      ice,
+      phase: phaseFor(template.stage, context.phases),
+    })),
+    context.phases,
+  );
+}
+
+/**
+ * Gives externally written experiments (e.g. from a model provider) neutral
+ * ICE scores and spreads them across the phases in the order they came.
+ */
+export function scoreUntaggedExperiments<
+  T extends { title: string; hypothesis: string; playbook: string[]; measure: string },
+>(experiments: T[], phases: string[]) {
+  return sequenceExperiments(
+    experiments.map((experiment, index) => ({
+      ...experiment,
+      id: slugify(experiment.title) || `experiment-${index + 1}`,
+      tags: [] as string[],
+      ice: iceScore({ impact: 5, confidence: 5, ease: 5 }),
+      phase: phases.length
+        ? phases[
+            Math.min(Math.floor((index * phases.length) / experiments.length), phases.length - 1)
+          ]
+        : "",
+    })),
+    phases,
+  );
+}
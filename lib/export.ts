@@ -0,0 +1,214 @@
+/**
+ * Renderers that turn an `ExportDocument` into downloadable files: Markdown,
+ * a self-contained printable HTML page, and a Word document. Calendar export
+ * lives in `calendar.ts` since it works on dated phases rather than blocks.
+ */
+
+import {
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import type { DocumentBlock, ExportDocument } from "./document";
+import { slugify } from "./format";
+import type { TaskFormat } from "./tasks";
+
+export type ExportFormat = "markdown" | "html" | "docx" | "ics" | TaskFormat;
+
+type FormatSpec = {
+  extension: string;
+  contentType: string;
+  /** Appended to the file name so task files don't collide, e.g. "-jira". */
+  suffix?: string;
+  /**
+   * "document" formats render any `ExportDocument`; "blueprint" formats read
+   * the blueprint directly and only exist for the full blueprint.
+   */
+  source: "document" | "blueprint";
+};
+
+export const exportFormats: Record<ExportFormat, FormatSpec> = {
+  markdown: { extension: "md", contentType: "text/markdown; charset=utf-8", source: "document" },
+  html: { extension: "html", contentType: "text/html; charset=utf-8", source: "document" },
+  docx: {
+    extension: "docx",
+    contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    source: "document",
+  },
+  ics: { extension: "ics", contentType: "text/calendar; charset=utf-8", source: "blueprint" },
+  csv: {
+    extension: "csv",
+    contentType: "text/csv; charset=utf-8",
+    suffix: "-tasks",
+    source: "blueprint",
+  },
+  github: {
+    extension: "json",
+    contentType: "application/json; charset=utf-8",
+    suffix: "-github-issues",
+    source: "blueprint",
+  },
+  jira: {
+    extension: "csv",
+    contentType: "text/csv; charset=utf-8",
+    suffix: "-jira",
+    source: "blueprint",
+  },
+  linear: {
+    extension: "csv",
+    contentType: "text/csv; charset=utf-8",
+    suffix: "-linear",
+    source: "blueprint",
+  },
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && Object.hasOwn(exportFormats, value);
+}
+
+export function exportFileName(title: string, format: ExportFormat) {
+  const { extension, suffix = "" } = exportFormats[format];
+  return `${slugify(title) || "gtm-blueprint"}${suffix}.${extension}`;
+}
+
+function escapeMarkdownCell(value: string) {
+  return value.replace(/\|/g, "\\|").replace(/\n+/g, " ");
+}
+
+function markdownBlock(block: DocumentBlock) {
+  switch (block.kind) {
+    case "heading":
+      return `${"#".repeat(block.level)} ${block.text}`;
+    case "paragraph":
+      return block.text;
+    case "list":
+      return block.items.map((item) => `- ${item}`).join("\n");
+    case "table":
+      return [
+        `| ${block.headers.map(escapeMarkdownCell).join(" | ")} |`,
+        `| ${block.headers.map(() => "---").join(" | ")} |`,
+        ...block.rows.map((row) => `| ${row.map(escapeMarkdownCell).join(" | ")} |`),
+      ].join("\n");
+  }
+}
+
+export function renderMarkdown(doc: ExportDocument) {
+  return `${doc.blocks.map(markdownBlock).join("\n\n")}\n`;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function htmlBlock(block: DocumentBlock) {
+  switch (block.kind) {
+    case "heading":
+      return `<h${block.level}>${escapeHtml(block.text)}</h${block.level}>`;
+    case "paragraph":
+      return `<p>${escapeHtml(block.text)}</p>`;
+    case "list":
+      return `<ul>${block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`;
+    case "table":
+      return [
+        "<table>",
+        `<thead><tr>${block.headers.map((cell) => `<th>${escapeHtml(cell)}</th>`).join("")}</tr></thead>`,
+        `<tbody>${block.rows
+          .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`)
+          .join("")}</tbody>`,
+        "</table>",
+      ].join("");
+  }
+}
+
+const printStyles = `
+  body { font-family: "Inter", system-ui, -apple-system, "Segoe UI", sans-serif; color: #0f172a; max-width: 860px; margin: 2.5rem auto; padding: 0 1.25rem; line-height: 1.5; }
+  h1 { font-size: 1.9rem; margin-bottom: 1.5rem; }
+  h2 { font-size: 1.3rem; margin-top: 2rem; padding-bottom: 0.35rem; border-bottom: 2px solid #6366f1; }
+  h3 { font-size: 1.05rem; margin-top: 1.25rem; }
+  p { margin: 0.5rem 0; }
+  ul { margin: 0.25rem 0 0.75rem; }
+  table { width: 100%; border-collapse: collapse; margin: 0.75rem 0; font-size: 0.92rem; }
+  th, td { text-align: left; vertical-align: top; padding: 0.5rem; border: 1px solid #cbd5e1; }
+  th { background: #eef2ff; }
+  @media print { body { margin: 0; } h2, h3 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+export function renderHtml(doc: ExportDocument) {
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8" />',
+    `<title>${escapeHtml(doc.title)}</title>`,
+    `<style>${printStyles}</style>`,
+    "</head>",
+    "<body>",
+    ...doc.blocks.map(htmlBlock),
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
+
+const docxHeadingLevels = {
+  1: HeadingLevel.TITLE,
+  2: HeadingLevel.HEADING_1,
+  3: HeadingLevel.HEADING_2,
+} as const;
+
+function docxBlock(block: DocumentBlock): Array<Paragraph | Table> {
+  switch (block.kind) {
+    case "heading":
+      return [new Paragraph({ text: block.text, heading: docxHeadingLevels[block.level] })];
+    case "paragraph":
+      return [new Paragraph({ text: block.text })];
+    case "list":
+      return block.items.map((item) => new Paragraph({ text: item, bullet: { level: 0 } }));
+    case "table":
+      return [
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [
+            new TableRow({
+              tableHeader: true,
+              children: block.headers.map(
+                (cell) =>
+                  new TableCell({
+                    children: [
+                      new Paragraph({ children: [new TextRun({ text: cell, bold: true })] }),
+                    ],
+                  }),
+              ),
+            }),
+            ...block.rows.map(
+              (row) =>
+                new TableRow({
+                  children: row.map(
+                    (cell) => new TableCell({ children: [new Paragraph({ text: cell })] }),
+                  ),
+                }),
+            ),
+          ],
+        }),
+      ];
+  }
+}
+
+export async function renderDocx(doc: ExportDocument) {
+  const document = new Document({
+    title: doc.title,
+    sections: [{ children: doc.blocks.flatMap(docxBlock) }],
+  });
+
+  return Packer.toBuffer(document);
+}
@@ -0,0 +1,49 @@
+/** Shared number and text formatting for the results panel, exports and generators. */
+
+export function formatCurrency(value: number) {
+  return value.toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  });
+}
+
+export function formatPercent(share: number) {
+  return `${Math.round(share * 100)}%`;
+}
+
+export function formatCount(value: number) {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 1 });
+}
+
+/** ISO date (YYYY-MM-DD) as "Jan 16, 2027". */
+export function formatDate(isoDate: string) {
+  return new Date(`${isoDate}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/** Lowercase, dash-separated id fragment, e.g. "Growth Ops" → "growth-ops". */
+export function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/** Brief text ready to sit mid-sentence, without its trailing full stop. */
+export function trimPeriod(text: string) {
+  return text.trim().replace(/[.\s]+$/, "");
+}
+
+/** Lowercases a leading capital unless the word is an acronym such as "API". */
+export function lower(text: string) {
+  return /^[A-Z][a-z]/.test(text) ? text.charAt(0).toLowerCase() + text.slice(1) : text;
+}
+
+export function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,106 @@
+/**
+ * File-backed blueprint history. Each generated blueprint is stored with the
+ * brief that produced it as one JSON document under `GTM_DATA_DIR`
+ * (defaults to `.data/` in the working directory).
+ */
+
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { GTMRequest, GTMResponse, SectionProvenance } from "./agent";
+
+export type BlueprintRecord = {
+  id: string;
+  createdAt: string;
+  request: GTMRequest;
+  blueprint: GTMResponse;
+  provenance: SectionProvenance;
+};
+
+export type BlueprintSummary = Pick<BlueprintRecord, "id" | "createdAt"> & {
+  productName: string;
+  primaryGoal: string;
+  launchHorizon: string;
+};
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{6,32}$/;
+
+/** Root of everything the app persists, shared by history and share links. */
+export function dataDir() {
+  return process.env.GTM_DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+function historyDir() {
+  return path.join(dataDir(), "blueprints");
+}
+
+function recordPath(id: string) {
+  return path.join(historyDir(), `${id}.json`);
+}
+
+export function isBlueprintId(id: string) {
+  return ID_PATTERN.test(id);
+}
+
+export async function saveBlueprint(
+  request: GTMRequest,
+  blueprint: GTMResponse,
+  provenance: SectionProvenance,
+): Promise<BlueprintRecord> {
+  const record: BlueprintRecord = {
+    id: randomBytes(6).toString("base64url"),
+    createdAt: new Date().toISOString(),
+    request,
+    blueprint,
+    provenance,
+  };
+
+  await fs.mkdir(historyDir(), { recursive: true });
+  await fs.writeFile(recordPath(record.id), JSON.stringify(record, null, 2), "utf8");
+
+  return record;
+}
+
+export async function getBlueprint(id: string): Promise<BlueprintRecord | null> {
+  if (!isBlueprintId(id)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(await fs.readFile(recordPath(id), "utf8")) as BlueprintRecord;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw err;
+  }
+}
+
+export async function listBlueprints(): Promise<BlueprintSummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(historyDir());
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw err;
+  }
+
+  const records = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => getBlueprint(path.basename(file, ".json"))),
+  );
+
+  return records
+    .filter((record): record is BlueprintRecord => record !== null)
+    .map((record) => ({
+      id: record.id,
+      createdAt: record.createdAt,
+      productName: record.request.productName,
+      primaryGoal: record.request.primaryGoal,
+      launchHorizon: record.request.launchHorizon,
+    }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -0,0 +1,1100 @@
+import type { Catalog } from ".";
+
+/** German (de-DE). Keys are the English templates; keep placeholders as written. */
+export const de: Catalog = {
+  // Executive summary
+  "Launch mission: {product} will {goal}.": "Launch-Mission: {product} soll {goal}.",
+  "We anchor messaging around the core product promise — {summary}.":
+    "Die Botschaften verankern wir im zentralen Produktversprechen: {summary}.",
+  "Tone must stay {tone} while dramatizing the problem: {problem}.":
+    "Der Ton bleibt {tone} und macht das Problem greifbar: {problem}.",
+  "We lead with proof on how we {differentiation} and reinforce the pricing model ({pricing}).":
+    "Wir führen mit Belegen dafür, wie wir {differentiation}, und stützen das Preismodell ({pricing}).",
+  "The prize: a total market worth {tam} a year, of which {som} is realistically winnable.":
+    "Das Potenzial: ein Gesamtmarkt von {tam} pro Jahr, davon {som} realistisch gewinnbar.",
+  "Built for {vertical}: {pillar} leads the proof, and the launch runs at least {days} days to fit the buying cycle.":
+    "Für {vertical} gebaut: {pillar} führt die Belege an, und der Launch dauert passend zum Einkaufszyklus mindestens {days} Tage.",
+  "In DACH, GDPR answers, German-language material and a longer evaluation come before volume.":
+    "In der DACH-Region kommen DSGVO-Antworten, deutschsprachiges Material und eine längere Evaluierung vor dem Volumen.",
+  "Initial focus: orchestrate a {horizon} launch train that blends product-led motions with strategic storytelling.":
+    "Erster Fokus: ein Launch-Fahrplan ({horizon}), der produktgeführtes Wachstum mit strategischem Storytelling verbindet.",
+
+  // Launch phases
+  Ignition: "Zündung",
+  Amplify: "Verstärkung",
+  Convert: "Abschluss",
+  Scale: "Skalierung",
+  "Week {period} · {dates}": "Woche {period} · {dates}",
+  "Month {period} · {dates}": "Monat {period} · {dates}",
+  "Pressure-test messaging, mobilize advocates, and orchestrate early storytelling assets.":
+    "Botschaften unter realen Bedingungen testen, Fürsprecher mobilisieren und erste Storytelling-Inhalte koordinieren.",
+  "Scale demand generation with product-led growth loops and segment-specific campaigns.":
+    "Nachfrage mit produktgeführten Wachstumsschleifen und segmentspezifischen Kampagnen skalieren.",
+  "Collapse sales cycles, drive multi-threaded expansions, and reinforce social proof flywheel.":
+    "Verkaufszyklen verkürzen, Ausbau über mehrere Ansprechpartner vorantreiben und Referenzen systematisch verstärken.",
+  "Standardize playbooks, automate renewals, and unlock new monetization levers.":
+    "Playbooks standardisieren, Verlängerungen automatisieren und neue Monetarisierungshebel erschließen.",
+  "Calibrate positioning with lighthouse customers":
+    "Positionierung mit Leuchtturmkunden kalibrieren",
+  "Ship teaser content + founder narrative threads":
+    "Teaser-Inhalte und Gründer-Beiträge veröffentlichen",
+  "Enable revenue teams with objection handling scripts":
+    "Vertriebsteams mit Leitfäden zur Einwandbehandlung ausstatten",
+  "Automate nurture sequences triggered by product signals":
+    "Nurture-Strecken automatisieren, die durch Produktsignale ausgelöst werden",
+  "Launch category POV report featuring benchmark data":
+    "Kategoriebericht mit eigener Perspektive und Benchmark-Daten veröffentlichen",
+  "Activate partners, communities, and paid acquisition pilots":
+    "Partner, Communitys und erste bezahlte Kampagnen aktivieren",
+  "Offer guided pilot sprints with solution engineers":
+    "Begleitete Pilot-Sprints mit Solution Engineers anbieten",
+  "Publish customer spotlight + quantifiable wins":
+    "Kundenporträts mit messbaren Erfolgen veröffentlichen",
+  "Deploy executive workshops on AI governance and ROI":
+    "Workshops für Führungskräfte zu KI-Governance und ROI durchführen",
+  "Launch referral program with usage-based incentives":
+    "Empfehlungsprogramm mit nutzungsbasierten Anreizen starten",
+  "Spin up user conference or digital summit": "Anwenderkonferenz oder digitalen Gipfel aufsetzen",
+  "Roll out roadmap updates with customer advisory boards":
+    "Roadmap-Updates gemeinsam mit Kundenbeiräten ausrollen",
+  "Vision deck with future-state architecture": "Visionspräsentation mit Zielarchitektur",
+  "Design partner quotes and usage metrics": "Zitate und Nutzungszahlen von Designpartnern",
+  "Interactive ROI calculator tied to persona outcomes":
+    "Interaktiver ROI-Rechner, abgestimmt auf die Ziele der Personas",
+  "Video walkthroughs showing aha moments": "Video-Rundgänge, die Aha-Momente zeigen",
+  "Case studies segmented by industry": "Fallstudien nach Branche",
+  "Stack diagrams with integration depth": "Architekturdiagramme mit Integrationstiefe",
+  "Land & expand dashboard with cohort analysis": "Land-and-Expand-Dashboard mit Kohortenanalyse",
+  "Public roadmap + changelog momentum": "Öffentliche Roadmap und regelmäßiger Changelog",
+  "Localize website, pricing and contracts into German, with prices in EUR":
+    "Website, Preise und Verträge auf Deutsch lokalisieren, mit Preisen in EUR",
+  "Offer a German-language pilot with a named local contact":
+    "Deutschsprachigen Pilot mit festem Ansprechpartner vor Ort anbieten",
+  "GDPR data processing agreement and EU data residency statement":
+    "Auftragsverarbeitungsvertrag nach DSGVO und Erklärung zur Datenhaltung in der EU",
+  "Works council briefing pack on employee data":
+    "Informationspaket für den Betriebsrat zu Beschäftigtendaten",
+  "ISO 27001 certificate or BSI C5 attestation": "ISO-27001-Zertifikat oder BSI-C5-Testat",
+  "Finish the security questionnaire and BAA package before outreach":
+    "Sicherheitsfragebogen und BAA-Paket vor der Ansprache fertigstellen",
+  "Run pilots under a signed BAA with clinical and IT sign-off":
+    "Pilotprojekte unter unterzeichnetem BAA mit Freigabe durch Klinik und IT durchführen",
+  "HIPAA security risk assessment summary": "Zusammenfassung der HIPAA-Sicherheitsrisikobewertung",
+  "Health system reference willing to take calls":
+    "Referenz aus einem Klinikverbund, die für Gespräche bereitsteht",
+  "Pre-fill the vendor due-diligence questionnaire before outreach":
+    "Due-Diligence-Fragebogen für Dienstleister vor der Ansprache vorausfüllen",
+  "Run third-party risk and model risk reviews in parallel with the pilot":
+    "Prüfungen zu Drittparteien- und Modellrisiken parallel zum Pilot durchführen",
+  "Control mapping to the regulations buyers answer to":
+    "Zuordnung der Kontrollen zu den Vorschriften, denen die Käufer unterliegen",
+  "Reference institution of similar size and charter":
+    "Referenzinstitut ähnlicher Größe und Zulassung",
+  "Confirm a contract vehicle and security authorization path before outreach":
+    "Vor der Ansprache Beschaffungsweg und Weg zur Sicherheitszulassung klären",
+  "Support procurement with RFP language and sole-source justification drafts":
+    "Die Beschaffung mit Ausschreibungstexten und Entwürfen für Begründungen von Direktvergaben unterstützen",
+  "Accessibility conformance report (VPAT)": "Bericht zur Barrierefreiheit (VPAT)",
+  "Peer agency reference and past performance record":
+    "Referenz einer vergleichbaren Behörde und Nachweise früherer Leistungen",
+
+  // Personas
+  "Hands-on Builder": "Praktischer Entwickler",
+  "Growth Operator": "Growth-Verantwortlicher",
+  "Strategic Executive": "Strategische Führungskraft",
+  "Rapid experimentation sandbox": "Sandbox für schnelles Experimentieren",
+  "Composable APIs with excellent docs": "Kombinierbare APIs mit hervorragender Dokumentation",
+  "Signals that surface product-market fit faster":
+    "Signale, die den Product-Market-Fit schneller sichtbar machen",
+  "Dev-first onboarding with minimal friction": "Entwicklerfreundliches Onboarding ohne Reibung",
+  "Proof of velocity — shipping hours, not weeks":
+    "Nachweis von Tempo: Auslieferung in Stunden statt Wochen",
+  "Community where peers share playbooks": "Community, in der Gleichgesinnte Playbooks teilen",
+  "Vendor lock-in or forced workflow changes":
+    "Anbieterabhängigkeit oder erzwungene Änderungen an Arbeitsabläufen",
+  "Unclear pricing scale for high usage": "Unklare Preisentwicklung bei hoher Nutzung",
+  "Slow support response for technical blockers":
+    "Langsame Reaktion des Supports bei technischen Blockern",
+  "Clarity on ROI and payback period": "Klarheit über ROI und Amortisationszeit",
+  "Confidence in data quality and governance": "Vertrauen in Datenqualität und Governance",
+  "Frictionless collaboration with GTM teams":
+    "Reibungslose Zusammenarbeit mit Vertrieb und Marketing",
+  "Success stories with hard revenue numbers": "Erfolgsgeschichten mit harten Umsatzzahlen",
+  "Live dashboards with attribution guardrails": "Live-Dashboards mit verlässlicher Attribution",
+  "Roadmap stability and SOC2/ISO compliance": "Stabile Roadmap und Compliance nach SOC 2/ISO",
+  "Hidden costs in seats or limits": "Versteckte Kosten bei Lizenzen oder Limits",
+  "Unproven integrations into current stack":
+    "Unerprobte Integrationen in die bestehende Systemlandschaft",
+  "Concern about AI hallucinations in production":
+    "Sorge vor KI-Halluzinationen im Produktivbetrieb",
+  "Differentiated POV on market category": "Eigenständige Sicht auf die Marktkategorie",
+  "Risk mitigation and governance controls": "Risikominderung und Governance-Kontrollen",
+  "Evidence of defensible moats": "Belege für nachhaltige Wettbewerbsvorteile",
+  "Executive briefings benchmarking competitors":
+    "Briefings für Führungskräfte mit Wettbewerbsvergleich",
+  "Vision decks articulating future roadmap": "Visionspräsentationen zur künftigen Roadmap",
+  "References from marquee customers": "Referenzen namhafter Kunden",
+  "Unclear compliance posture": "Unklare Compliance-Lage",
+  "Limited enterprise support coverage": "Begrenzter Enterprise-Support",
+  "High switching cost from incumbents": "Hohe Wechselkosten gegenüber etablierten Anbietern",
+  "Clinical Operations Leader": "Leitung Klinikbetrieb",
+  "Workflows that live inside the EHR instead of beside it":
+    "Workflows, die in der elektronischen Patientenakte laufen statt daneben",
+  "Less documentation time per clinician": "Weniger Dokumentationszeit pro Fachkraft in der Klinik",
+  "Evidence the tool is safe for patient-facing work":
+    "Belege, dass das Werkzeug für die Arbeit am Patienten sicher ist",
+  "Peer health systems live with measured outcomes":
+    "Vergleichbare Klinikverbünde im Echtbetrieb mit gemessenen Ergebnissen",
+  "EHR integration validated by hospital IT":
+    "Von der Krankenhaus-IT geprüfte Integration in die Patientenakte",
+  "Clinician champions who ran the pilot":
+    "Fürsprecher aus dem Klinikpersonal, die den Pilot begleitet haben",
+  "Patient safety and liability if the output is wrong":
+    "Patientensicherheit und Haftung bei fehlerhaften Ergebnissen",
+  "Another login for overworked clinicians": "Noch ein Login für überlastetes Klinikpersonal",
+  "IT integration backlog measured in quarters":
+    "IT-Integrationsrückstau, der in Quartalen gemessen wird",
+  "Privacy & Compliance Officer": "Datenschutz- und Compliance-Verantwortlicher",
+  "A signed BAA and a clear map of where PHI flows":
+    "Ein unterzeichnetes BAA und eine klare Übersicht, wohin Gesundheitsdaten fließen",
+  "SOC 2 or HITRUST evidence mapped to HIPAA safeguards":
+    "SOC-2- oder HITRUST-Nachweise, den HIPAA-Schutzmaßnahmen zugeordnet",
+  "Audit trails for every access to patient data":
+    "Audit-Trails für jeden Zugriff auf Patientendaten",
+  "Security questionnaire answered before it is asked":
+    "Sicherheitsfragebogen beantwortet, bevor er gestellt wird",
+  "Third-party risk assessment already complete":
+    "Bereits abgeschlossene Risikobewertung für Drittanbieter",
+  "De-identification options for analytics": "Optionen zur De-Identifizierung für Analysen",
+  "PHI leaving our environment or training models":
+    "Gesundheitsdaten, die unsere Umgebung verlassen oder Modelle trainieren",
+  "Breach notification exposure": "Meldepflichten bei Datenpannen",
+  "Subprocessors without BAAs": "Unterauftragsverarbeiter ohne BAA",
+  "Risk & Compliance Officer": "Risiko- und Compliance-Verantwortlicher",
+  "Controls that satisfy examiners and auditors":
+    "Kontrollen, die Aufsicht und Prüfer zufriedenstellen",
+  "Explainable outputs and documentation for model risk review":
+    "Erklärbare Ergebnisse und Dokumentation für die Modellrisikoprüfung",
+  "Vendor due diligence that clears third-party risk":
+    "Dienstleisterprüfung, die das Drittparteienrisiko besteht",
+  "Peer institutions passed an exam with it in place":
+    "Vergleichbare Institute haben damit eine Prüfung bestanden",
+  "SOC 2 Type II and penetration test results on request":
+    "SOC 2 Typ II und Ergebnisse von Penetrationstests auf Anfrage",
+  "Audit logs that export to the GRC system": "Audit-Logs mit Export ins GRC-System",
+  "Examiner findings traced back to a vendor":
+    "Prüfungsfeststellungen, die auf einen Dienstleister zurückgehen",
+  "Black-box models with no documentation": "Blackbox-Modelle ohne Dokumentation",
+  "Data residency and outsourcing rules": "Vorgaben zu Datenhaltung und Auslagerung",
+  "Financial Operations Leader": "Leitung Finanzbetrieb",
+  "Lower cost per account or claim without adding risk":
+    "Niedrigere Kosten pro Konto oder Schadenfall ohne zusätzliches Risiko",
+  "Straight-through processing with a human in the loop":
+    "Durchgängige Dunkelverarbeitung mit menschlicher Kontrolle",
+  "Integration with the core banking or policy admin system":
+    "Integration in das Kernbanken- oder Bestandsführungssystem",
+  "Quantified efficiency gains at a similar institution":
+    "Bezifferte Effizienzgewinne bei einem vergleichbaren Institut",
+  "Connectors to our core platform already built":
+    "Bereits fertige Konnektoren zu unserer Kernplattform",
+  "A change plan the regulator will be comfortable with":
+    "Ein Veränderungsplan, den die Aufsicht mitträgt",
+  "Core system integration risk": "Risiko bei der Integration ins Kernsystem",
+  "Customer complaints if automation gets it wrong":
+    "Kundenbeschwerden, wenn die Automatisierung Fehler macht",
+  "Months of procurement and vendor onboarding":
+    "Monatelange Beschaffung und Aufnahme als Dienstleister",
+  "Agency Program Manager": "Programmleitung in der Behörde",
+  "Outcomes that map to the agency's mission and performance goals":
+    "Ergebnisse, die zu Auftrag und Leistungszielen der Behörde passen",
+  "Services every constituent can use, including Section 508 accessibility":
+    "Dienste, die alle Bürgerinnen und Bürger nutzen können, einschließlich Barrierefreiheit nach Section 508",
+  "A rollout that fits the fiscal year and its appropriations":
+    "Ein Rollout, der zum Haushaltsjahr und seinen Mitteln passt",
+  "A peer agency already live": "Eine vergleichbare Behörde, die bereits live ist",
+  "An existing contract vehicle or cooperative agreement to buy through":
+    "Ein bestehender Rahmenvertrag oder eine Einkaufskooperation als Beschaffungsweg",
+  "Modernization or grant funding identified": "Ermittelte Modernisierungs- oder Fördermittel",
+  "Procurement rules that make buying slow or impossible":
+    "Vergaberegeln, die den Kauf verlangsamen oder unmöglich machen",
+  "Public scrutiny if a service fails": "Öffentliche Kritik, wenn ein Dienst ausfällt",
+  "Change fatigue among long-tenured staff": "Veränderungsmüdigkeit bei langjährigen Beschäftigten",
+  "Procurement & Contracting Officer": "Beschaffungs- und Vergabeverantwortlicher",
+  "A compliant way to buy: GSA Schedule, cooperative contract or RFP":
+    "Ein vergabekonformer Beschaffungsweg: GSA Schedule, Rahmenvertrag oder Ausschreibung",
+  "Security authorization (FedRAMP, StateRAMP) or a credible path to it":
+    "Sicherheitszulassung (FedRAMP, StateRAMP) oder ein glaubwürdiger Weg dorthin",
+  "Pricing that fits a fixed budget line": "Preise, die in einen festen Haushaltsposten passen",
+  "Listing on a contract vehicle the agency already uses":
+    "Listung in einem Rahmenvertrag, den die Behörde bereits nutzt",
+  "Completed security authorization": "Abgeschlossene Sicherheitszulassung",
+  "References and past performance from other agencies":
+    "Referenzen und Leistungsnachweise anderer Behörden",
+  "Sole-source justifications that are hard to write": "Schwer zu begründende Direktvergaben",
+  "Missing certifications the solicitation requires":
+    "Fehlende Zertifizierungen, die die Ausschreibung verlangt",
+  "Usage-based pricing that can't be budgeted":
+    "Nutzungsbasierte Preise, die sich nicht budgetieren lassen",
+
+  // Messaging pillars
+  "Operational Precision": "Operative Präzision",
+  "Revenue Impact": "Umsatzwirkung",
+  "Differentiated Advantage": "Klarer Vorsprung",
+  "Builder Velocity": "Entwicklertempo",
+  "Automate the manual grind behind {problem} with orchestrated AI workflows.":
+    "Die manuelle Routine hinter „{problem}“ mit koordinierten KI-Workflows automatisieren.",
+  "Translate {product}'s intelligence into measurable revenue outcomes.":
+    "Die Intelligenz von {product} in messbare Umsatzergebnisse übersetzen.",
+  "Show how we {differentiation} so customers stay ahead of rivals.":
+    "Zeigen, wie wir {differentiation}, damit Kunden dem Wettbewerb voraus bleiben.",
+  "Empower builders to ship AI workflows safely, fast.":
+    "Entwicklern ermöglichen, KI-Workflows sicher und schnell auszuliefern.",
+  "Before/after narratives illustrating time saved": "Vorher-nachher-Geschichten zur Zeitersparnis",
+  "Deep dives on automation safeguards and governance":
+    "Vertiefungen zu Schutzmechanismen und Governance der Automatisierung",
+  "Interactive dashboards revealing hidden bottlenecks":
+    "Interaktive Dashboards, die versteckte Engpässe aufdecken",
+  "Workflow teardown webinar": "Webinar mit Workflow-Analyse",
+  "Usage dashboards with leading indicators": "Nutzungs-Dashboards mit Frühindikatoren",
+  "Checklist on AI guardrails and controls": "Checkliste zu KI-Leitplanken und Kontrollen",
+  "ROI case studies segmented by vertical": "ROI-Fallstudien nach Branche",
+  "Benchmarks sourced from aggregated product data": "Benchmarks aus aggregierten Produktdaten",
+  "Tools that forecast impact on core KPIs":
+    "Werkzeuge, die die Wirkung auf zentrale KPIs prognostizieren",
+  "Outcome calculator with persona presets": "Ergebnisrechner mit Voreinstellungen je Persona",
+  "Slide library with quantifiable wins": "Folienbibliothek mit messbaren Erfolgen",
+  "Customer testimonials with hard metrics": "Kundenstimmen mit harten Kennzahlen",
+  "Competitive teardown with objection counters": "Wettbewerbsanalyse mit Antworten auf Einwände",
+  "Visionary roadmap articulating defensibility":
+    "Visionäre Roadmap, die die Verteidigungsfähigkeit zeigt",
+  "Partner stories illustrating ecosystem fit":
+    "Partnergeschichten, die die Einbettung ins Ökosystem zeigen",
+  "Comparison matrix with feature depth": "Vergleichsmatrix mit Funktionstiefe",
+  "Executive briefing on category POV": "Briefing für Führungskräfte zur Sicht auf die Kategorie",
+  "Joint announcements with strategic partners":
+    "Gemeinsame Ankündigungen mit strategischen Partnern",
+  "Stack diagrams explaining architecture choices":
+    "Architekturdiagramme, die Technologieentscheidungen erklären",
+  "Build-in-public showcases of rapid iteration": "Öffentliche Einblicke in schnelle Iterationen",
+  "Technical AMAs featuring product engineering": "Technische AMAs mit dem Produktengineering",
+  "Starter kits & templates library": "Starter-Kits und Vorlagenbibliothek",
+  "Reference implementations in GitHub": "Referenzimplementierungen auf GitHub",
+  "Latency and uptime dashboards": "Dashboards zu Latenz und Verfügbarkeit",
+  "Compliance-Ready Care": "Compliance-fähige Versorgung",
+  "{product} protects PHI by design, so care teams adopt it without a privacy trade-off.":
+    "{product} schützt Gesundheitsdaten von Grund auf, sodass Versorgungsteams es ohne Abstriche beim Datenschutz einführen.",
+  "HIPAA safeguards walked through one by one": "HIPAA-Schutzmaßnahmen Schritt für Schritt erklärt",
+  "Clinician time saved, measured in a real pilot":
+    "Eingesparte Zeit des Klinikpersonals, in einem echten Pilot gemessen",
+  "Where PHI flows, where it is stored and who can see it":
+    "Wohin Gesundheitsdaten fließen, wo sie gespeichert werden und wer sie sehen kann",
+  "BAA template and subprocessor list": "BAA-Vorlage und Liste der Unterauftragsverarbeiter",
+  "SOC 2 Type II or HITRUST report": "SOC-2-Typ-II- oder HITRUST-Bericht",
+  "Pilot outcome study with a named health system":
+    "Ergebnisstudie zum Pilot mit einem namentlich genannten Klinikverbund",
+  "Examiner-Ready Controls": "Prüfungsfeste Kontrollen",
+  "{product} documents every decision, so risk teams can defend it to auditors and regulators.":
+    "{product} dokumentiert jede Entscheidung, sodass Risikoteams sie vor Prüfern und Aufsicht vertreten können.",
+  "Control mapping against examiner expectations":
+    "Zuordnung der Kontrollen zu den Erwartungen der Aufsicht",
+  "Model documentation written for model risk reviewers":
+    "Modelldokumentation für die Modellrisikoprüfung",
+  "Efficiency gains signed off by a risk owner":
+    "Von einem Risikoverantwortlichen bestätigte Effizienzgewinne",
+  "SOC 2 Type II report and penetration test summary":
+    "SOC-2-Typ-II-Bericht und Zusammenfassung des Penetrationstests",
+  "Model risk documentation pack": "Dokumentationspaket zum Modellrisiko",
+  "Pre-filled vendor due-diligence questionnaire":
+    "Vorausgefüllter Due-Diligence-Fragebogen für Dienstleister",
+  "Mission-Ready Modernization": "Auftragsgerechte Modernisierung",
+  "{product} helps agencies serve the public better within procurement and security rules.":
+    "{product} hilft Behörden, den Bürgerinnen und Bürgern im Rahmen der Vergabe- und Sicherheitsregeln besser zu dienen.",
+  "Mission outcomes measured at a peer agency":
+    "Bei einer vergleichbaren Behörde gemessene Ergebnisse",
+  "How to buy: vehicles, cooperative contracts and RFP language":
+    "So wird gekauft: Rahmenverträge, Einkaufskooperationen und Ausschreibungstexte",
+  "Accessibility and security authorization status, explained plainly":
+    "Stand von Barrierefreiheit und Sicherheitszulassung, verständlich erklärt",
+  "Contract vehicle and pricing sheet": "Rahmenvertrag und Preisblatt",
+  "FedRAMP or StateRAMP status letter": "Statusschreiben zu FedRAMP oder StateRAMP",
+  "Section 508 conformance report (VPAT)": "Konformitätsbericht nach Section 508 (VPAT)",
+
+  // Channel strategy
+  "Founders' Narrative": "Gründer-Storytelling",
+  "Product-Led Motion": "Produktgeführtes Wachstum",
+  "Category Community": "Kategorie-Community",
+  "Strategic Alliances": "Strategische Allianzen",
+  "Paid Acquisition": "Bezahlte Akquise",
+  "Field & Executive Events": "Vor-Ort- und Führungskräfte-Events",
+  "Earn trust with a strong POV and demonstrate the vision behind the product.":
+    "Mit einer klaren Haltung Vertrauen gewinnen und die Vision hinter dem Produkt zeigen.",
+  "Drive trials and activation through immersive product experiences.":
+    "Testphasen und Aktivierung durch eindrucksvolle Produkterlebnisse fördern.",
+  "Mobilize believers and nurture advocacy loops.":
+    "Überzeugte mobilisieren und Empfehlungskreisläufe pflegen.",
+  "Leverage partner ecosystems to tap into qualified demand.":
+    "Partner-Ökosysteme nutzen, um qualifizierte Nachfrage zu erschließen.",
+  "Buy targeted reach to accelerate demand once messaging is proven.":
+    "Gezielt Reichweite einkaufen, um die Nachfrage zu beschleunigen, sobald die Botschaften erprobt sind.",
+  "Create high-touch moments that collapse enterprise buying cycles.":
+    "Persönliche Begegnungen schaffen, die Einkaufszyklen im Enterprise-Segment verkürzen.",
+  "Prioritize co-selling motions for revenue acceleration.":
+    "Gemeinsamen Vertrieb mit Partnern priorisieren, um den Umsatz zu beschleunigen.",
+  "Double down on aha moments and guided onboarding.":
+    "Verstärkt auf Aha-Momente und begleitetes Onboarding setzen.",
+  "Bi-weekly build-in-public threads across LinkedIn + X":
+    "Zweiwöchentliche Build-in-Public-Beiträge auf LinkedIn und X",
+  "Monthly founder letter unpacking roadmap signals":
+    "Monatlicher Gründerbrief, der Signale aus der Roadmap erläutert",
+  "Quarterly AMAs with flagship design partners":
+    "Vierteljährliche AMAs mit wichtigen Designpartnern",
+  "Interactive demo workspace refreshed every sprint":
+    "Interaktiver Demo-Arbeitsbereich, in jedem Sprint aktualisiert",
+  "Onboarding drip sequence tailored to role & use case":
+    "Onboarding-Mailstrecke nach Rolle und Anwendungsfall",
+  "In-app nudges calibrated to aha moments & milestones":
+    "In-App-Hinweise, abgestimmt auf Aha-Momente und Meilensteine",
+  "Weekly synthetic benchmarks distilled from anonymized data":
+    "Wöchentliche Benchmarks aus anonymisierten Daten",
+  "Fortnightly roundtables with lighthouse customers":
+    "Zweiwöchentliche Gesprächsrunden mit Leuchtturmkunden",
+  "Slack/Discord crew with office hours from product & GTM leaders":
+    "Slack-/Discord-Gruppe mit Sprechstunden von Produkt- und Vertriebsleitung",
+  "Co-marketing webinars aligned to partner roadmaps":
+    "Co-Marketing-Webinare im Einklang mit Partner-Roadmaps",
+  "Solution briefings for partner SEs + AEs":
+    "Lösungsbriefings für Solution Engineers und Account Executives der Partner",
+  "Joint ROI calculators highlighting combined value":
+    "Gemeinsame ROI-Rechner, die den kombinierten Nutzen zeigen",
+  "Weekly creative refresh across search, social, and sponsorships":
+    "Wöchentlich neue Anzeigenmotive für Suche, Social Media und Sponsorings",
+  "Persona-specific retargeting tied to product signals":
+    "Personaspezifisches Retargeting auf Basis von Produktsignalen",
+  "Bi-weekly budget reallocation based on CAC by segment":
+    "Zweiwöchentliche Budgetumverteilung nach Akquisekosten je Segment",
+  "Monthly executive dinners with target accounts":
+    "Monatliche Abendessen mit Führungskräften der Zielkunden",
+  "Quarterly sponsored summits with live product theatre":
+    "Vierteljährliche gesponserte Gipfel mit Live-Produktvorführungen",
+  "Post-event follow-up sequences within 48 hours": "Nachfass-Sequenzen innerhalb von 48 Stunden",
+  "Followers growth": "Follower-Wachstum",
+  "Thought leadership mentions": "Erwähnungen als Vordenker",
+  "Inbound demos": "Eingehende Demo-Anfragen",
+  "Signup-to-activation rate": "Aktivierungsrate nach Registrierung",
+  "Time-to-first-value": "Zeit bis zum ersten Nutzen",
+  "Feature adoption": "Funktionsnutzung",
+  "Net promoter score": "Net Promoter Score",
+  "Community engagement": "Community-Engagement",
+  "Referral sourced pipeline": "Pipeline aus Empfehlungen",
+  "Partner influenced ARR": "Von Partnern beeinflusster ARR",
+  "Partner-sourced opportunities": "Von Partnern gewonnene Opportunities",
+  "Attach rate": "Attach-Rate",
+  "Cost per acquisition": "Kosten pro Akquise",
+  "Paid-sourced pipeline": "Pipeline aus bezahlten Kanälen",
+  "Click-to-signup rate": "Klick-zu-Registrierungs-Rate",
+  "Meetings booked": "Vereinbarte Termine",
+  "Event-influenced pipeline": "Von Events beeinflusste Pipeline",
+  "Account engagement": "Engagement der Zielkunden",
+  "Monthly expert articles on LinkedIn and XING": "Monatliche Fachartikel auf LinkedIn und XING",
+  "Quarterly founder letter in German with roadmap detail":
+    "Vierteljährlicher Gründerbrief auf Deutsch mit Details zur Roadmap",
+  "Quarterly roundtables with DACH design partners":
+    "Vierteljährliche Gesprächsrunden mit Designpartnern aus der DACH-Region",
+  "Monthly German-language meetups in Berlin, Munich and Zurich":
+    "Monatliche deutschsprachige Meetups in Berlin, München und Zürich",
+  "Quarterly user group with DACH reference customers":
+    "Vierteljährliche Anwendergruppe mit Referenzkunden aus der DACH-Region",
+  "Moderated community channel with German office hours":
+    "Moderierter Community-Kanal mit deutschsprachigen Sprechstunden",
+  "Weekly creative refresh across search, LinkedIn and German trade media":
+    "Wöchentlich neue Anzeigenmotive für Suche, LinkedIn und deutsche Fachmedien",
+  "Retargeting only for visitors who consented through the cookie banner":
+    "Retargeting nur für Besucher mit Einwilligung über das Cookie-Banner",
+  "Trade Fairs & Associations": "Messen und Verbände",
+  "Meet DACH buyers at trade fairs and through industry associations, where long-term trust is built.":
+    "Einkäufer aus der DACH-Region auf Messen und über Branchenverbände treffen, wo langfristiges Vertrauen entsteht.",
+  "One lead trade fair per half-year, booked six months ahead":
+    "Eine Leitmesse pro Halbjahr, sechs Monate im Voraus gebucht",
+  "Association working groups and Bitkom-style industry forums":
+    "Arbeitskreise in Verbänden und Branchenforen wie beim Bitkom",
+  "Follow-up appointments scheduled within a week of each fair":
+    "Folgetermine innerhalb einer Woche nach jeder Messe",
+  "Qualified booth conversations": "Qualifizierte Standgespräche",
+  "Fair-sourced pipeline": "Pipeline aus Messen",
+  "Association referrals": "Empfehlungen über Verbände",
+  "System House Partners": "Systemhaus-Partner",
+  "Sell through DACH system houses and consultancies that own the customer relationship.":
+    "Über Systemhäuser und Beratungen in der DACH-Region verkaufen, die die Kundenbeziehung führen.",
+  "Partner enablement days in German each quarter":
+    "Vierteljährliche Partner-Schulungstage auf Deutsch",
+  "Joint account planning with partner sales every month":
+    "Monatliche gemeinsame Kundenplanung mit dem Partnervertrieb",
+  "Co-branded implementation offers for the Mittelstand":
+    "Gemeinsame Implementierungsangebote für den Mittelstand",
+  "Certified partner consultants": "Zertifizierte Partnerberater",
+  "Partner win rate": "Abschlussquote mit Partnern",
+  "Health System Alliances": "Allianzen mit Klinikverbünden",
+  "Reach providers through EHR marketplaces, GPOs and health system innovation centers.":
+    "Leistungserbringer über Marktplätze der Patientenaktensysteme, Einkaufsgemeinschaften und Innovationszentren von Klinikverbünden erreichen.",
+  "EHR marketplace listings kept current with each release":
+    "Einträge auf EHR-Marktplätzen mit jedem Release aktualisiert",
+  "Quarterly briefings with GPO and innovation center leads":
+    "Vierteljährliche Briefings mit Verantwortlichen von Einkaufsgemeinschaften und Innovationszentren",
+  "Outcome studies co-authored with design-partner health systems":
+    "Ergebnisstudien gemeinsam mit Klinikverbünden als Designpartnern",
+  "Marketplace-sourced opportunities": "Opportunities aus Marktplätzen",
+  "Health systems in pilot": "Klinikverbünde im Pilot",
+  "Pilot-to-contract time": "Zeit vom Pilot zum Vertrag",
+  "Clinical Conferences & CME": "Medizinische Kongresse und Fortbildungen",
+  "Earn clinician credibility at HIMSS, specialty society meetings and accredited education.":
+    "Glaubwürdigkeit beim Klinikpersonal auf der HIMSS, bei Fachgesellschaften und in zertifizierten Fortbildungen gewinnen.",
+  "HIMSS and specialty society presence planned two quarters ahead":
+    "Präsenz auf der HIMSS und bei Fachgesellschaften zwei Quartale im Voraus geplant",
+  "Clinician-led webinars reviewed by medical affairs":
+    "Webinare unter klinischer Leitung, geprüft durch Medical Affairs",
+  "One peer-reviewed abstract or poster per major conference":
+    "Ein begutachtetes Abstract oder Poster pro großem Kongress",
+  "Clinician meetings booked": "Vereinbarte Termine mit Klinikpersonal",
+  "Abstract acceptances": "Angenommene Abstracts",
+  "Industry Associations & Analysts": "Branchenverbände und Analysten",
+  "Build credibility through industry associations, analyst coverage and regtech forums.":
+    "Glaubwürdigkeit über Branchenverbände, Analystenberichte und Regtech-Foren aufbauen.",
+  "Quarterly briefings with banking and insurance analysts":
+    "Vierteljährliche Briefings mit Banken- und Versicherungsanalysten",
+  "Working-group seats in industry and state associations":
+    "Sitze in Arbeitskreisen von Branchen- und Landesverbänden",
+  "Regulatory update webinars co-hosted with compliance advisors":
+    "Webinare zu regulatorischen Neuerungen gemeinsam mit Compliance-Beratern",
+  "Analyst mentions": "Erwähnungen durch Analysten",
+  "Association-sourced meetings": "Termine über Verbände",
+  "Shortlist inclusions": "Aufnahmen in Shortlists",
+  "Core Platform Partnerships": "Partnerschaften mit Kernplattformen",
+  "Reach institutions through the core banking, payments and policy platforms they already trust.":
+    "Institute über die Kernbanken-, Zahlungs- und Bestandsführungsplattformen erreichen, denen sie bereits vertrauen.",
+  "Certified integrations listed on core platform marketplaces":
+    "Zertifizierte Integrationen auf den Marktplätzen der Kernplattformen",
+  "Monthly account planning with platform partner reps":
+    "Monatliche Kundenplanung mit dem Vertrieb der Plattformpartner",
+  "Co-branded implementation guides for shared customers":
+    "Gemeinsam gestaltete Implementierungsleitfäden für gemeinsame Kunden",
+  "Certified integrations": "Zertifizierte Integrationen",
+  "Attach rate on partner deals": "Attach-Rate bei Partnerabschlüssen",
+  "Contract Vehicles & Resellers": "Rahmenverträge und Wiederverkäufer",
+  "Make the product buyable through GSA Schedule, cooperative contracts and public sector resellers.":
+    "Das Produkt über GSA Schedule, Einkaufskooperationen und Wiederverkäufer für den öffentlichen Sektor kaufbar machen.",
+  "Contract vehicle listings and price lists kept current":
+    "Einträge in Rahmenverträgen und Preislisten aktuell gehalten",
+  "Monthly pipeline reviews with public sector resellers":
+    "Monatliche Pipeline-Reviews mit Wiederverkäufern im öffentlichen Sektor",
+  "RFP response library refreshed every quarter":
+    "Bibliothek mit Antworten auf Ausschreibungen, jedes Quartal aktualisiert",
+  "Contract vehicles available": "Verfügbare Rahmenverträge",
+  "Reseller-sourced opportunities": "Opportunities über Wiederverkäufer",
+  "RFP win rate": "Erfolgsquote bei Ausschreibungen",
+  "Government Events & Briefings": "Behördenveranstaltungen und Briefings",
+  "Meet agency leaders where they convene and brief them on modernization outcomes.":
+    "Behördenleitungen dort treffen, wo sie zusammenkommen, und sie über Ergebnisse der Modernisierung informieren.",
+  "Government technology summits booked a fiscal year ahead":
+    "Gipfel zur Verwaltungs-IT ein Haushaltsjahr im Voraus gebucht",
+  "Agency briefings within ethics and gift rules":
+    "Behördenbriefings im Rahmen der Compliance- und Geschenkregeln",
+  "Follow-up briefings timed to budget planning": "Folgebriefings passend zur Haushaltsplanung",
+  "Agency meetings booked": "Vereinbarte Termine mit Behörden",
+  "Agencies in evaluation": "Behörden in der Evaluierung",
+
+  // Growth experiments
+  "Persona-Calibrated Onboarding Concierge": "Onboarding-Begleitung nach Persona",
+  "If {product} detects the user's core job-to-be-done during onboarding, we can surface relevant templates and increase activation.":
+    "Wenn {product} beim Onboarding die Kernaufgabe des Nutzers erkennt, können wir passende Vorlagen anbieten und die Aktivierung steigern.",
+  "Create role-specific welcome flows with scripted prompts":
+    "Rollenspezifische Begrüßungsabläufe mit vorbereiteten Hinweisen erstellen",
+  "Instrument micro-surveys tied to first-session actions":
+    "Kurzumfragen an Aktionen der ersten Sitzung koppeln",
+  "Route to nurture tracks featuring proof tied to persona needs":
+    "In Nurture-Strecken mit Belegen zu den Bedürfnissen der Persona leiten",
+  "Activation rate within first 7 days segmented by persona.":
+    "Aktivierungsrate in den ersten 7 Tagen nach Persona.",
+  "Narrative Velocity Series": "Storytelling-Serie",
+  "A serialized content program that dramatizes how {product} solves {problem} will increase inbound demo requests.":
+    "Eine Content-Serie, die zeigt, wie {product} „{problem}“ löst, steigert die eingehenden Demo-Anfragen.",
+  "Produce monthly hero stories with metrics-oriented infographics":
+    "Monatliche Leitgeschichten mit kennzahlenorientierten Infografiken produzieren",
+  "Distribute across LinkedIn, newsletter, and industry communities":
+    "Über LinkedIn, Newsletter und Branchen-Communitys verbreiten",
+  "Add CTA to book a strategy workshop with solution consultants":
+    "Handlungsaufruf für einen Strategie-Workshop mit Lösungsberatern ergänzen",
+  "Demo volume, win rate, and sourced ARR from the campaign.":
+    "Anzahl der Demos, Abschlussquote und durch die Kampagne gewonnener ARR.",
+  "AI Pilot Sprint Rooms": "KI-Pilot-Sprints",
+  "Facilitated sprints with success blueprints will collapse evaluation cycles for {audience}.":
+    "Moderierte Sprints mit Erfolgsplänen verkürzen die Evaluierung für {audience}.",
+  "Spin up a Miro/FigJam board capturing sprint agenda and KPIs":
+    "Ein Miro-/FigJam-Board mit Sprint-Agenda und KPIs anlegen",
+  "Bundle onboarding docs, governance checklist, and ROI calculator":
+    "Onboarding-Unterlagen, Governance-Checkliste und ROI-Rechner bündeln",
+  "Assign a solutions engineer to co-build the first workflow":
+    "Einen Solutions Engineer für den gemeinsamen Aufbau des ersten Workflows einplanen",
+  "Pilot-to-paid conversion and speed-to-contract.":
+    "Umwandlung vom Pilot zum Vertrag und Zeit bis zum Vertragsabschluss.",
+  "Reverse Trial of the Premium Tier": "Umgekehrte Testphase der Premium-Stufe",
+  "Giving new {product} signups full premium access for 14 days before downgrading will lift paid conversion.":
+    "Wenn neue Nutzer von {product} 14 Tage lang vollen Premium-Zugang erhalten, bevor sie herabgestuft werden, steigt die Umwandlung in zahlende Kunden.",
+  "Unlock premium workflows for every new workspace by default":
+    "Premium-Workflows für jeden neuen Arbeitsbereich standardmäßig freischalten",
+  "Send day-10 recap of premium value delivered":
+    "Am 10. Tag eine Zusammenfassung des gelieferten Premium-Nutzens senden",
+  "Downgrade with one-click upgrade path and usage snapshot":
+    "Herabstufen mit Upgrade per Klick und Nutzungsübersicht",
+  "Trial-to-paid conversion versus the standard free plan cohort.":
+    "Umwandlung von Test zu Bezahlung im Vergleich zur Kohorte mit Standard-Gratisplan.",
+  "Transparent Usage Estimator": "Transparenter Nutzungsrechner",
+  "Letting buyers model their {product} bill up front will neutralize pricing-scale objections and shorten evaluations.":
+    "Wenn Käufer ihre Kosten für {product} vorab berechnen können, entkräftet das Einwände zur Preisskalierung und verkürzt die Evaluierung.",
+  "Ship a pricing page calculator driven by expected workload":
+    "Einen Preisrechner auf Basis der erwarteten Nutzung auf der Preisseite anbieten",
+  "Embed the estimate in sales follow-ups and proposals":
+    "Die Schätzung in Vertriebs-Follow-ups und Angebote einbinden",
+  "Alert accounts before they cross plan thresholds":
+    "Kunden benachrichtigen, bevor sie Tarifgrenzen überschreiten",
+  "Pricing-page-to-signup rate and pricing objections logged in CRM.":
+    "Registrierungsrate von der Preisseite und im CRM erfasste Preiseinwände.",
+  "Use-Case Template Gallery": "Vorlagengalerie nach Anwendungsfall",
+  "A public gallery of ready-made {product} workflows will turn search and community traffic into activated signups.":
+    "Eine öffentliche Galerie fertiger Workflows für {product} macht aus Such- und Community-Traffic aktivierte Registrierungen.",
+  "Publish ten templates mapped to the top jobs-to-be-done":
+    "Zehn Vorlagen für die wichtigsten Kernaufgaben veröffentlichen",
+  "Make each template one-click importable from the gallery":
+    "Jede Vorlage per Klick aus der Galerie importierbar machen",
+  "Invite design partners to contribute and co-brand templates":
+    "Designpartner einladen, Vorlagen beizusteuern und mitzugestalten",
+  "Template-sourced signups and their 7-day activation rate.":
+    "Registrierungen über Vorlagen und deren Aktivierungsrate nach 7 Tagen.",
+  "Champion Referral Loop": "Empfehlungsprogramm für Champions",
+  "Rewarding power users who bring peers into {product} will create a compounding acquisition channel.":
+    "Wer Power-User belohnt, die Kollegen zu {product} bringen, schafft einen selbstverstärkenden Akquisekanal.",
+  "Identify champions from usage depth and community activity":
+    "Champions anhand von Nutzungstiefe und Community-Aktivität erkennen",
+  "Offer credits or swag for referred teams that activate":
+    "Guthaben oder Merchandise für empfohlene Teams bieten, die aktiv werden",
+  "Spotlight champions in community roundtables":
+    "Champions in Community-Gesprächsrunden hervorheben",
+  "Referral-sourced signups and pipeline per active champion.":
+    "Registrierungen und Pipeline aus Empfehlungen je aktivem Champion.",
+  "Partner Co-Sell Launch Bundle": "Launch-Paket für den Partnervertrieb",
+  "Packaging {product} with a partner's platform will unlock qualified demand from their installed base.":
+    "Ein Paket aus {product} und der Plattform eines Partners erschließt qualifizierte Nachfrage aus dessen Kundenstamm.",
+  "Select two partners whose customers share the problem":
+    "Zwei Partner auswählen, deren Kunden dasselbe Problem haben",
+  "Build a joint offer with bundled onboarding":
+    "Gemeinsames Angebot mit gebündeltem Onboarding erstellen",
+  "Run enablement sessions for partner AEs and SEs":
+    "Schulungen für Account Executives und Solution Engineers der Partner durchführen",
+  "Partner-sourced opportunities and influenced ARR.":
+    "Von Partnern gewonnene Opportunities und beeinflusster ARR.",
+  "Executive Roundtable Series": "Gesprächsreihe für Führungskräfte",
+  "Closed-door roundtables on {problem} will open multi-threaded conversations with target accounts.":
+    "Vertrauliche Gesprächsrunden zu „{problem}“ eröffnen Gespräche mit mehreren Ansprechpartnern bei Zielkunden.",
+  "Host monthly roundtables for eight to twelve senior leaders":
+    "Monatliche Gesprächsrunden für acht bis zwölf Führungskräfte ausrichten",
+  "Share an anonymized benchmark as the discussion anchor":
+    "Einen anonymisierten Benchmark als Diskussionsgrundlage teilen",
+  "Follow up within 48 hours with a tailored assessment offer":
+    "Innerhalb von 48 Stunden mit einem passenden Analyseangebot nachfassen",
+  "Meetings booked and pipeline created per roundtable.":
+    "Vereinbarte Termine und entstandene Pipeline je Gesprächsrunde.",
+  "Problem-Aware Retargeting": "Problembezogenes Retargeting",
+  "Retargeting visitors who engaged with {problem} content will convert more efficiently than cold paid audiences.":
+    "Retargeting von Besuchern, die sich mit Inhalten zu „{problem}“ beschäftigt haben, konvertiert effizienter als kalte bezahlte Zielgruppen.",
+  "Tag problem-focused content and build engaged-visitor audiences":
+    "Problemorientierte Inhalte markieren und Zielgruppen aus engagierten Besuchern bilden",
+  "Serve persona-specific proof ads with a low-friction CTA":
+    "Personaspezifische Anzeigen mit Belegen und niedrigschwelligem Handlungsaufruf schalten",
+  "Cap frequency and rotate creative weekly":
+    "Kontaktfrequenz begrenzen und Motive wöchentlich wechseln",
+  "Cost per {metric} from retargeted versus cold audiences.":
+    "Kosten pro {metric} bei Retargeting im Vergleich zu kalten Zielgruppen.",
+  "Team Invite Expansion Nudges": "Hinweise zum Einladen von Teammitgliedern",
+  "Prompting active users to invite teammates at collaboration moments will grow seats per account.":
+    "Wer aktive Nutzer in Momenten der Zusammenarbeit zum Einladen von Kollegen auffordert, erhöht die Lizenzen pro Kunde.",
+  "Detect share, comment and handoff moments in product":
+    "Momente des Teilens, Kommentierens und Übergebens im Produkt erkennen",
+  "Trigger contextual invite prompts with teammate suggestions":
+    "Kontextbezogene Einladungshinweise mit Vorschlägen für Kollegen auslösen",
+  "Offer admins a seat-bundle upgrade once three invites land":
+    "Admins nach drei angenommenen Einladungen ein Lizenzpaket anbieten",
+  "Seats per account and invite acceptance rate.":
+    "Lizenzen pro Kunde und Annahmequote der Einladungen.",
+  "Category Benchmark Report": "Benchmark-Bericht zur Kategorie",
+  "An original benchmark on {problem} will make {product} the reference point for {audience} and generate qualified leads.":
+    "Ein eigener Benchmark zu „{problem}“ macht {product} zum Bezugspunkt für {audience} und erzeugt qualifizierte Leads.",
+  "Survey the audience and combine with anonymized product data":
+    "Die Zielgruppe befragen und mit anonymisierten Produktdaten kombinieren",
+  "Publish a gated report with a shareable executive summary":
+    "Einen Bericht gegen Registrierung mit teilbarer Zusammenfassung veröffentlichen",
+  "Turn findings into a webinar and sales conversation starters":
+    "Ergebnisse in ein Webinar und Gesprächseinstiege für den Vertrieb übertragen",
+  "Report downloads, influenced pipeline and media mentions.":
+    "Downloads des Berichts, beeinflusste Pipeline und Medienerwähnungen.",
+
+  // Measurement
+  "Week {period}": "Woche {period}",
+  "Month {period}": "Monat {period}",
+  "Read as {amount} by {due} ({days}-day window).":
+    "Gelesen als {amount} bis {due} (Zeitraum von {days} Tagen).",
+  "Read as {amount} by {due} (the {days}-day launch horizon, since the metric names no window).":
+    "Gelesen als {amount} bis {due} (Launch-Horizont von {days} Tagen, da die Kennzahl keinen Zeitraum nennt).",
+  "Read as {amount} per {run}, {total} in total by {due} ({days}-day window).":
+    "Gelesen als {amount} pro {run}, insgesamt {total} bis {due} (Zeitraum von {days} Tagen).",
+  "Read as {amount} per {run}, {total} in total by {due} (the {days}-day launch horizon, since the metric names no window).":
+    "Gelesen als {amount} pro {run}, insgesamt {total} bis {due} (Launch-Horizont von {days} Tagen, da die Kennzahl keinen Zeitraum nennt).",
+  "Assumes a {value} average contract from the market inputs, so {total} new {stage}.":
+    "Angenommen wird ein durchschnittlicher Vertragswert von {value} aus den Marktdaten, also {total} neue {stage}.",
+  "Assumes a {value} average contract for {model} pricing, so {total} new {stage}.":
+    "Angenommen wird ein durchschnittlicher Vertragswert von {value} bei {model}-Preisen, also {total} neue {stage}.",
+  "North star · {unit}": "Nordstern · {unit}",
+  "North star": "Nordstern",
+  "Not quantified — {metric}": "Nicht quantifiziert – {metric}",
+  "{metric} ({total} by {due})": "{metric} ({total} bis {due})",
+  "{count} by {due} ({rate}% convert onward)": "{count} bis {due} ({rate} % kommen weiter)",
+  "Define a count and window to unlock milestone tracking":
+    "Anzahl und Zeitraum festlegen, um Meilensteine verfolgen zu können",
+  "Reviewed weekly against milestone targets": "Wöchentlich mit den Meilensteinzielen abgeglichen",
+  "Reviewed monthly against milestone targets": "Monatlich mit den Meilensteinzielen abgeglichen",
+  "Activation Velocity": "Aktivierungstempo",
+  "≥ 45% of signups reach aha moment within 72 hours":
+    "≥ 45 % der Registrierungen erreichen den Aha-Moment innerhalb von 72 Stunden",
+  "Product analytics funnel with persona & channel tags":
+    "Produktanalyse-Funnel mit Persona- und Kanal-Tags",
+  "Reviewed twice weekly with product + growth standup":
+    "Zweimal pro Woche im Produkt- und Growth-Standup geprüft",
+  "Pipeline Momentum": "Pipeline-Dynamik",
+  "≥ 30% of SQL pipeline sourced from hero channels":
+    "≥ 30 % der SQL-Pipeline aus den Hauptkanälen",
+  "CRM multi-touch attribution dashboard": "CRM-Dashboard mit Multi-Touch-Attribution",
+  "Reported weekly to revenue leadership": "Wöchentlicher Bericht an die Vertriebsleitung",
+  "Expansion Signal": "Ausbausignal",
+  "≥ 20% accounts adopt 2+ advanced workflows in 60 days":
+    "≥ 20 % der Kunden nutzen innerhalb von 60 Tagen 2+ fortgeschrittene Workflows",
+  "Usage cohort reports & health scoring in CS CRM":
+    "Nutzungskohorten und Health-Scores im Customer-Success-CRM",
+  "Monthly lifecycle business review": "Monatliches Lifecycle-Review",
+  "Advocacy Flywheel": "Empfehlungskreislauf",
+  "10 new public testimonials or case studies per quarter":
+    "10 neue öffentliche Kundenstimmen oder Fallstudien pro Quartal",
+  "Community tracking sheet + marketing automation tags":
+    "Community-Tracking-Tabelle und Tags in der Marketing-Automatisierung",
+  "Monthly with marketing leadership": "Monatlich mit der Marketingleitung",
+  "Website visitors": "Website-Besucher",
+  Leads: "Leads",
+  "Marketing-qualified leads": "Marketing-qualifizierte Leads",
+  "Sales-qualified leads": "Vertriebsqualifizierte Leads",
+  Opportunities: "Opportunities",
+  Customers: "Kunden",
+  Signups: "Registrierungen",
+  "Activated accounts": "Aktivierte Konten",
+  "Paying accounts": "Zahlende Konten",
+  "Web analytics with UTM and channel tags": "Webanalyse mit UTM- und Kanal-Tags",
+  "Marketing automation form fills and enrichment":
+    "Formulareingänge und Anreicherung in der Marketing-Automatisierung",
+  "Lead scoring with persona and channel tags": "Lead-Scoring mit Persona- und Kanal-Tags",
+  "CRM lifecycle stages with SDR acceptance": "CRM-Lebenszyklusphasen mit Annahme durch SDRs",
+  "CRM opportunity pipeline by source": "Opportunity-Pipeline im CRM nach Quelle",
+  "Closed-won deals in CRM": "Gewonnene Abschlüsse im CRM",
+  "Product analytics signup events by channel": "Registrierungen in der Produktanalyse nach Kanal",
+  "Product analytics activation milestone by persona":
+    "Aktivierungsmeilensteine in der Produktanalyse nach Persona",
+  "Billing system conversions by plan": "Umwandlungen im Abrechnungssystem nach Tarif",
+  "Post-launch": "Nach dem Launch",
+  'The deadline in "{metric}" is before the launch starts on {date}.':
+    "Die Frist in „{metric}“ liegt vor dem Launch-Start am {date}.",
+  'The deadline in "{metric}" isn\'t a real date.':
+    "Die Frist in „{metric}“ ist kein gültiges Datum.",
+  "Give a date after the launch start to get milestones and funnel targets.":
+    "Ein Datum nach dem Launch-Start angeben, um Meilensteine und Funnel-Ziele zu erhalten.",
+  'Couldn\'t find a target number in "{metric}".': "In „{metric}“ wurde keine Zielzahl gefunden.",
+  'Phrase it as a count and window, e.g. "50 SQLs in 90 days", to get milestones and funnel targets.':
+    "Als Anzahl und Zeitraum formulieren, etwa „50 SQLs in 90 Tagen“, um Meilensteine und Funnel-Ziele zu erhalten.",
+  '"{metric}" is a rate, so funnel volumes can\'t be back-calculated from it.':
+    "„{metric}“ ist eine Quote, daher lassen sich daraus keine Funnel-Volumen zurückrechnen.",
+  'Add a count such as "200 paying teams in 90 days" to get milestones and funnel targets.':
+    "Eine Anzahl wie „200 zahlende Teams in 90 Tagen“ ergänzen, um Meilensteine und Funnel-Ziele zu erhalten.",
+  'Found {value} in "{metric}" but no unit the funnel recognises (for example SQLs, demos, signups, activated users, customers or ARR).':
+    "In „{metric}“ steht {value}, aber keine Einheit, die der Funnel kennt (zum Beispiel SQLs, Demos, Registrierungen, aktivierte Nutzer, Kunden oder ARR).",
+
+  // Sales enablement
+  "Integration & switching": "Integration & Wechsel",
+  "Security & compliance": "Sicherheit & Compliance",
+  "AI trust": "Vertrauen in KI",
+  Support: "Support",
+  Pricing: "Preise",
+  Proof: "Belege",
+  '"{objection}" is a fair concern for a {persona}.':
+    "„{objection}“ ist ein berechtigter Einwand für die Rolle {persona}.",
+  "{product} is built to fit the tools they already run: {differentiation}.":
+    "{product} fügt sich in die Werkzeuge ein, die das Team bereits nutzt: {differentiation}.",
+  "Offer a scoped pilot on one workflow so nothing is ripped out.":
+    "Einen abgegrenzten Pilot für einen Workflow anbieten, damit nichts Bestehendes abgelöst werden muss.",
+  "Send the security pack before they ask and bring an SE to the next call to cover governance controls in {product}.":
+    "Das Sicherheitspaket unaufgefordert senden und zum nächsten Termin einen Solution Engineer mitbringen, der die Governance-Kontrollen in {product} erläutert.",
+  "Run {product} on their own data during the demo and show where human review steps in.":
+    "{product} in der Demo mit den eigenen Daten des Kunden vorführen und zeigen, wo die menschliche Prüfung greift.",
+  "Anchor on what makes it different: {differentiation}.":
+    "Auf das Unterscheidungsmerkmal abstellen: {differentiation}.",
+  "Name the support contact and response-time commitment in the proposal, and offer a reference customer who has used {product} support.":
+    "Im Angebot den Support-Ansprechpartner und die zugesagten Reaktionszeiten nennen und einen Referenzkunden anbieten, der den Support von {product} kennt.",
+  "Walk through the pricing line by line: {pricing}.":
+    "Die Preise Punkt für Punkt durchgehen: {pricing}.",
+  "Then model their bill at today's usage and at double it, so there are no surprises.":
+    "Dann die Kosten bei heutiger und doppelter Nutzung durchrechnen, damit es keine Überraschungen gibt.",
+  "Lead with the outcome, not features: {differentiation}.":
+    "Mit dem Ergebnis einsteigen, nicht mit Funktionen: {differentiation}.",
+  "Offer a customer story from a team with the same problem.":
+    "Eine Kundengeschichte von einem Team mit demselben Problem anbieten.",
+  'Where does "{problem}" hurt most today: time, cost or risk?':
+    "Wo schmerzt „{problem}“ heute am meisten: bei Zeit, Kosten oder Risiko?",
+  "How well does your current setup deliver {need}?":
+    "Wie gut erfüllt Ihre heutige Lösung diesen Bedarf: {need}?",
+  "What would you need to see to trust a new tool?":
+    "Was müssten Sie sehen, um einem neuen Werkzeug zu vertrauen?",
+  "Teams like yours often ask for {trigger}.": "Teams wie Ihres fragen oft danach: {trigger}.",
+  "Who else would need to see this before it becomes a project?":
+    "Wer müsste das noch sehen, bevor daraus ein Projekt wird?",
+  "What does your buying process look like from yes to signed contract?":
+    "Wie sieht Ihr Einkaufsprozess vom Ja bis zum unterschriebenen Vertrag aus?",
+  "Which workflow would you try first, and who would set it up?":
+    "Welchen Workflow würden Sie zuerst ausprobieren, und wer würde ihn einrichten?",
+  "Which other teams run into the same problem today?":
+    "Welche anderen Teams haben heute dasselbe Problem?",
+  "Book the follow-up demo with the decision maker before hanging up.":
+    "Noch im Gespräch die Folgedemo mit der entscheidenden Person vereinbaren.",
+  "Agree a mutual close plan with dates and owners.":
+    "Einen gemeinsamen Abschlussplan mit Terminen und Verantwortlichen vereinbaren.",
+  "Get them into a live workspace and schedule a check-in after first use.":
+    "Einen aktiven Arbeitsbereich einrichten und nach der ersten Nutzung einen Abstimmungstermin planen.",
+  "Set up a success review with the sponsor and the next team.":
+    "Ein Erfolgsreview mit dem Sponsor und dem nächsten Team ansetzen.",
+  "Pricing to share if asked: {pricing}.": "Preise auf Nachfrage: {pricing}.",
+  "Goal fit": "Passung zum Ziel",
+  'Winning this account moves us toward "{goal}".':
+    "Der Gewinn dieses Kunden bringt uns näher an „{goal}“.",
+  Pain: "Schmerzpunkt",
+  "They describe the problem in their own words and its cost.":
+    "Sie beschreiben das Problem und seine Kosten in eigenen Worten.",
+  Authority: "Entscheidungsbefugnis",
+  "The buyer or a direct report of the buyer is on the call.":
+    "Die einkaufende Person oder jemand aus ihrem direkten Team ist im Gespräch.",
+  Timing: "Zeitpunkt",
+  "There is a reason to act this quarter.":
+    "Es gibt einen Grund, noch in diesem Quartal zu handeln.",
+  Budget: "Budget",
+  "Budget is allocated or a funding path is named.":
+    "Budget ist eingeplant oder ein Finanzierungsweg ist benannt.",
+  "Decision process": "Entscheidungsprozess",
+  "Steps, approvers and paper process are mapped.":
+    "Schritte, Freigebende und Vertragsprozess sind bekannt.",
+  "Close date": "Abschlusstermin",
+  "A mutual close plan with a target date is agreed.":
+    "Ein gemeinsamer Abschlussplan mit Zieltermin ist vereinbart.",
+  "Use case": "Anwendungsfall",
+  "One concrete workflow to run first is named.": "Ein konkreter erster Workflow ist benannt.",
+  Champion: "Champion",
+  "A hands-on user will set it up this week.":
+    "Eine Person aus dem Fachteam richtet es diese Woche ein.",
+  "Activation path": "Weg zur Aktivierung",
+  "They can reach first value without procurement.":
+    "Sie erreichen den ersten Nutzen ohne Einkaufsprozess.",
+  "Current value": "Bisheriger Nutzen",
+  "Usage or outcomes on today's plan are documented.":
+    "Nutzung oder Ergebnisse im heutigen Tarif sind dokumentiert.",
+  "New team or use case": "Neues Team oder neuer Anwendungsfall",
+  "A second team or workflow is identified.":
+    "Ein zweites Team oder ein zweiter Workflow ist identifiziert.",
+  Sponsor: "Sponsor",
+  "An executive sponsor backs the wider rollout.":
+    "Ein Sponsor aus der Führungsebene unterstützt den breiteren Rollout.",
+  "Thanks for the time.": "Danke für Ihre Zeit.",
+  'I work with {persona}s who tell us "{problem}." Does that match what you see?':
+    "Ich arbeite mit Menschen in der Rolle {persona}, die uns sagen: „{problem}.“ Deckt sich das mit Ihrer Erfahrung?",
+  "{summary}. What makes {product} different: {differentiation}.":
+    "{summary}. Was {product} unterscheidet: {differentiation}.",
+
+  // Pricing
+  Enterprise: "Enterprise",
+  Free: "Gratis",
+  "Pay as you go": "Nach Verbrauch",
+  "Committed use": "Festes Kontingent",
+  Team: "Team",
+  Business: "Business",
+  Starter: "Starter",
+  Pro: "Pro",
+  Pilot: "Pilot",
+  Platform: "Plattform",
+  "Organisations with security and procurement reviews":
+    "Organisationen mit Sicherheits- und Einkaufsprüfungen",
+  "Evaluators and individual users": "Evaluierende und Einzelnutzer",
+  "Builders and small teams trying it on real work":
+    "Entwickler und kleine Teams, die es an echter Arbeit ausprobieren",
+  "Teams with steady monthly volume": "Teams mit gleichmäßigem Monatsvolumen",
+  "A single team adopting it together": "Ein einzelnes Team, das es gemeinsam einführt",
+  "Several teams with an admin owning the rollout":
+    "Mehrere Teams mit einem Admin, der den Rollout verantwortet",
+  "Small teams with one use case": "Kleine Teams mit einem Anwendungsfall",
+  "Growing teams running it every day": "Wachsende Teams, die es täglich nutzen",
+  "One team proving value before a wider rollout":
+    "Ein Team, das den Nutzen vor einem breiteren Rollout belegt",
+  "Business units standardising on it": "Geschäftsbereiche, die darauf standardisieren",
+  "workflow run": "Workflow-Ausführung",
+  user: "Nutzer",
+  workspace: "Arbeitsbereich",
+  "Volume of {unit}s agreed in the contract": "Vertraglich vereinbartes Volumen (Einheit: {unit})",
+  "A capped number of {unit}s": "Begrenzte Menge (Einheit: {unit})",
+  "Billed per {unit}": "Abrechnung pro {unit}",
+  "A committed block of {unit}s each month":
+    "Monatlich fest zugesagtes Kontingent (Einheit: {unit})",
+  "Per {unit} per month": "Pro {unit} und Monat",
+  "Per {unit} per month, billed annually": "Pro {unit} und Monat, jährliche Abrechnung",
+  "One {unit}": "1 × {unit}",
+  "Up to five {unit}s": "Bis zu 5 × {unit}",
+  "Up to 10 {unit}s": "Bis zu 10 × {unit}",
+  "One workflow for 60–90 days": "Ein Workflow für 60–90 Tage",
+  "Several {unit}s and workflows": "Mehrere Einheiten ({unit}) und Workflows",
+  "SSO/SAML, audit logs and data residency options":
+    "SSO/SAML, Audit-Logs und Optionen zur Datenhaltung",
+  "Named success manager and uptime SLA": "Fester Success Manager und SLA zur Verfügbarkeit",
+  "Volume pricing on an annual commitment": "Mengenpreise bei jährlicher Bindung",
+  "The core workflow": "Der zentrale Workflow",
+  "One workspace": "Ein Arbeitsbereich",
+  "Community support": "Community-Support",
+  "Self-serve signup": "Registrierung in Eigenregie",
+  "All core features": "Alle Kernfunktionen",
+  "Usage dashboard and spend alerts": "Nutzungs-Dashboard und Kostenwarnungen",
+  "A lower rate per {unit} than pay as you go":
+    "Niedrigerer Preis pro {unit} als bei Abrechnung nach Verbrauch",
+  "Unused {unit}s roll over for one month":
+    "Nicht genutztes Kontingent (Einheit: {unit}) wird einen Monat übertragen",
+  "Priority support": "Bevorzugter Support",
+  "Core workflows": "Zentrale Workflows",
+  "Shared workspace": "Gemeinsamer Arbeitsbereich",
+  "Standard integrations": "Standardintegrationen",
+  "Advanced automation": "Erweiterte Automatisierung",
+  "Role-based permissions": "Rollenbasierte Berechtigungen",
+  "Usage analytics": "Nutzungsanalysen",
+  Reporting: "Reporting",
+  "Onboarding by a solutions engineer": "Onboarding durch einen Solutions Engineer",
+  "Success plan with one agreed metric": "Erfolgsplan mit einer vereinbarten Kennzahl",
+  "Admin controls": "Admin-Steuerung",
+  "Standard SLA": "Standard-SLA",
+  "Annual contract with a minimum commitment": "Jahresvertrag mit Mindestabnahme",
+  "Security review and DPA": "Sicherheitsprüfung und Auftragsverarbeitungsvertrag",
+  "A {unit} cap that a working team outgrows":
+    "Obergrenze für {unit}, die ein aktives Team schnell überschreitet",
+  "No integrations or admin controls": "Keine Integrationen oder Admin-Steuerung",
+  "Monthly spend cap": "Monatliche Kostenobergrenze",
+  "Email support only": "Nur E-Mail-Support",
+  "Monthly commitment": "Monatliche Bindung",
+  "Admin roles and usage reports": "Admin-Rollen und Nutzungsberichte",
+  "Email support": "E-Mail-Support",
+  "Annual billing": "Jährliche Abrechnung",
+  "Permissions and analytics only in this tier": "Berechtigungen und Analysen nur in dieser Stufe",
+  "Core features only": "Nur Kernfunktionen",
+  "Automation and reporting only in this tier": "Automatisierung und Reporting nur in dieser Stufe",
+  "Fixed term": "Feste Laufzeit",
+  "Capped users and volume": "Begrenzte Nutzerzahl und Menge",
+  "Annual contract": "Jahresvertrag",
+  "Data residency and premium SLA held back": "Datenhaltung und Premium-SLA nicht enthalten",
+  "{unit}s per month": "{unit} pro Monat",
+  "active {unit}s": "aktive {unit}",
+  "{unit}s and plan features": "{unit} und Tarifumfang",
+  "{unit}s and workflows in production": "{unit} und Workflows im Produktivbetrieb",
+  "usage-based pricing": "nutzungsbasierte Preise",
+  "per-seat pricing": "Preise pro Lizenz",
+  "a flat subscription": "ein Pauschalabo",
+  "annual enterprise contracts": "jährliche Enterprise-Verträge",
+  "a freemium plan": "ein Freemium-Modell",
+  "{product} uses {label} with a free tier, so packaging scales with {metric} and each tier is fenced by what the next buyer needs.":
+    "{product} setzt auf {label} mit einer Gratis-Stufe, daher skaliert das Paket mit dem Wertmaßstab „{metric}“, und jede Stufe endet dort, wo die nächste Käufergruppe mehr braucht.",
+  "{product} uses {label}, so packaging scales with {metric} and each tier is fenced by what the next buyer needs.":
+    "{product} setzt auf {label}, daher skaliert das Paket mit dem Wertmaßstab „{metric}“, und jede Stufe endet dort, wo die nächste Käufergruppe mehr braucht.",
+  'No pricing motion could be read from "{pricing}", so the tiers assume a flat subscription until one is chosen.':
+    "Aus „{pricing}“ ließ sich kein Preismodell ablesen, daher gehen die Stufen von einem Pauschalabo aus, bis eines gewählt ist.",
+  "Willingness-to-pay interviews": "Interviews zur Zahlungsbereitschaft",
+  "Target buyers accept the entry price without a discount.":
+    "Zielkunden akzeptieren den Einstiegspreis ohne Rabatt.",
+  "Run a Van Westendorp survey with 20–30 target buyers before the price is published.":
+    "Vor Veröffentlichung des Preises eine Van-Westendorp-Befragung mit 20–30 Zielkunden durchführen.",
+  "Acceptable price range and the point where buyers call it too expensive":
+    "Akzeptable Preisspanne und der Punkt, ab dem Käufer den Preis zu hoch finden",
+  "Don't publish an entry price outside the acceptable range.":
+    "Keinen Einstiegspreis außerhalb der akzeptablen Spanne veröffentlichen.",
+  "Free-tier limit test": "Test des Gratis-Limits",
+  "A lower free limit raises upgrades without hurting activation.":
+    "Ein niedrigeres Gratis-Limit steigert Upgrades, ohne der Aktivierung zu schaden.",
+  "Split new signups between two free limits for four weeks.":
+    "Neue Registrierungen vier Wochen lang auf zwei Gratis-Limits aufteilen.",
+  "Free-to-paid conversion": "Umwandlung von Gratis zu Bezahlt",
+  "Activation stays within 10% of the higher limit.":
+    "Die Aktivierung liegt höchstens 10 % unter der beim höheren Limit.",
+  "Committed-use discount test": "Test des Rabatts für feste Kontingente",
+  "A deeper commitment discount moves steady users off pay as you go.":
+    "Ein höherer Rabatt für feste Kontingente bringt regelmäßige Nutzer weg von der Abrechnung nach Verbrauch.",
+  "Offer a 15% or a 25% discount for a monthly commitment at checkout.":
+    "Beim Checkout 15 % oder 25 % Rabatt für eine monatliche Bindung anbieten.",
+  "Share of accounts that commit and net revenue per account":
+    "Anteil der Kunden mit Bindung und Nettoumsatz pro Kunde",
+  "Average realised price per unit doesn't fall more than 10%.":
+    "Der durchschnittlich erzielte Preis pro Einheit sinkt um höchstens 10 %.",
+  "Seat minimum test": "Test einer Mindestzahl an Lizenzen",
+  "A three-seat minimum on Team lifts revenue per account without losing signups.":
+    "Mindestens drei Lizenzen in der Stufe Team steigern den Umsatz pro Kunde, ohne Registrierungen zu kosten.",
+  "Show the Team tier with and without a three-seat minimum.":
+    "Die Stufe Team mit und ohne Mindestabnahme von drei Lizenzen zeigen.",
+  "Paid conversion and average seats per account":
+    "Umwandlung in zahlende Kunden und durchschnittliche Lizenzen pro Kunde",
+  "Trial-to-paid conversion stays within 10% of control.":
+    "Die Umwandlung von Test zu Bezahlung liegt höchstens 10 % unter der Kontrollgruppe.",
+  "Proposal anchor test": "Test des Preisankers im Angebot",
+  "A higher platform-fee anchor closes at the same rate with less discounting.":
+    "Ein höherer Anker für die Plattformgebühr schließt gleich häufig ab, mit weniger Rabatt.",
+  "Alternate two platform-fee anchors across proposals for one quarter.":
+    "Ein Quartal lang zwei Anker für die Plattformgebühr in Angeboten abwechseln.",
+  "Win rate and average discount": "Abschlussquote und durchschnittlicher Rabatt",
+  "Sales cycle length doesn't grow by more than two weeks.":
+    "Der Verkaufszyklus verlängert sich um höchstens zwei Wochen.",
+  "Annual prepay test": "Test der jährlichen Vorauszahlung",
+  "Two free months for paying annually pulls revenue forward.":
+    "Zwei Gratismonate bei jährlicher Zahlung ziehen Umsatz nach vorn.",
+  "Offer monthly and annual billing side by side, with and without the incentive.":
+    "Monatliche und jährliche Abrechnung nebeneinander anbieten, mit und ohne Anreiz.",
+  "Share of new accounts on annual plans and cash collected":
+    "Anteil neuer Kunden mit Jahrestarif und eingegangene Zahlungen",
+  "Overall paid conversion doesn't drop.":
+    "Die Umwandlung in zahlende Kunden sinkt insgesamt nicht.",
+  "Pricing page anchor test": "Test des Preisankers auf der Preisseite",
+  "Showing the Enterprise tier first makes the middle tier look like the default.":
+    "Steht die Stufe Enterprise vorn, wirkt die mittlere Stufe wie der Standard.",
+  "A/B the pricing page with the tiers in ascending and descending order.":
+    "Die Preisseite per A/B-Test mit auf- und absteigender Reihenfolge der Stufen prüfen.",
+  "Mix of tiers chosen at checkout": "Verteilung der beim Checkout gewählten Stufen",
+  "Checkout completion rate holds.": "Die Abschlussrate beim Checkout bleibt stabil.",
+  "Publish a usage calculator with example bills at typical and double volume, and let admins set a hard monthly cap on {unit}s.":
+    "Einen Nutzungsrechner mit Beispielrechnungen bei typischem und doppeltem Volumen veröffentlichen und Admins eine feste monatliche Obergrenze für {unit} setzen lassen.",
+  "List every fee on the pricing page and bill only active {unit}s, so no one pays for an unused seat.":
+    "Jede Gebühr auf der Preisseite auflisten und nur aktive {unit} abrechnen, damit niemand für eine ungenutzte Lizenz zahlt.",
+  "Show each plan's limits on the pricing page and what happens when a team outgrows its {unit}.":
+    "Auf der Preisseite die Limits jedes Tarifs zeigen und was passiert, wenn ein Team die Grenze für {unit} überschreitet.",
+  "Quote one all-in annual figure that covers volume, support and onboarding, with no overage surprises.":
+    "Einen jährlichen Gesamtpreis für Volumen, Support und Onboarding nennen, ohne überraschende Mehrkosten.",
+  "The audience includes small teams or individual buyers, but pricing is enterprise contracts only. Add a self-serve entry tier or a fixed-price pilot.":
+    "Die Zielgruppe umfasst kleine Teams oder Einzelkäufer, die Preise sehen aber nur Enterprise-Verträge vor. Eine Einstiegsstufe in Eigenregie oder einen Pilot zum Festpreis ergänzen.",
+  "Enterprise buyers expect annual contracts, SSO and a security review, which the pricing doesn't mention. Lead with the Enterprise tier in sales conversations.":
+    "Enterprise-Käufer erwarten Jahresverträge, SSO und eine Sicherheitsprüfung, die in den Preisen nicht vorkommen. Im Vertriebsgespräch mit der Stufe Enterprise einsteigen.",
+  'A free plan defers revenue, but the goal is "{goal}". Fence the features paying teams need and time-box free use.':
+    "Ein Gratistarif verschiebt Umsatz, das Ziel lautet aber „{goal}“. Die Funktionen, die zahlende Teams brauchen, abgrenzen und die kostenlose Nutzung befristen.",
+  'Contract-only pricing slows "{goal}", because every new user waits on a sales cycle. A free or pilot tier lets users start on their own.':
+    "Preise nur per Vertrag bremsen „{goal}“, weil jeder neue Nutzer auf einen Verkaufszyklus wartet. Eine Gratis- oder Pilotstufe lässt Nutzer selbst starten.",
+
+  // Competitive landscape
+  "Time to value": "Zeit bis zum Nutzen",
+  Integrations: "Integrationen",
+  "AI & automation": "KI & Automatisierung",
+  "Analytics & reporting": "Analyse & Reporting",
+  "Pricing & cost": "Preise & Kosten",
+  "Support & services": "Support & Services",
+  "Scale & reliability": "Skalierung & Zuverlässigkeit",
+  "Brand & ecosystem": "Marke & Ökosystem",
+  "Time to measurable outcomes": "Zeit bis zu messbaren Ergebnissen",
+  "Ask how many days it took their last customer to reach a first live workflow.":
+    "Fragen, wie viele Tage der letzte Kunde bis zum ersten produktiven Workflow gebraucht hat.",
+  "Ask which systems they connect to natively versus through services work.":
+    "Fragen, welche Systeme nativ angebunden sind und welche nur über Dienstleistungsprojekte.",
+  "Ask for their current SOC 2 report and where customer data is processed.":
+    "Nach dem aktuellen SOC-2-Bericht fragen und wo Kundendaten verarbeitet werden.",
+  "Ask how they measure and guard against wrong AI output in production.":
+    "Fragen, wie sie falsche KI-Ergebnisse im Produktivbetrieb messen und verhindern.",
+  "Ask them to show ROI reporting a finance team would sign off on.":
+    "Um ein ROI-Reporting bitten, das ein Finanzteam abzeichnen würde.",
+  "Ask what the bill looks like at twice today's usage, including add-ons.":
+    "Fragen, wie die Rechnung bei doppelter Nutzung aussieht, einschließlich Zusatzmodulen.",
+  "Ask for their support response-time commitment in writing.":
+    "Die zugesagten Reaktionszeiten des Supports schriftlich anfordern.",
+  "Ask for uptime history and a reference at your expected volume.":
+    "Nach der Verfügbarkeitshistorie und einer Referenz mit dem erwarteten Volumen fragen.",
+  "Ask how much of their roadmap is driven by customers your size.":
+    "Fragen, wie viel ihrer Roadmap von Kunden dieser Größe bestimmt wird.",
+  "Show a same-day pilot: {product} reaches a first live workflow in hours.":
+    "Einen Pilot am selben Tag zeigen: {product} bringt den ersten Workflow in Stunden live.",
+  "Walk through {product}'s native connectors and open export so nothing is locked in.":
+    "Die nativen Konnektoren und den offenen Export von {product} zeigen, damit nichts gebunden ist.",
+  "Share {product}'s security pack and governance controls up front.":
+    "Sicherheitspaket und Governance-Kontrollen von {product} vorab teilen.",
+  "Demo {product}'s guardrails and human review steps on the buyer's own data.":
+    "Leitplanken und menschliche Prüfschritte von {product} mit den eigenen Daten des Kunden vorführen.",
+  "Share a sample ROI dashboard built from {product} telemetry.":
+    "Ein Beispiel-ROI-Dashboard aus den Telemetriedaten von {product} teilen.",
+  "Model the buyer's cost at current and doubled usage with {product}'s published pricing.":
+    "Die Kosten des Kunden bei heutiger und doppelter Nutzung mit den veröffentlichten Preisen von {product} durchrechnen.",
+  "Commit to {product}'s support SLA and named success contact in the proposal.":
+    "Im Angebot das Support-SLA von {product} und einen festen Success-Ansprechpartner zusagen.",
+  "Offer a reference customer running {product} at comparable scale.":
+    "Einen Referenzkunden anbieten, der {product} in vergleichbarem Umfang nutzt.",
+  "Pair a peer reference with a phased switch plan that keeps the incumbent running during cut-over.":
+    "Eine Referenz aus der Branche mit einem stufenweisen Wechselplan verbinden, bei dem das bisherige System während der Umstellung weiterläuft.",
+  "This is a known gap for {competitor}, so press the contrast.":
+    "Das ist eine bekannte Schwäche von {competitor}, also den Unterschied betonen.",
+  "{competitor} will claim parity here, so bring proof.":
+    "{competitor} wird hier Gleichwertigkeit behaupten, also Belege mitbringen.",
+  "Against {competitor}, lead with {first} and {second}: {differentiation}":
+    "Gegen {competitor} mit {first} und {second} einsteigen: {differentiation}",
+  "Against {competitor}, lead with outcomes: {differentiation}":
+    "Gegen {competitor} mit Ergebnissen einsteigen: {differentiation}",
+  "Against {competitor}, lead with {focus}: {differentiation}":
+    "Gegen {competitor} mit {focus} einsteigen: {differentiation}",
+  "Acknowledge {competitor}'s {strength}, then reframe the decision around {focus}.":
+    "Die Stärke von {competitor} bei {strength} anerkennen und die Entscheidung dann auf {focus} lenken.",
+  "Acknowledge {competitor}' {strength}, then reframe the decision around {focus}.":
+    "Die Stärke von {competitor} bei {strength} anerkennen und die Entscheidung dann auf {focus} lenken.",
+  "{dimension} is contested with {competitor}; win it with customer proof, not claims.":
+    "Bei {dimension} ist {competitor} ebenbürtig; hier mit Kundenbelegen gewinnen, nicht mit Behauptungen.",
+  "{competitor} prices at {price}; anchor {product} on {pricing} and the cost of staying on the status quo.":
+    "{competitor} verlangt {price}; {product} an {pricing} und den Kosten des Status quo verankern.",
+  "Keep price out of the first call with {competitor} prospects; anchor on the cost of the problem.":
+    "Preise im Erstgespräch mit Interessenten von {competitor} aussparen; an den Kosten des Problems verankern.",
+  'Ask the buyer to test "{weakness}" with {competitor} during evaluation.':
+    "Den Kunden bitten, „{weakness}“ bei {competitor} während der Evaluierung zu prüfen.",
+  "Ask what {competitor} customers wish they had known before buying.":
+    "Fragen, was Kunden von {competitor} gern vor dem Kauf gewusst hätten.",
+
+  // Market sizing
+  "Segment accounts": "Kunden im Segment",
+  "Reachable share": "Erreichbarer Anteil",
+  "Win rate": "Abschlussquote",
+  "Average contract value": "Durchschnittlicher Vertragswert",
+  "Sized for {audience} across {count} segment: TAM {tam} ({accounts} accounts), SAM {sam} at {reachable} reachable, SOM {som} at a {winRate} win rate and {contract} average contract.":
+    "Marktgröße für {audience} in {count} Segment: TAM {tam} ({accounts} Kunden), SAM {sam} bei {reachable} erreichbarem Anteil, SOM {som} bei {winRate} Abschlussquote und {contract} durchschnittlichem Vertragswert.",
+  "Sized for {audience} across {count} segments: TAM {tam} ({accounts} accounts), SAM {sam} at {reachable} reachable, SOM {som} at a {winRate} win rate and {contract} average contract.":
+    "Marktgröße für {audience} in {count} Segmenten: TAM {tam} ({accounts} Kunden), SAM {sam} bei {reachable} erreichbarem Anteil, SOM {som} bei {winRate} Abschlussquote und {contract} durchschnittlichem Vertragswert.",
+  "Assumed {first} and {second} and {third}, since the brief gives none.":
+    "Angenommen, da das Briefing keine Werte nennt: {first}, {second} und {third}.",
+  "Assumed {first} and {second}, since the brief gives none.":
+    "Angenommen, da das Briefing keine Werte nennt: {first} und {second}.",
+  "Assumed {first}, since the brief gives none.":
+    "Angenommen, da das Briefing keinen Wert nennt: {first}.",
+  "Add account counts per audience segment under Market sizing to get TAM, SAM and SOM and check the north star against them.":
+    "Unter Marktgröße die Kundenzahl je Zielgruppensegment eintragen, um TAM, SAM und SOM zu erhalten und den Nordstern daran zu prüfen.",
+  "Without market inputs the north star can't be checked against the market.":
+    "Ohne Marktdaten lässt sich der Nordstern nicht am Markt prüfen.",
+  "The north star has no readable target, so it can't be checked against the market.":
+    "Der Nordstern hat kein lesbares Ziel und lässt sich daher nicht am Markt prüfen.",
+  "The obtainable market yields about {supply} customers in the {days}-day window, {coverage}× the {required} customers the north star needs.":
+    "Der erreichbare Markt ergibt im Zeitraum von {days} Tagen etwa {supply} Kunden, das {coverage}-Fache der {required} Kunden, die der Nordstern braucht.",
+  "The obtainable market yields about {supply} customers in the {days}-day window, just enough for the {required} customers the north star needs; a small miss on reach or win rate puts it out of reach.":
+    "Der erreichbare Markt ergibt im Zeitraum von {days} Tagen etwa {supply} Kunden, gerade genug für die {required} Kunden, die der Nordstern braucht; eine kleine Abweichung bei Reichweite oder Abschlussquote macht das Ziel unerreichbar.",
+  "The obtainable market yields about {supply} customers in the {days}-day window, short of the {required} customers the north star needs.":
+    "Der erreichbare Markt ergibt im Zeitraum von {days} Tagen etwa {supply} Kunden, weniger als die {required} Kunden, die der Nordstern braucht.",
+  "Hitting it takes a {rate} win rate, a wider reachable share or a longer horizon.":
+    "Dafür braucht es eine Abschlussquote von {rate}, einen größeren erreichbaren Anteil oder einen längeren Zeitraum.",
+  "Even winning every reachable account falls short; it takes a wider reachable share, more segments or a longer horizon.":
+    "Selbst wenn jeder erreichbare Kunde gewonnen wird, reicht es nicht; nötig sind ein größerer erreichbarer Anteil, mehr Segmente oder ein längerer Zeitraum.",
+  "{total} {unit} convert to about {required} customers at planning conversion rates.":
+    "{total} {unit} ergeben bei den geplanten Umwandlungsraten etwa {required} Kunden.",
+};
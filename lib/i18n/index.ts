@@ -0,0 +1,204 @@
+/**
+ * Translation catalogs for the built-in templates. A catalog maps the English
+ * copy the rules write to its localized form; `{name}` placeholders capture
+ * the parts that vary, such as a product name or a week number, and are
+ * translated again on their own when the catalog knows them. Brief text is
+ * kept verbatim, and copy outside the catalog stays in English and lowers the
+ * variant's coverage. Add a language by writing a catalog beside this one
+ * and listing it in `catalogs`.
+ */
+
+import { escapeRegExp } from "../format";
+import { de } from "./de";
+import { ja } from "./ja";
+
+export type Catalog = Record<string, string>;
+
+const catalogs: Record<string, Catalog> = { "de-DE": de, "ja-JP": ja };
+
+/** Joins translated sentences; Japanese punctuation carries its own spacing. */
+const sentenceJoiners: Record<string, string> = { "ja-JP": "" };
+
+/** Identifiers, enums and dates the UI reads; translating them would break lookups. */
+const untranslatedKeys = new Set([
+  "id",
+  "kind",
+  "code",
+  "tags",
+  "matchedKeywords",
+  "startDate",
+  "endDate",
+  "date",
+  "dueDate",
+  "unit",
+  "northStar",
+  "pricePoint",
+  "price",
+  "goalMotion",
+  "models",
+  "primaryModel",
+  "competitor",
+  "columns",
+  "cells",
+  "severity",
+  "field",
+  "segment",
+  "stage",
+  "status",
+  "source",
+  "driver",
+  "assumed",
+]);
+
+/** Enum values that share a key with translatable copy elsewhere, by section path. */
+const untranslatedPaths = new Set(["measurementPlan.cadence"]);
+
+const placeholderPattern = /\{(\w+)\}/g;
+/** "Jan 16, 2027" from `formatDate`, or "Jan 16" from launch phase durations. */
+const usDatePattern =
+  /\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec) (\d{1,2})(?:, (\d{4}))?\b/g;
+const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+type Template = { pattern: RegExp; names: string[]; localized: string };
+
+function compileTemplates(catalog: Catalog): Template[] {
+  return Object.entries(catalog)
+    .filter(([english]) => english.includes("{"))
+    .map(([english, localized]) => {
+      const names = Array.from(english.matchAll(placeholderPattern), (match) => match[1]);
+      const source = escapeRegExp(english).replace(/\\\{\w+\\\}/g, "(.+?)");
+      return { pattern: new RegExp(`^${source}$`), names, localized };
+    });
+}
+
+function createTranslator(catalog: Catalog, joiner: string) {
+  const templates = compileTemplates(catalog);
+  // Rules lower-case catalog text they quote mid-sentence, e.g. "ai & automation".
+  const caseless = new Map(
+    Object.entries(catalog).map(([english, localized]) => [english.toLowerCase(), localized]),
+  );
+
+  function phrase(text: string): string | null {
+    if (Object.hasOwn(catalog, text)) {
+      return catalog[text];
+    }
+    for (const { pattern, names, localized } of templates) {
+      const match = text.match(pattern);
+      if (match) {
+        const values = Object.fromEntries(
+          names.map((name, index) => {
+            const value = match[index + 1];
+            return [name, phrase(value) ?? caseless.get(value.toLowerCase()) ?? value];
+          }),
+        );
+        return localized.replace(placeholderPattern, (_, name: string) => values[name] ?? "");
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Composed paragraphs are matched a span of sentences at a time, so a
+   * placeholder in one sentence can't swallow the rest while brief text with
+   * its own full stops still fits inside one template.
+   */
+  return function translate(text: string): string | null {
+    const sentences = text.split(/(?<=[.!?])\s+/);
+    const memo = new Map<number, string[] | null>();
+    const from = (start: number): string[] | null => {
+      if (start === sentences.length) {
+        return [];
+      }
+      if (!memo.has(start)) {
+        let found: string[] | null = null;
+        for (let end = start + 1; end <= sentences.length && !found; end += 1) {
+          const head = phrase(sentences.slice(start, end).join(" "));
+          const rest = head === null ? null : from(end);
+          found = head !== null && rest ? [head, ...rest] : null;
+        }
+        memo.set(start, found);
+      }
+      return memo.get(start) ?? null;
+    };
+    return from(0)?.join(joiner) ?? null;
+  };
+}
+
+function localizeDates(text: string, locale: string) {
+  return text.replace(usDatePattern, (_, month: string, day: string, year?: string) =>
+    // A leap year stands in when the year is left out, so Feb 29 still formats.
+    new Date(Date.UTC(Number(year ?? 2000), months.indexOf(month), Number(day))).toLocaleDateString(
+      locale,
+      { month: "short", day: "numeric", year: year ? "numeric" : undefined, timeZone: "UTC" },
+    ),
+  );
+}
+
+function briefStrings(brief: Record<string, unknown>): Set<string> {
+  const strings = new Set<string>();
+  const collect = (value: unknown) => {
+    if (typeof value === "string") {
+      // Templates often quote brief text in lower case.
+      strings.add(value.trim());
+      strings.add(value.trim().toLowerCase());
+    } else if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === "object") {
+      Object.values(value).forEach(collect);
+    }
+  };
+  collect(brief);
+  return strings;
+}
+
+/**
+ * Renders every template string in `sections` in `locale`. Coverage is the
+ * share of translatable strings the catalog handled; strings copied from the
+ * brief and strings without words don't count either way.
+ */
+export function localizeBlueprint<T extends Record<string, unknown>>(
+  sections: T,
+  locale: string,
+  brief: Record<string, unknown>,
+): { blueprint: T; coverage: number } {
+  const catalog = catalogs[locale];
+  if (!catalog) {
+    return { blueprint: sections, coverage: locale.startsWith("en") ? 1 : 0 };
+  }
+  const translate = createTranslator(catalog, sentenceJoiners[locale] ?? " ");
+  const verbatim = briefStrings(brief);
+  let total = 0;
+  let translated = 0;
+
+  const walk = (value: unknown, path: string): unknown => {
+    if (typeof value === "string") {
+      const key = path.slice(path.lastIndexOf(".") + 1);
+      const fixed = untranslatedKeys.has(key) || untranslatedPaths.has(path);
+      if (fixed || verbatim.has(value.trim()) || !/\p{L}/u.test(value)) {
+        return value;
+      }
+      total += 1;
+      const result = translate(value);
+      if (result === null) {
+        return value;
+      }
+      translated += 1;
+      return localizeDates(result, locale);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => walk(item, path));
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [
+          key,
+          walk(entry, path ? `${path}.${key}` : key),
+        ]),
+      );
+    }
+    return value;
+  };
+
+  const blueprint = walk(sections, "") as T;
+  return { blueprint, coverage: total ? translated / total : 1 };
+}
@@ -0,0 +1,1012 @@
+import type { Catalog } from ".";
+
+/** Japanese (ja-JP). Keys are the English templates; keep placeholders as written. */
+export const ja: Catalog = {
+  // Executive summary
+  "Launch mission: {product} will {goal}.":
+    "ローンチのミッション：{product}で「{goal}」を実現します。",
+  "We anchor messaging around the core product promise — {summary}.":
+    "メッセージは製品の中核となる約束「{summary}」を軸に据えます。",
+  "Tone must stay {tone} while dramatizing the problem: {problem}.":
+    "トーンは「{tone}」を保ちつつ、課題を鮮明に描きます：{problem}。",
+  "We lead with proof on how we {differentiation} and reinforce the pricing model ({pricing}).":
+    "「{differentiation}」を示す実証を先頭に置き、価格モデル（{pricing}）を補強します。",
+  "The prize: a total market worth {tam} a year, of which {som} is realistically winnable.":
+    "市場機会：年間{tam}の総市場のうち、現実的に獲得できるのは{som}です。",
+  "Built for {vertical}: {pillar} leads the proof, and the launch runs at least {days} days to fit the buying cycle.":
+    "{vertical}向け：{pillar}を実証の柱とし、購買サイクルに合わせてローンチ期間を最低{days}日とします。",
+  "In Japan, local partners, domestic references and time for consensus approval decide the launch.":
+    "日本では、現地パートナー、国内の導入事例、そして合意形成のための時間がローンチの成否を左右します。",
+  "Initial focus: orchestrate a {horizon} launch train that blends product-led motions with strategic storytelling.":
+    "当初の焦点：プロダクト主導の施策と戦略的なストーリーテリングを組み合わせたローンチ計画（{horizon}）を推進します。",
+
+  // Launch phases
+  Ignition: "始動",
+  Amplify: "拡大",
+  Convert: "成約",
+  Scale: "定着",
+  "Week {period} · {dates}": "第{period}週 · {dates}",
+  "Month {period} · {dates}": "{period}か月目 · {dates}",
+  "Pressure-test messaging, mobilize advocates, and orchestrate early storytelling assets.":
+    "メッセージを実地で検証し、支持者を動員し、初期のストーリー素材を整えます。",
+  "Scale demand generation with product-led growth loops and segment-specific campaigns.":
+    "プロダクト主導の成長ループとセグメント別キャンペーンで需要創出を拡大します。",
+  "Collapse sales cycles, drive multi-threaded expansions, and reinforce social proof flywheel.":
+    "商談期間を短縮し、複数部門への展開を進め、導入実績の好循環を強化します。",
+  "Standardize playbooks, automate renewals, and unlock new monetization levers.":
+    "プレイブックを標準化し、更新を自動化し、新たな収益化の手段を開きます。",
+  "Calibrate positioning with lighthouse customers": "先行顧客とともにポジショニングを調整する",
+  "Ship teaser content + founder narrative threads": "ティザーコンテンツと創業者の発信を公開する",
+  "Enable revenue teams with objection handling scripts":
+    "反論対応スクリプトで営業チームを支援する",
+  "Automate nurture sequences triggered by product signals":
+    "プロダクトのシグナルを起点にナーチャリングを自動化する",
+  "Launch category POV report featuring benchmark data":
+    "ベンチマークデータを盛り込んだカテゴリーレポートを公開する",
+  "Activate partners, communities, and paid acquisition pilots":
+    "パートナー、コミュニティ、有料広告の試行を始動する",
+  "Offer guided pilot sprints with solution engineers":
+    "ソリューションエンジニアが伴走するパイロットを提供する",
+  "Publish customer spotlight + quantifiable wins": "定量的な成果を示す顧客事例を公開する",
+  "Deploy executive workshops on AI governance and ROI":
+    "AIガバナンスとROIに関する経営層向けワークショップを実施する",
+  "Launch referral program with usage-based incentives":
+    "利用量に応じた特典付きの紹介プログラムを開始する",
+  "Spin up user conference or digital summit":
+    "ユーザーカンファレンスまたはオンラインサミットを開催する",
+  "Roll out roadmap updates with customer advisory boards":
+    "顧客諮問委員会とともにロードマップの更新を展開する",
+  "Vision deck with future-state architecture": "将来のアーキテクチャを示すビジョン資料",
+  "Design partner quotes and usage metrics": "デザインパートナーの声と利用指標",
+  "Interactive ROI calculator tied to persona outcomes": "ペルソナ別の成果に基づくROI計算ツール",
+  "Video walkthroughs showing aha moments": "「アハ体験」を示す操作解説動画",
+  "Case studies segmented by industry": "業界別の導入事例",
+  "Stack diagrams with integration depth": "連携の深さを示す構成図",
+  "Land & expand dashboard with cohort analysis":
+    "コホート分析付きのランド＆エクスパンド ダッシュボード",
+  "Public roadmap + changelog momentum": "公開ロードマップと継続的な更新履歴",
+  "Localize product UI, documentation and support hours for Japan":
+    "製品UI、ドキュメント、サポート時間を日本向けにローカライズする",
+  "Prepare material for consensus approval across departments":
+    "部門横断の稟議・合意形成に使える資料を用意する",
+  "APPI-compliant data handling statement in Japanese":
+    "個人情報保護法（APPI）に準拠したデータ取扱いに関する日本語の説明書",
+  "ISMAP registration status or ISO 27001 certificate": "ISMAP登録状況またはISO 27001認証",
+  "Case study from a domestic customer": "国内顧客の導入事例",
+  "Finish the security questionnaire and BAA package before outreach":
+    "アプローチ前にセキュリティ質問票とBAA一式を仕上げる",
+  "Run pilots under a signed BAA with clinical and IT sign-off":
+    "署名済みのBAAのもと、臨床部門とIT部門の承認を得てパイロットを実施する",
+  "HIPAA security risk assessment summary": "HIPAAセキュリティリスク評価の概要",
+  "Health system reference willing to take calls": "問い合わせに応じてくれる医療機関の導入事例",
+  "Pre-fill the vendor due-diligence questionnaire before outreach":
+    "アプローチ前にベンダーデューデリジェンスの質問票を記入しておく",
+  "Run third-party risk and model risk reviews in parallel with the pilot":
+    "パイロットと並行して第三者リスクとモデルリスクの審査を進める",
+  "Control mapping to the regulations buyers answer to": "購入者が従う規制へのコントロール対応表",
+  "Reference institution of similar size and charter": "規模と業態が近い金融機関の導入事例",
+  "Confirm a contract vehicle and security authorization path before outreach":
+    "アプローチ前に調達契約の枠組みとセキュリティ認可の道筋を確認する",
+  "Support procurement with RFP language and sole-source justification drafts":
+    "RFP向けの文案と随意契約の理由書案で調達を支援する",
+  "Accessibility conformance report (VPAT)": "アクセシビリティ適合報告書（VPAT）",
+  "Peer agency reference and past performance record": "同種の機関での導入事例と過去の実績",
+
+  // Personas
+  "Hands-on Builder": "現場の開発者",
+  "Growth Operator": "グロース責任者",
+  "Strategic Executive": "経営層",
+  "Rapid experimentation sandbox": "素早く試せるサンドボックス",
+  "Composable APIs with excellent docs": "充実したドキュメントを備えた組み合わせやすいAPI",
+  "Signals that surface product-market fit faster":
+    "プロダクトマーケットフィットを早く見極められるシグナル",
+  "Dev-first onboarding with minimal friction": "手間の少ない開発者向けオンボーディング",
+  "Proof of velocity — shipping hours, not weeks": "スピードの実証：数週間ではなく数時間でリリース",
+  "Community where peers share playbooks": "同業者がノウハウを共有するコミュニティ",
+  "Vendor lock-in or forced workflow changes": "ベンダーロックインや業務フローの強制的な変更",
+  "Unclear pricing scale for high usage": "大量利用時の料金体系が不明確",
+  "Slow support response for technical blockers": "技術的な問題へのサポート対応が遅い",
+  "Clarity on ROI and payback period": "ROIと投資回収期間の明確さ",
+  "Confidence in data quality and governance": "データ品質とガバナンスへの信頼",
+  "Frictionless collaboration with GTM teams": "営業・マーケティングとの円滑な連携",
+  "Success stories with hard revenue numbers": "具体的な売上数値を伴う成功事例",
+  "Live dashboards with attribution guardrails":
+    "信頼できるアトリビューション付きのリアルタイムダッシュボード",
+  "Roadmap stability and SOC2/ISO compliance": "安定したロードマップとSOC 2・ISOへの準拠",
+  "Hidden costs in seats or limits": "ライセンス数や上限に潜む隠れたコスト",
+  "Unproven integrations into current stack": "既存システムとの連携実績がない",
+  "Concern about AI hallucinations in production": "本番環境でのAIのハルシネーションへの懸念",
+  "Differentiated POV on market category": "市場カテゴリーに対する独自の視点",
+  "Risk mitigation and governance controls": "リスク低減とガバナンス管理",
+  "Evidence of defensible moats": "持続的な競争優位の根拠",
+  "Executive briefings benchmarking competitors": "競合比較を含む経営層向けブリーフィング",
+  "Vision decks articulating future roadmap": "将来のロードマップを示すビジョン資料",
+  "References from marquee customers": "著名企業の導入実績",
+  "Unclear compliance posture": "コンプライアンス対応が不明確",
+  "Limited enterprise support coverage": "エンタープライズ向けサポートが限定的",
+  "High switching cost from incumbents": "既存ベンダーからの切り替えコストが高い",
+  "Clinical Operations Leader": "臨床オペレーション責任者",
+  "Workflows that live inside the EHR instead of beside it":
+    "電子カルテの外ではなく中で完結するワークフロー",
+  "Less documentation time per clinician": "医療従事者1人あたりの記録時間の削減",
+  "Evidence the tool is safe for patient-facing work": "患者に関わる業務でも安全だという根拠",
+  "Peer health systems live with measured outcomes":
+    "測定された成果を持つ同規模の医療機関での稼働実績",
+  "EHR integration validated by hospital IT": "病院のIT部門が検証した電子カルテ連携",
+  "Clinician champions who ran the pilot": "パイロットを推進した医療従事者",
+  "Patient safety and liability if the output is wrong": "出力が誤っていた場合の患者安全と責任",
+  "Another login for overworked clinicians": "多忙な医療従事者にまた1つログインが増える",
+  "IT integration backlog measured in quarters": "数四半期分たまっているIT連携の作業",
+  "Privacy & Compliance Officer": "プライバシー・コンプライアンス責任者",
+  "A signed BAA and a clear map of where PHI flows": "署名済みのBAAと、PHIの流れを示す明確な図",
+  "SOC 2 or HITRUST evidence mapped to HIPAA safeguards":
+    "HIPAAの保護措置に対応づけたSOC 2またはHITRUSTの証跡",
+  "Audit trails for every access to patient data": "患者データへのすべてのアクセスの監査証跡",
+  "Security questionnaire answered before it is asked":
+    "求められる前に回答済みのセキュリティ質問票",
+  "Third-party risk assessment already complete": "完了済みの第三者リスク評価",
+  "De-identification options for analytics": "分析向けの匿名化オプション",
+  "PHI leaving our environment or training models":
+    "PHIが自社環境の外に出たり、モデルの学習に使われたりすること",
+  "Breach notification exposure": "情報漏えい時の通知義務のリスク",
+  "Subprocessors without BAAs": "BAAを結んでいない再委託先",
+  "Risk & Compliance Officer": "リスク・コンプライアンス責任者",
+  "Controls that satisfy examiners and auditors": "検査官と監査人を納得させる統制",
+  "Explainable outputs and documentation for model risk review":
+    "モデルリスク審査に向けた説明可能な出力と文書",
+  "Vendor due diligence that clears third-party risk":
+    "第三者リスク審査を通過できるベンダーデューデリジェンス",
+  "Peer institutions passed an exam with it in place": "導入済みの同業機関が検査を通過している",
+  "SOC 2 Type II and penetration test results on request":
+    "要望に応じたSOC 2 Type IIとペネトレーションテストの結果",
+  "Audit logs that export to the GRC system": "GRCシステムへエクスポートできる監査ログ",
+  "Examiner findings traced back to a vendor": "ベンダーに起因する検査での指摘",
+  "Black-box models with no documentation": "文書のないブラックボックスのモデル",
+  "Data residency and outsourcing rules": "データ保管場所と外部委託に関する規制",
+  "Financial Operations Leader": "金融オペレーション責任者",
+  "Lower cost per account or claim without adding risk":
+    "リスクを増やさずに口座や請求1件あたりのコストを下げる",
+  "Straight-through processing with a human in the loop":
+    "人による確認を組み込んだストレートスループロセッシング",
+  "Integration with the core banking or policy admin system":
+    "勘定系システムや保険契約管理システムとの連携",
+  "Quantified efficiency gains at a similar institution":
+    "同規模の金融機関で数値化された効率化の成果",
+  "Connectors to our core platform already built": "自社の基幹プラットフォームへの構築済みコネクタ",
+  "A change plan the regulator will be comfortable with": "規制当局が納得する変更計画",
+  "Core system integration risk": "基幹システム連携のリスク",
+  "Customer complaints if automation gets it wrong": "自動化が誤った場合の顧客からの苦情",
+  "Months of procurement and vendor onboarding": "数か月かかる調達とベンダー登録",
+  "Agency Program Manager": "行政機関のプログラムマネージャー",
+  "Outcomes that map to the agency's mission and performance goals":
+    "機関の使命と業績目標に沿った成果",
+  "Services every constituent can use, including Section 508 accessibility":
+    "Section 508のアクセシビリティを含め、すべての住民が使えるサービス",
+  "A rollout that fits the fiscal year and its appropriations": "会計年度と予算配分に合った展開",
+  "A peer agency already live": "すでに稼働している同種の機関",
+  "An existing contract vehicle or cooperative agreement to buy through":
+    "購入に使える既存の調達契約や共同購入協定",
+  "Modernization or grant funding identified": "特定済みの近代化予算や補助金",
+  "Procurement rules that make buying slow or impossible":
+    "購入を遅らせたり不可能にしたりする調達ルール",
+  "Public scrutiny if a service fails": "サービス障害時の世間からの批判",
+  "Change fatigue among long-tenured staff": "長年勤める職員の変化への疲れ",
+  "Procurement & Contracting Officer": "調達・契約担当官",
+  "A compliant way to buy: GSA Schedule, cooperative contract or RFP":
+    "規則に沿った購入方法：GSAスケジュール、共同購入契約、またはRFP",
+  "Security authorization (FedRAMP, StateRAMP) or a credible path to it":
+    "セキュリティ認可（FedRAMP、StateRAMP）または取得への確かな道筋",
+  "Pricing that fits a fixed budget line": "固定の予算枠に収まる価格",
+  "Listing on a contract vehicle the agency already uses": "機関がすでに使っている調達契約への掲載",
+  "Completed security authorization": "取得済みのセキュリティ認可",
+  "References and past performance from other agencies": "他機関での導入事例と実績",
+  "Sole-source justifications that are hard to write": "作成が難しい随意契約の理由書",
+  "Missing certifications the solicitation requires": "公募で求められる認証の不足",
+  "Usage-based pricing that can't be budgeted": "予算化できない従量課金",
+
+  // Messaging pillars
+  "Operational Precision": "業務の精度",
+  "Revenue Impact": "売上へのインパクト",
+  "Differentiated Advantage": "明確な優位性",
+  "Builder Velocity": "開発スピード",
+  "Automate the manual grind behind {problem} with orchestrated AI workflows.":
+    "「{problem}」の背後にある手作業を、連携したAIワークフローで自動化します。",
+  "Translate {product}'s intelligence into measurable revenue outcomes.":
+    "{product}のインテリジェンスを測定可能な売上成果につなげます。",
+  "Show how we {differentiation} so customers stay ahead of rivals.":
+    "「{differentiation}」を示し、顧客が競合の先を行けるようにします。",
+  "Empower builders to ship AI workflows safely, fast.":
+    "開発者がAIワークフローを安全かつ迅速にリリースできるようにします。",
+  "Before/after narratives illustrating time saved": "削減できた時間を示すビフォー・アフター",
+  "Deep dives on automation safeguards and governance": "自動化の安全策とガバナンスの詳細解説",
+  "Interactive dashboards revealing hidden bottlenecks":
+    "隠れたボトルネックを可視化するダッシュボード",
+  "Workflow teardown webinar": "ワークフロー分解ウェビナー",
+  "Usage dashboards with leading indicators": "先行指標を含む利用状況ダッシュボード",
+  "Checklist on AI guardrails and controls": "AIのガードレールと統制のチェックリスト",
+  "ROI case studies segmented by vertical": "業界別のROI事例",
+  "Benchmarks sourced from aggregated product data": "集計したプロダクトデータに基づくベンチマーク",
+  "Tools that forecast impact on core KPIs": "主要KPIへの影響を予測するツール",
+  "Outcome calculator with persona presets": "ペルソナ別プリセット付きの成果シミュレーター",
+  "Slide library with quantifiable wins": "定量的な成果をまとめたスライド集",
+  "Customer testimonials with hard metrics": "具体的な数値を伴う顧客の声",
+  "Competitive teardown with objection counters": "反論への回答を含む競合分析",
+  "Visionary roadmap articulating defensibility": "競争優位を示すビジョンあるロードマップ",
+  "Partner stories illustrating ecosystem fit": "エコシステムとの適合を示すパートナー事例",
+  "Comparison matrix with feature depth": "機能の深さを示す比較表",
+  "Executive briefing on category POV": "カテゴリーの視点に関する経営層向けブリーフィング",
+  "Joint announcements with strategic partners": "戦略パートナーとの共同発表",
+  "Stack diagrams explaining architecture choices": "アーキテクチャの選択を説明する構成図",
+  "Build-in-public showcases of rapid iteration": "高速な改善の過程を公開する事例紹介",
+  "Technical AMAs featuring product engineering": "開発チームが答える技術Q&Aセッション",
+  "Starter kits & templates library": "スターターキットとテンプレート集",
+  "Reference implementations in GitHub": "GitHub上のリファレンス実装",
+  "Latency and uptime dashboards": "レイテンシと稼働率のダッシュボード",
+  "Compliance-Ready Care": "コンプライアンス対応の医療",
+  "{product} protects PHI by design, so care teams adopt it without a privacy trade-off.":
+    "{product}は設計段階からPHIを保護するため、医療チームはプライバシーを犠牲にせず導入できます。",
+  "HIPAA safeguards walked through one by one": "HIPAAの保護措置を1つずつ解説",
+  "Clinician time saved, measured in a real pilot":
+    "実際のパイロットで測定した医療従事者の時間削減",
+  "Where PHI flows, where it is stored and who can see it": "PHIの流れ、保管場所、閲覧できる人",
+  "BAA template and subprocessor list": "BAAのひな形と再委託先一覧",
+  "SOC 2 Type II or HITRUST report": "SOC 2 Type IIまたはHITRUSTレポート",
+  "Pilot outcome study with a named health system": "実名の医療機関とのパイロット成果調査",
+  "Examiner-Ready Controls": "検査に耐える統制",
+  "{product} documents every decision, so risk teams can defend it to auditors and regulators.":
+    "{product}はすべての判断を記録するため、リスク部門は監査人や規制当局に説明できます。",
+  "Control mapping against examiner expectations": "検査官の期待に対するコントロール対応表",
+  "Model documentation written for model risk reviewers": "モデルリスク審査担当者向けのモデル文書",
+  "Efficiency gains signed off by a risk owner": "リスクオーナーが承認した効率化の成果",
+  "SOC 2 Type II report and penetration test summary":
+    "SOC 2 Type IIレポートとペネトレーションテストの概要",
+  "Model risk documentation pack": "モデルリスク文書一式",
+  "Pre-filled vendor due-diligence questionnaire": "記入済みのベンダーデューデリジェンス質問票",
+  "Mission-Ready Modernization": "使命に即した近代化",
+  "{product} helps agencies serve the public better within procurement and security rules.":
+    "{product}は、調達とセキュリティのルールの範囲内で、行政機関が住民により良いサービスを提供できるよう支援します。",
+  "Mission outcomes measured at a peer agency": "同種の機関で測定した使命上の成果",
+  "How to buy: vehicles, cooperative contracts and RFP language":
+    "購入方法：調達契約、共同購入契約、RFPの文案",
+  "Accessibility and security authorization status, explained plainly":
+    "アクセシビリティとセキュリティ認可の状況をわかりやすく説明",
+  "Contract vehicle and pricing sheet": "調達契約と価格表",
+  "FedRAMP or StateRAMP status letter": "FedRAMPまたはStateRAMPの状況に関する書面",
+  "Section 508 conformance report (VPAT)": "Section 508適合報告書（VPAT）",
+
+  // Channel strategy
+  "Founders' Narrative": "創業者による発信",
+  "Product-Led Motion": "プロダクト主導の成長",
+  "Category Community": "カテゴリーコミュニティ",
+  "Strategic Alliances": "戦略的アライアンス",
+  "Paid Acquisition": "有料広告による獲得",
+  "Field & Executive Events": "対面・経営層向けイベント",
+  "Earn trust with a strong POV and demonstrate the vision behind the product.":
+    "明確な視点で信頼を得て、製品の背後にあるビジョンを示します。",
+  "Drive trials and activation through immersive product experiences.":
+    "没入感のある製品体験でトライアルと活用を促進します。",
+  "Mobilize believers and nurture advocacy loops.": "支持者を動員し、推奨の循環を育てます。",
+  "Leverage partner ecosystems to tap into qualified demand.":
+    "パートナーのエコシステムを活用し、質の高い需要を獲得します。",
+  "Buy targeted reach to accelerate demand once messaging is proven.":
+    "メッセージの有効性が確認できた段階で、狙いを絞った広告で需要を加速します。",
+  "Create high-touch moments that collapse enterprise buying cycles.":
+    "きめ細かな接点をつくり、エンタープライズの購買期間を短縮します。",
+  "Prioritize co-selling motions for revenue acceleration.":
+    "売上の加速に向けて、パートナーとの共同販売を優先します。",
+  "Double down on aha moments and guided onboarding.":
+    "「アハ体験」とガイド付きオンボーディングに注力します。",
+  "Bi-weekly build-in-public threads across LinkedIn + X": "LinkedInとXでの隔週の開発過程の発信",
+  "Monthly founder letter unpacking roadmap signals":
+    "ロードマップの方向性を解説する月次の創業者レター",
+  "Quarterly AMAs with flagship design partners":
+    "主要デザインパートナーとの四半期ごとのQ&Aセッション",
+  "Interactive demo workspace refreshed every sprint":
+    "スプリントごとに更新するインタラクティブなデモ環境",
+  "Onboarding drip sequence tailored to role & use case":
+    "役割とユースケースに合わせたオンボーディングメール",
+  "In-app nudges calibrated to aha moments & milestones":
+    "「アハ体験」とマイルストーンに合わせたアプリ内ガイド",
+  "Weekly synthetic benchmarks distilled from anonymized data":
+    "匿名化データから作成する週次ベンチマーク",
+  "Fortnightly roundtables with lighthouse customers": "先行顧客との隔週の座談会",
+  "Slack/Discord crew with office hours from product & GTM leaders":
+    "プロダクト・営業責任者が相談に応じるSlack／Discordコミュニティ",
+  "Co-marketing webinars aligned to partner roadmaps":
+    "パートナーのロードマップに合わせた共同ウェビナー",
+  "Solution briefings for partner SEs + AEs": "パートナーのSE・営業担当向けソリューション説明会",
+  "Joint ROI calculators highlighting combined value": "組み合わせた価値を示す共同ROI計算ツール",
+  "Weekly creative refresh across search, social, and sponsorships":
+    "検索・SNS・スポンサーシップの広告クリエイティブを毎週更新",
+  "Persona-specific retargeting tied to product signals":
+    "プロダクトのシグナルに基づくペルソナ別リターゲティング",
+  "Bi-weekly budget reallocation based on CAC by segment":
+    "セグメント別CACに基づく隔週の予算再配分",
+  "Monthly executive dinners with target accounts": "ターゲット企業の経営層との月次会食",
+  "Quarterly sponsored summits with live product theatre":
+    "製品デモを交えた四半期ごとの協賛サミット",
+  "Post-event follow-up sequences within 48 hours": "イベント後48時間以内のフォローアップ",
+  "Followers growth": "フォロワー数の伸び",
+  "Thought leadership mentions": "ソートリーダーとしての言及数",
+  "Inbound demos": "インバウンドのデモ依頼",
+  "Signup-to-activation rate": "登録から活用開始までの率",
+  "Time-to-first-value": "最初の価値実感までの時間",
+  "Feature adoption": "機能の利用率",
+  "Net promoter score": "ネットプロモータースコア",
+  "Community engagement": "コミュニティのエンゲージメント",
+  "Referral sourced pipeline": "紹介経由のパイプライン",
+  "Partner influenced ARR": "パートナーが関与したARR",
+  "Partner-sourced opportunities": "パートナー経由の商談",
+  "Attach rate": "アタッチ率",
+  "Cost per acquisition": "獲得単価",
+  "Paid-sourced pipeline": "有料広告経由のパイプライン",
+  "Click-to-signup rate": "クリックから登録への転換率",
+  "Meetings booked": "商談設定数",
+  "Event-influenced pipeline": "イベントが関与したパイプライン",
+  "Account engagement": "ターゲット企業のエンゲージメント",
+  "Bi-weekly posts on X and note in Japanese": "Xとnoteでの隔週の日本語投稿",
+  "Monthly founder letter adapted by a native copywriter":
+    "ネイティブのコピーライターが仕上げる月次の創業者レター",
+  "Quarterly seminars with flagship design partners":
+    "主要デザインパートナーとの四半期ごとのセミナー",
+  "Monthly study sessions announced through connpass": "connpassで告知する月次の勉強会",
+  "Quarterly user meetups in Tokyo and Osaka": "東京と大阪での四半期ごとのユーザー会",
+  "Japanese-language community with scheduled office hours":
+    "定期的な相談時間を設けた日本語コミュニティ",
+  "Weekly creative refresh across Yahoo! JAPAN, Google and LINE ads":
+    "Yahoo! JAPAN、Google、LINE広告のクリエイティブを毎週更新",
+  "Retargeting tied to whitepaper downloads":
+    "ホワイトペーパーのダウンロードに連動したリターゲティング",
+  "SIer & Reseller Alliances": "SIer・販売代理店との提携",
+  "Reach enterprises through the system integrators and resellers they already buy from.":
+    "企業が既に取引しているSIerや販売代理店を通じてアプローチします。",
+  "Japanese sales kits and demo environments for partner teams":
+    "パートナー向けの日本語営業キットとデモ環境",
+  "Monthly pipeline reviews with each SIer partner": "各SIerパートナーとの月次パイプラインレビュー",
+  "Joint proposals timed to the April fiscal year": "4月始まりの年度に合わせた共同提案",
+  "SIer-sourced opportunities": "SIer経由の商談",
+  "Partner proposals submitted": "パートナーによる提案件数",
+  "Partner win rate": "パートナー案件の受注率",
+  "Seminars & Expos": "セミナー・展示会",
+  "Build credibility at industry expos and hosted seminars, where Japanese buyers gather information.":
+    "日本の購買担当者が情報収集する業界展示会や自社セミナーで信頼を築きます。",
+  "Exhibit at one major IT expo per half-year": "半期ごとに大型IT展示会へ1回出展",
+  "Monthly hosted seminars with a customer speaker": "顧客が登壇する月次の自社セミナー",
+  "Whitepaper follow-up within three business days": "3営業日以内のホワイトペーパー経由のフォロー",
+  "Seminar attendees": "セミナー参加者数",
+  "Business card scans followed up": "フォローした名刺スキャン数",
+  "Health System Alliances": "医療機関とのアライアンス",
+  "Reach providers through EHR marketplaces, GPOs and health system innovation centers.":
+    "電子カルテのマーケットプレイス、共同購買組織（GPO）、医療機関のイノベーションセンターを通じて医療提供者にリーチします。",
+  "EHR marketplace listings kept current with each release":
+    "リリースごとに更新する電子カルテマーケットプレイスの掲載情報",
+  "Quarterly briefings with GPO and innovation center leads":
+    "GPOとイノベーションセンターの担当者への四半期ごとの説明会",
+  "Outcome studies co-authored with design-partner health systems":
+    "デザインパートナーの医療機関と共同執筆する成果研究",
+  "Marketplace-sourced opportunities": "マーケットプレイス経由の商談",
+  "Health systems in pilot": "パイロット中の医療機関",
+  "Pilot-to-contract time": "パイロットから契約までの期間",
+  "Clinical Conferences & CME": "臨床学会と医療従事者向け教育",
+  "Earn clinician credibility at HIMSS, specialty society meetings and accredited education.":
+    "HIMSS、専門学会、認定教育プログラムで医療従事者からの信頼を得ます。",
+  "HIMSS and specialty society presence planned two quarters ahead":
+    "HIMSSと専門学会への出展を2四半期前から計画",
+  "Clinician-led webinars reviewed by medical affairs":
+    "メディカルアフェアーズが確認した医療従事者主導のウェビナー",
+  "One peer-reviewed abstract or poster per major conference":
+    "主要学会ごとに査読付き抄録またはポスターを1件",
+  "Clinician meetings booked": "医療従事者との面談予約数",
+  "Abstract acceptances": "抄録の採択数",
+  "Industry Associations & Analysts": "業界団体とアナリスト",
+  "Build credibility through industry associations, analyst coverage and regtech forums.":
+    "業界団体、アナリストのレポート、レグテック関連フォーラムを通じて信頼を築きます。",
+  "Quarterly briefings with banking and insurance analysts":
+    "銀行・保険アナリストへの四半期ごとの説明",
+  "Working-group seats in industry and state associations": "業界団体や州の団体の作業部会への参加",
+  "Regulatory update webinars co-hosted with compliance advisors":
+    "コンプライアンス顧問と共催する規制動向ウェビナー",
+  "Analyst mentions": "アナリストによる言及数",
+  "Association-sourced meetings": "業界団体経由の面談数",
+  "Shortlist inclusions": "候補リスト入りの件数",
+  "Core Platform Partnerships": "基幹プラットフォームとの提携",
+  "Reach institutions through the core banking, payments and policy platforms they already trust.":
+    "金融機関がすでに信頼している勘定系、決済、保険契約管理のプラットフォームを通じてリーチします。",
+  "Certified integrations listed on core platform marketplaces":
+    "基幹プラットフォームのマーケットプレイスに掲載した認定連携",
+  "Monthly account planning with platform partner reps":
+    "プラットフォームパートナーの担当者との月次アカウント計画",
+  "Co-branded implementation guides for shared customers": "共通顧客向けの共同ブランドの導入ガイド",
+  "Certified integrations": "認定連携の数",
+  "Attach rate on partner deals": "パートナー案件での同時採用率",
+  "Contract Vehicles & Resellers": "調達契約と再販パートナー",
+  "Make the product buyable through GSA Schedule, cooperative contracts and public sector resellers.":
+    "GSAスケジュール、共同購入契約、公共部門向け再販パートナーを通じて製品を購入可能にします。",
+  "Contract vehicle listings and price lists kept current":
+    "調達契約の掲載情報と価格表を常に最新に保つ",
+  "Monthly pipeline reviews with public sector resellers":
+    "公共部門の再販パートナーとの月次パイプラインレビュー",
+  "RFP response library refreshed every quarter": "四半期ごとに更新するRFP回答集",
+  "Contract vehicles available": "利用可能な調達契約の数",
+  "Reseller-sourced opportunities": "再販パートナー経由の商談",
+  "RFP win rate": "RFPの受注率",
+  "Government Events & Briefings": "行政機関向けイベントと説明会",
+  "Meet agency leaders where they convene and brief them on modernization outcomes.":
+    "行政機関の幹部が集まる場で会い、近代化の成果を説明します。",
+  "Government technology summits booked a fiscal year ahead":
+    "1会計年度前から予約する行政テクノロジーサミット",
+  "Agency briefings within ethics and gift rules": "倫理規程と贈答ルールの範囲内での機関向け説明会",
+  "Follow-up briefings timed to budget planning": "予算計画の時期に合わせたフォローアップ説明会",
+  "Agency meetings booked": "行政機関との面談予約数",
+  "Agencies in evaluation": "評価中の行政機関",
+
+  // Growth experiments
+  "Persona-Calibrated Onboarding Concierge": "ペルソナ別オンボーディング支援",
+  "If {product} detects the user's core job-to-be-done during onboarding, we can surface relevant templates and increase activation.":
+    "{product}がオンボーディング中にユーザーの主な目的を把握できれば、適切なテンプレートを提示して活用率を高められます。",
+  "Create role-specific welcome flows with scripted prompts":
+    "役割別のウェルカムフローとガイド文を作成する",
+  "Instrument micro-surveys tied to first-session actions":
+    "初回利用時の操作に連動した簡易アンケートを設置する",
+  "Route to nurture tracks featuring proof tied to persona needs":
+    "ペルソナのニーズに合った実証を含むナーチャリングへ誘導する",
+  "Activation rate within first 7 days segmented by persona.": "ペルソナ別の最初の7日間の活用率。",
+  "Narrative Velocity Series": "ストーリー連載シリーズ",
+  "A serialized content program that dramatizes how {product} solves {problem} will increase inbound demo requests.":
+    "{product}が「{problem}」をどう解決するかを描く連載コンテンツで、インバウンドのデモ依頼が増えます。",
+  "Produce monthly hero stories with metrics-oriented infographics":
+    "数値を示すインフォグラフィック付きの代表事例を毎月制作する",
+  "Distribute across LinkedIn, newsletter, and industry communities":
+    "LinkedIn、ニュースレター、業界コミュニティで配信する",
+  "Add CTA to book a strategy workshop with solution consultants":
+    "ソリューションコンサルタントとの戦略ワークショップ予約への導線を加える",
+  "Demo volume, win rate, and sourced ARR from the campaign.":
+    "キャンペーン経由のデモ件数、受注率、獲得ARR。",
+  "AI Pilot Sprint Rooms": "AIパイロットスプリント",
+  "Facilitated sprints with success blueprints will collapse evaluation cycles for {audience}.":
+    "成功の道筋を示す伴走型スプリントで、{audience}の検討期間を短縮できます。",
+  "Spin up a Miro/FigJam board capturing sprint agenda and KPIs":
+    "スプリントの議題とKPIをまとめたMiro／FigJamボードを用意する",
+  "Bundle onboarding docs, governance checklist, and ROI calculator":
+    "オンボーディング資料、ガバナンスチェックリスト、ROI計算ツールをまとめる",
+  "Assign a solutions engineer to co-build the first workflow":
+    "最初のワークフローを共に構築するソリューションエンジニアを割り当てる",
+  "Pilot-to-paid conversion and speed-to-contract.":
+    "パイロットから有償契約への転換率と契約までの期間。",
+  "Reverse Trial of the Premium Tier": "プレミアムプランのリバーストライアル",
+  "Giving new {product} signups full premium access for 14 days before downgrading will lift paid conversion.":
+    "{product}の新規登録者にダウングレード前の14日間プレミアム機能を開放すると、有償転換率が上がります。",
+  "Unlock premium workflows for every new workspace by default":
+    "すべての新規ワークスペースでプレミアム機能を標準で開放する",
+  "Send day-10 recap of premium value delivered": "10日目にプレミアム機能で得た価値のまとめを送る",
+  "Downgrade with one-click upgrade path and usage snapshot":
+    "ワンクリックでアップグレードできる導線と利用状況を添えてダウングレードする",
+  "Trial-to-paid conversion versus the standard free plan cohort.":
+    "通常の無料プランのコホートと比べたトライアルから有償への転換率。",
+  "Transparent Usage Estimator": "利用料金シミュレーター",
+  "Letting buyers model their {product} bill up front will neutralize pricing-scale objections and shorten evaluations.":
+    "購入者が{product}の費用を事前に試算できれば、料金の増加に関する懸念が解消され、検討期間が短くなります。",
+  "Ship a pricing page calculator driven by expected workload":
+    "想定利用量から試算できる計算ツールを料金ページに設置する",
+  "Embed the estimate in sales follow-ups and proposals":
+    "試算結果を営業のフォローや提案書に組み込む",
+  "Alert accounts before they cross plan thresholds": "プランの上限を超える前に顧客へ通知する",
+  "Pricing-page-to-signup rate and pricing objections logged in CRM.":
+    "料金ページからの登録率とCRMに記録された料金面の懸念。",
+  "Use-Case Template Gallery": "ユースケース別テンプレート集",
+  "A public gallery of ready-made {product} workflows will turn search and community traffic into activated signups.":
+    "すぐに使える{product}のワークフローを公開すると、検索やコミュニティからの流入が活用につながる登録に変わります。",
+  "Publish ten templates mapped to the top jobs-to-be-done":
+    "主要な目的に対応するテンプレートを10件公開する",
+  "Make each template one-click importable from the gallery":
+    "各テンプレートをギャラリーからワンクリックで取り込めるようにする",
+  "Invite design partners to contribute and co-brand templates":
+    "デザインパートナーにテンプレートの提供と共同ブランド化を依頼する",
+  "Template-sourced signups and their 7-day activation rate.":
+    "テンプレート経由の登録数と7日以内の活用率。",
+  "Champion Referral Loop": "チャンピオン紹介プログラム",
+  "Rewarding power users who bring peers into {product} will create a compounding acquisition channel.":
+    "同僚を{product}に招くパワーユーザーに報いることで、成長し続ける獲得チャネルが生まれます。",
+  "Identify champions from usage depth and community activity":
+    "利用の深さとコミュニティでの活動からチャンピオンを見つける",
+  "Offer credits or swag for referred teams that activate":
+    "紹介されたチームが活用を始めたらクレジットやノベルティを提供する",
+  "Spotlight champions in community roundtables": "コミュニティの座談会でチャンピオンを紹介する",
+  "Referral-sourced signups and pipeline per active champion.":
+    "アクティブなチャンピオン1人あたりの紹介経由の登録数とパイプライン。",
+  "Partner Co-Sell Launch Bundle": "パートナー共同販売パッケージ",
+  "Packaging {product} with a partner's platform will unlock qualified demand from their installed base.":
+    "{product}をパートナーのプラットフォームと組み合わせることで、その既存顧客から質の高い需要を得られます。",
+  "Select two partners whose customers share the problem":
+    "顧客が同じ課題を抱えるパートナーを2社選ぶ",
+  "Build a joint offer with bundled onboarding": "オンボーディングを含む共同プランを作る",
+  "Run enablement sessions for partner AEs and SEs":
+    "パートナーの営業担当とSE向けに勉強会を実施する",
+  "Partner-sourced opportunities and influenced ARR.": "パートナー経由の商談と関与したARR。",
+  "Executive Roundtable Series": "経営層向け座談会シリーズ",
+  "Closed-door roundtables on {problem} will open multi-threaded conversations with target accounts.":
+    "「{problem}」をテーマにした非公開の座談会で、ターゲット企業の複数部門との対話が始まります。",
+  "Host monthly roundtables for eight to twelve senior leaders":
+    "8～12名の経営幹部を招いた座談会を毎月開催する",
+  "Share an anonymized benchmark as the discussion anchor":
+    "議論の起点として匿名化したベンチマークを共有する",
+  "Follow up within 48 hours with a tailored assessment offer":
+    "48時間以内に個別の診断提案でフォローする",
+  "Meetings booked and pipeline created per roundtable.":
+    "座談会1回あたりの商談設定数と創出パイプライン。",
+  "Problem-Aware Retargeting": "課題認識層へのリターゲティング",
+  "Retargeting visitors who engaged with {problem} content will convert more efficiently than cold paid audiences.":
+    "「{problem}」に関するコンテンツに関心を示した訪問者へのリターゲティングは、新規の有料広告より効率よく成果につながります。",
+  "Tag problem-focused content and build engaged-visitor audiences":
+    "課題に関するコンテンツにタグを付け、関心の高い訪問者のオーディエンスを作る",
+  "Serve persona-specific proof ads with a low-friction CTA":
+    "気軽に反応できる導線付きで、ペルソナ別の実証広告を配信する",
+  "Cap frequency and rotate creative weekly": "表示回数を制限し、クリエイティブを毎週入れ替える",
+  "Cost per {metric} from retargeted versus cold audiences.":
+    "リターゲティングと新規オーディエンスでの{metric}あたりのコストの比較。",
+  "Team Invite Expansion Nudges": "チーム招待の促進",
+  "Prompting active users to invite teammates at collaboration moments will grow seats per account.":
+    "共同作業の場面でアクティブユーザーに同僚の招待を促すと、顧客あたりのライセンス数が増えます。",
+  "Detect share, comment and handoff moments in product":
+    "製品内の共有・コメント・引き継ぎの場面を検出する",
+  "Trigger contextual invite prompts with teammate suggestions":
+    "同僚の候補を添えて、状況に応じた招待を促す",
+  "Offer admins a seat-bundle upgrade once three invites land":
+    "招待が3件承諾されたら管理者にライセンスパックを提案する",
+  "Seats per account and invite acceptance rate.": "顧客あたりのライセンス数と招待の承諾率。",
+  "Category Benchmark Report": "カテゴリーベンチマークレポート",
+  "An original benchmark on {problem} will make {product} the reference point for {audience} and generate qualified leads.":
+    "「{problem}」に関する独自のベンチマークにより、{product}が{audience}にとっての基準となり、質の高いリードが生まれます。",
+  "Survey the audience and combine with anonymized product data":
+    "対象者に調査を行い、匿名化したプロダクトデータと組み合わせる",
+  "Publish a gated report with a shareable executive summary":
+    "共有しやすいサマリー付きの登録制レポートを公開する",
+  "Turn findings into a webinar and sales conversation starters":
+    "調査結果をウェビナーと営業の話題づくりに活用する",
+  "Report downloads, influenced pipeline and media mentions.":
+    "レポートのダウンロード数、関与したパイプライン、メディア掲載数。",
+
+  // Measurement
+  "Week {period}": "第{period}週",
+  "Month {period}": "{period}か月目",
+  "Read as {amount} by {due} ({days}-day window).": "{due}までに{amount}と解釈（期間{days}日）。",
+  "Read as {amount} by {due} (the {days}-day launch horizon, since the metric names no window).":
+    "{due}までに{amount}と解釈（指標に期間の指定がないため、ローンチ期間の{days}日を適用）。",
+  "Read as {amount} per {run}, {total} in total by {due} ({days}-day window).":
+    "{run}あたり{amount}、{due}までに合計{total}と解釈（期間{days}日）。",
+  "Read as {amount} per {run}, {total} in total by {due} (the {days}-day launch horizon, since the metric names no window).":
+    "{run}あたり{amount}、{due}までに合計{total}と解釈（指標に期間の指定がないため、ローンチ期間の{days}日を適用）。",
+  "Assumes a {value} average contract from the market inputs, so {total} new {stage}.":
+    "市場データの平均契約額{value}を前提とし、新規{stage}は{total}です。",
+  "Assumes a {value} average contract for {model} pricing, so {total} new {stage}.":
+    "{model}型の価格での平均契約額{value}を前提とし、新規{stage}は{total}です。",
+  "North star · {unit}": "ノーススター指標 · {unit}",
+  "North star": "ノーススター指標",
+  "Not quantified — {metric}": "未定量 — {metric}",
+  "{metric} ({total} by {due})": "{metric}（{due}までに{total}）",
+  "{count} by {due} ({rate}% convert onward)": "{due}までに{count}（次段階への転換率{rate}%）",
+  "Define a count and window to unlock milestone tracking":
+    "件数と期間を定義するとマイルストーンを追跡できます",
+  "Reviewed weekly against milestone targets": "マイルストーン目標に対して毎週確認",
+  "Reviewed monthly against milestone targets": "マイルストーン目標に対して毎月確認",
+  "Activation Velocity": "活用開始のスピード",
+  "≥ 45% of signups reach aha moment within 72 hours":
+    "登録者の45%以上が72時間以内に「アハ体験」に到達",
+  "Product analytics funnel with persona & channel tags":
+    "ペルソナ・チャネルタグ付きのプロダクト分析ファネル",
+  "Reviewed twice weekly with product + growth standup": "プロダクトとグロースの定例で週2回確認",
+  "Pipeline Momentum": "パイプラインの勢い",
+  "≥ 30% of SQL pipeline sourced from hero channels":
+    "SQLパイプラインの30%以上を主要チャネルから創出",
+  "CRM multi-touch attribution dashboard": "CRMのマルチタッチアトリビューション ダッシュボード",
+  "Reported weekly to revenue leadership": "営業責任者に毎週報告",
+  "Expansion Signal": "拡大のシグナル",
+  "≥ 20% accounts adopt 2+ advanced workflows in 60 days":
+    "60日以内に顧客の20%以上が2つ以上の高度なワークフローを利用",
+  "Usage cohort reports & health scoring in CS CRM":
+    "カスタマーサクセスCRMでの利用コホートとヘルススコア",
+  "Monthly lifecycle business review": "月次のライフサイクルレビュー",
+  "Advocacy Flywheel": "推奨の好循環",
+  "10 new public testimonials or case studies per quarter":
+    "四半期ごとに公開の顧客の声または事例を10件",
+  "Community tracking sheet + marketing automation tags":
+    "コミュニティ管理シートとマーケティングオートメーションのタグ",
+  "Monthly with marketing leadership": "マーケティング責任者と毎月",
+  "Website visitors": "Webサイト訪問者",
+  Leads: "リード",
+  "Marketing-qualified leads": "MQL（マーケティング適格リード）",
+  "Sales-qualified leads": "SQL（営業適格リード）",
+  Opportunities: "商談",
+  Customers: "顧客",
+  Signups: "登録",
+  "Activated accounts": "活用を開始したアカウント",
+  "Paying accounts": "有料アカウント",
+  "Web analytics with UTM and channel tags": "UTMとチャネルタグ付きのWeb解析",
+  "Marketing automation form fills and enrichment":
+    "マーケティングオートメーションのフォーム入力とデータ補完",
+  "Lead scoring with persona and channel tags": "ペルソナ・チャネルタグ付きのリードスコアリング",
+  "CRM lifecycle stages with SDR acceptance": "SDRの受け入れを含むCRMのライフサイクルステージ",
+  "CRM opportunity pipeline by source": "流入元別のCRM商談パイプライン",
+  "Closed-won deals in CRM": "CRM上の受注案件",
+  "Product analytics signup events by channel": "チャネル別のプロダクト分析の登録イベント",
+  "Product analytics activation milestone by persona":
+    "ペルソナ別のプロダクト分析の活用マイルストーン",
+  "Billing system conversions by plan": "プラン別の課金システム上の転換",
+  "Post-launch": "ローンチ後",
+  'The deadline in "{metric}" is before the launch starts on {date}.':
+    "「{metric}」の期限がローンチ開始日（{date}）より前です。",
+  'The deadline in "{metric}" isn\'t a real date.':
+    "「{metric}」の期限は有効な日付ではありません。",
+  "Give a date after the launch start to get milestones and funnel targets.":
+    "マイルストーンとファネル目標を得るには、ローンチ開始日より後の日付を指定してください。",
+  'Couldn\'t find a target number in "{metric}".':
+    "「{metric}」に目標の数値が見つかりませんでした。",
+  'Phrase it as a count and window, e.g. "50 SQLs in 90 days", to get milestones and funnel targets.':
+    "マイルストーンとファネル目標を得るには、「90日で50件のSQL」のように件数と期間で表してください。",
+  '"{metric}" is a rate, so funnel volumes can\'t be back-calculated from it.':
+    "「{metric}」は率のため、ファネルの件数を逆算できません。",
+  'Add a count such as "200 paying teams in 90 days" to get milestones and funnel targets.':
+    "マイルストーンとファネル目標を得るには、「90日で有料チーム200件」のような件数を加えてください。",
+  'Found {value} in "{metric}" but no unit the funnel recognises (for example SQLs, demos, signups, activated users, customers or ARR).':
+    "「{metric}」に{value}がありますが、ファネルが認識できる単位（SQL、デモ、登録、活用ユーザー、顧客、ARRなど）がありません。",
+
+  // Sales enablement
+  "Integration & switching": "連携と乗り換え",
+  "Security & compliance": "セキュリティとコンプライアンス",
+  "AI trust": "AIへの信頼",
+  Support: "サポート",
+  Pricing: "価格",
+  Proof: "実証",
+  '"{objection}" is a fair concern for a {persona}.':
+    "{persona}にとって「{objection}」はもっともな懸念です。",
+  "{product} is built to fit the tools they already run: {differentiation}.":
+    "{product}は既存のツールに組み込めるよう設計されています：{differentiation}。",
+  "Offer a scoped pilot on one workflow so nothing is ripped out.":
+    "既存の仕組みを置き換えずに済むよう、1つのワークフローに絞ったパイロットを提案します。",
+  "Send the security pack before they ask and bring an SE to the next call to cover governance controls in {product}.":
+    "求められる前にセキュリティ資料を送り、次回の打ち合わせにはSEが同席して{product}のガバナンス機能を説明します。",
+  "Run {product} on their own data during the demo and show where human review steps in.":
+    "デモでは顧客自身のデータで{product}を動かし、人による確認が入る箇所を示します。",
+  "Anchor on what makes it different: {differentiation}.":
+    "差別化のポイントを軸に据えます：{differentiation}。",
+  "Name the support contact and response-time commitment in the proposal, and offer a reference customer who has used {product} support.":
+    "提案書にサポート窓口と応答時間の約束を明記し、{product}のサポートを利用した導入企業を紹介します。",
+  "Walk through the pricing line by line: {pricing}.": "価格を項目ごとに説明します：{pricing}。",
+  "Then model their bill at today's usage and at double it, so there are no surprises.":
+    "そのうえで現在の利用量とその2倍の場合の請求額を試算し、想定外の費用がないようにします。",
+  "Lead with the outcome, not features: {differentiation}.":
+    "機能ではなく成果から話します：{differentiation}。",
+  "Offer a customer story from a team with the same problem.":
+    "同じ課題を抱えていたチームの事例を紹介します。",
+  'Where does "{problem}" hurt most today: time, cost or risk?':
+    "「{problem}」は現在、時間・コスト・リスクのどこに最も影響していますか？",
+  "How well does your current setup deliver {need}?":
+    "現在の仕組みは「{need}」をどの程度実現できていますか？",
+  "What would you need to see to trust a new tool?": "新しいツールを信頼するには何が必要ですか？",
+  "Teams like yours often ask for {trigger}.":
+    "同じようなチームからは「{trigger}」を求められることがよくあります。",
+  "Who else would need to see this before it becomes a project?":
+    "正式なプロジェクトになる前に、ほかに誰の確認が必要ですか？",
+  "What does your buying process look like from yes to signed contract?":
+    "合意から契約締結までの購買プロセスはどのようになっていますか？",
+  "Which workflow would you try first, and who would set it up?":
+    "最初にどのワークフローで試し、誰が設定しますか？",
+  "Which other teams run into the same problem today?":
+    "ほかに同じ課題を抱えているチームはどこですか？",
+  "Book the follow-up demo with the decision maker before hanging up.":
+    "通話を終える前に、意思決定者を交えた次回のデモを予約します。",
+  "Agree a mutual close plan with dates and owners.":
+    "日程と担当者を明記した共同のクロージング計画に合意します。",
+  "Get them into a live workspace and schedule a check-in after first use.":
+    "実際のワークスペースを使い始めてもらい、初回利用後のフォローアップを設定します。",
+  "Set up a success review with the sponsor and the next team.":
+    "スポンサーと次のチームを交えた成果レビューを設定します。",
+  "Pricing to share if asked: {pricing}.": "聞かれた場合に伝える価格：{pricing}。",
+  "Goal fit": "目標との適合",
+  'Winning this account moves us toward "{goal}".':
+    "この顧客の獲得は「{goal}」の達成に近づきます。",
+  Pain: "課題",
+  "They describe the problem in their own words and its cost.":
+    "課題とそのコストを自分の言葉で説明している。",
+  Authority: "決裁権",
+  "The buyer or a direct report of the buyer is on the call.":
+    "購買責任者またはその直属の部下が同席している。",
+  Timing: "時期",
+  "There is a reason to act this quarter.": "今四半期中に動く理由がある。",
+  Budget: "予算",
+  "Budget is allocated or a funding path is named.":
+    "予算が確保されているか、資金の出どころが明確になっている。",
+  "Decision process": "意思決定プロセス",
+  "Steps, approvers and paper process are mapped.": "手順、承認者、契約手続きが把握できている。",
+  "Close date": "成約予定日",
+  "A mutual close plan with a target date is agreed.":
+    "目標日を含む共同のクロージング計画に合意している。",
+  "Use case": "ユースケース",
+  "One concrete workflow to run first is named.":
+    "最初に運用する具体的なワークフローが決まっている。",
+  Champion: "推進役",
+  "A hands-on user will set it up this week.": "実務担当者が今週中に設定する。",
+  "Activation path": "活用開始までの道筋",
+  "They can reach first value without procurement.": "購買手続きなしで最初の価値を得られる。",
+  "Current value": "現在の価値",
+  "Usage or outcomes on today's plan are documented.":
+    "現在のプランでの利用状況や成果が記録されている。",
+  "New team or use case": "新しいチームまたはユースケース",
+  "A second team or workflow is identified.": "2つ目のチームまたはワークフローが特定されている。",
+  Sponsor: "スポンサー",
+  "An executive sponsor backs the wider rollout.": "経営層のスポンサーが全社展開を後押ししている。",
+  "Thanks for the time.": "お時間をいただきありがとうございます。",
+  'I work with {persona}s who tell us "{problem}." Does that match what you see?':
+    "{persona}の方々から「{problem}」という声をよく伺います。御社でも同じ状況でしょうか？",
+  "{summary}. What makes {product} different: {differentiation}.":
+    "{summary}。{product}の違い：{differentiation}。",
+
+  // Pricing
+  Enterprise: "エンタープライズ",
+  Free: "無料",
+  "Pay as you go": "従量課金",
+  "Committed use": "利用量コミット",
+  Team: "チーム",
+  Business: "ビジネス",
+  Starter: "スターター",
+  Pro: "プロ",
+  Pilot: "パイロット",
+  Platform: "プラットフォーム",
+  "Organisations with security and procurement reviews": "セキュリティ審査と購買審査がある組織",
+  "Evaluators and individual users": "評価担当者と個人ユーザー",
+  "Builders and small teams trying it on real work": "実際の業務で試す開発者や小規模チーム",
+  "Teams with steady monthly volume": "毎月安定した利用量があるチーム",
+  "A single team adopting it together": "チーム単位で導入する1つのチーム",
+  "Several teams with an admin owning the rollout": "管理者が展開を主導する複数のチーム",
+  "Small teams with one use case": "ユースケースが1つの小規模チーム",
+  "Growing teams running it every day": "毎日利用する成長中のチーム",
+  "One team proving value before a wider rollout": "全社展開の前に価値を検証する1つのチーム",
+  "Business units standardising on it": "標準ツールとして採用する事業部門",
+  "workflow run": "ワークフロー実行",
+  user: "ユーザー",
+  workspace: "ワークスペース",
+  "Volume of {unit}s agreed in the contract": "契約で合意した{unit}の量",
+  "A capped number of {unit}s": "上限付きの{unit}数",
+  "Billed per {unit}": "{unit}ごとに課金",
+  "A committed block of {unit}s each month": "毎月コミットした{unit}の枠",
+  "Per {unit} per month": "{unit}あたり月額",
+  "Per {unit} per month, billed annually": "{unit}あたり月額、年間一括請求",
+  "One {unit}": "{unit}1つ",
+  "Up to five {unit}s": "{unit}は最大5つ",
+  "Up to 10 {unit}s": "{unit}は最大10",
+  "One workflow for 60–90 days": "1つのワークフローを60〜90日間",
+  "Several {unit}s and workflows": "複数の{unit}とワークフロー",
+  "SSO/SAML, audit logs and data residency options": "SSO/SAML、監査ログ、データ保管場所の選択",
+  "Named success manager and uptime SLA": "専任のサクセスマネージャーと稼働率SLA",
+  "Volume pricing on an annual commitment": "年間契約でのボリューム価格",
+  "The core workflow": "中核となるワークフロー",
+  "One workspace": "ワークスペース1つ",
+  "Community support": "コミュニティサポート",
+  "Self-serve signup": "セルフサービスでの登録",
+  "All core features": "すべての基本機能",
+  "Usage dashboard and spend alerts": "利用状況ダッシュボードと支出アラート",
+  "A lower rate per {unit} than pay as you go": "従量課金より低い{unit}あたりの単価",
+  "Unused {unit}s roll over for one month": "未使用の{unit}は1か月繰り越し可能",
+  "Priority support": "優先サポート",
+  "Core workflows": "基本ワークフロー",
+  "Shared workspace": "共有ワークスペース",
+  "Standard integrations": "標準連携",
+  "Advanced automation": "高度な自動化",
+  "Role-based permissions": "ロールベースの権限管理",
+  "Usage analytics": "利用分析",
+  Reporting: "レポート",
+  "Onboarding by a solutions engineer": "ソリューションエンジニアによるオンボーディング",
+  "Success plan with one agreed metric": "合意した1つの指標に基づくサクセスプラン",
+  "Admin controls": "管理機能",
+  "Standard SLA": "標準SLA",
+  "Annual contract with a minimum commitment": "最低利用額付きの年間契約",
+  "Security review and DPA": "セキュリティ審査とデータ処理契約（DPA）",
+  "A {unit} cap that a working team outgrows": "実務で使うチームには足りない{unit}の上限",
+  "No integrations or admin controls": "連携機能と管理機能なし",
+  "Monthly spend cap": "月間の支出上限",
+  "Email support only": "メールサポートのみ",
+  "Monthly commitment": "月間コミット",
+  "Admin roles and usage reports": "管理者ロールと利用レポート",
+  "Email support": "メールサポート",
+  "Annual billing": "年間一括請求",
+  "Permissions and analytics only in this tier": "権限管理と分析はこのプランのみ",
+  "Core features only": "基本機能のみ",
+  "Automation and reporting only in this tier": "自動化とレポートはこのプランのみ",
+  "Fixed term": "期間固定",
+  "Capped users and volume": "ユーザー数と利用量に上限",
+  "Annual contract": "年間契約",
+  "Data residency and premium SLA held back": "データ保管場所の選択とプレミアムSLAは対象外",
+  "{unit}s per month": "月あたりの{unit}数",
+  "active {unit}s": "アクティブな{unit}数",
+  "{unit}s and plan features": "{unit}数とプランの機能",
+  "{unit}s and workflows in production": "本番運用中の{unit}とワークフロー",
+  "usage-based pricing": "従量課金",
+  "per-seat pricing": "シート単位の価格",
+  "a flat subscription": "定額サブスクリプション",
+  "annual enterprise contracts": "年間のエンタープライズ契約",
+  "a freemium plan": "フリーミアム",
+  "{product} uses {label} with a free tier, so packaging scales with {metric} and each tier is fenced by what the next buyer needs.":
+    "{product}は無料プラン付きの{label}を採用しているため、パッケージは{metric}に応じて拡大し、各プランは次の購入者層が必要とするもので区切られます。",
+  "{product} uses {label}, so packaging scales with {metric} and each tier is fenced by what the next buyer needs.":
+    "{product}は{label}を採用しているため、パッケージは{metric}に応じて拡大し、各プランは次の購入者層が必要とするもので区切られます。",
+  'No pricing motion could be read from "{pricing}", so the tiers assume a flat subscription until one is chosen.':
+    "「{pricing}」から価格モデルを読み取れなかったため、決まるまでは定額サブスクリプションを前提にプランを組んでいます。",
+  "Willingness-to-pay interviews": "支払意思額のインタビュー",
+  "Target buyers accept the entry price without a discount.":
+    "対象の購入者が割引なしでエントリー価格を受け入れる。",
+  "Run a Van Westendorp survey with 20–30 target buyers before the price is published.":
+    "価格を公開する前に、対象の購入者20〜30人にヴァン・ウェステンドルプ調査を実施する。",
+  "Acceptable price range and the point where buyers call it too expensive":
+    "許容価格帯と、購入者が高すぎると感じる価格",
+  "Don't publish an entry price outside the acceptable range.":
+    "許容範囲外のエントリー価格は公開しない。",
+  "Free-tier limit test": "無料プランの上限テスト",
+  "A lower free limit raises upgrades without hurting activation.":
+    "無料プランの上限を下げると、活用開始を損なわずにアップグレードが増える。",
+  "Split new signups between two free limits for four weeks.":
+    "4週間、新規登録者を2種類の無料上限に振り分ける。",
+  "Free-to-paid conversion": "無料から有料への転換",
+  "Activation stays within 10% of the higher limit.":
+    "活用開始率が上限の高い群との差10%以内に収まる。",
+  "Committed-use discount test": "利用量コミット割引のテスト",
+  "A deeper commitment discount moves steady users off pay as you go.":
+    "コミット割引を大きくすると、安定利用のユーザーが従量課金から移行する。",
+  "Offer a 15% or a 25% discount for a monthly commitment at checkout.":
+    "購入時に月間コミットに対して15%または25%の割引を提示する。",
+  "Share of accounts that commit and net revenue per account":
+    "コミットするアカウントの割合とアカウントあたりの純収益",
+  "Average realised price per unit doesn't fall more than 10%.":
+    "単位あたりの平均実現価格の下落が10%以内に収まる。",
+  "Seat minimum test": "最低シート数のテスト",
+  "A three-seat minimum on Team lifts revenue per account without losing signups.":
+    "チームプランに最低3シートを設けると、登録を減らさずにアカウントあたりの収益が上がる。",
+  "Show the Team tier with and without a three-seat minimum.":
+    "最低3シートの有無でチームプランを表示し分ける。",
+  "Paid conversion and average seats per account": "有料転換とアカウントあたりの平均シート数",
+  "Trial-to-paid conversion stays within 10% of control.":
+    "トライアルから有料への転換が対照群との差10%以内に収まる。",
+  "Proposal anchor test": "提案書のアンカーテスト",
+  "A higher platform-fee anchor closes at the same rate with less discounting.":
+    "プラットフォーム料金のアンカーを高くしても、値引きを減らしつつ同じ率で成約できる。",
+  "Alternate two platform-fee anchors across proposals for one quarter.":
+    "1四半期の間、提案書ごとに2種類のプラットフォーム料金のアンカーを交互に使う。",
+  "Win rate and average discount": "受注率と平均値引き率",
+  "Sales cycle length doesn't grow by more than two weeks.":
+    "営業サイクルの延びが2週間以内に収まる。",
+  "Annual prepay test": "年間前払いのテスト",
+  "Two free months for paying annually pulls revenue forward.":
+    "年払いで2か月無料にすると、収益を前倒しできる。",
+  "Offer monthly and annual billing side by side, with and without the incentive.":
+    "特典の有無で、月払いと年払いを並べて提示する。",
+  "Share of new accounts on annual plans and cash collected":
+    "年間プランを選ぶ新規アカウントの割合と回収額",
+  "Overall paid conversion doesn't drop.": "全体の有料転換率が下がらない。",
+  "Pricing page anchor test": "価格ページのアンカーテスト",
+  "Showing the Enterprise tier first makes the middle tier look like the default.":
+    "エンタープライズプランを最初に見せると、中間のプランが標準に見える。",
+  "A/B the pricing page with the tiers in ascending and descending order.":
+    "プランを昇順と降順で並べた価格ページをA/Bテストする。",
+  "Mix of tiers chosen at checkout": "購入時に選ばれたプランの構成比",
+  "Checkout completion rate holds.": "購入完了率が維持される。",
+  "Publish a usage calculator with example bills at typical and double volume, and let admins set a hard monthly cap on {unit}s.":
+    "典型的な利用量とその2倍の場合の請求例を載せた利用量計算ツールを公開し、管理者が{unit}の月間上限を設定できるようにします。",
+  "List every fee on the pricing page and bill only active {unit}s, so no one pays for an unused seat.":
+    "すべての料金を価格ページに掲載し、アクティブな{unit}分だけを請求して、使われないシートに費用がかからないようにします。",
+  "Show each plan's limits on the pricing page and what happens when a team outgrows its {unit}.":
+    "各プランの上限と、チームが{unit}の上限を超えたときの扱いを価格ページに示します。",
+  "Quote one all-in annual figure that covers volume, support and onboarding, with no overage surprises.":
+    "利用量、サポート、オンボーディングを含む年間の総額を1つ提示し、超過料金で驚かせないようにします。",
+  "The audience includes small teams or individual buyers, but pricing is enterprise contracts only. Add a self-serve entry tier or a fixed-price pilot.":
+    "対象には小規模チームや個人の購入者が含まれますが、価格はエンタープライズ契約のみです。セルフサービスのエントリープランか固定価格のパイロットを追加してください。",
+  "Enterprise buyers expect annual contracts, SSO and a security review, which the pricing doesn't mention. Lead with the Enterprise tier in sales conversations.":
+    "エンタープライズの購入者は年間契約、SSO、セキュリティ審査を想定していますが、価格にはその記載がありません。商談ではエンタープライズプランから提示してください。",
+  'A free plan defers revenue, but the goal is "{goal}". Fence the features paying teams need and time-box free use.':
+    "無料プランは収益を先送りしますが、目標は「{goal}」です。有料チームに必要な機能を区切り、無料利用に期限を設けてください。",
+  'Contract-only pricing slows "{goal}", because every new user waits on a sales cycle. A free or pilot tier lets users start on their own.':
+    "契約のみの価格では、新規ユーザーが毎回営業サイクルを待つため「{goal}」が遅れます。無料プランやパイロットプランがあれば、ユーザーが自ら使い始められます。",
+
+  // Competitive landscape
+  "Time to value": "価値実現までの時間",
+  Integrations: "連携",
+  "AI & automation": "AIと自動化",
+  "Analytics & reporting": "分析とレポート",
+  "Pricing & cost": "価格とコスト",
+  "Support & services": "サポートとサービス",
+  "Scale & reliability": "拡張性と信頼性",
+  "Brand & ecosystem": "ブランドとエコシステム",
+  "Time to measurable outcomes": "測定可能な成果までの時間",
+  "Ask how many days it took their last customer to reach a first live workflow.":
+    "最後の顧客が最初のワークフローを本番稼働させるまでに何日かかったかを尋ねる。",
+  "Ask which systems they connect to natively versus through services work.":
+    "どのシステムとネイティブに連携し、どれが個別開発頼みかを尋ねる。",
+  "Ask for their current SOC 2 report and where customer data is processed.":
+    "最新のSOC 2レポートと、顧客データの処理場所を尋ねる。",
+  "Ask how they measure and guard against wrong AI output in production.":
+    "本番環境で誤ったAI出力をどう測定し、防いでいるかを尋ねる。",
+  "Ask them to show ROI reporting a finance team would sign off on.":
+    "財務チームが承認できるROIレポートを見せてもらう。",
+  "Ask what the bill looks like at twice today's usage, including add-ons.":
+    "追加オプションを含め、利用量が今の2倍になったときの請求額を尋ねる。",
+  "Ask for their support response-time commitment in writing.":
+    "サポートの応答時間の約束を書面で求める。",
+  "Ask for uptime history and a reference at your expected volume.":
+    "稼働率の実績と、想定規模での導入事例を尋ねる。",
+  "Ask how much of their roadmap is driven by customers your size.":
+    "ロードマップのどの程度が同規模の顧客の要望で決まっているかを尋ねる。",
+  "Show a same-day pilot: {product} reaches a first live workflow in hours.":
+    "即日のパイロットを見せる：{product}なら数時間で最初のワークフローが稼働する。",
+  "Walk through {product}'s native connectors and open export so nothing is locked in.":
+    "{product}のネイティブコネクタとオープンなエクスポートを説明し、ロックインがないことを示す。",
+  "Share {product}'s security pack and governance controls up front.":
+    "{product}のセキュリティ資料とガバナンス機能を先に共有する。",
+  "Demo {product}'s guardrails and human review steps on the buyer's own data.":
+    "顧客自身のデータで{product}のガードレールと人による確認手順をデモする。",
+  "Share a sample ROI dashboard built from {product} telemetry.":
+    "{product}のテレメトリから作成したROIダッシュボードのサンプルを共有する。",
+  "Model the buyer's cost at current and doubled usage with {product}'s published pricing.":
+    "{product}の公開価格で、現在と2倍の利用量における顧客のコストを試算する。",
+  "Commit to {product}'s support SLA and named success contact in the proposal.":
+    "提案書で{product}のサポートSLAと専任のサクセス担当を約束する。",
+  "Offer a reference customer running {product} at comparable scale.":
+    "同等の規模で{product}を運用している導入企業を紹介する。",
+  "Pair a peer reference with a phased switch plan that keeps the incumbent running during cut-over.":
+    "同業の導入事例と、切り替え中も既存システムを動かし続ける段階的な移行計画を組み合わせる。",
+  "This is a known gap for {competitor}, so press the contrast.":
+    "これは{competitor}の既知の弱点なので、違いを強調する。",
+  "{competitor} will claim parity here, so bring proof.":
+    "{competitor}は同等だと主張してくるため、証拠を用意する。",
+  "Against {competitor}, lead with {first} and {second}: {differentiation}":
+    "{competitor}に対しては{first}と{second}を前面に出す：{differentiation}",
+  "Against {competitor}, lead with outcomes: {differentiation}":
+    "{competitor}に対しては成果を前面に出す：{differentiation}",
+  "Against {competitor}, lead with {focus}: {differentiation}":
+    "{competitor}に対しては{focus}を前面に出す：{differentiation}",
+  "Acknowledge {competitor}'s {strength}, then reframe the decision around {focus}.":
+    "{competitor}の{strength}の強みを認めたうえで、判断の軸を{focus}に移す。",
+  "Acknowledge {competitor}' {strength}, then reframe the decision around {focus}.":
+    "{competitor}の{strength}の強みを認めたうえで、判断の軸を{focus}に移す。",
+  "{dimension} is contested with {competitor}; win it with customer proof, not claims.":
+    "{dimension}は{competitor}と拮抗しているため、主張ではなく顧客の実例で勝つ。",
+  "{competitor} prices at {price}; anchor {product} on {pricing} and the cost of staying on the status quo.":
+    "{competitor}の価格は{price}。{product}は{pricing}と、現状維持のコストを軸に説明する。",
+  "Keep price out of the first call with {competitor} prospects; anchor on the cost of the problem.":
+    "{competitor}を検討中の見込み客との初回商談では価格に触れず、課題のコストを軸に話す。",
+  'Ask the buyer to test "{weakness}" with {competitor} during evaluation.':
+    "評価期間中に{competitor}で「{weakness}」を確かめるよう購入者に依頼する。",
+  "Ask what {competitor} customers wish they had known before buying.":
+    "{competitor}の顧客が購入前に知っておきたかったことを尋ねる。",
+
+  // Market sizing
+  "Segment accounts": "セグメントのアカウント数",
+  "Reachable share": "到達可能な割合",
+  "Win rate": "受注率",
+  "Average contract value": "平均契約額",
+  "Sized for {audience} across {count} segment: TAM {tam} ({accounts} accounts), SAM {sam} at {reachable} reachable, SOM {som} at a {winRate} win rate and {contract} average contract.":
+    "{audience}を対象に{count}セグメントで算出：TAM {tam}（{accounts}アカウント）、到達可能な割合{reachable}でSAM {sam}、受注率{winRate}・平均契約額{contract}でSOM {som}。",
+  "Sized for {audience} across {count} segments: TAM {tam} ({accounts} accounts), SAM {sam} at {reachable} reachable, SOM {som} at a {winRate} win rate and {contract} average contract.":
+    "{audience}を対象に{count}セグメントで算出：TAM {tam}（{accounts}アカウント）、到達可能な割合{reachable}でSAM {sam}、受注率{winRate}・平均契約額{contract}でSOM {som}。",
+  "Assumed {first} and {second} and {third}, since the brief gives none.":
+    "ブリーフに記載がないため、{first}、{second}、{third}は想定値を使用しています。",
+  "Assumed {first} and {second}, since the brief gives none.":
+    "ブリーフに記載がないため、{first}と{second}は想定値を使用しています。",
+  "Assumed {first}, since the brief gives none.":
+    "ブリーフに記載がないため、{first}は想定値を使用しています。",
+  "Add account counts per audience segment under Market sizing to get TAM, SAM and SOM and check the north star against them.":
+    "TAM、SAM、SOMを算出してノーススター指標と照合するには、「市場規模」でオーディエンスのセグメントごとのアカウント数を入力してください。",
+  "Without market inputs the north star can't be checked against the market.":
+    "市場データがないため、ノーススター指標を市場と照合できません。",
+  "The north star has no readable target, so it can't be checked against the market.":
+    "ノーススター指標に読み取れる目標がないため、市場と照合できません。",
+  "The obtainable market yields about {supply} customers in the {days}-day window, {coverage}× the {required} customers the north star needs.":
+    "獲得可能な市場から{days}日間で約{supply}社の顧客が見込め、ノーススター指標に必要な{required}社の{coverage}倍です。",
+  "The obtainable market yields about {supply} customers in the {days}-day window, just enough for the {required} customers the north star needs; a small miss on reach or win rate puts it out of reach.":
+    "獲得可能な市場から{days}日間で約{supply}社の顧客が見込め、ノーススター指標に必要な{required}社にぎりぎり届く水準です。到達率や受注率が少し下振れすると届きません。",
+  "The obtainable market yields about {supply} customers in the {days}-day window, short of the {required} customers the north star needs.":
+    "獲得可能な市場から{days}日間で約{supply}社の顧客が見込めますが、ノーススター指標に必要な{required}社に届きません。",
+  "Hitting it takes a {rate} win rate, a wider reachable share or a longer horizon.":
+    "達成には受注率{rate}、到達可能な割合の拡大、または期間の延長が必要です。",
+  "Even winning every reachable account falls short; it takes a wider reachable share, more segments or a longer horizon.":
+    "到達可能なすべての顧客を獲得しても足りません。到達可能な割合の拡大、セグメントの追加、または期間の延長が必要です。",
+  "{total} {unit} convert to about {required} customers at planning conversion rates.":
+    "{total}件の{unit}は、計画上の転換率で約{required}社の顧客になります。",
+};
@@ -0,0 +1,181 @@
+/**
+ * Locked content for partial regeneration. A regenerate call can pin whole
+ * sections or individual list items; those are kept verbatim and everything
+ * else is recomputed. When a locked item renames a persona, pillar, channel
+ * or phase, the regenerated sections are rewritten to use the locked name so
+ * references stay consistent.
+ */
+
+import type { GTMResponse, GTMSection } from "./agent";
+import { escapeRegExp } from "./format";
+import { isCompleteSection } from "./shape";
+
+/** Sections made of items that can be edited and locked one by one. */
+export type ListSection =
+  | "launchPhases"
+  | "personaInsights"
+  | "messagingPillars"
+  | "channelStrategy"
+  | "growthExperiments"
+  | "measurementFramework";
+
+/** Sections recomputed on every run from the rest of the plan, so never pinned. */
+const unlockableSections = new Set(["voiceReport", "regionalVariants"]);
+
+export type LockableSection = Exclude<GTMSection, "voiceReport" | "regionalVariants">;
+
+export type LockedItems = {
+  [K in ListSection]?: Array<{ index: number; value: GTMResponse[K][number] }>;
+};
+
+export type LockedContent = {
+  /** Sections kept exactly as sent. */
+  sections?: Partial<Pick<GTMResponse, LockableSection>>;
+  /** Items kept at their position; the rest of their section is regenerated. */
+  items?: LockedItems;
+};
+
+export const LOCKED_SOURCE = "locked";
+
+export const listSections: ListSection[] = [
+  "launchPhases",
+  "personaInsights",
+  "messagingPillars",
+  "channelStrategy",
+  "growthExperiments",
+  "measurementFramework",
+];
+
+/** The field other sections use to refer to an item, e.g. a persona's name. */
+const identityFields: Partial<Record<ListSection, string>> = {
+  launchPhases: "name",
+  personaInsights: "persona",
+  messagingPillars: "pillar",
+  channelStrategy: "channel",
+};
+
+export function isListSection(section: string): section is ListSection {
+  return (listSections as string[]).includes(section);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Structural check for untrusted locked content from a request body. Locked
+ * content is kept verbatim, so it must carry the computed fields (channel
+ * allocation, ICE scores, persona confidence) that the rest of the app reads.
+ */
+export function isLockedContent(value: unknown): value is LockedContent {
+  if (!isRecord(value)) {
+    return false;
+  }
+  const { sections = {}, items = {} } = value;
+  if (!isRecord(sections) || !isRecord(items)) {
+    return false;
+  }
+
+  const sectionsValid = Object.entries(sections).every(
+    ([section, content]) =>
+      !unlockableSections.has(section) && isCompleteSection(section as GTMSection, content),
+  );
+  const itemsValid = Object.entries(items).every(
+    ([section, entries]) =>
+      isListSection(section) &&
+      Array.isArray(entries) &&
+      entries.every(
+        (entry) =>
+          isRecord(entry) &&
+          Number.isInteger(entry.index) &&
+          (entry.index as number) >= 0 &&
+          isCompleteSection(section, [entry.value]),
+      ),
+  );
+
+  return sectionsValid && itemsValid;
+}
+
+function lockedEntries(locked: LockedContent, section: ListSection) {
+  const whole = locked.sections?.[section] as unknown[] | undefined;
+  if (whole) {
+    return whole.map((value, index) => ({ index, value }));
+  }
+  return (locked.items?.[section] ?? []) as Array<{ index: number; value: unknown }>;
+}
+
+/**
+ * Maps each name the rule draft would use to the locked name at the same
+ * position, so regenerated copy can be pointed at the locked items.
+ */
+export function referenceRenames(draft: GTMResponse, locked?: LockedContent) {
+  const renames = new Map<string, string>();
+  if (!locked) {
+    return renames;
+  }
+
+  Object.entries(identityFields).forEach(([section, field]) => {
+    const generated = draft[section as ListSection] as Array<Record<string, unknown>>;
+    lockedEntries(locked, section as ListSection).forEach(({ index, value }) => {
+      const from = generated[index]?.[field];
+      const to = (value as Record<string, unknown>)[field];
+      if (typeof from === "string" && typeof to === "string" && from !== to) {
+        renames.set(from, to);
+      }
+    });
+  });
+
+  return renames;
+}
+
+/**
+ * Rewrites every string in a section in one pass, so swapped names don't
+ * chain. Plurals such as "Growth Operators" follow the rename too.
+ */
+export function applyRenames<T>(value: T, renames: Map<string, string>): T {
+  if (!renames.size) {
+    return value;
+  }
+  const names = Array.from(renames.keys()).sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(
+    `(?<![A-Za-z0-9])(${names.map(escapeRegExp).join("|")})(?=s?(?![A-Za-z0-9]))`,
+    "g",
+  );
+
+  const rewrite = (entry: unknown): unknown => {
+    if (typeof entry === "string") {
+      return entry.replace(pattern, (match) => renames.get(match) ?? match);
+    }
+    if (Array.isArray(entry)) {
+      return entry.map(rewrite);
+    }
+    if (isRecord(entry)) {
+      return Object.fromEntries(Object.entries(entry).map(([key, field]) => [key, rewrite(field)]));
+    }
+    return entry;
+  };
+
+  return rewrite(value) as T;
+}
+
+/**
+ * Puts locked items back at their positions. An index past the end of the
+ * regenerated list appends the item instead of leaving a gap.
+ */
+export function mergeLockedItems<T>(section: GTMSection, value: T, locked?: LockedContent): T {
+  if (!isListSection(section) || !Array.isArray(value)) {
+    return value;
+  }
+  const entries = (locked?.items?.[section] ?? []) as Array<{ index: number; value: unknown }>;
+  const merged: unknown[] = [...value];
+  [...entries]
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ index, value: item }) => {
+      if (index < merged.length) {
+        merged[index] = item;
+      } else {
+        merged.push(item);
+      }
+    });
+  return merged as T;
+}
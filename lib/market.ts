@@ -0,0 +1,342 @@
+/**
+ * Market sizing from optional structured inputs: account counts per audience
+ * segment, average contract value, reachable share and win rate. TAM counts
+ * every account, SAM the share the launch can reach and SOM the share of that
+ * it can expect to win, each valued at a year of contract revenue. The north
+ * star is then checked against what the obtainable market can deliver inside
+ * its window, with ranges showing how far each input moves the answer.
+ * Defaults are planning heuristics, not forecasts.
+ */
+
+import { closeRate, defaultContractValue, type MeasurementPlan } from "./metrics";
+import { formatCount, formatCurrency, formatPercent } from "./format";
+import { classifyPricingModels } from "./pricing";
+import { launchHorizonFor } from "./verticals";
+
+export type MarketSegment = {
+  name: string;
+  /** Accounts (or buyers, for consumer products) in the segment. */
+  accounts: number;
+};
+
+export type MarketInputs = {
+  segments: MarketSegment[];
+  /** Average first-year contract in USD, above 0; defaults to the pricing model's. */
+  averageContractValue?: number;
+  /** Share of the market the launch can reach, above 0 and up to 1. */
+  reachableShare?: number;
+  /** Share of reached accounts that buy, above 0 and up to 1. */
+  winRate?: number;
+};
+
+export type MarketTier = {
+  accounts: number;
+  /** A year of contract revenue from those accounts. */
+  value: number;
+};
+
+export type SegmentSizing = {
+  segment: string;
+  tam: MarketTier;
+  sam: MarketTier;
+  som: MarketTier;
+};
+
+export type AchievabilityStatus = "achievable" | "stretch" | "out_of_reach" | "unknown";
+
+export type Achievability = {
+  status: AchievabilityStatus;
+  /** Customers the north star implies by its due date; null when it can't be read. */
+  requiredCustomers: number | null;
+  /** Customers the obtainable market can deliver inside the north-star window. */
+  windowCustomers: number;
+  /** `windowCustomers / requiredCustomers`; null without a readable target. */
+  coverage: number | null;
+  /** The win rate at which the window just covers the target. */
+  breakEvenWinRate: number | null;
+  message: string;
+};
+
+export type SensitivityDriver = "accounts" | "reachableShare" | "winRate" | "averageContractValue";
+
+export type SensitivityRange = {
+  driver: SensitivityDriver;
+  label: string;
+  /** The input tested either side of its base value. */
+  low: number;
+  high: number;
+  /** SOM value at the low and high input. */
+  somLow: number;
+  somHigh: number;
+  coverageLow: number | null;
+  coverageHigh: number | null;
+};
+
+export type MarketSizing = {
+  /** False when the brief has no market inputs; the figures are then zero. */
+  sized: boolean;
+  message: string;
+  inputs: {
+    accounts: number;
+    averageContractValue: number;
+    reachableShare: number;
+    winRate: number;
+  };
+  /** Inputs taken from defaults because the brief left them out. */
+  assumed: Array<Exclude<SensitivityDriver, "accounts">>;
+  tam: MarketTier;
+  sam: MarketTier;
+  som: MarketTier;
+  segments: SegmentSizing[];
+  achievability: Achievability;
+  sensitivity: SensitivityRange[];
+  /** SOM value with every input at its low or high end at once. */
+  somRange: { low: number; high: number };
+};
+
+type Brief = {
+  audience: string;
+  pricing: string;
+  launchHorizon: string;
+  launchStartDate?: string;
+  market?: MarketInputs;
+  vertical?: string;
+};
+
+type Drivers = {
+  accounts: number;
+  averageContractValue: number;
+  reachableShare: number;
+  winRate: number;
+};
+
+const DEFAULT_REACHABLE_SHARE = 0.25;
+const DEFAULT_WIN_RATE = 0.2;
+/** Ranges test each input a quarter either side of its base. */
+const SENSITIVITY_SWING = 0.25;
+/** Coverage at or above this leaves room for a miss on reach or win rate. */
+const COMFORTABLE_COVERAGE = 1.5;
+/** Reachable accounts are assumed to evaluate a purchase about once a year. */
+const BUYING_CYCLE_DAYS = 365;
+
+const driverLabels: Record<SensitivityDriver, string> = {
+  accounts: "Segment accounts",
+  reachableShare: "Reachable share",
+  winRate: "Win rate",
+  averageContractValue: "Average contract value",
+};
+
+const sensitivityDrivers = Object.keys(driverLabels) as SensitivityDriver[];
+
+function tier(accounts: number, contractValue: number): MarketTier {
+  return { accounts: Math.round(accounts), value: Math.round(accounts * contractValue) };
+}
+
+function tiers(accounts: number, drivers: Drivers) {
+  const reachable = accounts * drivers.reachableShare;
+  return {
+    tam: tier(accounts, drivers.averageContractValue),
+    sam: tier(reachable, drivers.averageContractValue),
+    som: tier(reachable * drivers.winRate, drivers.averageContractValue),
+  };
+}
+
+/**
+ * Customers the north star needs. Upstream targets (SQLs, signups) convert at
+ * the funnel's planning rates; money targets are re-read at `contractValue`.
+ */
+function requiredCustomers(plan: MeasurementPlan, contractValue: number) {
+  const target = plan.target;
+  if (!target) {
+    return null;
+  }
+  const total = target.contractValue
+    ? (target.total * target.contractValue) / contractValue
+    : target.total;
+  return Math.max(Math.ceil(total * closeRate(target.stage)), 1);
+}
+
+function coverageFor(drivers: Drivers, plan: MeasurementPlan, windowShare: number) {
+  const required = requiredCustomers(plan, drivers.averageContractValue);
+  const windowCustomers = drivers.accounts * drivers.reachableShare * drivers.winRate * windowShare;
+  return { required, windowCustomers, coverage: required ? windowCustomers / required : null };
+}
+
+function statusFor(coverage: number | null): AchievabilityStatus {
+  if (coverage === null) {
+    return "unknown";
+  }
+  return coverage >= COMFORTABLE_COVERAGE
+    ? "achievable"
+    : coverage >= 1
+      ? "stretch"
+      : "out_of_reach";
+}
+
+function assess(
+  drivers: Drivers,
+  plan: MeasurementPlan,
+  windowDays: number,
+  windowShare: number,
+): Achievability {
+  const { required, windowCustomers, coverage } = coverageFor(drivers, plan, windowShare);
+  const status = statusFor(coverage);
+  const reachableInWindow = drivers.accounts * drivers.reachableShare * windowShare;
+  const breakEvenWinRate =
+    required !== null && reachableInWindow > 0 ? required / reachableInWindow : null;
+
+  if (required === null || coverage === null) {
+    return {
+      status,
+      requiredCustomers: null,
+      windowCustomers: Math.round(windowCustomers),
+      coverage: null,
+      breakEvenWinRate: null,
+      message: "The north star has no readable target, so it can't be checked against the market.",
+    };
+  }
+
+  const target = plan.target!;
+  const needed = `${formatCount(required)} customers the north star needs`;
+  const conversion =
+    target.stage === "customers" || target.stage === "paid"
+      ? ""
+      : ` ${formatCount(target.total)} ${target.unit} convert to about ${formatCount(required)} customers at planning conversion rates.`;
+  const supply = `The obtainable market yields about ${formatCount(Math.round(windowCustomers))} customers in the ${windowDays}-day window`;
+  const closeTheGap =
+    breakEvenWinRate !== null && breakEvenWinRate <= 1
+      ? `Hitting it takes a ${formatPercent(breakEvenWinRate)} win rate, a wider reachable share or a longer horizon.`
+      : "Even winning every reachable account falls short; it takes a wider reachable share, more segments or a longer horizon.";
+  const messages: Record<Exclude<AchievabilityStatus, "unknown">, string> = {
+    achievable: `${supply}, ${coverage.toFixed(1)}× the ${needed}.`,
+    stretch: `${supply}, just enough for the ${needed}; a small miss on reach or win rate puts it out of reach.`,
+    out_of_reach: `${supply}, short of the ${needed}. ${closeTheGap}`,
+  };
+
+  return {
+    status,
+    requiredCustomers: required,
+    windowCustomers: Math.round(windowCustomers),
+    coverage,
+    breakEvenWinRate,
+    message: `${messages[status as Exclude<AchievabilityStatus, "unknown">]}${conversion}`,
+  };
+}
+
+/** Moves one input by `factor`; shares stay at or below 100%. */
+function swing(drivers: Drivers, driver: SensitivityDriver, factor: number): Drivers {
+  const value = drivers[driver] * factor;
+  return {
+    ...drivers,
+    [driver]: driver === "reachableShare" || driver === "winRate" ? Math.min(value, 1) : value,
+  };
+}
+
+function sensitivityRanges(drivers: Drivers, plan: MeasurementPlan, windowShare: number) {
+  const ranges = sensitivityDrivers.map((driver): SensitivityRange => {
+    const low = swing(drivers, driver, 1 - SENSITIVITY_SWING);
+    const high = swing(drivers, driver, 1 + SENSITIVITY_SWING);
+    return {
+      driver,
+      label: driverLabels[driver],
+      low: low[driver],
+      high: high[driver],
+      somLow: tiers(low.accounts, low).som.value,
+      somHigh: tiers(high.accounts, high).som.value,
+      coverageLow: coverageFor(low, plan, windowShare).coverage,
+      coverageHigh: coverageFor(high, plan, windowShare).coverage,
+    };
+  });
+  // Widest swing in SOM first, as in a tornado chart.
+  return ranges.sort((a, b) => b.somHigh - b.somLow - (a.somHigh - a.somLow));
+}
+
+function unsized(drivers: Drivers, assumed: MarketSizing["assumed"]): MarketSizing {
+  const empty = { accounts: 0, value: 0 };
+  return {
+    sized: false,
+    message:
+      "Add account counts per audience segment under Market sizing to get TAM, SAM and SOM and check the north star against them.",
+    inputs: drivers,
+    assumed,
+    tam: empty,
+    sam: empty,
+    som: empty,
+    segments: [],
+    achievability: {
+      status: "unknown",
+      requiredCustomers: null,
+      windowCustomers: 0,
+      coverage: null,
+      breakEvenWinRate: null,
+      message: "Without market inputs the north star can't be checked against the market.",
+    },
+    sensitivity: [],
+    somRange: { low: 0, high: 0 },
+  };
+}
+
+/**
+ * Sizes the market named in `brief.market` and checks the measurement plan's
+ * north star against it. Missing contract value, reachable share or win rate
+ * fall back to defaults and are listed in `assumed`.
+ */
+export function buildMarketSizing(brief: Brief, plan: MeasurementPlan): MarketSizing {
+  const market = brief.market;
+  const segments = market?.segments ?? [];
+  const drivers: Drivers = {
+    accounts: segments.reduce((sum, segment) => sum + segment.accounts, 0),
+    averageContractValue:
+      market?.averageContractValue ?? defaultContractValue(classifyPricingModels(brief.pricing)),
+    reachableShare: market?.reachableShare ?? DEFAULT_REACHABLE_SHARE,
+    winRate: market?.winRate ?? DEFAULT_WIN_RATE,
+  };
+  const assumed = (["averageContractValue", "reachableShare", "winRate"] as const).filter(
+    (driver) => market?.[driver] === undefined,
+  );
+
+  if (!segments.length) {
+    return unsized(drivers, assumed);
+  }
+
+  const windowDays = plan.target?.windowDays ?? launchHorizonFor(brief).days;
+  const windowShare = Math.min(windowDays / BUYING_CYCLE_DAYS, 1);
+  const sized = tiers(drivers.accounts, drivers);
+  const sensitivity = sensitivityRanges(drivers, plan, windowShare);
+  const [lowEnd, highEnd] = [1 - SENSITIVITY_SWING, 1 + SENSITIVITY_SWING].map((factor) =>
+    sensitivityDrivers.reduce((current, driver) => swing(current, driver, factor), drivers),
+  );
+
+  const message = [
+    `Sized for ${brief.audience} across ${segments.length} ${
+      segments.length === 1 ? "segment" : "segments"
+    }: TAM ${formatCurrency(sized.tam.value)} (${formatCount(sized.tam.accounts)} accounts), SAM ${formatCurrency(
+      sized.sam.value,
+    )} at ${formatPercent(drivers.reachableShare)} reachable, SOM ${formatCurrency(
+      sized.som.value,
+    )} at a ${formatPercent(drivers.winRate)} win rate and ${formatCurrency(
+      drivers.averageContractValue,
+    )} average contract.`,
+    assumed.length
+      ? `Assumed ${assumed.map((driver) => driverLabels[driver].toLowerCase()).join(" and ")}, since the brief gives none.`
+      : "",
+  ];
+
+  return {
+    sized: true,
+    message: message.filter(Boolean).join(" "),
+    inputs: drivers,
+    assumed,
+    ...sized,
+    segments: segments.map((segment) => ({
+      segment: segment.name,
+      ...tiers(segment.accounts, drivers),
+    })),
+    achievability: assess(drivers, plan, windowDays, windowShare),
+    sensitivity,
+    somRange: {
+      low: tiers(lowEnd.accounts, lowEnd).som.value,
+      high: tiers(highEnd.accounts, highEnd).som.value,
+    },
+  };
+}
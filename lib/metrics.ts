@@ -0,0 +1,470 @@
+/**
+ * North-star metric planning. Parses `successMetric` ("50 SQLs in 90 days",
+ * "$250k ARR in 6 months", "40 demos per month") into a number, unit and time
+ * window, then spreads the target over weekly or monthly milestones and
+ * back-calculates the funnel volume each upstream stage has to deliver.
+ * Conversion rates and contract values are planning heuristics, not forecasts.
+ */
+
+import { formatCount, formatCurrency, formatDate } from "./format";
+import type { PricingModel } from "./pricing";
+import { addDays, extendHorizon, parseIsoDate, parseLaunchHorizon, toIsoDate } from "./timeline";
+
+export type MetricCadence = "weekly" | "monthly";
+
+export type MetricTarget = {
+  value: number;
+  /** The unit as written in the brief, e.g. "SQLs" or "ARR". */
+  unit: string;
+  /** Funnel stage the target counts. */
+  stage: string;
+  windowDays: number;
+  dueDate: string;
+  /** True for run-rate targets ("per month"), which are totalled over the horizon. */
+  recurring: boolean;
+  /** Count of outcomes at `stage` needed by the due date. */
+  total: number;
+  /** Average contract used to turn a money target into deals; null for counts. */
+  contractValue: number | null;
+};
+
+export type MetricMilestone = {
+  label: string;
+  date: string;
+  phase: string;
+  /** Cumulative outcomes expected by `date`. */
+  target: number;
+};
+
+export type FunnelVolume = {
+  stage: string;
+  label: string;
+  volume: number;
+  /** Share that converts to the next stage; null for the target stage. */
+  conversionRate: number | null;
+  instrumentation: string;
+};
+
+export type MeasurementPlan = {
+  northStar: string;
+  parsed: boolean;
+  /** Plain-language read of the metric, or why it could not be read. */
+  message: string;
+  target: MetricTarget | null;
+  cadence: MetricCadence;
+  milestones: MetricMilestone[];
+  funnel: FunnelVolume[];
+};
+
+type StageDefinition = {
+  id: string;
+  label: string;
+  conversionRate: number | null;
+  instrumentation: string;
+};
+
+type PhaseWindow = {
+  name: string;
+  startDate: string;
+  endDate: string;
+};
+
+const salesFunnel: StageDefinition[] = [
+  {
+    id: "visitors",
+    label: "Website visitors",
+    conversionRate: 0.025,
+    instrumentation: "Web analytics with UTM and channel tags",
+  },
+  {
+    id: "leads",
+    label: "Leads",
+    conversionRate: 0.4,
+    instrumentation: "Marketing automation form fills and enrichment",
+  },
+  {
+    id: "mqls",
+    label: "Marketing-qualified leads",
+    conversionRate: 0.35,
+    instrumentation: "Lead scoring with persona and channel tags",
+  },
+  {
+    id: "sqls",
+    label: "Sales-qualified leads",
+    conversionRate: 0.6,
+    instrumentation: "CRM lifecycle stages with SDR acceptance",
+  },
+  {
+    id: "opportunities",
+    label: "Opportunities",
+    conversionRate: 0.25,
+    instrumentation: "CRM opportunity pipeline by source",
+  },
+  {
+    id: "customers",
+    label: "Customers",
+    conversionRate: null,
+    instrumentation: "Closed-won deals in CRM",
+  },
+];
+
+const productFunnel: StageDefinition[] = [
+  {
+    id: "visitors",
+    label: "Website visitors",
+    conversionRate: 0.04,
+    instrumentation: "Web analytics with UTM and channel tags",
+  },
+  {
+    id: "signups",
+    label: "Signups",
+    conversionRate: 0.4,
+    instrumentation: "Product analytics signup events by channel",
+  },
+  {
+    id: "activated",
+    label: "Activated accounts",
+    conversionRate: 0.1,
+    instrumentation: "Product analytics activation milestone by persona",
+  },
+  {
+    id: "paid",
+    label: "Paying accounts",
+    conversionRate: null,
+    instrumentation: "Billing system conversions by plan",
+  },
+];
+
+/** Checked in order, so narrower units win over broad ones like "users". */
+const unitStages: Array<{ pattern: RegExp; stage: string; funnel: StageDefinition[] }> = [
+  {
+    pattern: /\b(sqls?|sales[- ]qualified|meetings?|demos?)\b/,
+    stage: "sqls",
+    funnel: salesFunnel,
+  },
+  { pattern: /\b(mqls?|marketing[- ]qualified)\b/, stage: "mqls", funnel: salesFunnel },
+  { pattern: /\b(opportunit(y|ies)|opps?)\b/, stage: "opportunities", funnel: salesFunnel },
+  {
+    pattern: /\b(paid|paying|subscriptions?|upgrades?|conversions?)\b/,
+    stage: "paid",
+    funnel: productFunnel,
+  },
+  {
+    pattern: /\b(customers?|logos?|deals?|clients?|contracts?)\b/,
+    stage: "customers",
+    funnel: salesFunnel,
+  },
+  {
+    pattern: /\b(activated|active|activations?|workspaces?|teams?|users?|daus?|maus?|waus?)\b/,
+    stage: "activated",
+    funnel: productFunnel,
+  },
+  {
+    pattern: /\b(sign[- ]?ups?|registrations?|trials?|installs?|downloads?|accounts?)\b/,
+    stage: "signups",
+    funnel: productFunnel,
+  },
+  { pattern: /\b(leads?|contacts?|subscribers?)\b/, stage: "leads", funnel: salesFunnel },
+  {
+    pattern: /\b(visit(or)?s?|traffic|sessions?|page ?views?)\b/,
+    stage: "visitors",
+    funnel: salesFunnel,
+  },
+];
+
+/** Average first-year contract value assumed when the target is money. */
+const contractValues: Record<PricingModel, number> = {
+  enterprise: 25_000,
+  seat: 6_000,
+  usage: 2_400,
+  flat: 1_200,
+  freemium: 600,
+  unknown: 5_000,
+};
+
+const periodDays: Record<string, number> = { week: 7, month: 30, quarter: 91 };
+
+const currencyPattern = /[$€£]|\b(arr|mrr|revenue|bookings|usd|pipeline value)\b/;
+const numberPattern =
+  /([$€£])?\s?(\d[\d,]*(?:\.\d+)?)(?:\s?(k|m|mm|bn|thousand|million)\b)?(\s?%)?(?:[\s-]*([a-z]+))?/g;
+const timeUnitPattern = /^(d(ay)?s?|w(ee)?ks?|mo|mos|months?|q|quarters?|years?|yrs?|hours?)$/;
+const recurringPattern =
+  /\b(?:per|a|each|every)\s+(week|month|quarter)\b|\b(week|month|quarter)ly\b|\/\s?(week|month|quarter|wk|mo)\b/;
+/** "500 weekly active users" is a level to reach, not a count earned every week. */
+const activeLevelPattern = /\b(?:daily|weekly|monthly)\s+active\b|\b[dwm]aus?\b/;
+/** "100 customers by 2026-12-31" ends its window on the date. */
+const deadlinePattern = /\b(?:by|before|until)\s+(\d{4}-\d{2}-\d{2})\b/;
+/** Pipeline money counts opportunities, not closed deals. */
+const pipelinePattern = /\bpipeline\b/;
+
+const multipliers: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  m: 1_000_000,
+  mm: 1_000_000,
+  million: 1_000_000,
+  bn: 1_000_000_000,
+};
+
+const MILESTONE_LIMIT = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Launches ramp: early milestones carry less than their share of the window. */
+const RAMP_EXPONENT = 1.4;
+
+/** The average first-year contract assumed for the leading pricing model. */
+export function defaultContractValue(pricingModels: PricingModel[]) {
+  return contractValues[pricingModels[0] ?? "unknown"];
+}
+
+/**
+ * Share of outcomes at `stage` that go on to become customers, following the
+ * funnel's conversion heuristics; 1 at the last stage.
+ */
+export function closeRate(stage: string) {
+  const funnel = [salesFunnel, productFunnel].find((entry) =>
+    entry.some((definition) => definition.id === stage),
+  );
+  if (!funnel) {
+    return 1;
+  }
+  return funnel
+    .slice(funnel.findIndex((definition) => definition.id === stage))
+    .reduce((share, definition) => share * (definition.conversionRate ?? 1), 1);
+}
+
+/** Share of a target due after `elapsedDays` of a `windowDays` window, following the launch ramp. */
+export function rampShare(elapsedDays: number, windowDays: number) {
+  return Math.pow(Math.min(Math.max(elapsedDays / windowDays, 0), 1), RAMP_EXPONENT);
+}
+
+/** First number in the text that is not itself a time window ("90 days"). */
+function findQuantity(text: string) {
+  numberPattern.lastIndex = 0;
+  let match = numberPattern.exec(text);
+
+  while (match) {
+    const [, currency, digits, suffix, percent, nextWord] = match;
+    if (!nextWord || !timeUnitPattern.test(nextWord) || suffix || currency) {
+      const value = Number(digits.replace(/,/g, "")) * (suffix ? multipliers[suffix] : 1);
+      const unitStart = match.index + match[0].length - (nextWord?.length ?? 0);
+      return { value, unitStart, percent: Boolean(percent), currency: Boolean(currency) };
+    }
+    match = numberPattern.exec(text);
+  }
+  return null;
+}
+
+/** The words after the number, up to the window ("activated workspaces", "ARR"). */
+function unitLabel(metric: string, unitStart: number, isMoney: boolean) {
+  const words = metric
+    .slice(unitStart)
+    .match(
+      /^[A-Za-z][A-Za-z' -]*?(?=\s+(?:in|by|within|over|per|during|across|each|every|a)\b|[,.;(/]|$)/,
+    )?.[0]
+    ?.trim();
+  return words || (isMoney ? "revenue" : "outcomes");
+}
+
+function phaseAt(date: string, phases: PhaseWindow[]) {
+  const phase = phases.find((entry) => entry.startDate <= date && date <= entry.endDate);
+  if (phase) {
+    return phase.name;
+  }
+  const last = phases[phases.length - 1];
+  return last && date > last.endDate ? "Post-launch" : (phases[0]?.name ?? "");
+}
+
+function planMilestones(
+  total: number,
+  startDate: string,
+  windowDays: number,
+  cadence: MetricCadence,
+  phases: PhaseWindow[],
+): MetricMilestone[] {
+  const start = parseIsoDate(startDate) ?? new Date();
+  const period = cadence === "weekly" ? 7 : 30;
+  const count = Math.min(Math.ceil(windowDays / period), MILESTONE_LIMIT);
+  const step = windowDays / count;
+
+  return Array.from({ length: count }, (_, index) => {
+    const endOffset = index === count - 1 ? windowDays - 1 : Math.round(step * (index + 1)) - 1;
+    const date = toIsoDate(addDays(start, endOffset));
+    const share = rampShare(endOffset + 1, windowDays);
+    const unit = cadence === "weekly" ? "Week" : "Month";
+    const periodIndex = Math.floor(endOffset / period) + 1;
+
+    return {
+      label: `${unit} ${periodIndex}`,
+      date,
+      phase: phaseAt(date, phases),
+      target: index === count - 1 ? total : Math.round(total * share),
+    };
+  });
+}
+
+function backCalculateFunnel(total: number, stage: string, funnel: StageDefinition[]) {
+  const targetIndex = funnel.findIndex((entry) => entry.id === stage);
+  const volumes: FunnelVolume[] = [];
+  let volume = total;
+
+  for (let index = targetIndex; index >= 0; index -= 1) {
+    const definition = funnel[index];
+    if (index < targetIndex) {
+      volume = Math.ceil(volume / (definition.conversionRate ?? 1));
+    }
+    volumes.unshift({
+      stage: definition.id,
+      label: definition.label,
+      volume,
+      conversionRate: index === targetIndex ? null : definition.conversionRate,
+      instrumentation: definition.instrumentation,
+    });
+  }
+  return volumes;
+}
+
+function unparsedPlan(northStar: string, message: string, cadence: MetricCadence): MeasurementPlan {
+  return { northStar, parsed: false, message, target: null, cadence, milestones: [], funnel: [] };
+}
+
+/**
+ * Builds the quantified plan behind the north-star metric. The time window
+ * comes from the metric itself ("in 90 days") and falls back to the launch
+ * horizon; run-rate targets ("per month") are totalled over the horizon.
+ * Money targets are converted to deals with an average contract value for
+ * the pricing model, or the one given in `contractValue`. Anything without a readable count returns `parsed: false`
+ * and a message saying what to change. A "by <date>" deadline ends the
+ * window, pipeline money counts opportunities, and active-user counts
+ * ("500 weekly active users") are a level to reach rather than a rate.
+ */
+export function buildMeasurementPlan(
+  northStar: string,
+  options: {
+    launchHorizon: string;
+    launchStartDate?: string;
+    pricingModels: PricingModel[];
+    phases: PhaseWindow[];
+    /** Average first-year contract, e.g. from market inputs; overrides the model default. */
+    contractValue?: number;
+    /** Shortest horizon to plan over, e.g. a vertical pack's buying cycle. */
+    minimumDays?: number;
+  },
+): MeasurementPlan {
+  const horizon = extendHorizon(
+    parseLaunchHorizon(options.launchHorizon, options.launchStartDate),
+    options.minimumDays ?? 0,
+  );
+  const deadlineMatch = northStar.toLowerCase().match(deadlinePattern);
+  // Blanked rather than cut out, so offsets into the metric still line up.
+  const text = deadlineMatch
+    ? northStar.toLowerCase().replace(deadlineMatch[0], " ".repeat(deadlineMatch[0].length))
+    : northStar.toLowerCase();
+  const recurring = activeLevelPattern.test(text) ? null : text.match(recurringPattern);
+  const deadline = deadlineMatch ? parseIsoDate(deadlineMatch[1]) : null;
+  const start = parseIsoDate(horizon.startDate) ?? new Date();
+  const ownWindow = deadline
+    ? { parsed: true, days: Math.round((deadline.getTime() - start.getTime()) / DAY_MS) + 1 }
+    : recurring
+      ? null
+      : parseLaunchHorizon(text, horizon.startDate);
+  const windowDays = ownWindow?.parsed ? ownWindow.days : horizon.days;
+  const cadence: MetricCadence = windowDays <= 84 ? "weekly" : "monthly";
+  const quantity = findQuantity(text);
+
+  if (deadlineMatch && (!deadline || windowDays < 1)) {
+    return unparsedPlan(
+      northStar,
+      `The deadline in "${northStar}" ${
+        deadline
+          ? `is before the launch starts on ${formatDate(horizon.startDate)}`
+          : "isn't a real date"
+      }. Give a date after the launch start to get milestones and funnel targets.`,
+      cadence,
+    );
+  }
+
+  if (!quantity || !quantity.value) {
+    return unparsedPlan(
+      northStar,
+      `Couldn't find a target number in "${northStar}". Phrase it as a count and window, e.g. "50 SQLs in 90 days", to get milestones and funnel targets.`,
+      cadence,
+    );
+  }
+  if (quantity.percent) {
+    return unparsedPlan(
+      northStar,
+      `"${northStar}" is a rate, so funnel volumes can't be back-calculated from it. Add a count such as "200 paying teams in 90 days" to get milestones and funnel targets.`,
+      cadence,
+    );
+  }
+
+  const isMoney = quantity.currency || currencyPattern.test(text);
+  const stageMatch = unitStages
+    .map((entry) => ({ entry, match: text.match(entry.pattern) }))
+    .find(({ match }) => match);
+
+  if (!isMoney && !stageMatch) {
+    return unparsedPlan(
+      northStar,
+      `Found ${quantity.value} in "${northStar}" but no unit the funnel recognises (for example SQLs, demos, signups, activated users, customers or ARR).`,
+      cadence,
+    );
+  }
+
+  const model = options.pricingModels[0] ?? "unknown";
+  const productLed = model === "freemium" || model === "usage";
+  const pipeline = isMoney && pipelinePattern.test(text);
+  const counted = isMoney ? null : stageMatch?.entry;
+  const funnel = counted ? counted.funnel : productLed && !pipeline ? productFunnel : salesFunnel;
+  const stage = pipeline ? "opportunities" : (counted?.stage ?? funnel[funnel.length - 1].id);
+  const stageLabel = funnel.find((entry) => entry.id === stage)?.label.toLowerCase() ?? stage;
+
+  const runUnit = recurring?.slice(1).find(Boolean);
+  const runs = runUnit ? windowDays / (periodDays[runUnit] ?? 30) : 1;
+  const annualised = isMoney && /\bmrr\b/.test(text) ? 12 : 1;
+  const contractValue = options.contractValue ?? contractValues[model];
+  const perRun = isMoney
+    ? Math.ceil((quantity.value * annualised) / contractValue)
+    : Math.ceil(quantity.value);
+  const total = Math.ceil(perRun * runs);
+
+  const startDate = horizon.startDate;
+  const dueDate = toIsoDate(addDays(start, windowDays - 1));
+  const unit = unitLabel(northStar, quantity.unitStart, isMoney);
+  const amount = isMoney ? formatCurrency(quantity.value) : formatCount(quantity.value);
+
+  const read = [
+    runUnit
+      ? `Read as ${amount} ${unit} per ${runUnit}, ${formatCount(total)} in total by ${formatDate(dueDate)}`
+      : `Read as ${amount} ${unit} by ${formatDate(dueDate)}`,
+    ownWindow?.parsed
+      ? `(${windowDays}-day window).`
+      : `(the ${windowDays}-day launch horizon, since the metric names no window).`,
+  ];
+  if (isMoney) {
+    read.push(
+      `Assumes a ${formatCurrency(contractValue)} average contract ${
+        options.contractValue ? "from the market inputs" : `for ${model} pricing`
+      }, so ${formatCount(total)} new ${stageLabel}.`,
+    );
+  }
+
+  return {
+    northStar,
+    parsed: true,
+    message: read.join(" "),
+    target: {
+      value: quantity.value,
+      unit,
+      stage,
+      windowDays,
+      dueDate,
+      recurring: Boolean(recurring),
+      total,
+      contractValue: isMoney ? contractValue : null,
+    },
+    cadence,
+    milestones: planMilestones(total, startDate, windowDays, cadence, options.phases),
+    funnel: backCalculateFunnel(total, stage, funnel),
+  };
+}
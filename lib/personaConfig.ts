@@ -0,0 +1,106 @@
+/**
+ * Loads team-defined persona archetypes from a JSON file so new buyers
+ * (procurement, security reviewers, end users...) can be added without code
+ * changes. The file is read from `GTM_PERSONA_CONFIG`, defaulting to
+ * `config/personas.json`; a missing or malformed file simply means no custom
+ * archetypes.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { PersonaArchetype, PersonaKeyword } from "./personas";
+
+type RawArchetype = Record<string, unknown>;
+
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => typeof item === "string" && item.trim().length > 0)
+  );
+}
+
+function parseKeyword(value: unknown): PersonaKeyword | null {
+  if (typeof value === "string" && value.trim()) {
+    return { term: value.trim(), weight: 1 };
+  }
+  if (value && typeof value === "object") {
+    const { term, weight } = value as Record<string, unknown>;
+    if (typeof term === "string" && term.trim()) {
+      return {
+        term: term.trim(),
+        weight: typeof weight === "number" && weight > 0 ? weight : 1,
+      };
+    }
+  }
+  return null;
+}
+
+function parseArchetype(raw: RawArchetype): PersonaArchetype | null {
+  const { id, persona, keywords, needs, triggers, objections } = raw;
+
+  if (
+    typeof id !== "string" ||
+    typeof persona !== "string" ||
+    !Array.isArray(keywords) ||
+    !isStringList(needs) ||
+    !isStringList(triggers) ||
+    !isStringList(objections)
+  ) {
+    return null;
+  }
+
+  const parsedKeywords = keywords
+    .map(parseKeyword)
+    .filter((keyword): keyword is PersonaKeyword => keyword !== null);
+
+  if (!parsedKeywords.length) {
+    return null;
+  }
+
+  return { id, persona, keywords: parsedKeywords, needs, triggers, objections };
+}
+
+export function parsePersonaConfig(json: unknown): PersonaArchetype[] {
+  const entries = Array.isArray(json)
+    ? json
+    : Array.isArray((json as { archetypes?: unknown })?.archetypes)
+      ? (json as { archetypes: unknown[] }).archetypes
+      : [];
+
+  return entries.flatMap((entry, index) => {
+    const archetype =
+      entry && typeof entry === "object" ? parseArchetype(entry as RawArchetype) : null;
+    if (!archetype) {
+      console.warn(`Skipping invalid persona archetype at index ${index}`);
+      return [];
+    }
+    return [archetype];
+  });
+}
+
+export async function loadCustomArchetypes(
+  configPath = process.env.GTM_PERSONA_CONFIG ||
+    path.join(process.cwd(), "config", "personas.json"),
+): Promise<PersonaArchetype[]> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(configPath, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw err;
+  }
+
+  // A typo in the file shouldn't take the agent down; plan with the built-ins.
+  let json: unknown;
+  try {
+    json = JSON.parse(contents);
+  } catch (err) {
+    console.error(`Ignoring persona config ${configPath}: it is not valid JSON`, err);
+    return [];
+  }
+
+  return parsePersonaConfig(json);
+}
@@ -0,0 +1,231 @@
+/**
+ * Weighted persona matcher. Each archetype carries weighted keywords that are
+ * scored against the brief's audience, problem, goal and pricing text, so the
+ * agent can explain which words pulled a persona into the plan and how sure
+ * it is. Teams can register extra archetypes from JSON (see `personaConfig.ts`).
+ */
+
+import { escapeRegExp } from "./format";
+
+export type PersonaKeyword = {
+  term: string;
+  weight: number;
+};
+
+export type PersonaArchetype = {
+  id: string;
+  persona: string;
+  keywords: PersonaKeyword[];
+  needs: string[];
+  triggers: string[];
+  objections: string[];
+};
+
+export type PersonaMatch = PersonaArchetype & {
+  confidence: number;
+  matchedKeywords: string[];
+};
+
+export type PersonaSignals = {
+  audience: string;
+  problem: string;
+  primaryGoal: string;
+  pricing: string;
+};
+
+/** Audience text is the strongest signal; the rest only nudge the score. */
+const fieldWeights: Record<keyof PersonaSignals, number> = {
+  audience: 1,
+  primaryGoal: 0.6,
+  problem: 0.5,
+  pricing: 0.4,
+};
+
+export const MIN_PERSONA_CONFIDENCE = 0.4;
+export const MAX_PERSONAS = 3;
+export const FALLBACK_PERSONA_ID = "operator";
+
+const kw = (term: string, weight = 1): PersonaKeyword => ({ term, weight });
+
+export const builtInArchetypes: PersonaArchetype[] = [
+  {
+    id: "builder",
+    persona: "Hands-on Builder",
+    keywords: [
+      kw("founder", 1.2),
+      kw("developer", 1.5),
+      kw("engineer", 1.5),
+      kw("engineering", 1),
+      kw("dev", 1),
+      kw("builder", 1.2),
+      kw("technical", 0.8),
+      kw("api", 0.8),
+      kw("sdk", 0.8),
+      kw("open source", 0.8),
+      kw("cto", 0.8),
+      kw("startup", 0.6),
+      kw("usage-based", 0.5),
+    ],
+    needs: [
+      "Rapid experimentation sandbox",
+      "Composable APIs with excellent docs",
+      "Signals that surface product-market fit faster",
+    ],
+    triggers: [
+      "Dev-first onboarding with minimal friction",
+      "Proof of velocity — shipping hours, not weeks",
+      "Community where peers share playbooks",
+    ],
+    objections: [
+      "Vendor lock-in or forced workflow changes",
+      "Unclear pricing scale for high usage",
+      "Slow support response for technical blockers",
+    ],
+  },
+  {
+    id: "operator",
+    persona: "Growth Operator",
+    keywords: [
+      kw("marketing", 1.5),
+      kw("growth", 1.5),
+      kw("revops", 1.5),
+      kw("revenue operations", 1.5),
+      kw("demand gen", 1.2),
+      kw("sales", 1),
+      kw("operations", 0.8),
+      kw("ops", 0.8),
+      kw("pipeline", 1),
+      kw("conversion", 0.8),
+      kw("attribution", 0.8),
+      kw("roi", 0.6),
+      kw("seat", 0.4),
+    ],
+    needs: [
+      "Clarity on ROI and payback period",
+      "Confidence in data quality and governance",
+      "Frictionless collaboration with GTM teams",
+    ],
+    triggers: [
+      "Success stories with hard revenue numbers",
+      "Live dashboards with attribution guardrails",
+      "Roadmap stability and SOC2/ISO compliance",
+    ],
+    objections: [
+      "Hidden costs in seats or limits",
+      "Unproven integrations into current stack",
+      "Concern about AI hallucinations in production",
+    ],
+  },
+  {
+    id: "executive",
+    persona: "Strategic Executive",
+    keywords: [
+      kw("executive", 1.5),
+      kw("c-suite", 1.5),
+      kw("ceo", 1.5),
+      kw("cto", 1.2),
+      kw("cio", 1.5),
+      kw("cfo", 1.5),
+      kw("cmo", 1.2),
+      kw("chief", 1.2),
+      kw("vp", 1.2),
+      kw("head of", 1),
+      kw("director", 0.8),
+      kw("leadership", 1),
+      kw("enterprise", 1),
+      kw("bank", 0.8),
+      kw("financial services", 0.8),
+      kw("board", 0.6),
+      kw("annual contract", 0.5),
+    ],
+    needs: [
+      "Differentiated POV on market category",
+      "Risk mitigation and governance controls",
+      "Evidence of defensible moats",
+    ],
+    triggers: [
+      "Executive briefings benchmarking competitors",
+      "Vision decks articulating future roadmap",
+      "References from marquee customers",
+    ],
+    objections: [
+      "Unclear compliance posture",
+      "Limited enterprise support coverage",
+      "High switching cost from incumbents",
+    ],
+  },
+];
+
+function keywordPattern(term: string) {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(term.toLowerCase())}(e?s)?(?![a-z0-9])`, "i");
+}
+
+/** Custom archetypes replace built-ins that share their id. */
+export function mergeArchetypes(custom: PersonaArchetype[] = []) {
+  const customIds = new Set(custom.map((archetype) => archetype.id));
+  return [...builtInArchetypes.filter((archetype) => !customIds.has(archetype.id)), ...custom];
+}
+
+export type KeywordHit = {
+  term: string;
+  weight: number;
+  /** The strongest field the term appeared in. */
+  field: keyof PersonaSignals;
+  /** The words as written in the brief, e.g. "developers". */
+  text: string;
+};
+
+/** Which keywords of an archetype the brief mentions, and where. */
+export function keywordHits(archetype: PersonaArchetype, signals: PersonaSignals): KeywordHit[] {
+  const fields = (Object.keys(fieldWeights) as Array<keyof PersonaSignals>).sort(
+    (a, b) => fieldWeights[b] - fieldWeights[a],
+  );
+
+  return archetype.keywords.flatMap(({ term, weight }) => {
+    const pattern = keywordPattern(term);
+    const field = fields.find((entry) => pattern.test(signals[entry] ?? ""));
+    const match = field ? (signals[field] ?? "").match(pattern) : null;
+    return field && match ? [{ term, weight, field, text: match[0].slice(match[1].length) }] : [];
+  });
+}
+
+export function scoreArchetype(archetype: PersonaArchetype, signals: PersonaSignals): PersonaMatch {
+  const hits = keywordHits(archetype, signals);
+  const score = hits.reduce((sum, hit) => sum + hit.weight * fieldWeights[hit.field], 0);
+
+  return {
+    ...archetype,
+    confidence: Math.round((score / (score + 1)) * 100) / 100,
+    matchedKeywords: hits.map((hit) => hit.term),
+  };
+}
+
+/**
+ * Ranks every archetype against the brief and keeps the confident ones. When
+ * nothing clears the bar, the fallback persona is returned with its (low)
+ * score so the UI can show it was a default rather than a match.
+ */
+export function matchPersonas(
+  signals: PersonaSignals,
+  archetypes: PersonaArchetype[] = builtInArchetypes,
+): PersonaMatch[] {
+  const ranked = archetypes
+    .map((archetype) => scoreArchetype(archetype, signals))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const confident = ranked
+    .filter((match) => match.confidence >= MIN_PERSONA_CONFIDENCE)
+    .slice(0, MAX_PERSONAS);
+
+  if (confident.length) {
+    return confident;
+  }
+
+  const fallback =
+    ranked.find((match) => match.id === FALLBACK_PERSONA_ID) ??
+    scoreArchetype(
+      builtInArchetypes.find((archetype) => archetype.id === FALLBACK_PERSONA_ID)!,
+      signals,
+    );
+  return [fallback];
+}
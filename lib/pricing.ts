@@ -0,0 +1,589 @@
+/**
+ * Pricing and packaging from the free-text `pricing` field. The motion is
+ * classified first (usage, seat, freemium, enterprise contract, flat), then
+ * turned into packaging tiers with a value metric and the fences that keep
+ * buyers in the right tier, a few price tests to run during launch, answers
+ * to the pricing objections personas raise, and conflicts between the
+ * motion and the audience or primary goal.
+ */
+
+import { classifyGoalMotion } from "./enablement";
+import { trimPeriod } from "./format";
+
+export type PricingModel = "usage" | "seat" | "freemium" | "enterprise" | "flat" | "unknown";
+
+export type PackagingTier = {
+  name: string;
+  buyer: string;
+  price: string;
+  /** How the tier is metered, in the strategy's value metric. */
+  limit: string;
+  includes: string[];
+  /** What keeps buyers who need more from staying in this tier. */
+  fences: string[];
+};
+
+export type PriceTest = {
+  title: string;
+  hypothesis: string;
+  method: string;
+  measure: string;
+  guardrail: string;
+};
+
+export type PricingObjection = {
+  persona: string;
+  objection: string;
+  answer: string;
+};
+
+export type PricingConflict = {
+  severity: "high" | "medium" | "low";
+  field: "audience" | "primaryGoal";
+  message: string;
+};
+
+export type PricingStrategy = {
+  models: PricingModel[];
+  /** The model the tiers are built on; freemium only adds a free tier on top. */
+  primaryModel: PricingModel;
+  valueMetric: string;
+  rationale: string;
+  tiers: PackagingTier[];
+  priceTests: PriceTest[];
+  objections: PricingObjection[];
+  conflicts: PricingConflict[];
+};
+
+type Brief = {
+  productName: string;
+  audience: string;
+  pricing: string;
+  primaryGoal: string;
+};
+
+type PersonaProfile = {
+  persona: string;
+  objections: string[];
+};
+
+type TierTemplate = {
+  name: string;
+  buyer: string;
+  price: string;
+  /** Whether the brief's own price point, if any, replaces `price` for this tier. */
+  quoted?: boolean;
+  limit: (unit: string) => string;
+  includes: (unit: string) => string[];
+  fences: (unit: string) => string[];
+};
+
+type PackagingModel = Exclude<PricingModel, "freemium" | "unknown">;
+
+/** Enterprise signals other than the word itself, which can just name a top tier. */
+const contractPattern =
+  /\b(annual contract|custom (pricing|quote)|acv|platform fee|contact sales)\b/;
+
+const pricingSignals: Array<{ model: Exclude<PricingModel, "unknown">; pattern: RegExp }> = [
+  { model: "freemium", pattern: /\b(free(mium)?|free tier|free plan|open[- ]core)\b/ },
+  {
+    model: "usage",
+    pattern:
+      /\b(usage|consumption|pay[- ]as[- ]you[- ]go|metered|per (\w+ )?(call|request|token|task|run)s?|credits?)\b/,
+  },
+  { model: "seat", pattern: /\b(seats?|per (user|seat|editor|member)|per-user|licen[cs]es?)\b/ },
+  { model: "enterprise", pattern: new RegExp(`\\benterprise\\b|${contractPattern.source}`) },
+  { model: "flat", pattern: /\b(flat|fixed|subscription|per month|monthly plan|tiers?)\b/ },
+];
+
+const enterprisePattern =
+  /\b(enterprises?|fortune \d+|global 2000|large (organi[sz]ations|companies))\b/i;
+const selfServePattern =
+  /\b(smbs?|small|startups?|self[- ]serve|individuals?|freelancers?|developers?|prosumers?)\b/i;
+const pricingObjectionPattern =
+  /\b(price|pricing|cost|costs|seats?|usage|budget|expensive|fees?|limits?|bill(ing)?)\b/i;
+/** "$29", "€99", "0.02 USD" or "¥3,000"; the unit it is per is read separately. */
+const amountPattern =
+  /[$€£¥]\s?\d[\d,]*(\.\d+)?k?|\d[\d,]*(\.\d+)?k?\s?(€|£|eur|usd|gbp|chf|jpy|円)(?![a-z])/i;
+const perPattern = /^\s?(\/|per\b)\s?/i;
+const periodUnits = new Set(["month", "year", "mo", "yr", "annum", "quarter", "week", "day"]);
+/** Words that end a unit: "per editor per month", "per seat billed annually". */
+const unitStopWords = new Set([
+  "per",
+  "a",
+  "an",
+  "and",
+  "or",
+  "with",
+  "on",
+  "for",
+  "in",
+  "at",
+  "plus",
+  "billed",
+  "tier",
+  "plan",
+  "monthly",
+  "annually",
+  "yearly",
+]);
+const MAX_UNIT_WORDS = 3;
+
+const MAX_PRICE_TESTS = 3;
+const UNQUOTED_PRICE = "Set by the price tests below";
+
+const enterpriseTier: TierTemplate = {
+  name: "Enterprise",
+  buyer: "Organisations with security and procurement reviews",
+  price: "Annual contract, custom quote",
+  limit: (unit) => `Volume of ${unit}s agreed in the contract`,
+  includes: () => [
+    "SSO/SAML, audit logs and data residency options",
+    "Named success manager and uptime SLA",
+    "Volume pricing on an annual commitment",
+  ],
+  fences: () => ["Annual contract with a minimum commitment", "Security review and DPA"],
+};
+
+const freeTier: TierTemplate = {
+  name: "Free",
+  buyer: "Evaluators and individual users",
+  price: "$0",
+  limit: (unit) => `A capped number of ${unit}s`,
+  includes: () => ["The core workflow", "One workspace", "Community support"],
+  fences: (unit) => [
+    `A ${unit} cap that a working team outgrows`,
+    "No integrations or admin controls",
+  ],
+};
+
+const packagingModels: Record<
+  PackagingModel,
+  {
+    label: string;
+    defaultUnit: string;
+    valueMetric: (unit: string) => string;
+    tiers: TierTemplate[];
+  }
+> = {
+  usage: {
+    label: "usage-based pricing",
+    defaultUnit: "workflow run",
+    valueMetric: (unit) => `${unit}s per month`,
+    tiers: [
+      {
+        name: "Pay as you go",
+        buyer: "Builders and small teams trying it on real work",
+        quoted: true,
+        price: UNQUOTED_PRICE,
+        limit: (unit) => `Billed per ${unit}`,
+        includes: () => [
+          "Self-serve signup",
+          "All core features",
+          "Usage dashboard and spend alerts",
+        ],
+        fences: () => ["Monthly spend cap", "Email support only"],
+      },
+      {
+        name: "Committed use",
+        buyer: "Teams with steady monthly volume",
+        price: "Discounted rate for a monthly commitment",
+        limit: (unit) => `A committed block of ${unit}s each month`,
+        includes: (unit) => [
+          `A lower rate per ${unit} than pay as you go`,
+          `Unused ${unit}s roll over for one month`,
+          "Priority support",
+        ],
+        fences: () => ["Monthly commitment", "Admin roles and usage reports"],
+      },
+      enterpriseTier,
+    ],
+  },
+  seat: {
+    label: "per-seat pricing",
+    defaultUnit: "user",
+    valueMetric: (unit) => `active ${unit}s`,
+    tiers: [
+      {
+        name: "Team",
+        buyer: "A single team adopting it together",
+        quoted: true,
+        price: UNQUOTED_PRICE,
+        limit: (unit) => `Per ${unit} per month`,
+        includes: () => ["Core workflows", "Shared workspace", "Standard integrations"],
+        fences: (unit) => [`Up to 10 ${unit}s`, "Email support"],
+      },
+      {
+        name: "Business",
+        buyer: "Several teams with an admin owning the rollout",
+        price: "Higher per-seat price, billed annually",
+        limit: (unit) => `Per ${unit} per month, billed annually`,
+        includes: () => ["Advanced automation", "Role-based permissions", "Usage analytics"],
+        fences: () => ["Annual billing", "Permissions and analytics only in this tier"],
+      },
+      enterpriseTier,
+    ],
+  },
+  flat: {
+    label: "a flat subscription",
+    defaultUnit: "workspace",
+    valueMetric: (unit) => `${unit}s and plan features`,
+    tiers: [
+      {
+        name: "Starter",
+        buyer: "Small teams with one use case",
+        quoted: true,
+        price: UNQUOTED_PRICE,
+        limit: (unit) => `One ${unit}`,
+        includes: () => ["Core workflows", "Standard integrations"],
+        fences: () => ["Core features only", "Email support"],
+      },
+      {
+        name: "Pro",
+        buyer: "Growing teams running it every day",
+        price: "Roughly two to three times Starter",
+        limit: (unit) => `Up to five ${unit}s`,
+        includes: () => ["Advanced automation", "Reporting", "Priority support"],
+        fences: () => ["Automation and reporting only in this tier"],
+      },
+      enterpriseTier,
+    ],
+  },
+  enterprise: {
+    label: "annual enterprise contracts",
+    defaultUnit: "team",
+    valueMetric: (unit) => `${unit}s and workflows in production`,
+    tiers: [
+      {
+        name: "Pilot",
+        buyer: "One team proving value before a wider rollout",
+        price: "Fixed pilot fee, credited to the annual contract",
+        limit: () => "One workflow for 60–90 days",
+        includes: () => [
+          "Onboarding by a solutions engineer",
+          "Success plan with one agreed metric",
+        ],
+        fences: () => ["Fixed term", "Capped users and volume"],
+      },
+      {
+        name: "Platform",
+        buyer: "Business units standardising on it",
+        quoted: true,
+        price: "Annual platform fee plus volume",
+        limit: (unit) => `Several ${unit}s and workflows`,
+        includes: () => ["Admin controls", "Standard integrations", "Standard SLA"],
+        fences: () => ["Annual contract", "Data residency and premium SLA held back"],
+      },
+      enterpriseTier,
+    ],
+  },
+};
+
+type PriceTestTemplate = PriceTest & {
+  when: (models: PricingModel[], brief: Brief) => boolean;
+};
+
+const priceTests: PriceTestTemplate[] = [
+  {
+    title: "Willingness-to-pay interviews",
+    hypothesis: "Target buyers accept the entry price without a discount.",
+    method: "Run a Van Westendorp survey with 20–30 target buyers before the price is published.",
+    measure: "Acceptable price range and the point where buyers call it too expensive",
+    guardrail: "Don't publish an entry price outside the acceptable range.",
+    when: () => true,
+  },
+  {
+    title: "Free-tier limit test",
+    hypothesis: "A lower free limit raises upgrades without hurting activation.",
+    method: "Split new signups between two free limits for four weeks.",
+    measure: "Free-to-paid conversion",
+    guardrail: "Activation stays within 10% of the higher limit.",
+    when: (models) => models.includes("freemium"),
+  },
+  {
+    title: "Committed-use discount test",
+    hypothesis: "A deeper commitment discount moves steady users off pay as you go.",
+    method: "Offer a 15% or a 25% discount for a monthly commitment at checkout.",
+    measure: "Share of accounts that commit and net revenue per account",
+    guardrail: "Average realised price per unit doesn't fall more than 10%.",
+    when: (models) => models.includes("usage"),
+  },
+  {
+    title: "Seat minimum test",
+    hypothesis: "A three-seat minimum on Team lifts revenue per account without losing signups.",
+    method: "Show the Team tier with and without a three-seat minimum.",
+    measure: "Paid conversion and average seats per account",
+    guardrail: "Trial-to-paid conversion stays within 10% of control.",
+    when: (models) => models.includes("seat"),
+  },
+  {
+    title: "Proposal anchor test",
+    hypothesis: "A higher platform-fee anchor closes at the same rate with less discounting.",
+    method: "Alternate two platform-fee anchors across proposals for one quarter.",
+    measure: "Win rate and average discount",
+    guardrail: "Sales cycle length doesn't grow by more than two weeks.",
+    when: (models) => models.includes("enterprise"),
+  },
+  {
+    title: "Annual prepay test",
+    hypothesis: "Two free months for paying annually pulls revenue forward.",
+    method: "Offer monthly and annual billing side by side, with and without the incentive.",
+    measure: "Share of new accounts on annual plans and cash collected",
+    guardrail: "Overall paid conversion doesn't drop.",
+    when: (models, brief) =>
+      classifyGoalMotion(brief.primaryGoal) === "revenue" && !isEnterpriseOnly(models),
+  },
+  {
+    title: "Pricing page anchor test",
+    hypothesis: "Showing the Enterprise tier first makes the middle tier look like the default.",
+    method: "A/B the pricing page with the tiers in ascending and descending order.",
+    measure: "Mix of tiers chosen at checkout",
+    guardrail: "Checkout completion rate holds.",
+    when: (models) => !isEnterpriseOnly(models),
+  },
+];
+
+const objectionAnswers: Record<PackagingModel, (unit: string) => string> = {
+  usage: (unit) =>
+    `Publish a usage calculator with example bills at typical and double volume, and let admins set a hard monthly cap on ${unit}s.`,
+  seat: (unit) =>
+    `List every fee on the pricing page and bill only active ${unit}s, so no one pays for an unused seat.`,
+  flat: (unit) =>
+    `Show each plan's limits on the pricing page and what happens when a team outgrows its ${unit}.`,
+  enterprise: () =>
+    "Quote one all-in annual figure that covers volume, support and onboarding, with no overage surprises.",
+};
+
+/** Every pricing motion the text mentions, in precedence order; "unknown" when none. */
+export function classifyPricingModels(pricing: string): PricingModel[] {
+  const text = pricing.toLowerCase();
+  const models = pricingSignals
+    .filter(({ pattern }) => pattern.test(text))
+    .map(({ model }) => model)
+    // A monthly paid tier is how a freemium plan charges, not a second motion, and
+    // "Enterprise custom" next to a free plan names its top tier, not a contract motion.
+    .filter(
+      (model, _, all) =>
+        !all.includes("freemium") ||
+        (model !== "flat" && (model !== "enterprise" || contractPattern.test(text))),
+    );
+  return models.length ? models : ["unknown"];
+}
+
+/** Which buyer segments an audience names; both can be true for a mixed audience. */
+export function audienceSegments(audience: string) {
+  return {
+    enterprise: enterprisePattern.test(audience),
+    selfServe: selfServePattern.test(audience),
+  };
+}
+
+function isEnterpriseOnly(models: PricingModel[]) {
+  return models.length === 1 && models[0] === "enterprise";
+}
+
+/** Freemium adds a free tier; the paid tiers follow the first other motion, or flat. */
+function packagingModel(models: PricingModel[]): PackagingModel {
+  return (
+    models.find((model): model is PackagingModel => model !== "freemium" && model !== "unknown") ??
+    "flat"
+  );
+}
+
+/**
+ * The words a price is per, read from the start of `text`: "API call" in
+ * "API call, billed monthly". A period ends the unit, as does punctuation.
+ */
+function unitAt(text: string) {
+  const words: string[] = [];
+  let length = 0;
+  let match = text.match(/^([a-z][a-z-]*)/i);
+  while (match && words.length < MAX_UNIT_WORDS) {
+    const word = match[1];
+    if (
+      words.length &&
+      (unitStopWords.has(word.toLowerCase()) || periodUnits.has(word.toLowerCase()))
+    ) {
+      break;
+    }
+    words.push(word);
+    length += match[0].length;
+    if (periodUnits.has(word.toLowerCase())) {
+      break;
+    }
+    match = text.slice(length).match(/^ ([a-z][a-z-]*)/i);
+  }
+  return { words, length };
+}
+
+/** Lower-cases words but keeps acronyms, and makes the last word singular. */
+function unitName(words: string[]) {
+  return words
+    .map((word) => (word.length > 1 && word === word.toUpperCase() ? word : word.toLowerCase()))
+    .join(" ")
+    .replace(/([^isu])s$/i, "$1");
+}
+
+/** The brief's price with what it is per, e.g. "€29 per editor per month". */
+function findPricePoint(pricing: string) {
+  const amount = amountPattern.exec(pricing);
+  if (!amount) {
+    return undefined;
+  }
+  let end = amount.index + amount[0].length;
+  for (let count = 0; count < 2; count += 1) {
+    const per = pricing.slice(end).match(perPattern);
+    const unit = per ? unitAt(pricing.slice(end + per[0].length)) : null;
+    if (!per || !unit?.words.length) {
+      break;
+    }
+    end += per[0].length + unit.length;
+  }
+  return { text: pricing.slice(amount.index, end).trim(), index: amount.index };
+}
+
+/** The unit the brief prices by, e.g. "task" in "$0.02 per task"; periods don't count. */
+function pricedUnit(pricing: string) {
+  return Array.from(pricing.matchAll(/\bper\s+/gi))
+    .map((match) => unitAt(pricing.slice((match.index ?? 0) + match[0].length)).words)
+    .filter((words) => words.length && !periodUnits.has(words[0].toLowerCase()))
+    .map(unitName)[0];
+}
+
+/**
+ * Where `clause` names a tier: "pro tier" or "Pro plan" in any case, or the
+ * capitalised name on its own ("Pro at $20/mo"), so "per team" isn't a tier.
+ */
+function tierMention(clause: string, name: string) {
+  const indexes = [
+    clause.search(new RegExp(`\\b${name}\\s+(tier|plan)\\b`, "i")),
+    clause.search(new RegExp(`\\b${name}\\b`)),
+  ].filter((index) => index !== -1);
+  return indexes.length ? Math.min(...indexes) : -1;
+}
+
+/**
+ * The tier the brief's price belongs to: the one it names nearest the price
+ * in the same clause ("$49/mo pro tier", "Pro at $20/mo"), else the model's
+ * quoted tier.
+ */
+function quotedTierName(pricing: string, templates: TierTemplate[], priceIndex: number) {
+  const start =
+    Math.max(pricing.lastIndexOf(",", priceIndex), pricing.lastIndexOf(";", priceIndex)) + 1;
+  const end = pricing.slice(priceIndex).search(/[,;]/);
+  const clause = pricing.slice(start, end === -1 ? undefined : priceIndex + end);
+  const named = templates
+    .map((template) => ({ template, index: tierMention(clause, template.name) }))
+    .filter(({ index }) => index !== -1)
+    .sort(
+      (a, b) => Math.abs(a.index + start - priceIndex) - Math.abs(b.index + start - priceIndex),
+    )[0];
+  return (named?.template ?? templates.find((template) => template.quoted))?.name;
+}
+
+function buildTier(
+  template: TierTemplate,
+  unit: string,
+  pricePoint?: { text: string; tier?: string },
+): PackagingTier {
+  return {
+    name: template.name,
+    buyer: template.buyer,
+    price: pricePoint && pricePoint.tier === template.name ? pricePoint.text : template.price,
+    limit: template.limit(unit),
+    includes: template.includes(unit),
+    fences: template.fences(unit),
+  };
+}
+
+function findConflicts(brief: Brief, models: PricingModel[]): PricingConflict[] {
+  const conflicts: PricingConflict[] = [];
+  const segments = audienceSegments(brief.audience);
+  const motion = classifyGoalMotion(brief.primaryGoal);
+
+  if (isEnterpriseOnly(models) && segments.selfServe) {
+    conflicts.push({
+      severity: "high",
+      field: "audience",
+      message:
+        "The audience includes small teams or individual buyers, but pricing is enterprise contracts only. Add a self-serve entry tier or a fixed-price pilot.",
+    });
+  }
+  if (!models.includes("enterprise") && segments.enterprise && !segments.selfServe) {
+    conflicts.push({
+      severity: "medium",
+      field: "audience",
+      message:
+        "Enterprise buyers expect annual contracts, SSO and a security review, which the pricing doesn't mention. Lead with the Enterprise tier in sales conversations.",
+    });
+  }
+  if (models.includes("freemium") && motion === "revenue") {
+    conflicts.push({
+      severity: "medium",
+      field: "primaryGoal",
+      message: `A free plan defers revenue, but the goal is "${trimPeriod(brief.primaryGoal)}". Fence the features paying teams need and time-box free use.`,
+    });
+  }
+  if (isEnterpriseOnly(models) && motion === "adoption") {
+    conflicts.push({
+      severity: "medium",
+      field: "primaryGoal",
+      message: `Contract-only pricing slows "${trimPeriod(brief.primaryGoal)}", because every new user waits on a sales cycle. A free or pilot tier lets users start on their own.`,
+    });
+  }
+
+  return conflicts;
+}
+
+export function buildPricingStrategy(brief: Brief, personas: PersonaProfile[]): PricingStrategy {
+  const models = classifyPricingModels(brief.pricing);
+  const base = packagingModel(models);
+  const playbook = packagingModels[base];
+  const unit = pricedUnit(brief.pricing) ?? playbook.defaultUnit;
+  const primaryModel = models.includes(base) ? base : models[0];
+
+  const templates = [...(models.includes("freemium") ? [freeTier] : []), ...playbook.tiers];
+  const price = findPricePoint(brief.pricing);
+  const pricePoint = price && {
+    text: price.text,
+    tier: quotedTierName(brief.pricing, templates, price.index),
+  };
+  const tiers = templates.map((template) => buildTier(template, unit, pricePoint));
+
+  const rationale =
+    primaryModel === "unknown"
+      ? `No pricing motion could be read from "${trimPeriod(brief.pricing)}", so the tiers assume a flat subscription until one is chosen.`
+      : `${brief.productName} uses ${
+          primaryModel === "freemium" ? "a freemium plan" : playbook.label
+        }${
+          models.includes("freemium") && primaryModel !== "freemium" ? " with a free tier" : ""
+        }, so packaging scales with ${playbook.valueMetric(unit)} and each tier is fenced by what the next buyer needs.`;
+
+  return {
+    models,
+    primaryModel,
+    valueMetric: playbook.valueMetric(unit),
+    rationale,
+    tiers,
+    priceTests: priceTests
+      .filter((test) => test.when(models, brief))
+      .slice(0, MAX_PRICE_TESTS)
+      .map(({ title, hypothesis, method, measure, guardrail }) => ({
+        title,
+        hypothesis,
+        method,
+        measure,
+        guardrail,
+      })),
+    objections: personas.flatMap((persona) =>
+      persona.objections
+        .filter((objection) => pricingObjectionPattern.test(objection))
+        .map((objection) => ({
+          persona: persona.persona,
+          objection,
+          answer: objectionAnswers[base](unit),
+        })),
+    ),
+    conflicts: findConflicts(brief, models),
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Model providers for the GTM agent. The OpenAI-compatible provider talks to
+ * any `/chat/completions` endpoint, so a hosted model or a local stand-in
+ * server can be swapped in by changing the base URL.
+ */
+
+import type { AgentProvider, GTMRequest, GTMResponse, GTMSection, ModelSection } from "./agent";
+
+export type OpenAICompatibleConfig = {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  timeoutMs: number;
+};
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+const DEFAULT_TIMEOUT_MS = 20_000;
+
+const sectionBriefs: Record<ModelSection, string> = {
+  executiveSummary: "a single paragraph executive summary of the launch mission",
+  launchPhases: "sequenced launch phases with focus, primary plays, proof points and duration",
+  personaInsights: "buyer personas with core needs, adoption triggers and objections",
+  messagingPillars: "messaging pillars with narrative, content angles and proof assets",
+  channelStrategy: "channel strategy with role, cadences and KPIs per channel",
+  growthExperiments: "growth experiments with hypothesis, playbook steps and measure",
+  measurementFramework: "measurement framework metrics with target, instrumentation and cadence",
+};
+
+function describeBrief(payload: GTMRequest) {
+  return [
+    `Product: ${payload.productName}`,
+    `Summary: ${payload.productSummary}`,
+    `Audience: ${payload.audience}`,
+    `Problem: ${payload.problem}`,
+    `Differentiation: ${payload.differentiation}`,
+    `Pricing: ${payload.pricing}`,
+    `Brand voice: ${payload.brandVoice}`,
+    `Primary goal: ${payload.primaryGoal}`,
+    `North star metric: ${payload.successMetric}`,
+    `Launch horizon: ${payload.launchHorizon}`,
+  ].join("\n");
+}
+
+function extractJson(content: string) {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse(fenced ? fenced[1] : content);
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): AgentProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: `openai-compatible:${config.model}`,
+    async generateSection<K extends GTMSection>(
+      section: K,
+      payload: GTMRequest,
+      draft: GTMResponse[K],
+    ) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+      try {
+        const response = await fetch(endpoint, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: config.model,
+            temperature: 0.7,
+            response_format: { type: "json_object" },
+            messages: [
+              {
+                role: "system",
+                content:
+                  "You are a go-to-market strategist for AI products. Reply with a single JSON object and nothing else.",
+              },
+              {
+                role: "user",
+                content: [
+                  `Write ${sectionBriefs[section as ModelSection]} tailored to this product brief.`,
+                  describeBrief(payload),
+                  `Respond as {"${section}": ...} using exactly the same JSON shape as this reference draft, but with content specific to the brief:`,
+                  JSON.stringify({ [section]: draft }),
+                ].join("\n\n"),
+              },
+            ],
+          }),
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(`Provider responded with ${response.status}`);
+        }
+
+        const body = await response.json();
+        const content = body?.choices?.[0]?.message?.content;
+        if (typeof content !== "string") {
+          throw new Error("Provider returned no message content");
+        }
+
+        const parsed = extractJson(content);
+        return parsed && typeof parsed === "object" && section in parsed ? parsed[section] : parsed;
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
+
+/**
+ * Reads `GTM_LLM_*` environment variables. Without a base URL the agent runs
+ * on rules alone.
+ */
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env): AgentProvider | null {
+  const baseUrl = env.GTM_LLM_BASE_URL?.trim();
+  if (!baseUrl) {
+    return null;
+  }
+
+  const timeoutMs = Number(env.GTM_LLM_TIMEOUT_MS);
+
+  return createOpenAICompatibleProvider({
+    baseUrl,
+    apiKey: env.GTM_LLM_API_KEY?.trim() || undefined,
+    model: env.GTM_LLM_MODEL?.trim() || DEFAULT_MODEL,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS,
+  });
+}
@@ -0,0 +1,385 @@
+/**
+ * Plan quality linter. Reads a brief and the blueprint generated from it and
+ * flags contradictions the rules don't prevent on their own: an
+ * enterprise-only audience handed a self-serve motion, a free product sold on
+ * executive ROI, a short horizon carrying a conference plan, a north star that
+ * can't be measured or is bigger than the market, a pillar without proof, or
+ * copy that breaks the selected vertical pack's claim restrictions. Warnings
+ * are advisory and never block a plan.
+ */
+
+import type { GTMRequest, GTMResponse, GTMSection } from "./agent";
+import { channelEconomics, explainChannelFit } from "./allocation";
+import { builtInArchetypes, MIN_PERSONA_CONFIDENCE } from "./personas";
+import { audienceSegments, classifyPricingModels } from "./pricing";
+import { MAX_HORIZON_DAYS, parseLaunchHorizon, phaseCountFor } from "./timeline";
+import {
+  findRestrictedClaims,
+  findVerticalPack,
+  launchHorizonFor,
+  suggestVerticalPacks,
+  type ClaimMatch,
+} from "./verticals";
+
+export type WarningSeverity = "high" | "medium" | "low";
+
+export type PlanWarning = {
+  code: string;
+  severity: WarningSeverity;
+  /** The blueprint section the warning is about; null for the brief itself. */
+  section: GTMSection | null;
+  field?: keyof GTMRequest;
+  message: string;
+};
+
+const severityOrder: WarningSeverity[] = ["high", "medium", "low"];
+
+/** Inputs shorter than this give the rules too little to work with. */
+const minimumWords: Partial<Record<keyof GTMRequest, number>> = {
+  productSummary: 4,
+  audience: 2,
+  problem: 3,
+  differentiation: 3,
+  primaryGoal: 2,
+};
+
+const placeholderPattern = /\b(tbd|tbc|todo|n\/a|lorem ipsum|placeholder|xxx)\b/i;
+const everyonePattern = /\b(everyone|everybody|anyone|all (businesses|companies|teams|users))\b/i;
+const conferencePattern = /\b(conferences?|summits?|field events?|trade ?shows?)\b/i;
+
+/** Conferences and field events take roughly two months to book and promote. */
+const EVENT_LEAD_DAYS = 60;
+
+const SELF_SERVE_CHANNEL = "Product-Led Motion";
+const EVENTS_CHANNEL = "Field & Executive Events";
+const ROI_PILLAR = "Revenue Impact";
+const executivePersona = builtInArchetypes.find(
+  (archetype) => archetype.id === "executive",
+)?.persona;
+
+function wordCount(text: string) {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+function lintBrief(request: GTMRequest): PlanWarning[] {
+  const warnings: PlanWarning[] = [];
+  // An "everyone" audience gets its own warning rather than a "too short" one.
+  const everyoneAudience = everyonePattern.test(request.audience);
+
+  (Object.entries(minimumWords) as Array<[keyof GTMRequest, number]>).forEach(([field, min]) => {
+    const text = String(request[field] ?? "");
+    if (placeholderPattern.test(text)) {
+      warnings.push({
+        code: "placeholder-input",
+        severity: "high",
+        section: null,
+        field,
+        message: `"${text}" looks like a placeholder; the plan is built from it as written.`,
+      });
+    } else if (wordCount(text) < min && !(field === "audience" && everyoneAudience)) {
+      warnings.push({
+        code: "vague-input",
+        severity: "medium",
+        section: null,
+        field,
+        message: `"${text}" is too short to tailor the plan; aim for at least ${min} words.`,
+      });
+    }
+  });
+
+  if (everyoneAudience) {
+    warnings.push({
+      code: "vague-input",
+      severity: "medium",
+      section: "personaInsights",
+      field: "audience",
+      message: "The audience targets everyone, so personas and channels can't be prioritised.",
+    });
+  }
+
+  return warnings;
+}
+
+function lintTimeline(request: GTMRequest, blueprint: GTMResponse): PlanWarning[] {
+  const warnings: PlanWarning[] = [];
+  const read = parseLaunchHorizon(request.launchHorizon, request.launchStartDate);
+  const horizon = launchHorizonFor(request);
+  const pack = findVerticalPack(request.vertical);
+
+  if (!read.parsed) {
+    warnings.push({
+      code: "unreadable-horizon",
+      severity: "medium",
+      section: "launchPhases",
+      field: "launchHorizon",
+      message: `No duration could be read from "${request.launchHorizon}", so the plan assumes ${read.days} days.`,
+    });
+  }
+
+  if (read.clamped) {
+    warnings.push({
+      code: "horizon-too-long",
+      severity: "medium",
+      section: "launchPhases",
+      field: "launchHorizon",
+      message: `"${request.launchHorizon}" runs past the ${MAX_HORIZON_DAYS}-day limit, so the plan covers the first ${MAX_HORIZON_DAYS} days. Plan what comes after as a separate launch.`,
+    });
+  }
+
+  if (read.range) {
+    warnings.push({
+      code: "horizon-range",
+      severity: "low",
+      section: "launchPhases",
+      field: "launchHorizon",
+      message: `"${request.launchHorizon}" is a range, so the plan runs to its upper end of ${read.range.high} days. Give a single duration if the launch should be shorter.`,
+    });
+  }
+
+  if (pack && horizon.days > read.days) {
+    warnings.push({
+      code: "vertical-horizon-extended",
+      severity: "low",
+      section: "launchPhases",
+      field: "launchHorizon",
+      message: `The ${pack.label} pack stretches this ${read.days}-day launch to ${horizon.days} days. ${pack.timeline.reason}`,
+    });
+  }
+
+  const expectedPhases = phaseCountFor(horizon);
+  if (blueprint.launchPhases.length > expectedPhases) {
+    warnings.push({
+      code: "horizon-overload",
+      severity: "medium",
+      section: "launchPhases",
+      field: "launchHorizon",
+      message: `${blueprint.launchPhases.length} phases in a ${horizon.days}-day launch leaves each too short to show results; ${expectedPhases} fit.`,
+    });
+  }
+
+  if (horizon.days < EVENT_LEAD_DAYS) {
+    const eventPlays = blueprint.launchPhases.flatMap((phase) =>
+      phase.primaryPlays.filter((play) => conferencePattern.test(play)),
+    );
+    const eventChannel = blueprint.channelStrategy.some(
+      (channel) => channel.channel === EVENTS_CHANNEL,
+    );
+    if (eventPlays.length || eventChannel) {
+      warnings.push({
+        code: "event-lead-time",
+        severity: "medium",
+        section: eventPlays.length ? "launchPhases" : "channelStrategy",
+        field: "launchHorizon",
+        message: `Events need about ${EVENT_LEAD_DAYS} days of lead time, more than this ${horizon.days}-day launch allows: ${
+          eventPlays.length ? eventPlays.join("; ") : EVENTS_CHANNEL
+        }.`,
+      });
+    }
+  }
+
+  const phaseNames = blueprint.launchPhases.map((phase) => phase.name);
+  blueprint.growthExperiments
+    .filter((experiment) => !phaseNames.includes(experiment.phase))
+    .forEach((experiment) =>
+      warnings.push({
+        code: "orphan-experiment",
+        severity: "low",
+        section: "growthExperiments",
+        message: `"${experiment.title}" is scheduled in ${experiment.phase}, which is not a phase of this plan.`,
+      }),
+    );
+
+  return warnings;
+}
+
+function lintMotion(request: GTMRequest, blueprint: GTMResponse): PlanWarning[] {
+  const warnings: PlanWarning[] = [];
+  const channels = blueprint.channelStrategy.map((channel) => channel.channel);
+  const pricingModels = classifyPricingModels(request.pricing);
+
+  const segments = audienceSegments(request.audience);
+  const enterpriseOnly =
+    (segments.enterprise && !segments.selfServe) ||
+    (pricingModels.length === 1 && pricingModels[0] === "enterprise");
+  if (enterpriseOnly && channels.includes(SELF_SERVE_CHANNEL)) {
+    warnings.push({
+      code: "enterprise-self-serve",
+      severity: "medium",
+      section: "channelStrategy",
+      field: "audience",
+      message: `The audience is enterprise-only, but the mix leans on ${SELF_SERVE_CHANNEL}, a self-serve motion. Consider sales-assisted pilots instead.`,
+    });
+  }
+
+  const freeOnly = pricingModels.length === 1 && pricingModels[0] === "freemium";
+  const roiStory = [
+    blueprint.messagingPillars.some((pillar) => pillar.pillar === ROI_PILLAR) && ROI_PILLAR,
+    blueprint.personaInsights.some((persona) => persona.persona === executivePersona) &&
+      executivePersona,
+    channels.includes(EVENTS_CHANNEL) && EVENTS_CHANNEL,
+  ].filter((entry): entry is string => Boolean(entry));
+  if (freeOnly && roiStory.length) {
+    warnings.push({
+      code: "free-roi-story",
+      severity: "medium",
+      section: "messagingPillars",
+      field: "pricing",
+      message: `Pricing is free, but the story is ROI-heavy and executive-led (${roiStory.join(", ")}). Lead with time to value instead.`,
+    });
+  }
+
+  const context = { goal: request.primaryGoal, personaIds: [], horizonDays: 0 };
+  const servesGoal = (channel: string) => explainChannelFit(channel, context).goalTerms.length > 0;
+  const goalChannels = Object.keys(channelEconomics).filter(servesGoal);
+  if (goalChannels.length && channels.length && !channels.some(servesGoal)) {
+    warnings.push({
+      code: "goal-channel-mismatch",
+      severity: "high",
+      section: "channelStrategy",
+      field: "primaryGoal",
+      message: `No channel in the mix targets "${request.primaryGoal}"; ${goalChannels.join(" or ")} would.`,
+    });
+  }
+
+  return warnings;
+}
+
+function lintEvidence(blueprint: GTMResponse): PlanWarning[] {
+  const warnings: PlanWarning[] = [];
+  const plan = blueprint.measurementPlan;
+
+  if (!plan.parsed) {
+    warnings.push({
+      code: "unmeasurable-north-star",
+      severity: "high",
+      section: "measurementPlan",
+      field: "successMetric",
+      message: plan.message,
+    });
+  }
+
+  if (blueprint.marketSizing.achievability.status === "out_of_reach") {
+    warnings.push({
+      code: "north-star-exceeds-market",
+      severity: "high",
+      section: "marketSizing",
+      field: "successMetric",
+      message: blueprint.marketSizing.achievability.message,
+    });
+  }
+
+  if (blueprint.personaInsights.every((persona) => persona.confidence < MIN_PERSONA_CONFIDENCE)) {
+    warnings.push({
+      code: "default-persona",
+      severity: "low",
+      section: "personaInsights",
+      field: "audience",
+      message: "No persona matched the audience, so the plan targets a default persona.",
+    });
+  }
+
+  blueprint.messagingPillars
+    .filter((pillar) => !pillar.proofAssets.length)
+    .forEach((pillar) =>
+      warnings.push({
+        code: "pillar-without-proof",
+        severity: "high",
+        section: "messagingPillars",
+        message: `The ${pillar.pillar} pillar has no proof assets to back its claims.`,
+      }),
+    );
+
+  return warnings;
+}
+
+/** Brief fields checked for restricted claims, in the order they are reported. */
+const claimFields: Array<keyof GTMRequest> = [
+  "productSummary",
+  "problem",
+  "differentiation",
+  "primaryGoal",
+  "successMetric",
+];
+
+/** The copy a reader sees, per section, for the claim check. */
+function sectionCopy(blueprint: GTMResponse): Array<{ section: GTMSection; text: string }> {
+  return [
+    { section: "executiveSummary" as const, text: blueprint.executiveSummary },
+    ...blueprint.messagingPillars.flatMap((pillar) =>
+      [pillar.narrative, ...pillar.contentAngles, ...pillar.proofAssets].map((text) => ({
+        section: "messagingPillars" as const,
+        text,
+      })),
+    ),
+    ...blueprint.launchPhases.flatMap((phase) =>
+      [phase.focus, ...phase.primaryPlays, ...phase.proofPoints].map((text) => ({
+        section: "launchPhases" as const,
+        text,
+      })),
+    ),
+    ...blueprint.channelStrategy.flatMap((channel) =>
+      [channel.role, ...channel.cadences].map((text) => ({
+        section: "channelStrategy" as const,
+        text,
+      })),
+    ),
+  ];
+}
+
+function lintVertical(request: GTMRequest, blueprint: GTMResponse): PlanWarning[] {
+  const pack = findVerticalPack(request.vertical);
+  if (!pack) {
+    const suggested = suggestVerticalPacks(request.audience);
+    return suggested.length
+      ? [
+          {
+            code: "vertical-suggested",
+            severity: "low",
+            section: null,
+            field: "vertical",
+            message: `The audience reads like ${suggested.map((entry) => entry.label.toLowerCase()).join(" or ")}, but no vertical pack is selected; one adds compliance-aware personas, channels and proof.`,
+          },
+        ]
+      : [];
+  }
+
+  // Summaries and narratives quote the brief, so each claim is reported where it first appears.
+  const seen = new Set<string>();
+  const report = (match: ClaimMatch, where: Pick<PlanWarning, "section" | "field">) => {
+    const key = `${match.claim}|${match.text.toLowerCase()}`;
+    if (seen.has(key)) {
+      return [];
+    }
+    seen.add(key);
+    return [
+      {
+        code: "restricted-claim",
+        severity: "high" as const,
+        ...where,
+        message: `"${match.text}" is a restricted ${pack.label.toLowerCase()} claim (${match.claim.toLowerCase()}). ${match.guidance}`,
+      },
+    ];
+  };
+
+  return [
+    ...claimFields.flatMap((field) =>
+      findRestrictedClaims(pack, String(request[field] ?? "")).flatMap((match) =>
+        report(match, { section: null, field }),
+      ),
+    ),
+    ...sectionCopy(blueprint).flatMap(({ section, text }) =>
+      findRestrictedClaims(pack, text).flatMap((match) => report(match, { section })),
+    ),
+  ];
+}
+
+/** Every warning for a brief and its blueprint, most severe first. */
+export function lintPlan(request: GTMRequest, blueprint: GTMResponse): PlanWarning[] {
+  return [
+    ...lintBrief(request),
+    ...lintTimeline(request, blueprint),
+    ...lintMotion(request, blueprint),
+    ...lintEvidence(blueprint),
+    ...lintVertical(request, blueprint),
+  ].sort((a, b) => severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity));
+}
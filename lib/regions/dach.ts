@@ -0,0 +1,82 @@
+import type { TargetMarket } from "./region";
+
+/** Germany, Austria and Switzerland: GDPR, works councils and a thorough evaluation. */
+export const dachMarket: TargetMarket = {
+  id: "dach",
+  label: "DACH",
+  locale: "de-DE",
+  summary:
+    "In DACH, GDPR answers, German-language material and a longer evaluation come before volume.",
+  excludedChannels: [],
+  cadences: {
+    "Founders' Narrative": [
+      "Monthly expert articles on LinkedIn and XING",
+      "Quarterly founder letter in German with roadmap detail",
+      "Quarterly roundtables with DACH design partners",
+    ],
+    "Category Community": [
+      "Monthly German-language meetups in Berlin, Munich and Zurich",
+      "Quarterly user group with DACH reference customers",
+      "Moderated community channel with German office hours",
+    ],
+    "Paid Acquisition": [
+      "Weekly creative refresh across search, LinkedIn and German trade media",
+      "Retargeting only for visitors who consented through the cookie banner",
+      "Bi-weekly budget reallocation based on CAC by segment",
+    ],
+  },
+  channels: [
+    {
+      channel: "Trade Fairs & Associations",
+      role: "Meet DACH buyers at trade fairs and through industry associations, where long-term trust is built.",
+      cadences: [
+        "One lead trade fair per half-year, booked six months ahead",
+        "Association working groups and Bitkom-style industry forums",
+        "Follow-up appointments scheduled within a week of each fair",
+      ],
+      kpis: ["Qualified booth conversations", "Fair-sourced pipeline", "Association referrals"],
+      economics: {
+        requiresBudget: true,
+        minBudget: 30_000,
+        spendWeight: 1.1,
+        laborWeight: 0.8,
+        cpm: 120_000,
+        organicReachPerFteMonth: 250,
+        conversionRate: 0.04,
+        goalAffinity: ["pipeline", "revenue", "enterprise", "awareness"],
+        personaAffinity: ["executive", "operator"],
+      },
+    },
+    {
+      channel: "System House Partners",
+      role: "Sell through DACH system houses and consultancies that own the customer relationship.",
+      cadences: [
+        "Partner enablement days in German each quarter",
+        "Joint account planning with partner sales every month",
+        "Co-branded implementation offers for the Mittelstand",
+      ],
+      kpis: ["Partner-sourced opportunities", "Certified partner consultants", "Partner win rate"],
+      economics: {
+        minBudget: 5000,
+        laborWeight: 0.9,
+        cpm: 200,
+        organicReachPerFteMonth: 4000,
+        conversionRate: 0.0025,
+        goalAffinity: ["pipeline", "revenue", "partner", "enterprise"],
+        personaAffinity: ["operator", "executive"],
+      },
+    },
+  ],
+  plays: {
+    Ignition: ["Localize website, pricing and contracts into German, with prices in EUR"],
+    Convert: ["Offer a German-language pilot with a named local contact"],
+  },
+  proofPoints: {
+    Ignition: ["GDPR data processing agreement and EU data residency statement"],
+    Convert: [
+      "Works council briefing pack on employee data",
+      "ISO 27001 certificate or BSI C5 attestation",
+    ],
+  },
+  phaseWeights: { Ignition: 3, Convert: 4 },
+};
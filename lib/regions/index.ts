@@ -0,0 +1,19 @@
+/**
+ * Registry of target markets. A brief lists the markets it launches in with
+ * `targetMarkets`; the agent builds one regional variant of the plan per
+ * market and renders it in the market's locale. Add a market by writing a
+ * module beside this one and listing it in `targetMarkets`.
+ */
+
+import { dachMarket } from "./dach";
+import { japanMarket } from "./japan";
+import type { TargetMarket } from "./region";
+import { usMarket } from "./us";
+
+export type { RegionChannel, TargetMarket } from "./region";
+
+export const targetMarkets: TargetMarket[] = [usMarket, dachMarket, japanMarket];
+
+export function findTargetMarket(id?: string) {
+  return id ? (targetMarkets.find((market) => market.id === id) ?? null) : null;
+}
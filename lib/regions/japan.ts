@@ -0,0 +1,82 @@
+import type { TargetMarket } from "./region";
+
+/** Japan: local partners, Japanese-language proof and consensus-driven buying. */
+export const japanMarket: TargetMarket = {
+  id: "japan",
+  label: "Japan",
+  locale: "ja-JP",
+  summary:
+    "In Japan, local partners, domestic references and time for consensus approval decide the launch.",
+  excludedChannels: [],
+  cadences: {
+    "Founders' Narrative": [
+      "Bi-weekly posts on X and note in Japanese",
+      "Monthly founder letter adapted by a native copywriter",
+      "Quarterly seminars with flagship design partners",
+    ],
+    "Category Community": [
+      "Monthly study sessions announced through connpass",
+      "Quarterly user meetups in Tokyo and Osaka",
+      "Japanese-language community with scheduled office hours",
+    ],
+    "Paid Acquisition": [
+      "Weekly creative refresh across Yahoo! JAPAN, Google and LINE ads",
+      "Retargeting tied to whitepaper downloads",
+      "Bi-weekly budget reallocation based on CAC by segment",
+    ],
+  },
+  channels: [
+    {
+      channel: "SIer & Reseller Alliances",
+      role: "Reach enterprises through the system integrators and resellers they already buy from.",
+      cadences: [
+        "Japanese sales kits and demo environments for partner teams",
+        "Monthly pipeline reviews with each SIer partner",
+        "Joint proposals timed to the April fiscal year",
+      ],
+      kpis: ["SIer-sourced opportunities", "Partner proposals submitted", "Partner win rate"],
+      economics: {
+        minBudget: 8000,
+        laborWeight: 1,
+        cpm: 250,
+        organicReachPerFteMonth: 3500,
+        conversionRate: 0.003,
+        goalAffinity: ["pipeline", "revenue", "partner", "enterprise"],
+        personaAffinity: ["executive", "operator"],
+      },
+    },
+    {
+      channel: "Seminars & Expos",
+      role: "Build credibility at industry expos and hosted seminars, where Japanese buyers gather information.",
+      cadences: [
+        "Exhibit at one major IT expo per half-year",
+        "Monthly hosted seminars with a customer speaker",
+        "Whitepaper follow-up within three business days",
+      ],
+      kpis: ["Seminar attendees", "Business card scans followed up", "Event-influenced pipeline"],
+      economics: {
+        requiresBudget: true,
+        minBudget: 25_000,
+        spendWeight: 1.1,
+        laborWeight: 0.9,
+        cpm: 80_000,
+        organicReachPerFteMonth: 400,
+        conversionRate: 0.03,
+        goalAffinity: ["pipeline", "awareness", "demand", "leads"],
+        personaAffinity: ["executive", "operator"],
+      },
+    },
+  ],
+  plays: {
+    Ignition: ["Localize product UI, documentation and support hours for Japan"],
+    Convert: ["Prepare material for consensus approval across departments"],
+  },
+  proofPoints: {
+    Ignition: ["APPI-compliant data handling statement in Japanese"],
+    Convert: [
+      "ISMAP registration status or ISO 27001 certificate",
+      "Case study from a domestic customer",
+    ],
+  },
+  phaseWeights: { Ignition: 3, Convert: 5 },
+};
@@ -0,0 +1,37 @@
+/**
+ * Shape of a target market. A market adapts the generic plan to one region:
+ * local channels and cadences, the compliance proof buyers there ask for and
+ * how the calendar is weighted. Its copy is written in English like the rest
+ * of the built-in templates and rendered in `locale` through the catalogs in
+ * `i18n/`. Each market lives in its own module and is registered in `index.ts`.
+ */
+
+import type { ChannelEconomics } from "../allocation";
+
+export type RegionChannel = {
+  channel: string;
+  role: string;
+  cadences: string[];
+  kpis: string[];
+  /** Allocation heuristics; anything left out uses the defaults in `allocation.ts`. */
+  economics: Partial<ChannelEconomics>;
+};
+
+export type TargetMarket = {
+  id: string;
+  label: string;
+  /** BCP 47 locale the regional variant is written in. */
+  locale: string;
+  /** One sentence for the executive summary. */
+  summary: string;
+  /** Built-in channels that don't work in the region. */
+  excludedChannels: string[];
+  /** Local cadences that replace a built-in channel's, keyed by channel. */
+  cadences: Record<string, string[]>;
+  channels: RegionChannel[];
+  /** Extra plays and compliance proof, keyed by launch phase name. */
+  plays: Record<string, string[]>;
+  proofPoints: Record<string, string[]>;
+  /** Overrides the default relative phase weights in `timeline.ts`. */
+  phaseWeights: Record<string, number>;
+};
@@ -0,0 +1,20 @@
+import type { TargetMarket } from "./region";
+
+/** The built-in playbook is written for the US, so this market mostly adds compliance proof. */
+export const usMarket: TargetMarket = {
+  id: "us",
+  label: "United States",
+  locale: "en-US",
+  summary: "In the US, buyers expect SOC 2 and CCPA answers before the first call.",
+  excludedChannels: [],
+  cadences: {},
+  channels: [],
+  plays: {
+    Ignition: ["Publish a trust center with SOC 2 status and subprocessors"],
+  },
+  proofPoints: {
+    Ignition: ["SOC 2 Type II report or bridge letter"],
+    Convert: ["CCPA and state privacy law data processing terms"],
+  },
+  phaseWeights: {},
+};
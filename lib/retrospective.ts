@@ -0,0 +1,609 @@
+/**
+ * Post-launch retrospective. Actuals recorded against a saved blueprint, by
+ * hand or from a CSV export, are compared with what the plan expected by the
+ * same date: metric rows against the measurement framework, channel rows
+ * against each channel's projected north-star outcomes and spend. Phases and
+ * channels are marked ahead, on track or behind, and a re-plan shifts channel
+ * emphasis, plays and experiments for the rest of the horizon.
+ */
+
+import type { GTMResponse } from "./agent";
+import { formatCount, formatCurrency, formatDate, formatPercent } from "./format";
+import { rampShare } from "./metrics";
+import { parseIsoDate } from "./timeline";
+
+export type ActualKind = "metric" | "channel";
+
+export type ActualValue = {
+  kind: ActualKind;
+  /** A `measurementFramework` metric or a `channelStrategy` channel. */
+  name: string;
+  /** The channel KPI the value is for; omitted for metrics. */
+  kpi?: string;
+  value: number;
+};
+
+export type LaunchActuals = {
+  /** ISO date (YYYY-MM-DD) the values were measured on; totals are cumulative to it. */
+  asOf: string;
+  values: ActualValue[];
+};
+
+export type PerformanceStatus = "ahead" | "on_track" | "behind" | "untracked";
+
+export type VarianceRow = ActualValue & {
+  /** What the plan expected by `asOf`; null when the plan has no number for the row. */
+  expected: number | null;
+  /** (actual - expected) / expected; null without an expectation. */
+  variance: number | null;
+  status: PerformanceStatus;
+};
+
+export type PhasePerformance = {
+  phase: string;
+  timing: "done" | "current" | "upcoming";
+  status: PerformanceStatus;
+  detail: string;
+};
+
+export type ChannelPerformance = {
+  channel: string;
+  status: PerformanceStatus;
+  detail: string;
+};
+
+export type ChannelShift = {
+  channel: string;
+  action: "increase" | "hold" | "reduce";
+  fromShare: number;
+  toShare: number;
+  reason: string;
+};
+
+export type ExperimentShift = {
+  id: string;
+  title: string;
+  action: "prioritise" | "deprioritise";
+  reason: string;
+};
+
+export type Replan = {
+  remainingDays: number;
+  /** North-star outcomes still to deliver; null when the north star isn't tracked. */
+  remainingTarget: number | null;
+  message: string;
+  channels: ChannelShift[];
+  /** Plays added to the current or next phase. */
+  plays: Array<{ phase: string; plays: string[] }>;
+  experiments: ExperimentShift[];
+};
+
+export type Retrospective = {
+  asOf: string;
+  elapsedDays: number;
+  horizonDays: number;
+  summary: string;
+  variances: VarianceRow[];
+  phases: PhasePerformance[];
+  channels: ChannelPerformance[];
+  replan: Replan;
+};
+
+/** Channel KPIs the plan has numbers for; any other KPI is recorded but not judged. */
+export const OUTCOMES_KPI = "North-star outcomes";
+export const SPEND_KPI = "Spend";
+
+const csvColumns = ["kind", "name", "kpi", "value"] as const;
+
+/** Within this band either side of plan a row counts as on track. */
+const TOLERANCE = 0.15;
+const MIN_SHIFT = 0.02;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function sameName(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function daysBetween(from: string, to: string) {
+  const start = parseIsoDate(from);
+  const end = parseIsoDate(to);
+  return start && end ? Math.round((end.getTime() - start.getTime()) / DAY_MS) : 0;
+}
+
+function statusFor(variance: number | null): PerformanceStatus {
+  if (variance === null) {
+    return "untracked";
+  }
+  return variance >= TOLERANCE ? "ahead" : variance <= -TOLERANCE ? "behind" : "on_track";
+}
+
+function describeVariance(variance: number) {
+  return `${variance >= 0 ? "+" : "−"}${formatPercent(Math.abs(variance))}`;
+}
+
+export function isActualValue(value: unknown): value is ActualValue {
+  const entry = value as Partial<ActualValue> | null;
+  return (
+    (entry?.kind === "metric" || entry?.kind === "channel") &&
+    typeof entry.name === "string" &&
+    entry.name.trim().length > 0 &&
+    (entry.kpi === undefined || typeof entry.kpi === "string") &&
+    (entry.kind === "metric" || Boolean(entry.kpi?.trim())) &&
+    typeof entry.value === "number" &&
+    Number.isFinite(entry.value) &&
+    entry.value >= 0
+  );
+}
+
+function splitCsvLine(line: string) {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted && char === '"' && line[index + 1] === '"') {
+      cell += '"';
+      index += 1;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === "," && !quoted) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Reads `kind,name,kpi,value` rows (the header is required, columns in any
+ * order). Numbers may carry currency symbols and thousands separators.
+ */
+export function parseActualsCsv(text: string): { values: ActualValue[]; errors: string[] } {
+  const lines = text.split(/\r?\n/).map((line, index) => ({ line, number: index + 1 }));
+  const rows = lines.filter(({ line }) => line.trim());
+  if (!rows.length) {
+    return { values: [], errors: ["The CSV is empty."] };
+  }
+
+  const header = splitCsvLine(rows[0].line).map((cell) => cell.toLowerCase());
+  const columns = Object.fromEntries(
+    csvColumns.map((column) => [column, header.indexOf(column)]),
+  ) as Record<(typeof csvColumns)[number], number>;
+  const missing = csvColumns.filter((column) => column !== "kpi" && columns[column] === -1);
+  if (missing.length) {
+    return { values: [], errors: [`The header row needs columns: ${missing.join(", ")}.`] };
+  }
+
+  const values: ActualValue[] = [];
+  const errors: string[] = [];
+  rows.slice(1).forEach(({ line, number }) => {
+    const cells = splitCsvLine(line);
+    const raw = cells[columns.value] ?? "";
+    const entry = {
+      kind: cells[columns.kind]?.toLowerCase(),
+      name: cells[columns.name] ?? "",
+      ...(columns.kpi !== -1 && cells[columns.kpi] ? { kpi: cells[columns.kpi] } : {}),
+      value: raw.trim() ? Number(raw.replace(/[$€£,\s]/g, "")) : Number.NaN,
+    };
+    if (isActualValue(entry)) {
+      values.push(entry);
+    } else {
+      errors.push(
+        `Line ${number}: expected a metric or channel row with a name${
+          entry.kind === "channel" ? ", a KPI" : ""
+        } and a non-negative number, got "${line.trim()}".`,
+      );
+    }
+  });
+
+  return { values, errors };
+}
+
+/** The count a metric row is measured against, from the plan or the metric's own target text. */
+function metricTarget(blueprint: GTMResponse, metric: GTMResponse["measurementFramework"][number]) {
+  const plan = blueprint.measurementPlan;
+  if (metric.kind === "primary" && plan.target) {
+    return plan.target.total;
+  }
+  const stage = plan.funnel.find((entry) => sameName(entry.label, metric.metric));
+  if (stage) {
+    return stage.volume;
+  }
+  const number = metric.target.match(/\d[\d,]*(\.\d+)?/)?.[0];
+  return number ? Number(number.replace(/,/g, "")) : null;
+}
+
+function expectedFor(
+  actual: ActualValue,
+  blueprint: GTMResponse,
+  elapsedDays: number,
+  horizonDays: number,
+) {
+  const windowDays = blueprint.measurementPlan.target?.windowDays ?? horizonDays;
+
+  if (actual.kind === "metric") {
+    const metric = blueprint.measurementFramework.find(
+      (entry) =>
+        sameName(entry.metric, actual.name) ||
+        (entry.kind === "primary" && sameName(actual.name, "north star")),
+    );
+    const target = metric ? metricTarget(blueprint, metric) : null;
+    return target === null ? null : target * rampShare(elapsedDays, windowDays);
+  }
+
+  const channel = blueprint.channelStrategy.find((entry) => sameName(entry.channel, actual.name));
+  if (!channel || !actual.kpi) {
+    return null;
+  }
+  if (sameName(actual.kpi, OUTCOMES_KPI)) {
+    // A channel owes its share of the stated target; the allocation's own
+    // projection is a reach heuristic and only stands in when there is none.
+    const target = blueprint.measurementPlan.target;
+    const owed = target
+      ? target.total * channel.allocation.northStarShare
+      : channel.allocation.projectedOutcomes;
+    return owed * rampShare(elapsedDays, windowDays);
+  }
+  // Spend is paced evenly rather than on the launch ramp.
+  if (sameName(actual.kpi, SPEND_KPI) && channel.allocation.spend !== null) {
+    return channel.allocation.spend * Math.min(elapsedDays / horizonDays, 1);
+  }
+  return null;
+}
+
+function varianceRow(
+  actual: ActualValue,
+  blueprint: GTMResponse,
+  elapsedDays: number,
+  horizonDays: number,
+): VarianceRow {
+  const expected = expectedFor(actual, blueprint, elapsedDays, horizonDays);
+  const variance = expected ? (actual.value - expected) / expected : null;
+  const spend = actual.kind === "channel" && sameName(actual.kpi ?? "", SPEND_KPI);
+  return {
+    ...actual,
+    expected: expected === null ? null : Math.round(expected * 10) / 10,
+    variance,
+    // Spend counts against the plan: overspending is behind, underspending on track.
+    status:
+      spend && variance !== null
+        ? variance >= TOLERANCE
+          ? "behind"
+          : "on_track"
+        : statusFor(variance),
+  };
+}
+
+function northStarRow(blueprint: GTMResponse, rows: VarianceRow[]) {
+  const primary = blueprint.measurementFramework.find((metric) => metric.kind === "primary");
+  return rows.find(
+    (row) =>
+      row.kind === "metric" &&
+      (sameName(row.name, "north star") || (primary && sameName(row.name, primary.metric))),
+  );
+}
+
+function phasePerformance(
+  blueprint: GTMResponse,
+  asOf: string,
+  northStar: VarianceRow | undefined,
+): PhasePerformance[] {
+  const plan = blueprint.measurementPlan;
+  const launchStart = blueprint.launchPhases[0]?.startDate ?? asOf;
+
+  return blueprint.launchPhases.map((phase) => {
+    const timing = asOf > phase.endDate ? "done" : asOf >= phase.startDate ? "current" : "upcoming";
+    if (timing === "upcoming") {
+      return {
+        phase: phase.name,
+        timing,
+        status: "untracked",
+        detail: `Starts ${formatDate(phase.startDate)}.`,
+      };
+    }
+    // Totals measured after a phase ended include later phases' work, so
+    // they can't say how the finished phase did.
+    if (timing === "done") {
+      return {
+        phase: phase.name,
+        timing,
+        status: "untracked",
+        detail: `Ended ${formatDate(phase.endDate)}, before these actuals were measured.`,
+      };
+    }
+    if (!northStar || !plan.target) {
+      return {
+        phase: phase.name,
+        timing,
+        status: "untracked",
+        detail: "Record the north star to judge this phase.",
+      };
+    }
+
+    const expected =
+      plan.target.total * rampShare(daysBetween(launchStart, asOf) + 1, plan.target.windowDays);
+    const variance = expected ? (northStar.value - expected) / expected : null;
+    return {
+      phase: phase.name,
+      timing,
+      status: statusFor(variance),
+      detail: `${formatCount(northStar.value)} ${plan.target.unit} against ${formatCount(
+        Math.round(expected),
+      )} due by ${formatDate(asOf)}${variance === null ? "" : ` (${describeVariance(variance)})`}.`,
+    };
+  });
+}
+
+function channelPerformance(blueprint: GTMResponse, rows: VarianceRow[]): ChannelPerformance[] {
+  return blueprint.channelStrategy.map(({ channel, allocation }) => {
+    const outcomes = rows.find(
+      (row) =>
+        row.kind === "channel" &&
+        sameName(row.name, channel) &&
+        sameName(row.kpi ?? "", OUTCOMES_KPI),
+    );
+    const spend = rows.find(
+      (row) =>
+        row.kind === "channel" && sameName(row.name, channel) && sameName(row.kpi ?? "", SPEND_KPI),
+    );
+    if (!outcomes || outcomes.expected === null) {
+      return {
+        channel,
+        status: "untracked",
+        detail: `Record ${OUTCOMES_KPI.toLowerCase()} for this channel to judge it.`,
+      };
+    }
+
+    const detail = [
+      `${formatCount(outcomes.value)} ${outcomes.value === 1 ? "outcome" : "outcomes"} against ${formatCount(outcomes.expected)} expected (${describeVariance(outcomes.variance ?? 0)}).`,
+    ];
+    if (spend && outcomes.value > 0) {
+      const cac = spend.value / outcomes.value;
+      detail.push(
+        allocation.estimatedCac !== null
+          ? `CAC ${formatCurrency(cac)} against ${formatCurrency(allocation.estimatedCac)} planned.`
+          : `CAC ${formatCurrency(cac)}.`,
+      );
+    }
+    return { channel, status: outcomes.status, detail: detail.join(" ") };
+  });
+}
+
+/**
+ * Cuts the share of channels behind plan by how far they lag, then hands the
+ * freed budget to channels on track or ahead, weighted towards those ahead,
+ * or to untracked channels when no tracked one qualifies. Other channels keep
+ * their share and total spend is unchanged.
+ */
+function shiftChannels(
+  blueprint: GTMResponse,
+  rows: VarianceRow[],
+  channels: ChannelPerformance[],
+): ChannelShift[] {
+  const strategy = blueprint.channelStrategy;
+  const factors = strategy.map(({ channel }) => {
+    const outcomes = rows.find(
+      (row) =>
+        row.kind === "channel" &&
+        sameName(row.name, channel) &&
+        sameName(row.kpi ?? "", OUTCOMES_KPI),
+    );
+    return outcomes && outcomes.variance !== null
+      ? Math.min(Math.max(1 + outcomes.variance, 0.5), 1.5)
+      : 1;
+  });
+  const kept = strategy.map(({ allocation }, index) =>
+    channels[index].status === "behind"
+      ? allocation.budgetShare * factors[index]
+      : allocation.budgetShare,
+  );
+  const freed = strategy.reduce(
+    (sum, { allocation }, index) => sum + allocation.budgetShare - kept[index],
+    0,
+  );
+
+  const healthy = channels.map((entry) => entry.status === "ahead" || entry.status === "on_track");
+  const untracked = channels.map((entry) => entry.status === "untracked");
+  const recipients = healthy.some(Boolean) ? healthy : untracked.some(Boolean) ? untracked : [];
+  const pull = kept.map((share, index) => (recipients[index] ? share * factors[index] : 0));
+  const totalPull = pull.reduce((sum, weight) => sum + weight, 0);
+  // With nowhere to go, freed budget stays with the lagging channels.
+  const shares = totalPull
+    ? kept.map((share, index) => share + (freed * pull[index]) / totalPull)
+    : strategy.map(({ allocation }) => allocation.budgetShare);
+
+  return strategy.map(({ channel, allocation }, index) => {
+    const toShare = Math.round(shares[index] * 100) / 100;
+    const delta = toShare - allocation.budgetShare;
+    const action = delta >= MIN_SHIFT ? "increase" : delta <= -MIN_SHIFT ? "reduce" : "hold";
+    const { status, detail } = channels[index];
+    const reason =
+      status === "ahead"
+        ? `Ahead of plan: ${detail}`
+        : status === "behind"
+          ? `Behind plan: ${detail}`
+          : status === "on_track"
+            ? `On plan${action === "increase" ? ", so it takes budget freed from lagging channels" : ""}: ${detail}`
+            : action === "increase"
+              ? "No actuals yet; takes budget freed from lagging channels until it has some."
+              : "No actuals yet, so it keeps its planned share.";
+    return { channel, action, fromShare: allocation.budgetShare, toShare, reason };
+  });
+}
+
+function replanPlays(
+  blueprint: GTMResponse,
+  rows: VarianceRow[],
+  channels: ChannelPerformance[],
+  shifts: ChannelShift[],
+  phases: PhasePerformance[],
+) {
+  const open = phases.filter((phase) => phase.timing !== "done");
+  if (!open.length) {
+    return [];
+  }
+
+  const fixes = [
+    ...shifts
+      .filter((_, index) => channels[index].status === "behind")
+      .map(
+        (shift) =>
+          `Rework ${shift.channel}: review targeting, offer and follow-up before adding spend back.`,
+      ),
+    ...rows
+      .filter((row) => row.kind === "metric" && row.status === "behind")
+      .map(
+        (row) =>
+          `Get ${row.name} back on pace: find the step where it drops off and ship one fix a week.`,
+      ),
+  ];
+  const doubleDowns = shifts
+    .filter((shift, index) => shift.action === "increase" && channels[index].status === "ahead")
+    .map((shift) => {
+      const cadence = blueprint.channelStrategy.find((entry) => entry.channel === shift.channel)
+        ?.cadences[0];
+      return cadence
+        ? `Double down on ${shift.channel}: run "${cadence}" more often.`
+        : `Double down on ${shift.channel} with the freed-up budget.`;
+    });
+
+  // Fixes land now; extra weight on what works carries into the next phase when there is one.
+  const [current, next] = open;
+  const plays = [{ phase: current.phase, plays: next ? fixes : [...fixes, ...doubleDowns] }];
+  if (next) {
+    plays.push({ phase: next.phase, plays: doubleDowns });
+  }
+  return plays.filter((entry) => entry.plays.length);
+}
+
+function replanExperiments(
+  blueprint: GTMResponse,
+  channelPerformances: ChannelPerformance[],
+  phases: PhasePerformance[],
+  behind: boolean,
+): ExperimentShift[] {
+  const open = phases.filter((phase) => phase.timing !== "done").map((phase) => phase.phase);
+  const remaining = blueprint.growthExperiments.filter((experiment) =>
+    open.includes(experiment.phase),
+  );
+
+  const shifted = remaining.flatMap((experiment): ExperimentShift[] => {
+    const channels = experiment.tags
+      .filter((tag) => tag.startsWith("channel:"))
+      .map((tag) => tag.slice("channel:".length));
+    const ahead = channelPerformances.find(
+      (entry) => entry.status === "ahead" && channels.includes(entry.channel),
+    );
+    const lagging = channelPerformances.find(
+      (entry) => entry.status === "behind" && channels.includes(entry.channel),
+    );
+    if (ahead) {
+      return [
+        {
+          id: experiment.id,
+          title: experiment.title,
+          action: "prioritise",
+          reason: `Runs through ${ahead.channel}, which is ahead of plan.`,
+        },
+      ];
+    }
+    if (lagging) {
+      return [
+        {
+          id: experiment.id,
+          title: experiment.title,
+          action: "deprioritise",
+          reason: `Depends on ${lagging.channel}, which is behind plan; run it once the channel is fixed.`,
+        },
+      ];
+    }
+    return [];
+  });
+
+  // When the north star lags, the strongest untouched experiment moves up too.
+  const strongest = remaining
+    .filter((experiment) => !shifted.some((shift) => shift.id === experiment.id))
+    .sort((a, b) => b.ice.score - a.ice.score)[0];
+  if (behind && strongest) {
+    shifted.push({
+      id: strongest.id,
+      title: strongest.title,
+      action: "prioritise",
+      reason: `Highest ICE score left (${strongest.ice.score.toFixed(1)}) while the north star is behind.`,
+    });
+  }
+  return shifted;
+}
+
+export function buildRetrospective(blueprint: GTMResponse, actuals: LaunchActuals): Retrospective {
+  const phases = blueprint.launchPhases;
+  const launchStart = phases[0]?.startDate ?? actuals.asOf;
+  const launchEnd = phases[phases.length - 1]?.endDate ?? actuals.asOf;
+  const horizonDays = Math.max(daysBetween(launchStart, launchEnd) + 1, 1);
+  const elapsedDays = Math.min(
+    Math.max(daysBetween(launchStart, actuals.asOf) + 1, 0),
+    horizonDays,
+  );
+
+  const variances = actuals.values.map((actual) =>
+    varianceRow(actual, blueprint, elapsedDays, horizonDays),
+  );
+  const northStar = northStarRow(blueprint, variances);
+  const phasePerformances = phasePerformance(blueprint, actuals.asOf, northStar);
+  const channels = channelPerformance(blueprint, variances);
+  const shifts = shiftChannels(blueprint, variances, channels);
+  const behind = northStar?.status === "behind";
+
+  const target = blueprint.measurementPlan.target;
+  const remainingDays = horizonDays - elapsedDays;
+  const remainingTarget =
+    northStar && target ? Math.max(Math.ceil(target.total - northStar.value), 0) : null;
+  const message =
+    remainingTarget === null || !target
+      ? "Record the north star to size what the rest of the launch has to deliver."
+      : remainingTarget === 0
+        ? `The north-star target of ${formatCount(target.total)} ${target.unit} is already met.`
+        : remainingDays === 0
+          ? `The launch window has closed ${formatCount(remainingTarget)} ${target.unit} short of target.`
+          : `${formatCount(remainingTarget)} more ${target.unit} are needed in ${remainingDays} days, about ${formatCount(
+              Math.ceil((remainingTarget / remainingDays) * 7),
+            )} a week.`;
+
+  const judged = [...phasePerformances, ...channels].filter(
+    (entry) => entry.status !== "untracked",
+  );
+  const count = (status: PerformanceStatus) =>
+    judged.filter((entry) => entry.status === status).length;
+  const summary = [
+    `As of ${formatDate(actuals.asOf)}, day ${elapsedDays} of ${horizonDays}.`,
+    northStar && northStar.variance !== null
+      ? `The north star is ${describeVariance(northStar.variance)} against plan.`
+      : "The north star has no actual yet.",
+    judged.length
+      ? `${count("ahead")} ahead, ${count("on_track")} on track and ${count("behind")} behind across phases and channels.`
+      : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    asOf: actuals.asOf,
+    elapsedDays,
+    horizonDays,
+    summary,
+    variances,
+    phases: phasePerformances,
+    channels,
+    replan: {
+      remainingDays,
+      remainingTarget,
+      message,
+      channels: shifts,
+      plays: replanPlays(blueprint, variances, channels, shifts, phasePerformances),
+      experiments: replanExperiments(blueprint, channels, phasePerformances, behind),
+    },
+  };
+}
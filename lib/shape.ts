@@ -0,0 +1,216 @@
+/**
+ * Structural checks for blueprint sections produced outside the rule engine.
+ * Model output is untrusted JSON, so every field is verified before it can
+ * replace the rule draft.
+ */
+
+import type { GTMResponse, GTMSection, ModelSection } from "./agent";
+
+type ItemShape = {
+  strings: string[];
+  lists: string[];
+};
+
+const itemShapes: Record<Exclude<ModelSection, "executiveSummary">, ItemShape> = {
+  launchPhases: {
+    strings: ["name", "focus", "duration"],
+    lists: ["primaryPlays", "proofPoints"],
+  },
+  personaInsights: {
+    strings: ["persona"],
+    lists: ["coreNeeds", "adoptionTriggers", "objections"],
+  },
+  messagingPillars: {
+    strings: ["pillar", "narrative"],
+    lists: ["contentAngles", "proofAssets"],
+  },
+  channelStrategy: {
+    strings: ["channel", "role"],
+    lists: ["cadences", "kpis"],
+  },
+  growthExperiments: {
+    strings: ["title", "hypothesis", "measure"],
+    lists: ["playbook"],
+  },
+  measurementFramework: {
+    strings: ["metric", "target", "instrumentation", "cadence"],
+    lists: [],
+  },
+};
+
+function isFilledString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function matchesShape(item: unknown, shape: ItemShape) {
+  if (!item || typeof item !== "object" || Array.isArray(item)) {
+    return false;
+  }
+  const record = item as Record<string, unknown>;
+
+  return (
+    shape.strings.every((key) => isFilledString(record[key])) &&
+    shape.lists.every((key) => {
+      const list = record[key];
+      return Array.isArray(list) && list.length > 0 && list.every(isFilledString);
+    })
+  );
+}
+
+function isStringList(value: unknown) {
+  return Array.isArray(value) && value.every((entry) => typeof entry === "string");
+}
+
+function isNumberOrNull(value: unknown) {
+  return value === null || Number.isFinite(value);
+}
+
+function isChannelAllocation(value: unknown) {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const allocation = value as Record<string, unknown>;
+  return (
+    [
+      "rank",
+      "fitScore",
+      "budgetShare",
+      "estimatedReach",
+      "northStarShare",
+      "projectedOutcomes",
+    ].every((key) => Number.isFinite(allocation[key])) &&
+    ["spend", "headcount", "estimatedCac"].every((key) => isNumberOrNull(allocation[key]))
+  );
+}
+
+function isExperimentScore(value: unknown) {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const ice = value as Record<string, unknown>;
+  return ["impact", "confidence", "ease", "score"].every((key) => Number.isFinite(ice[key]));
+}
+
+/**
+ * Fields the agent computes after the copy is written: schedule dates, match
+ * scores, channel funding and experiment scoring. Model output never carries
+ * them, but a blueprint item saved and sent back (a locked item) must.
+ */
+const computedFields: Record<
+  Exclude<ModelSection, "executiveSummary">,
+  (item: Record<string, unknown>) => boolean
+> = {
+  launchPhases: (phase) => isFilledString(phase.startDate) && isFilledString(phase.endDate),
+  personaInsights: (persona) =>
+    Number.isFinite(persona.confidence) && isStringList(persona.matchedKeywords),
+  messagingPillars: () => true,
+  channelStrategy: (channel) => isChannelAllocation(channel.allocation),
+  growthExperiments: (experiment) =>
+    isFilledString(experiment.id) &&
+    isFilledString(experiment.phase) &&
+    Number.isInteger(experiment.sequence) &&
+    isStringList(experiment.tags) &&
+    isExperimentScore(experiment.ice),
+  measurementFramework: (metric) => metric.kind === "primary" || metric.kind === "leading",
+};
+
+function isMeasurementPlan(value: unknown) {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const plan = value as Record<string, unknown>;
+  return (
+    typeof plan.parsed === "boolean" &&
+    isFilledString(plan.message) &&
+    Array.isArray(plan.milestones) &&
+    Array.isArray(plan.funnel)
+  );
+}
+
+function isMarketTier(value: unknown) {
+  const tier = value as { accounts?: unknown; value?: unknown } | null;
+  return Number.isFinite(tier?.accounts) && Number.isFinite(tier?.value);
+}
+
+function isMarketSizing(value: unknown) {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const sizing = value as Record<string, unknown>;
+  const achievability = sizing.achievability as { message?: unknown } | null;
+  return (
+    typeof sizing.sized === "boolean" &&
+    isFilledString(sizing.message) &&
+    ["tam", "sam", "som"].every((tier) => isMarketTier(sizing[tier])) &&
+    Array.isArray(sizing.segments) &&
+    sizing.segments.every(
+      (segment) =>
+        isFilledString(segment?.segment) &&
+        ["tam", "sam", "som"].every((tier) => isMarketTier(segment[tier])),
+    ) &&
+    isFilledString(achievability?.message) &&
+    Array.isArray(sizing.sensitivity)
+  );
+}
+
+function isCompetitiveLandscape(value: unknown) {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const landscape = value as { battlecards?: unknown; comparison?: { rows?: unknown } };
+  return Array.isArray(landscape.battlecards) && Array.isArray(landscape.comparison?.rows);
+}
+
+export function isValidSection<K extends GTMSection>(
+  section: K,
+  value: unknown,
+): value is GTMResponse[K] {
+  if (section === "executiveSummary") {
+    return isFilledString(value);
+  }
+
+  if (section === "measurementPlan") {
+    return isMeasurementPlan(value);
+  }
+  if (section === "marketSizing") {
+    return isMarketSizing(value);
+  }
+  if (section === "competitiveLandscape") {
+    return isCompetitiveLandscape(value);
+  }
+  if (section === "enablementKit") {
+    const kit = value as { goalMotion?: unknown; personas?: unknown } | null;
+    return isFilledString(kit?.goalMotion) && Array.isArray(kit?.personas);
+  }
+  if (section === "pricingStrategy") {
+    const strategy = value as { valueMetric?: unknown; tiers?: unknown } | null;
+    return isFilledString(strategy?.valueMetric) && Array.isArray(strategy?.tiers);
+  }
+  if (section === "regionalVariants") {
+    return Array.isArray(value);
+  }
+  if (section === "voiceReport") {
+    const report = value as { voice?: unknown; violations?: unknown } | null;
+    return isFilledString(report?.voice) && Array.isArray(report?.violations);
+  }
+
+  const shape = itemShapes[section as Exclude<ModelSection, "executiveSummary">];
+  return (
+    Array.isArray(value) && value.length > 0 && value.every((item) => matchesShape(item, shape))
+  );
+}
+
+/**
+ * Checks a section as the agent returns it, computed fields included, for
+ * content that is kept verbatim instead of being aligned with the plan.
+ */
+export function isCompleteSection<K extends GTMSection>(
+  section: K,
+  value: unknown,
+): value is GTMResponse[K] {
+  if (!isValidSection(section, value)) {
+    return false;
+  }
+  const computed = computedFields[section as Exclude<ModelSection, "executiveSummary">];
+  return !computed || (value as Array<Record<string, unknown>>).every((item) => computed(item));
+}
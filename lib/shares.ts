@@ -0,0 +1,210 @@
+/**
+ * Shareable permalinks for saved blueprints. A share link is its own short-ID
+ * record pointing at a history entry, so one blueprint can have several links
+ * that expire or are revoked independently, and viewers never learn the
+ * history ID that the workspace uses. Creating a link also returns a revoke
+ * token, shown once; only its hash is stored, and revoking requires it. Links
+ * are stored next to the history under `GTM_DATA_DIR`.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { dataDir, getBlueprint, isBlueprintId, type BlueprintRecord } from "./history";
+
+export type ShareLink = {
+  id: string;
+  blueprintId: string;
+  createdAt: string;
+  /** Null for links that never expire. */
+  expiresAt: string | null;
+  revokedAt: string | null;
+};
+
+export type ShareStatus = "active" | "expired" | "revoked";
+
+/** What `createShareLink` returns: the link and the only copy of its revoke token. */
+export type CreatedShareLink = ShareLink & { revokeToken: string };
+
+/** A link as listed for the workspace, with its status worked out server-side. */
+export type ShareLinkSummary = ShareLink & { status: ShareStatus };
+
+/** What a viewer sees: the brief and plan, without the workspace's history ID. */
+export type SharedBlueprint = Pick<
+  BlueprintRecord,
+  "createdAt" | "request" | "blueprint" | "provenance"
+> & {
+  shareId: string;
+  expiresAt: string | null;
+};
+
+export type RevokeResult =
+  { status: "revoked"; share: ShareLink } | { status: "forbidden" } | { status: "not_found" };
+
+export type ShareLookup =
+  | { status: "active"; share: ShareLink; shared: SharedBlueprint }
+  | { status: "expired" | "revoked"; share: ShareLink }
+  | { status: "not_found" };
+
+export const MAX_SHARE_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** On disk a link also keeps the hash of its revoke token, never the token. */
+type StoredShareLink = ShareLink & { revokeTokenHash?: string };
+
+function sharesDir() {
+  return path.join(dataDir(), "shares");
+}
+
+function sharePath(id: string) {
+  return path.join(sharesDir(), `${id}.json`);
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest();
+}
+
+function publicShare({ revokeTokenHash: _hash, ...share }: StoredShareLink): ShareLink {
+  return share;
+}
+
+async function writeShare(share: StoredShareLink) {
+  await fs.mkdir(sharesDir(), { recursive: true });
+  await fs.writeFile(sharePath(share.id), JSON.stringify(share, null, 2), "utf8");
+}
+
+export function isShareDays(value: unknown): value is number {
+  return (
+    typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= MAX_SHARE_DAYS
+  );
+}
+
+export function shareStatus(share: ShareLink, now = new Date()): ShareStatus {
+  if (share.revokedAt) {
+    return "revoked";
+  }
+  return share.expiresAt && Date.parse(share.expiresAt) <= now.getTime() ? "expired" : "active";
+}
+
+/** Null when the blueprint to share does not exist. */
+export async function createShareLink(
+  blueprintId: string,
+  expiresInDays?: number,
+): Promise<CreatedShareLink | null> {
+  if (!(await getBlueprint(blueprintId))) {
+    return null;
+  }
+
+  const now = new Date();
+  const share: ShareLink = {
+    id: randomBytes(6).toString("base64url"),
+    blueprintId,
+    createdAt: now.toISOString(),
+    expiresAt: expiresInDays
+      ? new Date(now.getTime() + expiresInDays * DAY_MS).toISOString()
+      : null,
+    revokedAt: null,
+  };
+  const revokeToken = randomBytes(24).toString("base64url");
+  await writeShare({ ...share, revokeTokenHash: hashToken(revokeToken).toString("hex") });
+
+  return { ...share, revokeToken };
+}
+
+async function readShare(id: string): Promise<StoredShareLink | null> {
+  if (!isBlueprintId(id)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(await fs.readFile(sharePath(id), "utf8")) as StoredShareLink;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw err;
+  }
+}
+
+export async function getShareLink(id: string): Promise<ShareLink | null> {
+  const share = await readShare(id);
+  return share && publicShare(share);
+}
+
+export async function listShareLinks(blueprintId: string): Promise<ShareLink[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(sharesDir());
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw err;
+  }
+
+  const shares = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => getShareLink(path.basename(file, ".json"))),
+  );
+
+  return shares
+    .filter((share): share is ShareLink => share !== null && share.blueprintId === blueprintId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Revoking is permanent; revoking twice keeps the first timestamp. It needs
+ * the token returned when the link was created. The share and history IDs
+ * can't revoke a link, since the API hands both out without authentication.
+ */
+export async function revokeShareLink(id: string, revokeToken: string): Promise<RevokeResult> {
+  const share = await readShare(id);
+  if (!share) {
+    return { status: "not_found" };
+  }
+  const expected = share.revokeTokenHash ? Buffer.from(share.revokeTokenHash, "hex") : null;
+  const given = hashToken(revokeToken);
+  if (!expected || expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return { status: "forbidden" };
+  }
+  if (share.revokedAt) {
+    return { status: "revoked", share: publicShare(share) };
+  }
+
+  const revoked = { ...share, revokedAt: new Date().toISOString() };
+  await writeShare(revoked);
+  return { status: "revoked", share: publicShare(revoked) };
+}
+
+export async function openShareLink(id: string): Promise<ShareLookup> {
+  const share = await getShareLink(id);
+  if (!share) {
+    return { status: "not_found" };
+  }
+
+  const status = shareStatus(share);
+  if (status !== "active") {
+    return { status, share };
+  }
+
+  // A link never outlives its blueprint.
+  const record = await getBlueprint(share.blueprintId);
+  if (!record) {
+    return { status: "not_found" };
+  }
+
+  return {
+    status,
+    share,
+    shared: {
+      shareId: share.id,
+      expiresAt: share.expiresAt,
+      createdAt: record.createdAt,
+      request: record.request,
+      blueprint: record.blueprint,
+      provenance: record.provenance,
+    },
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Server-Sent Events helpers shared by the streaming `/api/agent` route and
+ * the workspace. `EventSource` cannot POST a brief, so the client reads the
+ * stream from `fetch` and parses frames itself.
+ */
+
+export type StreamEvent = {
+  event: string;
+  data: unknown;
+};
+
+export const EVENT_STREAM_TYPE = "text/event-stream";
+
+export function encodeEvent(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseFrame(frame: string): StreamEvent | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  frame.split("\n").forEach((line) => {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  });
+
+  if (!dataLines.length) {
+    return null;
+  }
+  return { event, data: JSON.parse(dataLines.join("\n")) };
+}
+
+/**
+ * Calls `onEvent` for each frame until the stream ends. If `onEvent` throws,
+ * or a frame isn't valid JSON, the stream is cancelled before the error is
+ * rethrown, and the reader is released either way, so the response body
+ * isn't left locked and still downloading.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: StreamEvent) => void,
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let finished = false;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const parsed = parseFrame(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (parsed) {
+          onEvent(parsed);
+        }
+        boundary = buffer.indexOf("\n\n");
+      }
+
+      if (done) {
+        finished = true;
+        return;
+      }
+    }
+  } finally {
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * Task export of the launch plan. Primary plays, proof points and experiment
+ * playbook steps become tracker tasks with a phase, a suggested owner role, a
+ * due window inside the phase dates and dependencies, rendered as CSV, a
+ * GitHub Issues payload, or Jira and Linear CSV imports.
+ */
+
+import type { GTMRequest, GTMResponse } from "./agent";
+import { escapeRegExp, formatDate, slugify } from "./format";
+import { addDays, parseIsoDate, toIsoDate } from "./timeline";
+
+export type TaskSource = "play" | "proof" | "experiment";
+
+export type LaunchTask = {
+  /** 1-based and stable within one export, so trackers can link on it. */
+  id: number;
+  title: string;
+  description: string;
+  phase: string;
+  source: TaskSource;
+  ownerRole: string;
+  startDate: string;
+  dueDate: string;
+  /** Human-readable window, e.g. "Jan 4, 2027 – Jan 10, 2027 (Ignition phase)". */
+  dueWindow: string;
+  dependsOn: number[];
+  labels: string[];
+};
+
+export type TaskFormat = "csv" | "github" | "jira" | "linear";
+
+const DEFAULT_OWNER = "Product marketing";
+
+/** First match wins; keywords match at word starts so plurals count. */
+const ownerRoles: Array<{ role: string; keywords: string[] }> = [
+  {
+    role: "Solutions engineering",
+    keywords: ["solution engineer", "solutions engineer", "pilot sprint", "co-build"],
+  },
+  {
+    role: "Sales",
+    keywords: ["sales", "revenue team", "outbound", "proposal", "roundtable", "executive workshop"],
+  },
+  {
+    role: "Customer marketing",
+    keywords: ["customer", "case stud", "spotlight", "champion", "lighthouse", "design partner"],
+  },
+  { role: "Partnerships", keywords: ["partner", "marketplace", "reseller", "alliance"] },
+  { role: "Developer relations", keywords: ["developer", "api", "sdk", "docs", "hackathon"] },
+  {
+    role: "Revenue operations",
+    keywords: ["instrument", "dashboard", "attribution", "telemetry", "cohort", "crm", "alert"],
+  },
+  {
+    role: "Growth",
+    keywords: [
+      "referral",
+      "trial",
+      "activation",
+      "signup",
+      "paid",
+      "ads",
+      "audience",
+      "retarget",
+      "nurture",
+      "welcome flow",
+      "premium",
+      "upgrade",
+      "template",
+    ],
+  },
+  { role: "Community", keywords: ["community", "communities", "conference", "summit", "event"] },
+  {
+    role: "Content marketing",
+    keywords: [
+      "content",
+      "report",
+      "video",
+      "story",
+      "stories",
+      "narrative",
+      "thread",
+      "infographic",
+      "calculator",
+      "newsletter",
+      "deck",
+      "diagram",
+      "publish",
+    ],
+  },
+];
+
+export function ownerRoleFor(text: string) {
+  return (
+    ownerRoles.find(({ keywords }) =>
+      keywords.some((keyword) => new RegExp(`(^|[^a-z])${escapeRegExp(keyword)}`, "i").test(text)),
+    )?.role ?? DEFAULT_OWNER
+  );
+}
+
+type Window = { startDate: string; dueDate: string };
+
+/** Splits a phase into `count` back-to-back windows; the last ends on the phase end. */
+function splitWindow(start: Date, end: Date, count: number, index: number): Window {
+  const spanDays = Math.round((end.getTime() - start.getTime()) / 86_400_000) + 1;
+  const from = Math.floor((spanDays * index) / count);
+  const to = Math.max(from, Math.floor((spanDays * (index + 1)) / count) - 1);
+  return { startDate: toIsoDate(addDays(start, from)), dueDate: toIsoDate(addDays(start, to)) };
+}
+
+export function buildLaunchTasks(blueprint: GTMResponse): LaunchTask[] {
+  const tasks: LaunchTask[] = [];
+  let previousGate: number[] = [];
+
+  const add = (task: Omit<LaunchTask, "id" | "dueWindow" | "labels">) => {
+    const id = tasks.length + 1;
+    tasks.push({
+      ...task,
+      id,
+      dueWindow: `${formatDate(task.startDate)} – ${formatDate(task.dueDate)} (${task.phase} phase)`,
+      labels: [
+        `phase:${slugify(task.phase)}`,
+        `source:${task.source}`,
+        `owner:${slugify(task.ownerRole)}`,
+      ],
+    });
+    return id;
+  };
+
+  blueprint.launchPhases.forEach((phase, phaseIndex) => {
+    const start = parseIsoDate(phase.startDate);
+    const end = parseIsoDate(phase.endDate);
+    if (!start || !end) {
+      return;
+    }
+
+    const plays = phase.primaryPlays.map((play, index) =>
+      add({
+        title: play,
+        description: `${phase.name} phase play. ${phase.focus}`,
+        phase: phase.name,
+        source: "play",
+        ownerRole: ownerRoleFor(play),
+        ...splitWindow(start, end, phase.primaryPlays.length, index),
+        dependsOn: previousGate,
+      }),
+    );
+
+    const experiments = blueprint.growthExperiments
+      .filter((experiment) =>
+        blueprint.launchPhases.some((entry) => entry.name === experiment.phase)
+          ? experiment.phase === phase.name
+          : phaseIndex === blueprint.launchPhases.length - 1,
+      )
+      .sort((a, b) => a.sequence - b.sequence);
+
+    experiments.forEach((experiment) => {
+      let previousStep: number | null = null;
+      experiment.playbook.forEach((step, index) => {
+        const owner = ownerRoleFor(step);
+        previousStep = add({
+          title: `${experiment.title}: ${step}`,
+          description: `Step ${index + 1} of ${experiment.playbook.length} for the "${experiment.title}" experiment. Hypothesis: ${experiment.hypothesis} Measure: ${experiment.measure}`,
+          phase: phase.name,
+          source: "experiment",
+          ownerRole: owner === DEFAULT_OWNER ? "Growth" : owner,
+          ...splitWindow(start, end, experiment.playbook.length, index),
+          dependsOn: previousStep === null ? previousGate : [previousStep],
+        });
+      });
+    });
+
+    // Proof points close the phase: they need its plays done and gate the next phase.
+    const proofs = phase.proofPoints.map((proof) =>
+      add({
+        title: `Proof point: ${proof}`,
+        description: `Evidence that closes the ${phase.name} phase. ${phase.focus}`,
+        phase: phase.name,
+        source: "proof",
+        ownerRole: ownerRoleFor(proof),
+        ...splitWindow(start, end, 2, 1),
+        dependsOn: plays,
+      }),
+    );
+
+    previousGate = proofs.length ? proofs : plays;
+  });
+
+  return tasks;
+}
+
+function csvCell(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function csvRows(rows: string[][]) {
+  return `${rows.map((row) => row.map(csvCell).join(",")).join("\r\n")}\r\n`;
+}
+
+function titlesOf(tasks: LaunchTask[], ids: number[]) {
+  return ids.map((id) => `#${id} ${tasks[id - 1]?.title ?? ""}`.trim());
+}
+
+function taskBody(tasks: LaunchTask[], task: LaunchTask) {
+  return [
+    task.description,
+    "",
+    `Phase: ${task.phase}`,
+    `Owner role: ${task.ownerRole}`,
+    `Due window: ${task.dueWindow}`,
+    ...(task.dependsOn.length
+      ? ["Depends on:", ...titlesOf(tasks, task.dependsOn).map((title) => `- ${title}`)]
+      : []),
+  ].join("\n");
+}
+
+function renderCsv(tasks: LaunchTask[]) {
+  return csvRows([
+    [
+      "ID",
+      "Title",
+      "Phase",
+      "Source",
+      "Owner role",
+      "Start date",
+      "Due date",
+      "Depends on",
+      "Description",
+    ],
+    ...tasks.map((task) => [
+      String(task.id),
+      task.title,
+      task.phase,
+      task.source,
+      task.ownerRole,
+      task.startDate,
+      task.dueDate,
+      task.dependsOn.join(" "),
+      task.description,
+    ]),
+  ]);
+}
+
+/**
+ * One object per issue in the shape `POST /repos/{owner}/{repo}/issues`
+ * accepts. Issue and milestone numbers are unknown until created, so the
+ * phase travels as a label and dependencies are listed in the body.
+ */
+function renderGithubIssues(request: GTMRequest, tasks: LaunchTask[]) {
+  return `${JSON.stringify(
+    tasks.map((task) => ({
+      title: task.title,
+      body: taskBody(tasks, task),
+      labels: [`${slugify(request.productName)}-launch`, ...task.labels],
+    })),
+    null,
+    2,
+  )}\n`;
+}
+
+/**
+ * Jira's CSV importer takes repeated headers for multi-value fields and links
+ * issues through the "Issue Id" column, so each dependency gets its own
+ * "Blocked By" cell.
+ */
+function renderJira(request: GTMRequest, tasks: LaunchTask[]) {
+  const labelsOf = (task: LaunchTask) => [`${slugify(request.productName)}-launch`, ...task.labels];
+  const maxLabels = Math.max(0, ...tasks.map((task) => labelsOf(task).length));
+  const maxLinks = Math.max(0, ...tasks.map((task) => task.dependsOn.length));
+  const pad = (values: string[], size: number) =>
+    Array.from({ length: size }, (_, index) => values[index] ?? "");
+
+  return csvRows([
+    [
+      "Issue Id",
+      "Summary",
+      "Issue Type",
+      "Description",
+      "Component",
+      "Start date",
+      "Due date",
+      ...pad([], maxLabels).map(() => "Labels"),
+      ...pad([], maxLinks).map(() => "Blocked By"),
+    ],
+    ...tasks.map((task) => [
+      String(task.id),
+      task.title,
+      "Task",
+      taskBody(tasks, task),
+      task.ownerRole,
+      task.startDate,
+      task.dueDate,
+      ...pad(labelsOf(task), maxLabels),
+      ...pad(task.dependsOn.map(String), maxLinks),
+    ]),
+  ]);
+}
+
+/** Linear's CSV import has no relation column, so dependencies live in the description. */
+function renderLinear(request: GTMRequest, tasks: LaunchTask[]) {
+  return csvRows([
+    ["Title", "Description", "Status", "Priority", "Labels", "Due Date", "Project"],
+    ...tasks.map((task) => [
+      task.title,
+      taskBody(tasks, task),
+      "Todo",
+      task.source === "proof" ? "High" : "Medium",
+      task.labels.join(", "),
+      task.dueDate,
+      `${request.productName} launch`,
+    ]),
+  ]);
+}
+
+export function renderTasks(format: TaskFormat, request: GTMRequest, blueprint: GTMResponse) {
+  const tasks = buildLaunchTasks(blueprint);
+  switch (format) {
+    case "csv":
+      return renderCsv(tasks);
+    case "github":
+      return renderGithubIssues(request, tasks);
+    case "jira":
+      return renderJira(request, tasks);
+    case "linear":
+      return renderLinear(request, tasks);
+  }
+}
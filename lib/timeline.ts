@@ -0,0 +1,228 @@
+/**
+ * Launch timeline engine. Parses the free-text `launchHorizon` into a dated
+ * window and sizes each launch phase in proportion to it, so "30-day" and
+ * "6-month" briefs get genuinely different calendars.
+ */
+
+export type LaunchHorizon = {
+  days: number;
+  startDate: string;
+  endDate: string;
+  /** False when nothing in the text could be read and the default was used. */
+  parsed: boolean;
+  /** True when the text asked for more than `MAX_HORIZON_DAYS` and was cut to it. */
+  clamped: boolean;
+  /** Both ends of a range such as "6-12 months", in days; the plan runs to the upper end. */
+  range: { low: number; high: number } | null;
+};
+
+export type ScheduledPhase = {
+  duration: string;
+  startDate: string;
+  endDate: string;
+};
+
+const DEFAULT_HORIZON_DAYS = 90;
+/** Longest launch the planner schedules; longer horizons are cut to it. */
+export const MAX_HORIZON_DAYS = 730;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const unitDays: Array<{ pattern: RegExp; days: number }> = [
+  { pattern: /^d(ay)?s?$/, days: 1 },
+  { pattern: /^w(ee)?ks?$/, days: 7 },
+  { pattern: /^(mo|mos|months?)$/, days: 30 },
+  { pattern: /^(quarters?|q)$/, days: 91 },
+  { pattern: /^(years?|yrs?)$/, days: 365 },
+];
+
+const namedHorizons: Array<{ pattern: RegExp; days: number }> = [
+  { pattern: /\bhalf[- ]year\b/, days: 182 },
+  { pattern: /\b(a |one )?quarter\b/, days: 91 },
+  { pattern: /\b(a |one )?year\b/, days: 365 },
+  { pattern: /\b(a |one )?month\b/, days: 30 },
+  { pattern: /\b(a |one )?week\b/, days: 7 },
+];
+
+const wordNumbers: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+};
+
+/** Relative phase weights; phases without an entry count as 1. */
+const phaseWeights: Record<string, number> = {
+  Ignition: 2,
+  Amplify: 3,
+  Convert: 3,
+  Scale: 4,
+};
+
+export function toIsoDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export function parseIsoDate(value: string) {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return toIsoDate(date) === value ? date : null;
+}
+
+export function addDays(date: Date, days: number) {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function todayUtc() {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+const rangePattern = /(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)[\s-]*([a-z]+)\b/;
+
+const durationPattern = new RegExp(
+  `(\\d+(?:\\.\\d+)?|\\b(?:${Object.keys(wordNumbers).join("|")})\\b)[\\s-]*([a-z]+)\\b`,
+  "g",
+);
+
+function parseRangeDays(text: string) {
+  const match = text.match(rangePattern);
+  const perUnit = match ? unitDays.find((entry) => entry.pattern.test(match[3]))?.days : undefined;
+  if (!match || !perUnit) {
+    return null;
+  }
+  const low = Math.round(Number(match[1]) * perUnit);
+  const high = Math.round(Number(match[2]) * perUnit);
+  return low < high ? { low, high } : null;
+}
+
+function parseDurationDays(text: string) {
+  durationPattern.lastIndex = 0;
+  let match = durationPattern.exec(text);
+
+  while (match) {
+    const [, amountText, unit] = match;
+    const amount = /^\d/.test(amountText) ? Number(amountText) : wordNumbers[amountText];
+    const perUnit = unitDays.find((entry) => entry.pattern.test(unit))?.days;
+
+    if (amount && perUnit) {
+      return Math.round(amount * perUnit);
+    }
+    match = durationPattern.exec(text);
+  }
+
+  return namedHorizons.find((entry) => entry.pattern.test(text))?.days ?? null;
+}
+
+/**
+ * Reads durations such as "30-day", "12 weeks", "6-month" or "a quarter", and
+ * an optional ISO start date either passed explicitly or embedded in the text
+ * ("starting 2026-11-02"). Unreadable horizons fall back to 90 days. A range
+ * ("6-12 months") runs to its upper end and anything past two years is cut
+ * to `MAX_HORIZON_DAYS`; both are reported so the caller can warn.
+ */
+export function parseLaunchHorizon(horizon: string, startDate?: string): LaunchHorizon {
+  const text = horizon.toLowerCase();
+  const embeddedDate = text.match(/\d{4}-\d{2}-\d{2}/)?.[0];
+  const start =
+    (startDate && parseIsoDate(startDate)) ||
+    (embeddedDate && parseIsoDate(embeddedDate)) ||
+    todayUtc();
+
+  const withoutDate = embeddedDate ? text.replace(embeddedDate, " ") : text;
+  const range = parseRangeDays(withoutDate);
+  const parsedDays = range?.high ?? parseDurationDays(withoutDate);
+  const days = Math.min(Math.max(parsedDays ?? DEFAULT_HORIZON_DAYS, 1), MAX_HORIZON_DAYS);
+
+  return {
+    days,
+    startDate: toIsoDate(start),
+    endDate: toIsoDate(addDays(start, days - 1)),
+    parsed: parsedDays !== null,
+    clamped: parsedDays !== null && parsedDays > MAX_HORIZON_DAYS,
+    range,
+  };
+}
+
+/** Stretches a horizon to at least `minimumDays`, keeping its start date. */
+export function extendHorizon(horizon: LaunchHorizon, minimumDays: number): LaunchHorizon {
+  if (horizon.days >= minimumDays) {
+    return horizon;
+  }
+  const start = parseIsoDate(horizon.startDate) ?? todayUtc();
+  return { ...horizon, days: minimumDays, endDate: toIsoDate(addDays(start, minimumDays - 1)) };
+}
+
+/** Number of phases a horizon can hold: short sprints merge, long motions add Scale. */
+export function phaseCountFor(horizon: LaunchHorizon) {
+  if (horizon.days <= 21) {
+    return Math.min(2, horizon.days);
+  }
+  return horizon.days > 120 ? 4 : 3;
+}
+
+function rangeLabel(startOffset: number, endOffset: number, totalDays: number) {
+  if (totalDays <= 84) {
+    const from = Math.floor(startOffset / 7) + 1;
+    const to = Math.floor(endOffset / 7) + 1;
+    return from === to ? `Week ${from}` : `Week ${from}-${to}`;
+  }
+  const from = Math.floor(startOffset / 30) + 1;
+  const to = Math.floor(endOffset / 30) + 1;
+  return from === to ? `Month ${from}` : `Month ${from}-${to}`;
+}
+
+function formatDay(date: Date) {
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+/**
+ * Splits the horizon across phases by weight. Every phase gets at least one
+ * day and the last phase ends exactly on the horizon's end date.
+ * `weightOverrides` replaces individual phase weights, e.g. a longer Convert.
+ */
+export function scheduleLaunchPhases<T extends { name: string }>(
+  phases: T[],
+  horizon: LaunchHorizon,
+  weightOverrides: Record<string, number> = {},
+): Array<T & ScheduledPhase> {
+  const start = parseIsoDate(horizon.startDate) ?? todayUtc();
+  const weights = phases.map(
+    (phase) => weightOverrides[phase.name] ?? phaseWeights[phase.name] ?? 1,
+  );
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let offset = 0;
+  let consumedWeight = 0;
+
+  return phases.map((phase, index) => {
+    consumedWeight += weights[index];
+    const remainingPhases = phases.length - index - 1;
+    const idealEnd = Math.round((horizon.days * consumedWeight) / totalWeight) - 1;
+    const endOffset =
+      index === phases.length - 1
+        ? horizon.days - 1
+        : Math.min(Math.max(idealEnd, offset), horizon.days - 1 - remainingPhases);
+
+    const phaseStart = addDays(start, offset);
+    const phaseEnd = addDays(start, Math.max(endOffset, offset));
+    const scheduled = {
+      ...phase,
+      duration: `${rangeLabel(offset, Math.max(endOffset, offset), horizon.days)} · ${formatDay(phaseStart)} – ${formatDay(phaseEnd)}`,
+      startDate: toIsoDate(phaseStart),
+      endDate: toIsoDate(phaseEnd),
+    };
+
+    offset = Math.max(endOffset, offset) + 1;
+    return scheduled;
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * Explainability trace for the rule engine. While the rules draft a blueprint
+ * they record, per section, every rule they evaluated, whether it fired, the
+ * brief text that triggered it and the defaults used where the brief said
+ * nothing readable, so "why is this in the plan?" has an answer outside the
+ * source code.
+ */
+
+import type { GTMRequest } from "./agent";
+
+export type TracedSection =
+  "launchPhases" | "personaInsights" | "messagingPillars" | "channelStrategy";
+
+export type TraceTrigger = {
+  field: keyof GTMRequest;
+  /** The words in that field the rule reacted to. */
+  text: string;
+};
+
+export type TraceRule = {
+  rule: string;
+  /** The phase, persona, pillar or channel the rule shaped; omitted for section-wide rules. */
+  subject?: string;
+  fired: boolean;
+  triggers: TraceTrigger[];
+  detail: string;
+};
+
+export type SectionTrace = {
+  rules: TraceRule[];
+  defaults: string[];
+};
+
+export type BlueprintTrace = Partial<Record<TracedSection, SectionTrace>>;
+
+export const tracedSections: TracedSection[] = [
+  "launchPhases",
+  "personaInsights",
+  "messagingPillars",
+  "channelStrategy",
+];
+
+function sectionTrace(trace: BlueprintTrace, section: TracedSection) {
+  const existing = trace[section];
+  if (existing) {
+    return existing;
+  }
+  const created: SectionTrace = { rules: [], defaults: [] };
+  trace[section] = created;
+  return created;
+}
+
+export function traceRule(trace: BlueprintTrace, section: TracedSection, rule: TraceRule) {
+  sectionTrace(trace, section).rules.push(rule);
+}
+
+export function traceDefault(trace: BlueprintTrace, section: TracedSection, note: string) {
+  sectionTrace(trace, section).defaults.push(note);
+}
+
+/**
+ * The part of a section trace that explains one block: rules about that
+ * subject plus the section-wide ones. Without a subject, every rule is kept.
+ */
+export function traceFor(trace: SectionTrace, subject?: string): SectionTrace {
+  return subject === undefined
+    ? trace
+    : {
+        rules: trace.rules.filter((rule) => rule.subject === undefined || rule.subject === subject),
+        defaults: trace.defaults,
+      };
+}
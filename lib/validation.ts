@@ -0,0 +1,546 @@
+/**
+ * Brief schema shared by `/api/agent`, the workspace form and the
+ * command-line runner, so a brief that fails in one fails the same way in the
+ * others. Parsing checks types and length limits, rejects fields the agent
+ * doesn't know, trims and collapses whitespace, and reports every problem
+ * against the field it belongs to so the form can show it next to the input.
+ */
+
+import type { GTMRequest } from "./agent";
+import type { Competitor } from "./battlecards";
+import type { MarketInputs, MarketSegment } from "./market";
+import { targetMarkets } from "./regions";
+import { parseIsoDate } from "./timeline";
+import { verticalPacks } from "./verticals";
+
+export type FieldErrorCode =
+  | "required"
+  | "invalid_type"
+  | "too_long"
+  | "too_many"
+  | "out_of_range"
+  | "invalid_date"
+  | "invalid_choice"
+  | "unknown_field";
+
+export type FieldError = {
+  /** A brief field, or a path inside one such as `competitors[1].name`. */
+  field: string;
+  code: FieldErrorCode;
+  message: string;
+};
+
+export type ValidationError = {
+  error: "validation_error";
+  message: string;
+  missing?: Array<keyof GTMRequest>;
+  invalid?: string[];
+  fieldErrors?: FieldError[];
+};
+
+export type InvalidJsonError = {
+  error: "invalid_json";
+  message: string;
+};
+
+export type BriefParseResult =
+  { ok: true; brief: GTMRequest } | { ok: false; error: ValidationError };
+
+type FieldRule =
+  | { kind: "text"; label: string; required: boolean; maxLength: number }
+  | { kind: "date"; label: string }
+  | { kind: "number"; label: string; max: number }
+  | { kind: "list"; label: string; maxItems: number; maxLength: number }
+  | { kind: "competitors"; label: string; maxItems: number }
+  | { kind: "market"; label: string; maxSegments: number }
+  | { kind: "choice"; label: string; options: string[] }
+  | { kind: "choices"; label: string; options: string[] };
+
+export const briefSchema: Record<keyof GTMRequest, FieldRule> = {
+  productName: { kind: "text", label: "Product name", required: true, maxLength: 120 },
+  productSummary: { kind: "text", label: "Product summary", required: true, maxLength: 1000 },
+  audience: { kind: "text", label: "Target audience", required: true, maxLength: 500 },
+  problem: { kind: "text", label: "Problem", required: true, maxLength: 1000 },
+  differentiation: { kind: "text", label: "Why you win", required: true, maxLength: 1000 },
+  pricing: { kind: "text", label: "Pricing motion", required: true, maxLength: 300 },
+  brandVoice: { kind: "text", label: "Brand voice", required: true, maxLength: 200 },
+  voiceSamples: { kind: "list", label: "Voice samples", maxItems: 10, maxLength: 500 },
+  primaryGoal: { kind: "text", label: "Primary goal", required: true, maxLength: 300 },
+  successMetric: { kind: "text", label: "North star metric", required: true, maxLength: 200 },
+  launchHorizon: { kind: "text", label: "Launch horizon", required: true, maxLength: 100 },
+  launchStartDate: { kind: "date", label: "Launch start date" },
+  budget: { kind: "number", label: "Launch budget", max: 1_000_000_000 },
+  teamCapacity: { kind: "number", label: "Team capacity", max: 1000 },
+  competitors: { kind: "competitors", label: "Competitors", maxItems: 10 },
+  market: { kind: "market", label: "Market sizing", maxSegments: 10 },
+  vertical: {
+    kind: "choice",
+    label: "Industry vertical",
+    options: verticalPacks.map((pack) => pack.id),
+  },
+  targetMarkets: {
+    kind: "choices",
+    label: "Target markets",
+    options: targetMarkets.map((market) => market.id),
+  },
+};
+
+export const requiredFields = (Object.keys(briefSchema) as Array<keyof GTMRequest>).filter(
+  (field) => {
+    const rule = briefSchema[field];
+    return rule.kind === "text" && rule.required;
+  },
+);
+
+const competitorRules = {
+  name: { label: "name", maxLength: 120 },
+  pricePoint: { label: "price point", maxLength: 200 },
+  listItems: 10,
+  listItemLength: 300,
+};
+
+const competitorFields = ["name", "strengths", "weaknesses", "pricePoint"];
+
+const marketRules = {
+  segmentName: { label: "name", maxLength: 120 },
+  maxAccounts: 10_000_000_000,
+  maxContractValue: 100_000_000,
+};
+
+const marketFields = ["segments", "averageContractValue", "reachableShare", "winRate"];
+
+/** Trims and collapses runs of spaces, tabs and newlines into one space. */
+export function normalizeWhitespace(value: string) {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function addError(errors: FieldError[], field: string, code: FieldErrorCode, message: string) {
+  errors.push({ field, code, message });
+}
+
+function parseText(
+  value: unknown,
+  field: string,
+  label: string,
+  maxLength: number,
+  errors: FieldError[],
+) {
+  if (typeof value !== "string") {
+    addError(errors, field, "invalid_type", `${label} must be text.`);
+    return undefined;
+  }
+  const text = normalizeWhitespace(value);
+  if (text.length > maxLength) {
+    addError(errors, field, "too_long", `${label} must be at most ${maxLength} characters.`);
+  }
+  return text;
+}
+
+function parseTextList(
+  value: unknown,
+  field: string,
+  label: string,
+  maxItems: number,
+  maxLength: number,
+  errors: FieldError[],
+  unique = false,
+) {
+  if (!Array.isArray(value) || !value.every((entry) => typeof entry === "string")) {
+    addError(errors, field, "invalid_type", `${label} must be a list of text entries.`);
+    return undefined;
+  }
+  // Limits apply after blanks (and, for `unique` lists, repeats) are dropped, but
+  // errors point at the entry as the client sent it.
+  const normalized = (value as string[]).map(normalizeWhitespace);
+  const filled = normalized.filter(Boolean);
+  const entries = unique ? Array.from(new Set(filled)) : filled;
+  if (entries.length > maxItems) {
+    addError(errors, field, "too_many", `${label} can have at most ${maxItems} entries.`);
+  }
+  const tooLong = normalized.findIndex((entry) => entry.length > maxLength);
+  if (tooLong >= 0) {
+    addError(
+      errors,
+      `${field}[${tooLong}]`,
+      "too_long",
+      `${label}: entry ${tooLong + 1} must be at most ${maxLength} characters.`,
+    );
+  }
+  return entries;
+}
+
+function parseCompetitor(value: unknown, index: number, errors: FieldError[]) {
+  const field = `competitors[${index}]`;
+  const label = `Competitor ${index + 1}`;
+  if (!isJsonObject(value)) {
+    addError(
+      errors,
+      field,
+      "invalid_type",
+      `${label} must be { name, strengths, weaknesses, pricePoint? }.`,
+    );
+    return undefined;
+  }
+
+  Object.keys(value)
+    .filter((key) => !competitorFields.includes(key))
+    .forEach((key) =>
+      addError(errors, `${field}.${key}`, "unknown_field", `${label}: unknown field "${key}".`),
+    );
+
+  const name = parseText(
+    value.name ?? "",
+    `${field}.name`,
+    `${label} ${competitorRules.name.label}`,
+    competitorRules.name.maxLength,
+    errors,
+  );
+  if (name === "") {
+    addError(errors, `${field}.name`, "required", `${label} needs a name.`);
+  }
+  const [strengths, weaknesses] = (["strengths", "weaknesses"] as const).map((key) =>
+    parseTextList(
+      value[key] ?? [],
+      `${field}.${key}`,
+      `${label} ${key}`,
+      competitorRules.listItems,
+      competitorRules.listItemLength,
+      errors,
+    ),
+  );
+  const pricePoint =
+    value.pricePoint === undefined || value.pricePoint === null
+      ? undefined
+      : parseText(
+          value.pricePoint,
+          `${field}.pricePoint`,
+          `${label} ${competitorRules.pricePoint.label}`,
+          competitorRules.pricePoint.maxLength,
+          errors,
+        );
+
+  const competitor: Competitor = {
+    name: name ?? "",
+    strengths: strengths ?? [],
+    weaknesses: weaknesses ?? [],
+    ...(pricePoint ? { pricePoint } : {}),
+  };
+  return competitor;
+}
+
+/**
+ * A finite number in `(min, max]`, or `[min, max]` when `inclusiveMin`.
+ * `bounds` replaces the range in the error message.
+ */
+function parseNumber(
+  value: unknown,
+  field: string,
+  label: string,
+  range: { min: number; max: number; inclusiveMin: boolean; bounds?: string },
+  errors: FieldError[],
+) {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    addError(errors, field, "invalid_type", `${label} must be a number.`);
+    return undefined;
+  }
+  const max = range.max.toLocaleString("en-US");
+  const tooLow = range.inclusiveMin ? value < range.min : value <= range.min;
+  if (tooLow || value > range.max) {
+    const bounds =
+      range.bounds ??
+      (range.inclusiveMin
+        ? `between ${range.min} and ${max}`
+        : `above ${range.min} and at most ${max}`);
+    addError(errors, field, "out_of_range", `${label} must be ${bounds}.`);
+  }
+  return value;
+}
+
+function parseSegment(value: unknown, index: number, errors: FieldError[]) {
+  const field = `market.segments[${index}]`;
+  const label = `Segment ${index + 1}`;
+  if (!isJsonObject(value)) {
+    addError(errors, field, "invalid_type", `${label} must be { name, accounts }.`);
+    return undefined;
+  }
+
+  Object.keys(value)
+    .filter((key) => key !== "name" && key !== "accounts")
+    .forEach((key) =>
+      addError(errors, `${field}.${key}`, "unknown_field", `${label}: unknown field "${key}".`),
+    );
+
+  const name = parseText(
+    value.name ?? "",
+    `${field}.name`,
+    `${label} ${marketRules.segmentName.label}`,
+    marketRules.segmentName.maxLength,
+    errors,
+  );
+  if (name === "") {
+    addError(errors, `${field}.name`, "required", `${label} needs a name.`);
+  }
+  if (value.accounts === undefined || value.accounts === null) {
+    addError(errors, `${field}.accounts`, "required", `${label} needs an account count.`);
+  }
+  const accounts =
+    value.accounts === undefined || value.accounts === null
+      ? undefined
+      : parseNumber(
+          value.accounts,
+          `${field}.accounts`,
+          `${label} accounts`,
+          { min: 0, max: marketRules.maxAccounts, inclusiveMin: true },
+          errors,
+        );
+
+  const segment: MarketSegment = { name: name ?? "", accounts: accounts ?? 0 };
+  return segment;
+}
+
+function parseMarket(value: unknown, maxSegments: number, errors: FieldError[]) {
+  if (!isJsonObject(value)) {
+    addError(
+      errors,
+      "market",
+      "invalid_type",
+      "Market sizing must be { segments, averageContractValue?, reachableShare?, winRate? }.",
+    );
+    return undefined;
+  }
+
+  Object.keys(value)
+    .filter((key) => !marketFields.includes(key))
+    .forEach((key) =>
+      addError(errors, `market.${key}`, "unknown_field", `Market sizing: unknown field "${key}".`),
+    );
+
+  let segments: MarketSegment[] = [];
+  if (!Array.isArray(value.segments)) {
+    addError(
+      errors,
+      "market.segments",
+      value.segments === undefined || value.segments === null ? "required" : "invalid_type",
+      "Market sizing needs a list of segments with account counts.",
+    );
+  } else if (!value.segments.length) {
+    addError(errors, "market.segments", "required", "Market sizing needs at least one segment.");
+  } else {
+    if (value.segments.length > maxSegments) {
+      addError(
+        errors,
+        "market.segments",
+        "too_many",
+        `Market sizing can have at most ${maxSegments} segments.`,
+      );
+    }
+    segments = value.segments.flatMap((entry, index) => parseSegment(entry, index, errors) ?? []);
+  }
+
+  const optional = (key: "averageContractValue" | "reachableShare" | "winRate", label: string) => {
+    const entry = value[key];
+    if (entry === undefined || entry === null) {
+      return undefined;
+    }
+    // Shares are 0-1 in the API; the form edits them as percentages.
+    const range =
+      key === "averageContractValue"
+        ? { min: 0, max: marketRules.maxContractValue, inclusiveMin: false }
+        : { min: 0, max: 1, inclusiveMin: false, bounds: "a share above 0 and at most 1 (100%)" };
+    return parseNumber(entry, `market.${key}`, label, range, errors);
+  };
+  const averageContractValue = optional("averageContractValue", "Average contract value");
+  const reachableShare = optional("reachableShare", "Reachable share");
+  const winRate = optional("winRate", "Win rate");
+
+  const market: MarketInputs = {
+    segments,
+    ...(averageContractValue !== undefined ? { averageContractValue } : {}),
+    ...(reachableShare !== undefined ? { reachableShare } : {}),
+    ...(winRate !== undefined ? { winRate } : {}),
+  };
+  return market;
+}
+
+function parseField(field: keyof GTMRequest, value: unknown, errors: FieldError[]): unknown {
+  const rule = briefSchema[field];
+
+  switch (rule.kind) {
+    case "text": {
+      const text = parseText(value, field, rule.label, rule.maxLength, errors);
+      if (text === "" && rule.required) {
+        addError(errors, field, "required", `${rule.label} is required.`);
+      }
+      return text || undefined;
+    }
+    case "date": {
+      const text = parseText(value, field, rule.label, Infinity, errors);
+      // The same strict parse the timeline uses, so "2026-02-31" fails here too.
+      if (text && !parseIsoDate(text)) {
+        addError(
+          errors,
+          field,
+          "invalid_date",
+          `${rule.label} must be a valid date in YYYY-MM-DD format.`,
+        );
+      }
+      return text || undefined;
+    }
+    case "number":
+      return parseNumber(
+        value,
+        field,
+        rule.label,
+        { min: 0, max: rule.max, inclusiveMin: true },
+        errors,
+      );
+    case "list":
+      return parseTextList(value, field, rule.label, rule.maxItems, rule.maxLength, errors);
+    case "competitors": {
+      if (!Array.isArray(value)) {
+        addError(errors, field, "invalid_type", `${rule.label} must be a list.`);
+        return undefined;
+      }
+      if (value.length > rule.maxItems) {
+        addError(
+          errors,
+          field,
+          "too_many",
+          `${rule.label} can have at most ${rule.maxItems} entries.`,
+        );
+      }
+      return value.map((entry, index) => parseCompetitor(entry, index, errors));
+    }
+    case "market":
+      return parseMarket(value, rule.maxSegments, errors);
+    case "choice": {
+      const text = parseText(value, field, rule.label, Infinity, errors);
+      if (text && !rule.options.includes(text)) {
+        addError(
+          errors,
+          field,
+          "invalid_choice",
+          `${rule.label} must be one of: ${rule.options.join(", ")}.`,
+        );
+      }
+      return text || undefined;
+    }
+    case "choices": {
+      const entries = parseTextList(
+        value,
+        field,
+        rule.label,
+        rule.options.length,
+        Infinity,
+        errors,
+        true,
+      );
+      const unknown = entries?.filter((entry) => !rule.options.includes(entry)) ?? [];
+      if (unknown.length > 0) {
+        addError(
+          errors,
+          field,
+          "invalid_choice",
+          `${rule.label}: ${unknown.join(", ")} is not one of ${rule.options.join(", ")}.`,
+        );
+      }
+      return entries;
+    }
+  }
+}
+
+/**
+ * The normalised brief, or every problem with it. Optional fields may be
+ * omitted or null; blank optional text is dropped rather than kept as "".
+ */
+export function parseBrief(payload: unknown): BriefParseResult {
+  if (!isJsonObject(payload)) {
+    return {
+      ok: false,
+      error: {
+        error: "validation_error",
+        message: "The brief must be a JSON object.",
+        fieldErrors: [
+          { field: "brief", code: "invalid_type", message: "The brief must be a JSON object." },
+        ],
+      },
+    };
+  }
+
+  const errors: FieldError[] = [];
+  Object.keys(payload)
+    .filter((key) => !Object.hasOwn(briefSchema, key))
+    .forEach((key) => addError(errors, key, "unknown_field", `Unknown field "${key}".`));
+
+  const brief: Record<string, unknown> = {};
+  const fields = Object.keys(briefSchema) as Array<keyof GTMRequest>;
+  fields.forEach((field) => {
+    const rule = briefSchema[field];
+    const value = payload[field];
+    if (value === undefined || value === null) {
+      if (rule.kind === "text" && rule.required) {
+        addError(errors, field, "required", `${rule.label} is required.`);
+      }
+      return;
+    }
+    const parsed = parseField(field, value, errors);
+    if (parsed !== undefined) {
+      brief[field] = parsed;
+    }
+  });
+
+  if (!errors.length) {
+    return { ok: true, brief: brief as GTMRequest };
+  }
+
+  const missing = fields.filter((field) =>
+    errors.some((entry) => entry.field === field && entry.code === "required"),
+  );
+  const invalid = Array.from(
+    new Set(
+      errors.filter((entry) => entry.code !== "required").map((entry) => rootField(entry.field)),
+    ),
+  );
+
+  return {
+    ok: false,
+    error: {
+      error: "validation_error",
+      message: invalid.length ? "Some fields are invalid." : "Missing required fields.",
+      ...(missing.length ? { missing } : {}),
+      ...(invalid.length ? { invalid } : {}),
+      fieldErrors: errors,
+    },
+  };
+}
+
+/** `competitors[1].name` belongs to `competitors`. */
+export function rootField(field: string) {
+  return field.split(/[.[]/)[0];
+}
+
+/** The first message per top-level field, for showing next to each input. */
+export function fieldMessages(errors: FieldError[] = []): Record<string, string> {
+  return errors.reduce<Record<string, string>>((messages, entry) => {
+    const field = rootField(entry.field);
+    return Object.hasOwn(messages, field) ? messages : { ...messages, [field]: entry.message };
+  }, {});
+}
+
+/** Reads a JSON body; null means the body is not valid JSON. */
+export async function readJsonBody(request: Request): Promise<{ body: unknown } | null> {
+  try {
+    return { body: await request.json() };
+  } catch {
+    return null;
+  }
+}
+
+export const invalidJson: InvalidJsonError = {
+  error: "invalid_json",
+  message: "The request body is not valid JSON.",
+};
@@ -0,0 +1,189 @@
+import { kw, type VerticalPack } from "./pack";
+
+/** Banks, insurers, lenders and fintechs: examiners, model risk and vendor due diligence. */
+export const financialServicesPack: VerticalPack = {
+  id: "financial-services",
+  label: "Financial services",
+  keywords: [
+    "financial services",
+    "bank",
+    "banking",
+    "credit union",
+    "fintech",
+    "insurance",
+    "insurer",
+    "lender",
+    "lending",
+    "wealth",
+    "asset management",
+    "payments",
+    "broker",
+    "capital markets",
+  ],
+  personas: [
+    {
+      id: "risk-officer",
+      persona: "Risk & Compliance Officer",
+      keywords: [
+        kw("model risk", 1.5),
+        kw("compliance", 1.2),
+        kw("risk", 1.2),
+        kw("regulatory", 1.2),
+        kw("aml", 1.2),
+        kw("kyc", 1.2),
+        kw("audit", 1),
+        kw("financial services", 1),
+        kw("bank", 0.8),
+        kw("banking", 0.8),
+        kw("insurance", 0.6),
+      ],
+      needs: [
+        "Controls that satisfy examiners and auditors",
+        "Explainable outputs and documentation for model risk review",
+        "Vendor due diligence that clears third-party risk",
+      ],
+      triggers: [
+        "Peer institutions passed an exam with it in place",
+        "SOC 2 Type II and penetration test results on request",
+        "Audit logs that export to the GRC system",
+      ],
+      objections: [
+        "Examiner findings traced back to a vendor",
+        "Black-box models with no documentation",
+        "Data residency and outsourcing rules",
+      ],
+    },
+    {
+      id: "fs-operations",
+      persona: "Financial Operations Leader",
+      keywords: [
+        kw("credit union", 1.5),
+        kw("bank", 1.2),
+        kw("banking", 1.2),
+        kw("lending", 1.2),
+        kw("lender", 1.2),
+        kw("underwriting", 1.2),
+        kw("fintech", 1),
+        kw("payments", 1),
+        kw("insurance", 1),
+        kw("claims", 1),
+        kw("wealth", 1),
+        kw("operations", 0.8),
+      ],
+      needs: [
+        "Lower cost per account or claim without adding risk",
+        "Straight-through processing with a human in the loop",
+        "Integration with the core banking or policy admin system",
+      ],
+      triggers: [
+        "Quantified efficiency gains at a similar institution",
+        "Connectors to our core platform already built",
+        "A change plan the regulator will be comfortable with",
+      ],
+      objections: [
+        "Core system integration risk",
+        "Customer complaints if automation gets it wrong",
+        "Months of procurement and vendor onboarding",
+      ],
+    },
+  ],
+  channels: [
+    {
+      channel: "Industry Associations & Analysts",
+      role: "Build credibility through industry associations, analyst coverage and regtech forums.",
+      cadences: [
+        "Quarterly briefings with banking and insurance analysts",
+        "Working-group seats in industry and state associations",
+        "Regulatory update webinars co-hosted with compliance advisors",
+      ],
+      kpis: ["Analyst mentions", "Association-sourced meetings", "Shortlist inclusions"],
+      economics: {
+        minBudget: 3000,
+        spendWeight: 0.6,
+        laborWeight: 0.9,
+        cpm: 120,
+        organicReachPerFteMonth: 4000,
+        conversionRate: 0.002,
+        goalAffinity: ["awareness", "pipeline", "enterprise", "category"],
+        personaAffinity: ["risk-officer", "fs-operations", "executive"],
+      },
+    },
+    {
+      channel: "Core Platform Partnerships",
+      role: "Reach institutions through the core banking, payments and policy platforms they already trust.",
+      cadences: [
+        "Certified integrations listed on core platform marketplaces",
+        "Monthly account planning with platform partner reps",
+        "Co-branded implementation guides for shared customers",
+      ],
+      kpis: [
+        "Partner-sourced opportunities",
+        "Certified integrations",
+        "Attach rate on partner deals",
+      ],
+      economics: {
+        minBudget: 5000,
+        laborWeight: 0.9,
+        cpm: 220,
+        organicReachPerFteMonth: 4000,
+        conversionRate: 0.0025,
+        goalAffinity: ["pipeline", "revenue", "partner", "enterprise"],
+        personaAffinity: ["fs-operations"],
+      },
+    },
+  ],
+  pillar: {
+    pillar: "Examiner-Ready Controls",
+    narrative: (productName) =>
+      `${productName} documents every decision, so risk teams can defend it to auditors and regulators.`,
+    contentAngles: [
+      "Control mapping against examiner expectations",
+      "Model documentation written for model risk reviewers",
+      "Efficiency gains signed off by a risk owner",
+    ],
+    proofAssets: [
+      "SOC 2 Type II report and penetration test summary",
+      "Model risk documentation pack",
+      "Pre-filled vendor due-diligence questionnaire",
+    ],
+  },
+  plays: {
+    Ignition: ["Pre-fill the vendor due-diligence questionnaire before outreach"],
+    Convert: ["Run third-party risk and model risk reviews in parallel with the pilot"],
+  },
+  proofPoints: {
+    Ignition: ["Control mapping to the regulations buyers answer to"],
+    Convert: ["Reference institution of similar size and charter"],
+  },
+  claimRestrictions: [
+    {
+      pattern: /\bguarantee(d|s)? (returns?|approvals?|savings|results|growth)\b/i,
+      claim: "Guaranteed outcomes",
+      guidance:
+        "Financial promotions can't guarantee outcomes; state typical results with their basis and period.",
+    },
+    {
+      pattern: /\b(risk[- ]free|no risk|zero risk)\b/i,
+      claim: "Risk-free claims",
+      guidance: "Nothing here is risk-free; name the control that reduces the risk instead.",
+    },
+    {
+      pattern: /\b(regulator|fdic|sec|occ|fca)[- ](approved|endorsed)\b/i,
+      claim: "Regulator endorsement",
+      guidance:
+        "Regulators don't approve vendors; say which rule the product helps the institution meet.",
+    },
+    {
+      pattern: /\bfully compliant\b/i,
+      claim: "Blanket compliance",
+      guidance:
+        "Compliance stays with the institution; list the requirements the product supports.",
+    },
+  ],
+  timeline: {
+    minimumDays: 120,
+    phaseWeights: { Convert: 5 },
+    reason:
+      "Third-party risk, model risk and procurement reviews stretch financial institution sales cycles.",
+  },
+};
@@ -0,0 +1,184 @@
+import { kw, type VerticalPack } from "./pack";
+
+/** Providers, payers and digital health: PHI, BAAs and clinical proof. */
+export const healthcarePack: VerticalPack = {
+  id: "healthcare",
+  label: "Healthcare",
+  keywords: [
+    "healthcare",
+    "health system",
+    "hospital",
+    "clinic",
+    "clinical",
+    "clinician",
+    "patient",
+    "physician",
+    "nurse",
+    "payer",
+    "health plan",
+    "telehealth",
+    "ehr",
+    "medical",
+  ],
+  personas: [
+    {
+      id: "clinical-leader",
+      persona: "Clinical Operations Leader",
+      keywords: [
+        kw("clinical", 1.5),
+        kw("clinician", 1.2),
+        kw("hospital", 1.2),
+        kw("health system", 1.2),
+        kw("clinic", 1),
+        kw("physician", 1),
+        kw("nurse", 1),
+        kw("care team", 1),
+        kw("healthcare", 1),
+        kw("patient", 0.8),
+        kw("ehr", 0.8),
+      ],
+      needs: [
+        "Workflows that live inside the EHR instead of beside it",
+        "Less documentation time per clinician",
+        "Evidence the tool is safe for patient-facing work",
+      ],
+      triggers: [
+        "Peer health systems live with measured outcomes",
+        "EHR integration validated by hospital IT",
+        "Clinician champions who ran the pilot",
+      ],
+      objections: [
+        "Patient safety and liability if the output is wrong",
+        "Another login for overworked clinicians",
+        "IT integration backlog measured in quarters",
+      ],
+    },
+    {
+      id: "privacy-officer",
+      persona: "Privacy & Compliance Officer",
+      keywords: [
+        kw("hipaa", 1.5),
+        kw("phi", 1.5),
+        kw("privacy", 1.2),
+        kw("compliance", 1),
+        kw("security", 0.8),
+        kw("health plan", 0.8),
+        kw("healthcare", 0.8),
+        kw("payer", 0.6),
+      ],
+      needs: [
+        "A signed BAA and a clear map of where PHI flows",
+        "SOC 2 or HITRUST evidence mapped to HIPAA safeguards",
+        "Audit trails for every access to patient data",
+      ],
+      triggers: [
+        "Security questionnaire answered before it is asked",
+        "Third-party risk assessment already complete",
+        "De-identification options for analytics",
+      ],
+      objections: [
+        "PHI leaving our environment or training models",
+        "Breach notification exposure",
+        "Subprocessors without BAAs",
+      ],
+    },
+  ],
+  channels: [
+    {
+      channel: "Health System Alliances",
+      role: "Reach providers through EHR marketplaces, GPOs and health system innovation centers.",
+      cadences: [
+        "EHR marketplace listings kept current with each release",
+        "Quarterly briefings with GPO and innovation center leads",
+        "Outcome studies co-authored with design-partner health systems",
+      ],
+      kpis: [
+        "Marketplace-sourced opportunities",
+        "Health systems in pilot",
+        "Pilot-to-contract time",
+      ],
+      economics: {
+        minBudget: 5000,
+        laborWeight: 0.8,
+        cpm: 250,
+        organicReachPerFteMonth: 3000,
+        conversionRate: 0.003,
+        goalAffinity: ["pipeline", "revenue", "enterprise", "partner", "pilot"],
+        personaAffinity: ["clinical-leader", "privacy-officer", "executive"],
+      },
+    },
+    {
+      channel: "Clinical Conferences & CME",
+      role: "Earn clinician credibility at HIMSS, specialty society meetings and accredited education.",
+      cadences: [
+        "HIMSS and specialty society presence planned two quarters ahead",
+        "Clinician-led webinars reviewed by medical affairs",
+        "One peer-reviewed abstract or poster per major conference",
+      ],
+      kpis: ["Clinician meetings booked", "Event-influenced pipeline", "Abstract acceptances"],
+      economics: {
+        requiresBudget: true,
+        minBudget: 25_000,
+        spendWeight: 1.1,
+        laborWeight: 0.8,
+        cpm: 90_000,
+        organicReachPerFteMonth: 300,
+        conversionRate: 0.03,
+        goalAffinity: ["pipeline", "awareness", "demos", "enterprise"],
+        personaAffinity: ["clinical-leader"],
+      },
+    },
+  ],
+  pillar: {
+    pillar: "Compliance-Ready Care",
+    narrative: (productName) =>
+      `${productName} protects PHI by design, so care teams adopt it without a privacy trade-off.`,
+    contentAngles: [
+      "HIPAA safeguards walked through one by one",
+      "Clinician time saved, measured in a real pilot",
+      "Where PHI flows, where it is stored and who can see it",
+    ],
+    proofAssets: [
+      "BAA template and subprocessor list",
+      "SOC 2 Type II or HITRUST report",
+      "Pilot outcome study with a named health system",
+    ],
+  },
+  plays: {
+    Ignition: ["Finish the security questionnaire and BAA package before outreach"],
+    Convert: ["Run pilots under a signed BAA with clinical and IT sign-off"],
+  },
+  proofPoints: {
+    Ignition: ["HIPAA security risk assessment summary"],
+    Convert: ["Health system reference willing to take calls"],
+  },
+  claimRestrictions: [
+    {
+      pattern: /\b(cures?|diagnos(e|es|is)|treats? (patients|disease|illness|conditions))\b/i,
+      claim: "Diagnosis or treatment claims",
+      guidance:
+        "Only products cleared for it may claim to diagnose or treat; describe the workflow it supports instead.",
+    },
+    {
+      pattern: /\bclinically (proven|validated)\b/i,
+      claim: "Unsupported clinical evidence",
+      guidance: "Cite the study, population and outcome, and have medical affairs review it.",
+    },
+    {
+      pattern: /\bhipaa[- ]certified\b/i,
+      claim: "HIPAA certification",
+      guidance:
+        "There is no HIPAA certification; say HIPAA-compliant controls, a signed BAA, or name the audit.",
+    },
+    {
+      pattern: /\bfda[- ](approved|cleared)\b/i,
+      claim: "FDA status",
+      guidance: "State only the FDA clearance the product holds, with its clearance number.",
+    },
+  ],
+  timeline: {
+    minimumDays: 120,
+    phaseWeights: { Convert: 5 },
+    reason: "Security review, BAAs and clinical pilots add months to health system buying cycles.",
+  },
+};
@@ -0,0 +1,67 @@
+/**
+ * Registry of industry vertical packs. A brief opts into one with its
+ * `vertical` id; the agent then merges the pack's personas, channels, pillar
+ * and phase proof into the plan, and the plan checks hold copy to the pack's
+ * claim restrictions. Add a pack by writing a module beside this one and
+ * listing it in `verticalPacks`.
+ */
+
+import { extendHorizon, parseLaunchHorizon } from "../timeline";
+import { financialServicesPack } from "./financialServices";
+import { healthcarePack } from "./healthcare";
+import type { ClaimRestriction, VerticalPack } from "./pack";
+import { publicSectorPack } from "./publicSector";
+
+export type {
+  ClaimRestriction,
+  VerticalChannel,
+  VerticalPack,
+  VerticalPillar,
+  VerticalTimeline,
+} from "./pack";
+
+export const verticalPacks: VerticalPack[] = [
+  healthcarePack,
+  financialServicesPack,
+  publicSectorPack,
+];
+
+export type ClaimMatch = ClaimRestriction & {
+  /** The restricted wording as it appears in the text. */
+  text: string;
+};
+
+export function findVerticalPack(id?: string) {
+  return id ? (verticalPacks.find((pack) => pack.id === id) ?? null) : null;
+}
+
+function mentions(text: string, term: string) {
+  return new RegExp(`(^|[^a-z0-9])${term}(e?s)?(?![a-z0-9])`, "i").test(text);
+}
+
+/** Packs whose keywords appear in the text, e.g. an audience that names hospitals. */
+export function suggestVerticalPacks(text: string) {
+  return verticalPacks.filter((pack) => pack.keywords.some((term) => mentions(text, term)));
+}
+
+/** Restricted claims in the text, one entry per restriction it breaks. */
+export function findRestrictedClaims(pack: VerticalPack, text: string): ClaimMatch[] {
+  return pack.claimRestrictions.flatMap((restriction) => {
+    const match = text.match(restriction.pattern);
+    return match ? [{ ...restriction, text: match[0] }] : [];
+  });
+}
+
+/**
+ * The launch window for a brief: its parsed horizon, stretched to the
+ * selected pack's minimum so regulated buying cycles fit inside it.
+ */
+export function launchHorizonFor(brief: {
+  launchHorizon: string;
+  launchStartDate?: string;
+  vertical?: string;
+}) {
+  const horizon = parseLaunchHorizon(brief.launchHorizon, brief.launchStartDate);
+  const pack = findVerticalPack(brief.vertical);
+  return pack ? extendHorizon(horizon, pack.timeline.minimumDays) : horizon;
+}
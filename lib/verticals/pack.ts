@@ -0,0 +1,57 @@
+/**
+ * Shape of an industry vertical pack. A pack layers vertical-specific
+ * personas, channels, proof and claim rules over the generic SaaS playbook,
+ * and can stretch the launch to fit the vertical's buying cycle. Each pack
+ * lives in its own module next to this one and is registered in `index.ts`.
+ */
+
+import type { ChannelEconomics } from "../allocation";
+import type { PersonaArchetype, PersonaKeyword } from "../personas";
+
+export type VerticalChannel = {
+  channel: string;
+  role: string;
+  cadences: string[];
+  kpis: string[];
+  /** Allocation heuristics; anything left out uses the defaults in `allocation.ts`. */
+  economics: Partial<ChannelEconomics>;
+};
+
+export type VerticalPillar = {
+  pillar: string;
+  narrative: (productName: string) => string;
+  contentAngles: string[];
+  proofAssets: string[];
+};
+
+export type ClaimRestriction = {
+  /** Case-insensitive pattern for the restricted wording. */
+  pattern: RegExp;
+  claim: string;
+  guidance: string;
+};
+
+export type VerticalTimeline = {
+  /** Launches shorter than this are stretched to it. */
+  minimumDays: number;
+  /** Overrides the default relative phase weights in `timeline.ts`. */
+  phaseWeights: Record<string, number>;
+  reason: string;
+};
+
+export type VerticalPack = {
+  id: string;
+  label: string;
+  /** Audience terms that suggest the pack when none is selected. */
+  keywords: string[];
+  personas: PersonaArchetype[];
+  channels: VerticalChannel[];
+  pillar: VerticalPillar;
+  /** Extra plays and proof points, keyed by launch phase name. */
+  plays: Record<string, string[]>;
+  proofPoints: Record<string, string[]>;
+  claimRestrictions: ClaimRestriction[];
+  timeline: VerticalTimeline;
+};
+
+export const kw = (term: string, weight = 1): PersonaKeyword => ({ term, weight });
@@ -0,0 +1,176 @@
+import { kw, type VerticalPack } from "./pack";
+
+/** Federal, state and local government: procurement, authorization and fiscal years. */
+export const publicSectorPack: VerticalPack = {
+  id: "public-sector",
+  label: "Public sector",
+  keywords: [
+    "public sector",
+    "government",
+    "agency",
+    "federal",
+    "state government",
+    "local government",
+    "municipal",
+    "municipality",
+    "county",
+    "city",
+    "ministry",
+    "council",
+    "procurement",
+  ],
+  personas: [
+    {
+      id: "program-manager",
+      persona: "Agency Program Manager",
+      keywords: [
+        kw("agency", 1.5),
+        kw("public sector", 1.5),
+        kw("government", 1.2),
+        kw("federal", 1.2),
+        kw("municipal", 1.2),
+        kw("county", 1),
+        kw("citizen", 1),
+        kw("constituent", 1),
+        kw("city", 0.8),
+        kw("program", 0.8),
+        kw("mission", 0.6),
+      ],
+      needs: [
+        "Outcomes that map to the agency's mission and performance goals",
+        "Services every constituent can use, including Section 508 accessibility",
+        "A rollout that fits the fiscal year and its appropriations",
+      ],
+      triggers: [
+        "A peer agency already live",
+        "An existing contract vehicle or cooperative agreement to buy through",
+        "Modernization or grant funding identified",
+      ],
+      objections: [
+        "Procurement rules that make buying slow or impossible",
+        "Public scrutiny if a service fails",
+        "Change fatigue among long-tenured staff",
+      ],
+    },
+    {
+      id: "procurement-officer",
+      persona: "Procurement & Contracting Officer",
+      keywords: [
+        kw("procurement", 1.5),
+        kw("contracting", 1.5),
+        kw("rfp", 1.5),
+        kw("purchasing", 1.2),
+        kw("acquisition", 1),
+        kw("public sector", 1),
+        kw("government", 0.8),
+        kw("agency", 0.8),
+      ],
+      needs: [
+        "A compliant way to buy: GSA Schedule, cooperative contract or RFP",
+        "Security authorization (FedRAMP, StateRAMP) or a credible path to it",
+        "Pricing that fits a fixed budget line",
+      ],
+      triggers: [
+        "Listing on a contract vehicle the agency already uses",
+        "Completed security authorization",
+        "References and past performance from other agencies",
+      ],
+      objections: [
+        "Sole-source justifications that are hard to write",
+        "Missing certifications the solicitation requires",
+        "Usage-based pricing that can't be budgeted",
+      ],
+    },
+  ],
+  channels: [
+    {
+      channel: "Contract Vehicles & Resellers",
+      role: "Make the product buyable through GSA Schedule, cooperative contracts and public sector resellers.",
+      cadences: [
+        "Contract vehicle listings and price lists kept current",
+        "Monthly pipeline reviews with public sector resellers",
+        "RFP response library refreshed every quarter",
+      ],
+      kpis: ["Contract vehicles available", "Reseller-sourced opportunities", "RFP win rate"],
+      economics: {
+        minBudget: 5000,
+        laborWeight: 1.1,
+        cpm: 250,
+        organicReachPerFteMonth: 2500,
+        conversionRate: 0.003,
+        goalAffinity: ["pipeline", "revenue", "enterprise", "contract"],
+        personaAffinity: ["procurement-officer", "program-manager"],
+      },
+    },
+    {
+      channel: "Government Events & Briefings",
+      role: "Meet agency leaders where they convene and brief them on modernization outcomes.",
+      cadences: [
+        "Government technology summits booked a fiscal year ahead",
+        "Agency briefings within ethics and gift rules",
+        "Follow-up briefings timed to budget planning",
+      ],
+      kpis: ["Agency meetings booked", "Event-influenced pipeline", "Agencies in evaluation"],
+      economics: {
+        requiresBudget: true,
+        minBudget: 20_000,
+        spendWeight: 1.1,
+        laborWeight: 0.8,
+        cpm: 100_000,
+        organicReachPerFteMonth: 250,
+        conversionRate: 0.03,
+        goalAffinity: ["pipeline", "awareness", "enterprise"],
+        personaAffinity: ["program-manager", "executive"],
+      },
+    },
+  ],
+  pillar: {
+    pillar: "Mission-Ready Modernization",
+    narrative: (productName) =>
+      `${productName} helps agencies serve the public better within procurement and security rules.`,
+    contentAngles: [
+      "Mission outcomes measured at a peer agency",
+      "How to buy: vehicles, cooperative contracts and RFP language",
+      "Accessibility and security authorization status, explained plainly",
+    ],
+    proofAssets: [
+      "Contract vehicle and pricing sheet",
+      "FedRAMP or StateRAMP status letter",
+      "Section 508 conformance report (VPAT)",
+    ],
+  },
+  plays: {
+    Ignition: ["Confirm a contract vehicle and security authorization path before outreach"],
+    Convert: ["Support procurement with RFP language and sole-source justification drafts"],
+  },
+  proofPoints: {
+    Ignition: ["Accessibility conformance report (VPAT)"],
+    Convert: ["Peer agency reference and past performance record"],
+  },
+  claimRestrictions: [
+    {
+      pattern: /\b(government|agency|state)[- ](approved|endorsed)\b/i,
+      claim: "Government endorsement",
+      guidance:
+        "Agencies don't endorse vendors; name the contract vehicle or authorization instead.",
+    },
+    {
+      pattern: /\bfedramp[- ](certified|compliant|approved)\b/i,
+      claim: "FedRAMP status",
+      guidance:
+        "State the exact FedRAMP status (Ready, In Process or Authorized) and impact level.",
+    },
+    {
+      pattern: /\bfree (gifts?|pilots?)\b/i,
+      claim: "Gifts to officials",
+      guidance:
+        "Free pilots and gifts can breach ethics rules; offer no-cost evaluations only through the agency's approved process.",
+    },
+  ],
+  timeline: {
+    minimumDays: 180,
+    phaseWeights: { Convert: 6 },
+    reason:
+      "Procurement windows, security authorization and fiscal-year budgets make public sector launches the longest.",
+  },
+};
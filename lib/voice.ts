@@ -0,0 +1,460 @@
+/**
+ * Brand voice engine. Each voice defines preferred vocabulary, sentence style
+ * and banned phrases. The agent rewrites every generated text field through
+ * the selected voice and audits the result, so picking "Bold, visionary"
+ * changes the copy rather than one adjective in the summary. Custom voices
+ * are inferred from a handful of sample sentences.
+ */
+
+import { escapeRegExp } from "./format";
+
+export type VoiceProfile = {
+  label: string;
+  /**
+   * Whole-word swaps applied to generated copy, e.g. "utilize" → "use". Swaps
+   * change tone only: a verb never becomes one that means something else.
+   */
+  vocabulary: Record<string, string>;
+  /** Longest sentence, in words, before the audit flags it. */
+  maxSentenceWords: number;
+  /** True to contract ("we're"), false to expand ("we are"). */
+  contractions: boolean;
+  exclamations: boolean;
+  bannedPhrases: string[];
+};
+
+export type VoiceViolation = {
+  section: string;
+  /** Dotted path to the field, e.g. "messagingPillars.0.narrative". */
+  path: string;
+  text: string;
+  rule: string;
+};
+
+export type VoiceReport = {
+  voice: string;
+  source: "preset" | "custom" | "inferred";
+  maxSentenceWords: number;
+  contractions: boolean;
+  bannedPhrases: string[];
+  /** Recurring words in the samples of a custom voice. */
+  signatureWords: string[];
+  violations: VoiceViolation[];
+};
+
+const MAX_VIOLATIONS = 40;
+
+/** Corporate filler no voice wants. */
+const jargon = [
+  "synergy",
+  "circle back",
+  "move the needle",
+  "low-hanging fruit",
+  "paradigm shift",
+  "at the end of the day",
+];
+
+export const voiceProfiles: VoiceProfile[] = [
+  {
+    label: "Confident, strategic",
+    vocabulary: {
+      hopefully: "deliberately",
+      "try to": "set out to",
+      help: "enable",
+      helps: "enables",
+      generate: "build",
+      showcase: "demonstrate",
+    },
+    maxSentenceWords: 28,
+    contractions: false,
+    exclamations: false,
+    bannedPhrases: [...jargon, "we think", "kind of", "sort of"],
+  },
+  {
+    label: "Bold, visionary",
+    vocabulary: {
+      help: "empower",
+      helps: "empowers",
+      translate: "turn",
+      collapse: "crush",
+      measurable: "undeniable",
+      quantifiable: "undeniable",
+      publish: "unleash",
+      showcase: "spotlight",
+    },
+    maxSentenceWords: 20,
+    contractions: true,
+    exclamations: false,
+    bannedPhrases: [...jargon, "perhaps", "somewhat", "incremental"],
+  },
+  {
+    label: "Analytical, data-forward",
+    vocabulary: {
+      huge: "significant",
+      massive: "measurable",
+      dramatically: "measurably",
+      dramatizing: "quantifying",
+      dramatizes: "quantifies",
+      dramatize: "quantify",
+      amazing: "proven",
+      hero: "benchmark",
+      storytelling: "evidence-led narrative",
+      vision: "thesis",
+      wins: "results",
+      showcase: "quantify",
+      illustrating: "quantifying",
+      ignite: "initiate",
+    },
+    maxSentenceWords: 30,
+    contractions: false,
+    exclamations: false,
+    bannedPhrases: [
+      ...jargon,
+      "revolutionary",
+      "game-changing",
+      "world-class",
+      "best-in-class",
+      "unprecedented",
+      "magic",
+    ],
+  },
+  {
+    label: "Friendly, community-driven",
+    vocabulary: {
+      utilize: "use",
+      leverage: "use",
+      purchase: "buy",
+      assist: "help",
+      stakeholders: "teammates",
+      orchestrate: "bring together",
+      orchestrated: "coordinated",
+      mobilize: "rally",
+      deploy: "roll out",
+      collapse: "shorten",
+      governance: "guardrails",
+      teardown: "walkthrough",
+      webinar: "live session",
+      objection: "question",
+      objections: "questions",
+    },
+    maxSentenceWords: 22,
+    contractions: true,
+    exclamations: true,
+    bannedPhrases: [...jargon, "enterprise-grade", "mission-critical", "utilize"],
+  },
+];
+
+export const voicePresets = voiceProfiles.map((profile) => profile.label);
+
+/** Label the intake form uses for a voice learned from sample sentences. */
+export const CUSTOM_VOICE = "Custom (from samples)";
+
+const contractionPairs: Array<[string, string]> = [
+  ["do not", "don't"],
+  ["does not", "doesn't"],
+  ["is not", "isn't"],
+  ["are not", "aren't"],
+  ["cannot", "can't"],
+  ["will not", "won't"],
+  ["it is", "it's"],
+  ["that is", "that's"],
+  ["we are", "we're"],
+  ["you are", "you're"],
+  ["they are", "they're"],
+  ["we will", "we'll"],
+  ["you will", "you'll"],
+];
+
+/** Keys whose values are identifiers, dates or enum values rather than copy. */
+const protectedKeys = new Set([
+  "id",
+  "name",
+  "persona",
+  "channel",
+  "pillar",
+  "phase",
+  "stage",
+  "kind",
+  "label",
+  "competitor",
+  "dimension",
+  "columns",
+  "cells",
+  "tags",
+  "matchedKeywords",
+  "startDate",
+  "endDate",
+  "date",
+  "dueDate",
+  "unit",
+  "northStar",
+  "pricePoint",
+  "duration",
+  "cadence",
+  "source",
+  "theme",
+  "criterion",
+  "goalMotion",
+  "models",
+  "primaryModel",
+  "price",
+  "severity",
+  "field",
+  "segment",
+  "status",
+  "driver",
+  "assumed",
+]);
+
+/**
+ * Sections the voice never touches: the report describes the voice itself,
+ * and regional variants are voiced or translated when they're built.
+ */
+const unvoicedSections = new Set(["voiceReport", "regionalVariants"]);
+
+function wordPattern(phrase: string) {
+  return new RegExp(`\\b${escapeRegExp(phrase)}\\b`, "gi");
+}
+
+function matchCase(original: string, replacement: string) {
+  return /^[A-Z]/.test(original)
+    ? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+    : replacement;
+}
+
+function sentencesOf(text: string) {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function wordCount(sentence: string) {
+  return sentence.split(/\s+/).filter(Boolean).length;
+}
+
+const stopWords = new Set(
+  "a an and are as at be but by for from has have in is it its of on or our so that the their this to we with you your".split(
+    " ",
+  ),
+);
+
+/**
+ * Learns sentence length, contraction and exclamation habits from samples.
+ * Vocabulary stays untouched: a few sentences are too little to rewrite from.
+ */
+export function voiceFromSamples(label: string, samples: string[]): VoiceProfile {
+  const sentences = samples.flatMap(sentencesOf);
+  const averageWords = sentences.length
+    ? sentences.reduce((sum, sentence) => sum + wordCount(sentence), 0) / sentences.length
+    : 20;
+  const text = samples.join(" ");
+  const contractionHits = (text.match(/\b\w+'(t|re|ll|s|ve|d)\b/gi) ?? []).length;
+
+  return {
+    label,
+    vocabulary: {},
+    maxSentenceWords: Math.max(12, Math.round(averageWords * 1.5)),
+    contractions: contractionHits > 0,
+    exclamations: text.includes("!"),
+    bannedPhrases: [...jargon],
+  };
+}
+
+/** Words that appear in the samples often enough to count as signature vocabulary. */
+export function signatureWords(samples: string[], limit = 6) {
+  const counts = new Map<string, number>();
+  samples
+    .join(" ")
+    .toLowerCase()
+    .match(/[a-z][a-z'-]{3,}/g)
+    ?.filter((word) => !stopWords.has(word))
+    .forEach((word) => counts.set(word, (counts.get(word) ?? 0) + 1));
+
+  return Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([word]) => word);
+}
+
+/**
+ * Picks the voice for a brief: an exact preset, a custom voice when samples
+ * are supplied, else the preset sharing the most words with the free text.
+ */
+export function resolveVoice(
+  brandVoice: string,
+  samples: string[] = [],
+): { profile: VoiceProfile; source: VoiceReport["source"] } {
+  const wanted = brandVoice.trim().toLowerCase();
+  const preset = voiceProfiles.find((profile) => profile.label.toLowerCase() === wanted);
+  if (preset) {
+    return { profile: preset, source: "preset" };
+  }
+
+  const usable = samples.map((sample) => sample.trim()).filter(Boolean);
+  if (usable.length) {
+    return { profile: voiceFromSamples(brandVoice || CUSTOM_VOICE, usable), source: "custom" };
+  }
+
+  const words = wanted.split(/[^a-z-]+/).filter(Boolean);
+  const scored = voiceProfiles
+    .map((profile) => ({
+      profile,
+      score: words.filter((word) => profile.label.toLowerCase().includes(word)).length,
+    }))
+    .sort((a, b) => b.score - a.score);
+  return { profile: scored[0].profile, source: "inferred" };
+}
+
+/**
+ * Strings of the brief that generated copy quotes, such as the goal or the
+ * product summary. The voice leaves them as the user wrote them.
+ */
+export function quotedBriefText(brief: object): string[] {
+  return Object.values(brief).flatMap((value) =>
+    typeof value === "string"
+      ? [value]
+      : Array.isArray(value)
+        ? value.filter((entry) => typeof entry === "string")
+        : [],
+  );
+}
+
+/** Matches any quoted brief text; templates may lower-case it or drop its full stop. */
+function quotePattern(quoted: string[]) {
+  const phrases = quoted
+    .map((text) => text.trim().replace(/[.!?]+$/, ""))
+    .filter((text) => text.length > 2)
+    .sort((a, b) => b.length - a.length);
+  return phrases.length ? new RegExp(`(${phrases.map(escapeRegExp).join("|")})`, "gi") : null;
+}
+
+function voiceText(text: string, voice: VoiceProfile) {
+  let result = text;
+
+  Object.entries(voice.vocabulary).forEach(([from, to]) => {
+    result = result.replace(wordPattern(from), (match) => matchCase(match, to));
+  });
+
+  contractionPairs.forEach(([long, short]) => {
+    const [from, to] = voice.contractions ? [long, short] : [short, long];
+    result = result.replace(wordPattern(from), (match) => matchCase(match, to));
+  });
+
+  if (!voice.exclamations) {
+    result = result.replace(/!+/g, ".");
+  }
+
+  return result;
+}
+
+/** Split parts at odd indices are the captured quotes, kept as written. */
+function voiceAround(text: string, voice: VoiceProfile, quotes: RegExp | null) {
+  return quotes
+    ? text
+        .split(quotes)
+        .map((part, index) => (index % 2 ? part : voiceText(part, voice)))
+        .join("")
+    : voiceText(text, voice);
+}
+
+export function applyVoiceToText(text: string, voice: VoiceProfile, quoted: string[] = []) {
+  return voiceAround(text, voice, quotePattern(quoted));
+}
+
+function rewrite(value: unknown, voice: VoiceProfile, quotes: RegExp | null, key = ""): unknown {
+  if (protectedKeys.has(key)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    return voiceAround(value, voice, quotes);
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => rewrite(entry, voice, quotes, key));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([field, entry]) => [field, rewrite(entry, voice, quotes, field)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Rewrites every copy field of a section; identifiers, dates and text quoted
+ * from the brief are left alone.
+ */
+export function applyVoice<T>(
+  section: string,
+  value: T,
+  voice: VoiceProfile,
+  quoted: string[] = [],
+): T {
+  return unvoicedSections.has(section) ? value : (rewrite(value, voice, quotePattern(quoted)) as T);
+}
+
+function collectCopy(value: unknown, path: string, key: string, out: Array<[string, string]>) {
+  if (protectedKeys.has(key)) {
+    return;
+  }
+  if (typeof value === "string") {
+    out.push([path, value]);
+  } else if (Array.isArray(value)) {
+    value.forEach((entry, index) => collectCopy(entry, `${path}.${index}`, key, out));
+  } else if (value && typeof value === "object") {
+    Object.entries(value).forEach(([field, entry]) =>
+      collectCopy(entry, `${path}.${field}`, field, out),
+    );
+  }
+}
+
+/**
+ * Flags copy that still breaks the voice after rewriting: banned phrases
+ * (often carried in from the brief itself), over-long sentences and
+ * exclamations in voices that avoid them.
+ */
+export function auditVoice(
+  sections: Record<string, unknown>,
+  voice: VoiceProfile,
+  source: VoiceReport["source"],
+  samples: string[] = [],
+): VoiceReport {
+  const violations: VoiceViolation[] = [];
+
+  Object.entries(sections)
+    .filter(([section]) => !unvoicedSections.has(section))
+    .forEach(([section, value]) => {
+      const copy: Array<[string, string]> = [];
+      collectCopy(value, section, "", copy);
+
+      copy.forEach(([path, text]) => {
+        const banned = voice.bannedPhrases.find((phrase) => wordPattern(phrase).test(text));
+        if (banned) {
+          violations.push({ section, path, text, rule: `Uses banned phrase "${banned}"` });
+        }
+        const longest = Math.max(...sentencesOf(text).map(wordCount), 0);
+        if (longest > voice.maxSentenceWords) {
+          violations.push({
+            section,
+            path,
+            text,
+            rule: `Sentence runs ${longest} words; this voice keeps them under ${voice.maxSentenceWords}`,
+          });
+        }
+        if (!voice.exclamations && text.includes("!")) {
+          violations.push({ section, path, text, rule: "Exclamation marks are off-voice" });
+        }
+      });
+    });
+
+  return {
+    voice: voice.label,
+    source,
+    maxSentenceWords: voice.maxSentenceWords,
+    contractions: voice.contractions,
+    bannedPhrases: voice.bannedPhrases,
+    signatureWords: source === "custom" ? signatureWords(samples) : [],
+    violations: violations.slice(0, MAX_VIOLATIONS),
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Batch blueprint generation outside the browser. Reads `GTMRequest` briefs
+ * from JSON or YAML files (or stdin), validates them against the same schema as
+ * `/api/agent`, and writes one blueprint per brief to an output directory:
+ *
+ *   npm run blueprints -- briefs/*.yaml --out launch-docs --format markdown
+ *   cat brief.json | npm run blueprints -- --out launch-docs
+ *
+ * A file may hold one brief or a list of briefs, and a YAML file may hold
+ * several documents. Valid briefs are always written; the exit code is 1 when
+ * any brief could not be read or failed validation.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { parseAllDocuments } from "yaml";
+import { runGoToMarketAgent, type GTMRequest } from "../lib/agent";
+import { buildBlueprintDocument } from "../lib/document";
+import { renderMarkdown } from "../lib/export";
+import { slugify } from "../lib/format";
+import { loadCustomArchetypes } from "../lib/personaConfig";
+import { createProviderFromEnv } from "../lib/providers";
+import { parseBrief, type ValidationError } from "../lib/validation";
+
+type OutputFormat = "json" | "markdown";
+
+const outputExtensions: Record<OutputFormat, string> = { json: "json", markdown: "md" };
+
+const STDIN = "-";
+
+const usage = `Usage: npm run blueprints -- [files...] [--out <dir>] [--format json|markdown]
+
+Reads briefs from JSON or YAML files, or from stdin when no file (or "-") is given.
+
+Options:
+  -o, --out <dir>       Output directory (default: blueprints)
+  -f, --format <fmt>    json or markdown (default: json)
+  -h, --help            Show this help`;
+
+/** A parsed brief, or the reason its source could not be read. */
+type Brief = { source: string; payload?: unknown; error?: string };
+
+type Outcome = {
+  source: string;
+  product: string;
+  status: "written" | "invalid" | "failed";
+  detail: string;
+  warnings: number | null;
+};
+
+function isOutputFormat(value: string): value is OutputFormat {
+  return Object.hasOwn(outputExtensions, value);
+}
+
+async function readStdin() {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/** JSON files parse strictly; YAML files and stdin go through YAML, a superset of JSON. */
+function parseBriefs(source: string, text: string): unknown[] {
+  const documents = /\.json$/i.test(source)
+    ? [JSON.parse(text)]
+    : parseAllDocuments(text).flatMap((document) => {
+        if ("errors" in document && document.errors.length) {
+          throw document.errors[0];
+        }
+        return [document.toJS()];
+      });
+  return documents.flatMap((document) => (Array.isArray(document) ? document : [document]));
+}
+
+async function loadBriefs(sources: string[]) {
+  const briefs: Brief[] = [];
+
+  for (const source of sources) {
+    const label = source === STDIN ? "stdin" : source;
+    try {
+      const text = source === STDIN ? await readStdin() : await fs.readFile(source, "utf8");
+      const entries = parseBriefs(source, text);
+      entries.forEach((payload, index) =>
+        briefs.push({ source: entries.length > 1 ? `${label}#${index + 1}` : label, payload }),
+      );
+    } catch (err) {
+      briefs.push({
+        source: label,
+        error: err instanceof Error ? err.message.split("\n")[0] : "Could not read briefs.",
+      });
+    }
+  }
+
+  return briefs;
+}
+
+/** Product lines that share a name get numbered files instead of overwriting each other. */
+function uniqueName(base: string, taken: Set<string>) {
+  let name = base;
+  for (let counter = 2; taken.has(name); counter += 1) {
+    name = `${base}-${counter}`;
+  }
+  taken.add(name);
+  return name;
+}
+
+function describeInvalid(error: ValidationError) {
+  const details = (error.fieldErrors ?? []).map((entry) => entry.message);
+  return details.length ? details.join(" ") : error.message;
+}
+
+function printTable(outcomes: Outcome[]) {
+  const headers = ["Source", "Product", "Status", "Warnings", "Output / error"];
+  const rows = outcomes.map((outcome) => [
+    outcome.source,
+    outcome.product,
+    outcome.status,
+    outcome.warnings === null ? "-" : String(outcome.warnings),
+    outcome.detail,
+  ]);
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => row[column].length)),
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join("  ")
+      .trimEnd();
+
+  console.log(line(headers));
+  console.log(line(widths.map((width) => "-".repeat(width))));
+  rows.forEach((row) => console.log(line(row)));
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o", default: "blueprints" },
+      format: { type: "string", short: "f", default: "json" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(usage);
+    return 0;
+  }
+  const format = values.format ?? "json";
+  if (!isOutputFormat(format)) {
+    console.error(`Unknown format "${format}". Use json or markdown.\n\n${usage}`);
+    return 2;
+  }
+
+  const briefs = await loadBriefs(positionals.length ? positionals : [STDIN]);
+  const outDir = values.out ?? "blueprints";
+  await fs.mkdir(outDir, { recursive: true });
+
+  const options = {
+    provider: createProviderFromEnv(),
+    customArchetypes: await loadCustomArchetypes(),
+  };
+  const taken = new Set<string>();
+  const outcomes: Outcome[] = [];
+
+  // One brief at a time keeps provider calls and the summary order predictable.
+  for (const { source, payload, error } of briefs) {
+    if (error) {
+      outcomes.push({ source, product: "-", status: "failed", detail: error, warnings: null });
+      continue;
+    }
+    const parsed = parseBrief(payload);
+    if (!parsed.ok) {
+      const name = (payload as Partial<GTMRequest> | null)?.productName;
+      outcomes.push({
+        source,
+        product: typeof name === "string" && name.trim() ? name.trim() : "-",
+        status: "invalid",
+        detail: describeInvalid(parsed.error),
+        warnings: null,
+      });
+      continue;
+    }
+
+    const request = parsed.brief;
+    const product = request.productName;
+    try {
+      const run = await runGoToMarketAgent(request, options);
+      const body =
+        format === "markdown"
+          ? renderMarkdown(buildBlueprintDocument(request, run.blueprint))
+          : `${JSON.stringify(
+              {
+                ...run.blueprint,
+                provenance: run.provenance,
+                trace: run.trace,
+                warnings: run.warnings,
+              },
+              null,
+              2,
+            )}\n`;
+      const baseName = uniqueName(slugify(request.productName) || "gtm-blueprint", taken);
+      const fileName = `${baseName}.${outputExtensions[format]}`;
+      const outPath = path.join(outDir, fileName);
+      await fs.writeFile(outPath, body, "utf8");
+      outcomes.push({
+        source,
+        product,
+        status: "written",
+        detail: outPath,
+        warnings: run.warnings.length,
+      });
+    } catch (err) {
+      outcomes.push({
+        source,
+        product,
+        status: "failed",
+        detail: err instanceof Error ? err.message : "Failed to generate plan.",
+        warnings: null,
+      });
+    }
+  }
+
+  if (!outcomes.length) {
+    console.error("No briefs found.");
+    return 1;
+  }
+  printTable(outcomes);
+  return outcomes.every((outcome) => outcome.status === "written") ? 0 : 1;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  },
+);